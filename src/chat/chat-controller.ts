@@ -1,7 +1,14 @@
 import db from '../db/connection';
 import { ReportGenerator } from '../reports/generator';
 import { QueryAnalyzer } from './query-analyzer';
-import { ChatEvent } from '../types/chat';
+import { ChatEvent, ChatMessage, ChatReportRequest, QueryAnalysis } from '../types/chat';
+import { Report } from '../types';
+import { reportDocument } from '../reports/report-document';
+import { renderChatMarkdown } from '../reports/document-renderers';
+import { ReportTemplateConfig } from '../config/report-templates';
+
+// A reply asking to regenerate the session's latest report, e.g. "refresh" or "regenerate it"
+const REFRESH_COMMAND = /^\s*(?:please\s+)?(?:refresh|regenerate|update)(?:\s+(?:it|this|that|the report))?\s*[.!]*\s*$/i;
 
 export class ChatController {
   private reportGenerator: ReportGenerator;
@@ -17,7 +24,10 @@ export class ChatController {
     }
   }
 
-  async *handleMessage(sessionId: string, userMessage: string): AsyncGenerator<ChatEvent> {
+  // template is the one the user picked in chat, if any; its source rules override the
+  // analyzer's guesses at how many sources and how far back to look. Replying "refresh", or
+  // forceRefresh, regenerates instead of returning a recent report on the same question.
+  async *handleMessage(sessionId: string, userMessage: string, template?: ReportTemplateConfig, forceRefresh = false): AsyncGenerator<ChatEvent> {
     try {
       console.log(`💬 Processing message in session ${sessionId}: "${userMessage.substring(0, 50)}..."`);
 
@@ -28,31 +38,64 @@ export class ChatController {
         content: userMessage
       });
 
-      // 2. Analyze query with LLM
-      yield {
-        type: 'status',
-        stage: 'analyzing_query',
-        message: 'Understanding your research question...'
-      };
+      // 2. Work out what to research: the previous request again, or a new analysed question
+      const isRefresh = REFRESH_COMMAND.test(userMessage);
+      const previous = isRefresh ? await this.previousRequest(sessionId) : null;
+      let request: ChatReportRequest;
 
-      const analysis = await this.queryAnalyzer.analyze(userMessage);
+      if (isRefresh && !previous) {
+        const reply = 'There is no earlier report in this conversation to refresh. What would you like me to research?';
+        yield { type: 'content', content: reply };
+        await db.insertChatMessage({ session_id: sessionId, role: 'assistant', content: reply });
+        return;
+      }
 
-      // Update session title if it's the first message or generic
-      try {
-        const session = await db.getChatSession(sessionId);
-        if (session && (session.title === 'New Research' || !session.title)) {
-          const title = analysis.topic.substring(0, 100);
-          await db.updateChatSessionTitle(sessionId, title);
+      if (previous) {
+        request = previous;
+        forceRefresh = true;
+
+        yield {
+          type: 'content',
+          content: `Refreshing the report on **${request.topic}** with the latest sources.`
+        };
+      } else {
+        yield {
+          type: 'status',
+          stage: 'analyzing_query',
+          message: 'Understanding your research question...'
+        };
+
+        const analysis = await this.queryAnalyzer.analyze(userMessage);
+
+        // Update session title if it's the first message or generic
+        try {
+          const session = await db.getChatSession(sessionId);
+          if (session && (session.title === 'New Research' || !session.title)) {
+            const title = analysis.topic.substring(0, 100);
+            await db.updateChatSessionTitle(sessionId, title);
+          }
+        } catch (titleError) {
+          console.warn('Could not update session title:', titleError);
         }
-      } catch (titleError) {
-        console.warn('Could not update session title:', titleError);
-      }
 
-      // Send analysis details
-      yield {
-        type: 'content',
-        content: `I'll research **${analysis.topic}** using up to ${analysis.max_sources} sources from the past ${analysis.time_range_days} days.\n\n${analysis.focus_areas.length > 0 ? `**Focus areas:** ${analysis.focus_areas.join(', ')}` : ''}`
-      };
+        const rules = template?.source_rules || {};
+        request = {
+          topic: analysis.topic,
+          intent: analysis.intent,
+          max_sources: rules.max_sources ?? analysis.max_sources,
+          time_range_days: rules.time_range_days ?? analysis.time_range_days,
+          scoring_profile: rules.scoring_profile,
+          topics: rules.topics,
+          template: template?.slug,
+          focus_areas: analysis.focus_areas
+        };
+
+        // Send analysis details
+        yield {
+          type: 'content',
+          content: `I'll research **${request.topic}**${template ? ` as a ${template.name}` : ''} using up to ${request.max_sources} sources from the past ${request.time_range_days} days.\n\n${analysis.focus_areas.length > 0 ? `**Focus areas:** ${analysis.focus_areas.join(', ')}` : ''}`
+        };
+      }
 
       // 3. Start research with progress updates
       yield {
@@ -62,11 +105,18 @@ export class ChatController {
         percentage: 20
       };
 
-      // Generate report
+      // Generate report, or reuse a recent one on the same question
       const result = await this.reportGenerator.generateReport(
-        analysis.topic,
-        analysis.max_sources,
-        analysis.time_range_days
+        request.topic,
+        request.max_sources,
+        request.time_range_days,
+        {
+          intent: request.intent,
+          scoringProfile: request.scoring_profile,
+          topics: request.topics,
+          template: request.template,
+          forceRefresh
+        }
       );
 
       if (!result.success || !result.report) {
@@ -74,19 +124,24 @@ export class ChatController {
       }
 
       const report = result.report;
+      const cached = result.cached;
 
-      console.log(`✅ Report generated: ${report.id} with ${report.source_count} sources`);
+      if (cached) {
+        console.log(`♻️ Reused report ${report.id} (${cached.age_hours.toFixed(1)}h old)`);
+      } else {
+        console.log(`✅ Report generated: ${report.id} with ${report.source_count} sources`);
 
-      // 4. Provide progress updates during synthesis
-      yield {
-        type: 'status',
-        stage: 'synthesizing',
-        message: `Analyzing ${report.source_count} sources...`,
-        percentage: 80
-      };
+        // 4. Provide progress updates during synthesis
+        yield {
+          type: 'status',
+          stage: 'synthesizing',
+          message: `Analyzing ${report.source_count} sources...`,
+          percentage: 80
+        };
+      }
 
       // 5. Stream report summary with markdown formatting
-      const formattedSummary = this.formatReportSummary(report);
+      const formattedSummary = this.formatReportSummary(report, cached?.age_hours);
 
       yield {
         type: 'content',
@@ -105,9 +160,12 @@ export class ChatController {
           citation_count: report.citation_count,
           word_count: report.word_count,
           pdf_path: report.pdf_path,
-          created_at: report.created_at
+          created_at: report.created_at,
+          cached: !!cached
         },
-        message: `Research complete! Found ${report.source_count} sources with ${report.citation_count} citations. Confidence: ${((report.confidence_score || 0) * 100).toFixed(0)}%`,
+        message: cached
+          ? `Found a report on this from ${formatAge(cached.age_hours)} ago with ${report.source_count} sources. Reply "refresh" to regenerate it.`
+          : `Research complete! Found ${report.source_count} sources with ${report.citation_count} citations. Confidence: ${((report.confidence_score || 0) * 100).toFixed(0)}%`,
         percentage: 100
       };
 
@@ -118,7 +176,8 @@ export class ChatController {
         content: report.executive_summary || formattedSummary,
         report_id: report.id,
         metadata: {
-          analysis,
+          request,
+          cached: !!cached,
           report_stats: {
             source_count: report.source_count,
             citation_count: report.citation_count,
@@ -151,10 +210,35 @@ export class ChatController {
     }
   }
 
-  private formatReportSummary(report: any): string {
-    const summary = report.executive_summary || 'No summary available.';
+  // The request behind the latest report in the session, for "refresh"
+  private async previousRequest(sessionId: string): Promise<ChatReportRequest | null> {
+    const messages: ChatMessage[] = await db.getChatMessages(sessionId);
+    for (const message of messages.reverse()) {
+      if (message.role !== 'assistant') continue;
+      if (message.metadata?.request) return message.metadata.request;
+
+      // Replies from before requests were stored kept the analysis they were generated from
+      const analysis: QueryAnalysis | undefined = message.metadata?.analysis;
+      if (analysis) {
+        return {
+          topic: analysis.topic,
+          intent: analysis.intent,
+          max_sources: analysis.max_sources,
+          time_range_days: analysis.time_range_days,
+          focus_areas: analysis.focus_areas
+        };
+      }
+    }
+    return null;
+  }
+
+  private formatReportSummary(report: Report, cachedAgeHours?: number): string {
+    const summary = renderChatMarkdown(reportDocument(report));
+    const heading = cachedAgeHours === undefined
+      ? '## Research Complete! 🎉'
+      : `## Recent Report Found ♻️\n\n_This report was generated ${formatAge(cachedAgeHours)} ago for the same question. Reply **refresh** to regenerate it from the latest sources._`;
 
-    return `## Research Complete! 🎉
+    return `${heading}
 
 ${summary}
 
@@ -170,3 +254,13 @@ ${report.pdf_path ? '- 📄 **PDF Available:** Yes' : ''}
 You can download the full report below.`;
   }
 }
+
+// 0.4 -> "less than an hour", 5.2 -> "5 hours", 50 -> "2 days"
+function formatAge(hours: number): string {
+  if (hours < 1) return 'less than an hour';
+  if (hours < 48) {
+    const whole = Math.round(hours);
+    return `${whole} hour${whole === 1 ? '' : 's'}`;
+  }
+  return `${Math.round(hours / 24)} days`;
+}
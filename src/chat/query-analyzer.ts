@@ -1,24 +1,24 @@
-import axios from 'axios';
 import { QueryAnalysis } from '../types/chat';
+import { LLMMessage, LLMProvider } from '../llm/llm-provider';
+import { createLLMProvider } from '../llm/provider-factory';
 
 export class QueryAnalyzer {
-  private groqApiKey: string;
-  private groqApiUrl = 'https://api.groq.com/openai/v1/chat/completions';
+  private llm: LLMProvider;
 
-  constructor() {
-    this.groqApiKey = process.env.GROQ_API_KEY || '';
-    if (!this.groqApiKey) {
-      console.warn('⚠️ GROQ_API_KEY not set - query analysis will use defaults');
+  constructor(llm: LLMProvider = createLLMProvider('query_analysis')) {
+    this.llm = llm;
+    if (!this.llm.isConfigured()) {
+      console.warn(`⚠️ LLM provider "${this.llm.name}" not configured - query analysis will use defaults`);
     }
   }
 
   async analyze(query: string): Promise<QueryAnalysis> {
-    // If no API key, return sensible defaults
-    if (!this.groqApiKey) {
-      return this.getDefaultAnalysis(query);
+    // If no provider is available, return sensible defaults
+    if (!this.llm.isConfigured()) {
+      return defaultAnalysis(query);
     }
 
-    const messages = [
+    const messages: LLMMessage[] = [
       {
         role: 'system',
         content: `You are a query analyzer for an HR research system focused on the Indian job market. Extract research parameters from user questions.
@@ -58,22 +58,15 @@ A: {"topic":"Remote vs hybrid work policies in India","intent":"comparative","ma
     ];
 
     try {
-      console.log('🔍 Analyzing query with Groq AI...');
+      console.log(`🔍 Analyzing query with ${this.llm.name} (${this.llm.model})...`);
 
-      const response = await axios.post(this.groqApiUrl, {
-        model: 'llama-3.3-70b-versatile',
-        messages,
+      const completion = await this.llm.complete(messages, {
         temperature: 0.1,
-        max_tokens: 300
-      }, {
-        headers: {
-          'Authorization': `Bearer ${this.groqApiKey}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 10000
+        maxTokens: 300,
+        timeoutMs: 10000
       });
 
-      const content = response.data.choices[0].message.content.trim();
+      const content = completion.content.trim();
 
       // Extract JSON from response (handle markdown code blocks)
       let jsonStr = content;
@@ -104,46 +97,48 @@ A: {"topic":"Remote vs hybrid work policies in India","intent":"comparative","ma
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       console.error('❌ Query analysis failed, using defaults:', errorMsg);
-      return this.getDefaultAnalysis(query);
+      return defaultAnalysis(query);
     }
   }
+}
 
-  private getDefaultAnalysis(query: string): QueryAnalysis {
-    // Smart defaults based on query keywords
-    const lowerQuery = query.toLowerCase();
-
-    let intent: QueryAnalysis['intent'] = 'exploratory';
-    let maxSources = 15;
-    let timeRangeDays = 60;
-
-    // Detect intent from keywords
-    if (lowerQuery.match(/\b(what is|how many|statistics|number of|percentage)\b/)) {
-      intent = 'factual';
-      maxSources = 12;
-      timeRangeDays = 60;
-    } else if (lowerQuery.match(/\b(compare|vs|versus|difference|better)\b/)) {
-      intent = 'comparative';
-      maxSources = 18;
-      timeRangeDays = 90;
-    } else if (lowerQuery.match(/\b(latest|recent|current|2024|2025|trend)\b/)) {
-      intent = 'temporal';
-      maxSources = 20;
-      timeRangeDays = 60;
-    } else if (lowerQuery.match(/\b(history|evolution|over time|past)\b/)) {
-      intent = 'temporal';
-      timeRangeDays = 180;
-    } else if (lowerQuery.match(/\b(analyze|research|study|impact|effect)\b/)) {
-      intent = 'exploratory';
-      maxSources = 22;
-      timeRangeDays = 120;
-    }
-
-    return {
-      topic: query.substring(0, 200),
-      intent,
-      max_sources: maxSources,
-      time_range_days: timeRangeDays,
-      focus_areas: []
-    };
+// Parameters from keywords alone, used when no LLM is configured or its analysis fails, and to
+// pick a scoring profile for API requests that name none
+export function defaultAnalysis(query: string): QueryAnalysis {
+  // Smart defaults based on query keywords
+  const lowerQuery = query.toLowerCase();
+
+  let intent: QueryAnalysis['intent'] = 'exploratory';
+  let maxSources = 15;
+  let timeRangeDays = 60;
+
+  // Detect intent from keywords
+  if (lowerQuery.match(/\b(what is|how many|statistics|number of|percentage)\b/)) {
+    intent = 'factual';
+    maxSources = 12;
+    timeRangeDays = 60;
+  } else if (lowerQuery.match(/\b(compare|vs|versus|difference|better)\b/)) {
+    intent = 'comparative';
+    maxSources = 18;
+    timeRangeDays = 90;
+  } else if (lowerQuery.match(/\b(latest|recent|current|2024|2025|trend)\b/)) {
+    intent = 'temporal';
+    maxSources = 20;
+    timeRangeDays = 60;
+  } else if (lowerQuery.match(/\b(history|evolution|over time|past)\b/)) {
+    intent = 'temporal';
+    timeRangeDays = 180;
+  } else if (lowerQuery.match(/\b(analyze|research|study|impact|effect)\b/)) {
+    intent = 'exploratory';
+    maxSources = 22;
+    timeRangeDays = 120;
   }
+
+  return {
+    topic: query.substring(0, 200),
+    intent,
+    max_sources: maxSources,
+    time_range_days: timeRangeDays,
+    focus_areas: []
+  };
 }
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+
+// 64-bit SimHash over words and word pairs. Texts that share most of their wording end up
+// a few bits apart, so syndicated copies of a story can be found by Hamming distance.
+export function simhash(text: string): bigint {
+  const tokens = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1);
+
+  const features = [...tokens];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    features.push(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+
+  const weights = new Array<number>(64).fill(0);
+  for (const feature of features) {
+    const hash = crypto.createHash('md5').update(feature).digest().readBigUInt64BE(0);
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  let fingerprint = 0n;
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) {
+      fingerprint |= 1n << BigInt(bit);
+    }
+  }
+  return fingerprint;
+}
+
+export function hammingDistance(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let count = 0;
+  while (diff) {
+    diff &= diff - 1n;
+    count++;
+  }
+  return count;
+}
+
+// Postgres BIGINT is signed; fingerprints are stored as their two's complement
+export function toSignedBigInt(fingerprint: bigint): string {
+  return BigInt.asIntN(64, fingerprint).toString();
+}
+
+export function fromSignedBigInt(value: string | number): bigint {
+  return BigInt.asUintN(64, BigInt(value));
+}
+
+// Aggregators append the publisher to the headline ("... - Times of India"), which would
+// otherwise make syndicated copies look different
+export function normalizeHeadline(title: string): string {
+  return title.replace(/\s+[-|–—]\s+[^-|–—]{2,60}$/, '').trim();
+}
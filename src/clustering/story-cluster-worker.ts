@@ -0,0 +1,29 @@
+import { StoryClusterer } from './story-clusterer';
+import { PeriodicWorker } from '../jobs/periodic-worker';
+
+// Background worker that assigns newly collected articles and web pages to story clusters
+export class StoryClusterWorker {
+  private worker: PeriodicWorker;
+
+  constructor(
+    clusterer: StoryClusterer,
+    batchSize = parseInt(process.env.STORY_CLUSTER_BATCH_SIZE || '') || 200,
+    intervalMs = parseInt(process.env.STORY_CLUSTER_INTERVAL_MS || '') || 60 * 1000
+  ) {
+    this.worker = new PeriodicWorker('Clustering', async size => {
+      const assigned = await clusterer.clusterPending(size);
+      if (assigned > 0) {
+        console.log(`🧩 [Clustering] Assigned ${assigned} items to story clusters`);
+      }
+    }, batchSize, intervalMs);
+  }
+
+  start(): void {
+    console.log(`🧩 Starting story clustering (${this.worker.describe()})`);
+    this.worker.start();
+  }
+
+  stop(): void {
+    this.worker.stop();
+  }
+}
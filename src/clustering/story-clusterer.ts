@@ -0,0 +1,374 @@
+import { PoolClient } from 'pg';
+import db from '../db/connection';
+import { SourceItem, SourceRef, SourceType } from '../types/sources';
+import { SourceRepository } from '../sources/source-repository';
+import { simhash, hammingDistance, toSignedBigInt, fromSignedBigInt, normalizeHeadline } from './simhash';
+
+export interface StoryCluster {
+  id: string;
+  title: string;
+  member_count: number;
+  first_seen_at: Date;
+  last_seen_at: Date;
+  canonical: SourceItem | null;
+  // Score and publication date the canonical copy was chosen on
+  canonical_score: number | null;
+  canonical_published_at: Date | null;
+  members: StoryClusterMember[];
+}
+
+export interface StoryClusterMember {
+  source_type: SourceType;
+  id: string;
+  title: string;
+  url: string;
+  source: string;
+  feed_name?: string;
+  published_at?: Date;
+  distance: number;
+}
+
+export interface StoryListOptions {
+  days?: number;
+  minSize?: number;
+  limit?: number;
+}
+
+interface Fingerprint {
+  cluster_id: string;
+  simhash: bigint;
+  title_key: string;
+  collected_at: Date;
+}
+
+interface PendingItem {
+  id: string;
+  title: string;
+  body: string | null;
+  collected_at: Date;
+}
+
+interface MemberRow {
+  cluster_id: string;
+  source_type: SourceType;
+  id: string;
+  distance: number;
+}
+
+type ClusterRow = Omit<StoryCluster, 'canonical' | 'members'> & {
+  canonical_source_type: SourceType | null;
+  canonical_item_id: string | null;
+};
+
+// Text each table is fingerprinted on: the headline plus the feed/search snippet. The
+// enriched body is left out so an article's fingerprint doesn't change after enrichment.
+const CLUSTERED_TEXT: Record<SourceType, { table: string, body: string }> = {
+  rss_article: { table: 'rss_articles', body: 'description' },
+  content_item: { table: 'content_items', body: 'snippet' }
+};
+
+// Only one replica assigns clusters at a time
+const CLUSTER_LOCK_KEY = 48151624;
+
+// Groups near-duplicate and syndicated copies of a story (the same PTI piece via ET HR World,
+// Times of India and several Google News feeds) into story_clusters. Two items share a
+// cluster when their headlines match after stripping the publisher suffix, or when their
+// SimHash fingerprints are within maxDistance bits. Lightly edited copies land a few bits apart
+// (a changed word in a short headline and snippet is about 7) and unrelated items 15 or more, so
+// the default stays tight and relies on the headline match for reworded copies.
+export class StoryClusterer {
+  private repository: SourceRepository;
+  private maxDistance: number;
+  private windowDays: number;
+
+  constructor(
+    repository = new SourceRepository(),
+    maxDistance = parseInt(process.env.STORY_CLUSTER_MAX_DISTANCE || '') || 6,
+    windowDays = parseInt(process.env.STORY_CLUSTER_WINDOW_DAYS || '') || 3
+  ) {
+    this.repository = repository;
+    this.maxDistance = maxDistance;
+    this.windowDays = windowDays;
+  }
+
+  // Assign clusters to items that don't have one yet, oldest first, so a backlog left by an
+  // outage or a disabled worker is clustered too. Each item is only matched against items
+  // collected within windowDays of it. Returns how many were assigned.
+  async clusterPending(batchSize: number): Promise<number> {
+    await db.ensureSchema('story-clusters-schema.sql');
+
+    const exists = await db.query("SELECT to_regclass('rss_articles') IS NOT NULL AS exists");
+    if (!exists.rows[0].exists) return 0;
+    await db.ensureSchema('rss-enrichment-schema.sql');
+
+    const client = await db.getClient();
+    let locked = false;
+
+    try {
+      const lock = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [CLUSTER_LOCK_KEY]);
+      locked = lock.rows[0].locked;
+      if (!locked) return 0;
+
+      const pending: { sourceType: SourceType, item: PendingItem }[] = [];
+      for (const sourceType of Object.keys(CLUSTERED_TEXT) as SourceType[]) {
+        const { table, body } = CLUSTERED_TEXT[sourceType];
+        const result = await client.query(`
+          SELECT t.id::text AS id, t.title, left(t.${body}, 1000) AS body, t.collected_at
+          FROM ${table} t
+          LEFT JOIN story_cluster_members m ON m.source_type = $1 AND m.item_id = t.id
+          WHERE m.item_id IS NULL
+          ORDER BY t.collected_at
+          LIMIT $2
+        `, [sourceType, batchSize]);
+        const items: PendingItem[] = result.rows;
+        pending.push(...items.map(item => ({ sourceType, item })));
+      }
+      pending.sort((a, b) => a.item.collected_at.getTime() - b.item.collected_at.getTime());
+
+      let assigned = 0;
+
+      if (pending.length > 0) {
+        const windowMs = this.windowDays * 24 * 60 * 60 * 1000;
+        const fingerprints = await this.loadFingerprints(client, new Date(pending[0].item.collected_at.getTime() - windowMs));
+
+        for (const { sourceType, item } of pending) {
+          const fingerprint = fingerprintItem(item.title, item.body);
+          const candidates = fingerprints.filter(candidate =>
+            Math.abs(candidate.collected_at.getTime() - item.collected_at.getTime()) <= windowMs
+          );
+          const match = this.findMatch(fingerprint, candidates);
+
+          const clusterId = await this.assign(client, sourceType, item, fingerprint, match);
+          fingerprints.push({ ...fingerprint, cluster_id: clusterId, collected_at: item.collected_at });
+          assigned++;
+        }
+      }
+
+      await this.refreshCanonical(client);
+      return assigned;
+    } finally {
+      if (locked) {
+        await client.query('SELECT pg_advisory_unlock($1)', [CLUSTER_LOCK_KEY]).catch(() => undefined);
+      }
+      client.release();
+    }
+  }
+
+  // Fingerprints of items collected since the given time. A member is added after its item is
+  // collected, so added_at narrows the scan through its index before the join.
+  private async loadFingerprints(client: PoolClient, since: Date): Promise<Fingerprint[]> {
+    const result = await client.query(`
+      SELECT m.cluster_id, m.simhash::text AS simhash, m.title_key, COALESCE(r.collected_at, ci.collected_at) AS collected_at
+      FROM story_cluster_members m
+      LEFT JOIN rss_articles r ON m.source_type = 'rss_article' AND r.id = m.item_id
+      LEFT JOIN content_items ci ON m.source_type = 'content_item' AND ci.id = m.item_id
+      WHERE m.added_at >= $1 AND COALESCE(r.collected_at, ci.collected_at) >= $1
+    `, [since]);
+
+    return (result.rows as { cluster_id: string, simhash: string, title_key: string, collected_at: Date }[]).map(row => ({
+      cluster_id: row.cluster_id,
+      simhash: fromSignedBigInt(row.simhash),
+      title_key: row.title_key,
+      collected_at: row.collected_at
+    }));
+  }
+
+  private async assign(
+    client: PoolClient,
+    sourceType: SourceType,
+    item: PendingItem,
+    fingerprint: Omit<Fingerprint, 'cluster_id' | 'collected_at'>,
+    match: { fingerprint: Fingerprint, distance: number } | null
+  ): Promise<string> {
+    await client.query('BEGIN');
+    try {
+      let clusterId: string;
+      if (match) {
+        clusterId = match.fingerprint.cluster_id;
+        await client.query(
+          'UPDATE story_clusters SET member_count = member_count + 1, last_seen_at = now() WHERE id = $1',
+          [clusterId]
+        );
+      } else {
+        const created = await client.query(`
+          INSERT INTO story_clusters (title, canonical_source_type, canonical_item_id)
+          VALUES ($1, $2, $3)
+          RETURNING id
+        `, [normalizeHeadline(item.title), sourceType, item.id]);
+        clusterId = created.rows[0].id;
+      }
+
+      await client.query(`
+        INSERT INTO story_cluster_members (source_type, item_id, cluster_id, simhash, title_key, distance)
+        VALUES ($1, $2, $3, $4, $5, $6)
+      `, [sourceType, item.id, clusterId, toSignedBigInt(fingerprint.simhash), fingerprint.title_key, match?.distance ?? 0]);
+
+      await client.query('COMMIT');
+      return clusterId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // Canonical copy: highest composite score, then earliest published, recorded with the score
+  // and date it was chosen on. Re-evaluated for every recently active cluster, since enrichment
+  // and rescoring can change scores after a cluster formed.
+  private async refreshCanonical(client: PoolClient): Promise<void> {
+    await client.query(`
+      UPDATE story_clusters c SET
+        canonical_source_type = best.source_type,
+        canonical_item_id = best.item_id,
+        canonical_score = best.score,
+        canonical_published_at = best.published_at
+      FROM (
+        SELECT DISTINCT ON (m.cluster_id) m.cluster_id, m.source_type, m.item_id,
+          COALESCE(r.composite_score, ci.composite_score) AS score,
+          COALESCE(r.enriched_published_at, r.published_at, ci.published_at, r.collected_at, ci.collected_at) AS published_at
+        FROM story_cluster_members m
+        JOIN story_clusters sc ON sc.id = m.cluster_id
+        LEFT JOIN rss_articles r ON m.source_type = 'rss_article' AND r.id = m.item_id
+        LEFT JOIN content_items ci ON m.source_type = 'content_item' AND ci.id = m.item_id
+        WHERE sc.last_seen_at >= now() - make_interval(days => $1)
+        ORDER BY m.cluster_id, score DESC NULLS LAST, published_at ASC
+      ) best
+      WHERE c.id = best.cluster_id
+        AND (c.canonical_source_type, c.canonical_item_id, c.canonical_score, c.canonical_published_at)
+          IS DISTINCT FROM (best.source_type, best.item_id, best.score, best.published_at)
+    `, [this.windowDays]);
+  }
+
+  private findMatch(fingerprint: Omit<Fingerprint, 'cluster_id' | 'collected_at'>, candidates: Fingerprint[]): { fingerprint: Fingerprint, distance: number } | null {
+    let best: { fingerprint: Fingerprint, distance: number } | null = null;
+
+    for (const candidate of candidates) {
+      if (fingerprint.title_key && candidate.title_key === fingerprint.title_key) {
+        return { fingerprint: candidate, distance: hammingDistance(fingerprint.simhash, candidate.simhash) };
+      }
+      const distance = hammingDistance(fingerprint.simhash, candidate.simhash);
+      if (distance <= this.maxDistance && (!best || distance < best.distance)) {
+        best = { fingerprint: candidate, distance };
+      }
+    }
+    return best;
+  }
+
+  async getClusterIds(refs: SourceRef[]): Promise<Map<string, string>> {
+    if (refs.length === 0) return new Map();
+    await db.ensureSchema('story-clusters-schema.sql');
+
+    const result = await db.query(`
+      SELECT m.source_type, m.item_id::text AS id, m.cluster_id
+      FROM story_cluster_members m
+      JOIN unnest($1::text[], $2::uuid[]) AS r(source_type, item_id)
+        ON r.source_type = m.source_type AND r.item_id = m.item_id
+    `, [refs.map(ref => ref.source_type), refs.map(ref => ref.id)]);
+
+    const rows: { source_type: SourceType, id: string, cluster_id: string }[] = result.rows;
+    return new Map(rows.map(row => [`${row.source_type}:${row.id}`, row.cluster_id]));
+  }
+
+  // Keep the first item of each story, preserving order, so callers should sort by preference first.
+  // Items that haven't been clustered yet (e.g. fresh Brave results) are compared in memory.
+  async collapse<T extends SourceItem>(items: T[]): Promise<T[]> {
+    let clusterIds = new Map<string, string>();
+    try {
+      clusterIds = await this.getClusterIds(items);
+    } catch (error) {
+      console.error('⚠️ Could not load story clusters, comparing sources in memory only:', error instanceof Error ? error.message : error);
+    }
+
+    const seenClusters = new Set<string>();
+    const kept: { item: T, fingerprint: Omit<Fingerprint, 'cluster_id' | 'collected_at'> }[] = [];
+
+    for (const item of items) {
+      const clusterId = clusterIds.get(`${item.source_type}:${item.id}`);
+      if (clusterId) {
+        if (seenClusters.has(clusterId)) continue;
+        seenClusters.add(clusterId);
+      }
+
+      const fingerprint = fingerprintItem(item.title, item.snippet || null);
+      const duplicate = kept.some(other =>
+        (fingerprint.title_key && other.fingerprint.title_key === fingerprint.title_key)
+        || hammingDistance(other.fingerprint.simhash, fingerprint.simhash) <= this.maxDistance
+      );
+      if (duplicate) continue;
+
+      kept.push({ item, fingerprint });
+    }
+
+    return kept.map(entry => entry.item);
+  }
+
+  // Most widely syndicated recent stories first
+  async listStories(options: StoryListOptions = {}): Promise<StoryCluster[]> {
+    await db.ensureSchema('story-clusters-schema.sql');
+
+    const clusters = await db.query(`
+      SELECT id, title, member_count, first_seen_at, last_seen_at, canonical_source_type, canonical_item_id::text AS canonical_item_id,
+        canonical_score::float8 AS canonical_score, canonical_published_at
+      FROM story_clusters
+      WHERE last_seen_at >= now() - make_interval(days => $1) AND member_count >= $2
+      ORDER BY member_count DESC, last_seen_at DESC
+      LIMIT $3
+    `, [options.days || 7, options.minSize || 2, options.limit || 20]);
+    const clusterRows: ClusterRow[] = clusters.rows;
+    if (clusterRows.length === 0) return [];
+
+    const members = await db.query(`
+      SELECT cluster_id, source_type, item_id::text AS id, distance
+      FROM story_cluster_members
+      WHERE cluster_id = ANY($1::uuid[])
+      ORDER BY added_at
+    `, [clusterRows.map(row => row.id)]);
+    const memberRows: MemberRow[] = members.rows;
+
+    const items = await this.repository.getByRefs(memberRows);
+    const itemsByKey = new Map(items.map(item => [`${item.source_type}:${item.id}`, item]));
+
+    return clusterRows.map(cluster => ({
+      id: cluster.id,
+      title: cluster.title,
+      member_count: cluster.member_count,
+      first_seen_at: cluster.first_seen_at,
+      last_seen_at: cluster.last_seen_at,
+      canonical: itemsByKey.get(`${cluster.canonical_source_type}:${cluster.canonical_item_id}`) || null,
+      canonical_score: cluster.canonical_score,
+      canonical_published_at: cluster.canonical_published_at,
+      members: memberRows
+        .filter(member => member.cluster_id === cluster.id)
+        .flatMap(member => {
+          const item = itemsByKey.get(`${member.source_type}:${member.id}`);
+          return item ? [{ member, item }] : [];
+        })
+        .map(({ member, item }) => ({
+          source_type: item.source_type,
+          id: item.id,
+          title: item.title,
+          url: item.url,
+          source: item.source,
+          feed_name: item.source_type === 'rss_article' ? item.feed_name : undefined,
+          published_at: item.published_at,
+          distance: member.distance
+        }))
+    }));
+  }
+}
+
+// Headlines shorter than this are too generic ("HR News") to match on alone
+const MIN_TITLE_KEY_WORDS = 4;
+
+// Feed descriptions (Google News in particular) are HTML fragments
+function fingerprintItem(title: string, body: string | null): Omit<Fingerprint, 'cluster_id' | 'collected_at'> {
+  const headline = normalizeHeadline(title);
+  const text = `${headline} ${body || ''}`
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&[a-z]+;|&#\d+;/gi, ' ');
+  const titleKey = headline.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+  return {
+    simhash: simhash(text),
+    title_key: titleKey.split(' ').length >= MIN_TITLE_KEY_WORDS ? titleKey : ''
+  };
+}
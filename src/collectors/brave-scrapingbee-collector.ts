@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { RawContentItem } from '../types';
 import { ScrapingBeeScraper } from '../scrapers/scrapingbee-scraper';
+import { normalizeUrl } from '../utils/url-normalizer';
 
 interface BraveSearchResult {
   title: string;
@@ -29,6 +30,8 @@ export class BraveScrapingBeeCollector {
     await this.testBraveAPI();
     
     const allResults: RawContentItem[] = [];
+    // Queries overlap; scrape each page once even when its links differ only in tracking parameters
+    const seenUrls = new Set<string>();
     
     for (const query of queries) {
       console.log(`🎯 Searching for: "${query}"`);
@@ -43,6 +46,10 @@ export class BraveScrapingBeeCollector {
           searchResults = await this.braveSearchBroad(query, maxResultsPerQuery);
         }
         
+        searchResults = searchResults
+          .map(result => ({ ...result, url: normalizeUrl(result.url) }))
+          .filter(result => !seenUrls.has(result.url) && seenUrls.add(result.url));
+        
         console.log(`📊 Found ${searchResults.length} results for "${query}"`);
         
         // Scrape full content using ScrapingBee
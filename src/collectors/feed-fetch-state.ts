@@ -0,0 +1,72 @@
+import db from '../db/connection';
+import { RSSSource } from '../config/rss-sources';
+
+export interface FeedFetchState {
+  feed_name: string;
+  feed_url: string;
+  etag: string | null;
+  last_modified: string | null;
+  last_seen_published_at: Date | null;
+  last_seen_guid: string | null;
+}
+
+// Persists HTTP validators and the newest item seen per feed so the collector
+// can send conditional requests and skip items it has already stored.
+export class FeedFetchStateStore {
+  async getStates(sources: RSSSource[]): Promise<Map<string, FeedFetchState>> {
+    const states = new Map<string, FeedFetchState>();
+
+    try {
+      await db.ensureSchema('feed-fetch-state-schema.sql');
+      const result = await db.query(
+        'SELECT * FROM rss_feed_fetch_state WHERE feed_name = ANY($1)',
+        [sources.map(s => s.name)]
+      );
+
+      const urls = new Map(sources.map(s => [s.name, s.url]));
+      for (const row of result.rows) {
+        // A feed pointed at a new URL starts over with a full fetch
+        if (urls.get(row.feed_name) === row.feed_url) {
+          states.set(row.feed_name, row);
+        }
+      }
+    } catch (error) {
+      // Without state every feed is fetched in full, which is still correct
+      console.error('⚠️ Could not load feed fetch state, fetching feeds in full:', error);
+    }
+
+    return states;
+  }
+
+  async saveStates(states: FeedFetchState[]): Promise<void> {
+    for (const state of states) {
+      try {
+        await this.saveState(state);
+      } catch (error) {
+        console.error(`⚠️ Failed to save fetch state for ${state.feed_name}:`, error);
+      }
+    }
+  }
+
+  async saveState(state: FeedFetchState): Promise<void> {
+    await db.ensureSchema('feed-fetch-state-schema.sql');
+    await db.query(`
+      INSERT INTO rss_feed_fetch_state (feed_name, feed_url, etag, last_modified, last_seen_published_at, last_seen_guid)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (feed_name) DO UPDATE SET
+        feed_url = EXCLUDED.feed_url,
+        etag = EXCLUDED.etag,
+        last_modified = EXCLUDED.last_modified,
+        last_seen_published_at = EXCLUDED.last_seen_published_at,
+        last_seen_guid = EXCLUDED.last_seen_guid,
+        updated_at = now()
+    `, [
+      state.feed_name,
+      state.feed_url,
+      state.etag,
+      state.last_modified,
+      state.last_seen_published_at,
+      state.last_seen_guid
+    ]);
+  }
+}
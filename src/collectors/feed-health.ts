@@ -0,0 +1,212 @@
+import db from '../db/connection';
+import { RSSSource } from '../config/rss-sources';
+import { FeedFetchResult } from './rss-collector';
+
+export type FeedHealthStatus = 'healthy' | 'failing' | 'quarantined' | 'probing' | 'unknown';
+
+export interface FeedHealth {
+  feed_name: string;
+  feed_url: string;
+  status: FeedHealthStatus;
+  last_status: 'unknown' | 'success' | 'error';
+  last_http_status: number | null;
+  last_latency_ms: number | null;
+  last_error: string | null;
+  last_attempt_at: Date | null;
+  last_success_at: Date | null;
+  last_article_count: number;
+  consecutive_failures: number;
+  quarantine_level: number;
+  quarantined_until: Date | null;
+  total_attempts: number;
+  total_failures: number;
+}
+
+// A stored rss_feed_health row; the status is derived when it's read
+type FeedHealthRow = Omit<FeedHealth, 'status'>;
+
+const MAX_BACKOFF_HOURS = 7 * 24;
+
+// Tracks fetch outcomes per feed and quarantines feeds that keep failing.
+// Quarantined feeds are skipped until their backoff expires, then re-probed once;
+// a failed probe doubles the backoff, a successful one restores the feed.
+export class FeedHealthTracker {
+  private failureThreshold: number;
+  private baseBackoffHours: number;
+
+  constructor(
+    failureThreshold = parseInt(process.env.RSS_QUARANTINE_THRESHOLD || '') || 3,
+    baseBackoffHours = parseFloat(process.env.RSS_QUARANTINE_BASE_HOURS || '') || 6
+  ) {
+    this.failureThreshold = failureThreshold;
+    this.baseBackoffHours = baseBackoffHours;
+  }
+
+  async partitionSources(sources: RSSSource[]): Promise<{ active: RSSSource[], quarantined: RSSSource[] }> {
+    try {
+      await db.ensureSchema('feed-health-schema.sql');
+      const result = await db.query(
+        'SELECT feed_name FROM rss_feed_health WHERE quarantined_until > now() AND feed_name = ANY($1)',
+        [sources.map(s => s.name)]
+      );
+
+      const quarantinedNames = new Set<string>(result.rows.map((row: { feed_name: string }) => row.feed_name));
+      const active = sources.filter(s => !quarantinedNames.has(s.name));
+      const quarantined = sources.filter(s => quarantinedNames.has(s.name));
+
+      if (quarantined.length > 0) {
+        console.log(`🚧 Skipping ${quarantined.length} quarantined feeds: ${quarantined.map(s => s.name).join(', ')}`);
+      }
+
+      return { active, quarantined };
+    } catch (error) {
+      // Health tracking must never block collection
+      console.error('⚠️ Could not load feed health, collecting from all feeds:', error);
+      return { active: sources, quarantined: [] };
+    }
+  }
+
+  async recordResults(results: FeedFetchResult[]): Promise<void> {
+    for (const result of results) {
+      try {
+        await this.recordResult(result);
+      } catch (error) {
+        console.error(`⚠️ Failed to record health for ${result.feed_name}:`, error);
+      }
+    }
+  }
+
+  async recordResult(result: FeedFetchResult): Promise<void> {
+    await db.ensureSchema('feed-health-schema.sql');
+
+    if (result.status === 'success') {
+      await db.query(`
+        INSERT INTO rss_feed_health (
+          feed_name, feed_url, last_status, last_http_status, last_latency_ms, last_error,
+          last_attempt_at, last_success_at, last_article_count, total_attempts
+        ) VALUES ($1, $2, 'success', $3, $4, NULL, now(), now(), $5, 1)
+        ON CONFLICT (feed_name) DO UPDATE SET
+          feed_url = EXCLUDED.feed_url,
+          last_status = 'success',
+          last_http_status = EXCLUDED.last_http_status,
+          last_latency_ms = EXCLUDED.last_latency_ms,
+          last_error = NULL,
+          last_attempt_at = now(),
+          last_success_at = now(),
+          last_article_count = EXCLUDED.last_article_count,
+          consecutive_failures = 0,
+          quarantine_level = 0,
+          quarantined_until = NULL,
+          total_attempts = rss_feed_health.total_attempts + 1,
+          updated_at = now()
+      `, [result.feed_name, result.feed_url, result.http_status ?? null, result.latency_ms, result.articles]);
+      return;
+    }
+
+    // One statement, so concurrent collections of a feed can't both read the old counters. A failure
+    // quarantines the feed once it reaches the threshold, and a failed re-probe (quarantine_level > 0)
+    // goes straight back into quarantine with double the previous backoff.
+    const failed = await db.query(`
+      INSERT INTO rss_feed_health (
+        feed_name, feed_url, last_status, last_http_status, last_latency_ms, last_error,
+        last_attempt_at, last_article_count, consecutive_failures, quarantine_level,
+        quarantined_until, total_attempts, total_failures
+      ) VALUES (
+        $1, $2, 'error', $3, $4, $5, now(), 0, 1,
+        CASE WHEN $6::int <= 1 THEN 1 ELSE 0 END,
+        CASE WHEN $6::int <= 1 THEN now() + make_interval(secs => LEAST($8::float8, $7::float8) * 3600) END,
+        1, 1
+      )
+      ON CONFLICT (feed_name) DO UPDATE SET
+        feed_url = EXCLUDED.feed_url,
+        last_status = 'error',
+        last_http_status = EXCLUDED.last_http_status,
+        last_latency_ms = EXCLUDED.last_latency_ms,
+        last_error = EXCLUDED.last_error,
+        last_attempt_at = now(),
+        last_article_count = 0,
+        consecutive_failures = rss_feed_health.consecutive_failures + 1,
+        quarantine_level = CASE
+          WHEN rss_feed_health.consecutive_failures + 1 >= $6 OR rss_feed_health.quarantine_level > 0
+            THEN rss_feed_health.quarantine_level + 1
+          ELSE rss_feed_health.quarantine_level
+        END,
+        quarantined_until = CASE
+          WHEN rss_feed_health.consecutive_failures + 1 >= $6 OR rss_feed_health.quarantine_level > 0
+            THEN now() + make_interval(secs => LEAST($8::float8, $7::float8 * power(2, rss_feed_health.quarantine_level)) * 3600)
+        END,
+        total_attempts = rss_feed_health.total_attempts + 1,
+        total_failures = rss_feed_health.total_failures + 1,
+        updated_at = now()
+      RETURNING consecutive_failures, quarantined_until
+    `, [
+      result.feed_name,
+      result.feed_url,
+      result.http_status ?? null,
+      result.latency_ms,
+      result.error || null,
+      this.failureThreshold,
+      this.baseBackoffHours,
+      MAX_BACKOFF_HOURS
+    ]);
+
+    const { consecutive_failures, quarantined_until }: { consecutive_failures: number, quarantined_until: Date | null } = failed.rows[0];
+    if (quarantined_until) {
+      console.log(`🚧 Quarantined ${result.feed_name} until ${new Date(quarantined_until).toISOString()} after ${consecutive_failures} consecutive failures`);
+    }
+  }
+
+  // Health for every known feed, including ones that have never been fetched
+  async getHealth(sources: RSSSource[]): Promise<FeedHealth[]> {
+    await db.ensureSchema('feed-health-schema.sql');
+    const result = await db.query('SELECT * FROM rss_feed_health');
+    const rows = new Map((result.rows as FeedHealthRow[]).map(row => [row.feed_name, row]));
+
+    const feedNames = new Set(sources.map(s => s.name));
+    const health: FeedHealth[] = sources.map(source => this.toFeedHealth(rows.get(source.name), source.name, source.url));
+
+    // Feeds that were removed from the configuration but still have history
+    for (const [feedName, row] of rows) {
+      if (!feedNames.has(feedName)) {
+        health.push(this.toFeedHealth(row, feedName, row.feed_url));
+      }
+    }
+
+    return health;
+  }
+
+  private toFeedHealth(row: FeedHealthRow | undefined, feedName: string, feedUrl: string): FeedHealth {
+    if (!row) {
+      return {
+        feed_name: feedName,
+        feed_url: feedUrl,
+        status: 'unknown',
+        last_status: 'unknown',
+        last_http_status: null,
+        last_latency_ms: null,
+        last_error: null,
+        last_attempt_at: null,
+        last_success_at: null,
+        last_article_count: 0,
+        consecutive_failures: 0,
+        quarantine_level: 0,
+        quarantined_until: null,
+        total_attempts: 0,
+        total_failures: 0
+      };
+    }
+
+    let status: FeedHealthStatus = 'healthy';
+    if (row.quarantined_until && new Date(row.quarantined_until) > new Date()) {
+      status = 'quarantined';
+    } else if (row.quarantine_level > 0) {
+      status = 'probing';
+    } else if (row.consecutive_failures > 0) {
+      status = 'failing';
+    } else if (row.last_status === 'unknown') {
+      status = 'unknown';
+    }
+
+    return { ...row, feed_url: feedUrl, status };
+  }
+}
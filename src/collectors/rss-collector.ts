@@ -2,58 +2,163 @@ import FeedParser from 'feedparser';
 import axios from 'axios';
 import { Readable } from 'stream';
 import crypto from 'crypto';
-import { RSS_SOURCES, RSSSource } from '../config/rss-sources';
+import { RSSSource } from '../config/rss-sources';
 import { RawContentItem } from '../types';
+import { RSSSourceRegistry } from './rss-source-registry';
+import { FeedFetchState, FeedFetchStateStore } from './feed-fetch-state';
+import { normalizeUrl, decodeGoogleNewsUrl } from '../utils/url-normalizer';
 
-// Removed unused interface - using RawContentItem instead
+export interface FeedFetchResult {
+  feed_name: string;
+  feed_url: string;
+  status: 'success' | 'error';
+  articles: number;
+  http_status?: number;
+  latency_ms: number;
+  error?: string;
+  // 304 from a conditional request; nothing was downloaded or parsed
+  not_modified?: boolean;
+  // Items at or before the last seen item that were not returned
+  skipped_items?: number;
+  // Validators and watermark to persist once the articles are stored
+  fetch_state?: FeedFetchState;
+}
+
+// Items indexed late can carry a pubdate a little before the newest one seen last run
+const WATERMARK_GRACE_MS = (parseFloat(process.env.RSS_WATERMARK_GRACE_HOURS || '') || 48) * 60 * 60 * 1000;
+
+interface FeedFetch {
+  articles: RawContentItem[];
+  httpStatus: number;
+  notModified: boolean;
+  skippedItems: number;
+  state: FeedFetchState;
+}
 
 export class RSSCollector {
-  private sources: RSSSource[];
+  private sources: RSSSource[] | null;
+  private fetchState: FeedFetchStateStore;
 
+  // Without explicit sources, the enabled feeds are read from the registry on every run
   constructor(sources?: RSSSource[]) {
-    this.sources = sources || RSS_SOURCES;
+    this.sources = sources || null;
+    this.fetchState = new FeedFetchStateStore();
   }
 
-  async collectFromAllFeeds(): Promise<{ articles: RawContentItem[], stats: { [key: string]: number } }> {
-    console.log(`📡 Starting RSS collection from ${this.sources.length} feeds...`);
+  private async getSources(): Promise<RSSSource[]> {
+    return this.sources || new RSSSourceRegistry().getEnabledSources();
+  }
+
+  async collectFromAllFeeds(): Promise<{ articles: RawContentItem[], stats: { [key: string]: number }, results: FeedFetchResult[] }> {
+    const sources = await this.getSources();
+    console.log(`📡 Starting RSS collection from ${sources.length} feeds...`);
     
     const allArticles: RawContentItem[] = [];
     const stats: { [key: string]: number } = {};
+    const results: FeedFetchResult[] = [];
+    const states = await this.fetchState.getStates(sources);
     
-    for (const source of this.sources) {
+    for (const source of sources) {
+      const startTime = Date.now();
       try {
-        const articles = await this.collectFromFeed(source);
+        const { articles, httpStatus, notModified, skippedItems, state } = await this.fetchFeed(source, states.get(source.name));
         allArticles.push(...articles);
         stats[source.name] = articles.length;
-        console.log(`  ✅ ${source.name}: ${articles.length} articles`);
+        results.push({
+          feed_name: source.name,
+          feed_url: source.url,
+          status: 'success',
+          articles: articles.length,
+          http_status: httpStatus,
+          latency_ms: Date.now() - startTime,
+          not_modified: notModified,
+          skipped_items: skippedItems,
+          fetch_state: state
+        });
+        if (notModified) {
+          console.log(`  💤 ${source.name}: not modified`);
+        } else {
+          console.log(`  ✅ ${source.name}: ${articles.length} new articles${skippedItems ? ` (${skippedItems} already seen)` : ''}`);
+        }
       } catch (error) {
         console.error(`  ❌ ${source.name}: Failed to collect`, error instanceof Error ? error.message : error);
         stats[source.name] = 0;
+        results.push({
+          feed_name: source.name,
+          feed_url: source.url,
+          status: 'error',
+          articles: 0,
+          http_status: getHttpStatus(error),
+          latency_ms: Date.now() - startTime,
+          error: error instanceof Error ? error.message : String(error)
+        });
       }
     }
     
     console.log(`📊 Total RSS articles collected: ${allArticles.length}`);
-    return { articles: allArticles, stats };
+    return { articles: allArticles, stats, results };
   }
 
   async collectFromFeed(source: RSSSource): Promise<RawContentItem[]> {
-    return new Promise((resolve, reject) => {
-      this.fetchAndParseRSS(source, resolve, reject);
+    const { articles } = await this.fetchFeed(source);
+    return articles;
+  }
+
+  // With a previous fetch state the request is conditional and items published well before the newest one seen last time are skipped
+  // Makes no requests besides the feed itself: Google News links that can't be decoded offline
+  // keep their wrapper URL here and are resolved by the enrichment worker
+  async fetchFeed(source: RSSSource, previous?: FeedFetchState): Promise<FeedFetch> {
+    return new Promise<FeedFetch>((resolve, reject) => {
+      this.fetchAndParseRSS(source, previous, resolve, reject);
     });
   }
 
-  private async fetchAndParseRSS(source: RSSSource, resolve: (value: RawContentItem[]) => void, reject: (reason?: any) => void): Promise<void> {
+  private async fetchAndParseRSS(
+    source: RSSSource,
+    previous: FeedFetchState | undefined,
+    resolve: (value: FeedFetch) => void,
+    reject: (reason?: any) => void
+  ): Promise<void> {
     const articles: RawContentItem[] = [];
     
     try {
+      const headers: Record<string, string> = {
+        'User-Agent': 'Mozilla/5.0 (compatible; HRResearchBot/1.0)',
+        'Accept': 'application/rss+xml, application/xml, text/xml, */*'
+      };
+      if (previous?.etag) {
+        headers['If-None-Match'] = previous.etag;
+      }
+      if (previous?.last_modified) {
+        headers['If-Modified-Since'] = previous.last_modified;
+      }
+
       // Fetch RSS feed
       const response = await axios.get(source.url, {
         timeout: 10000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; HRResearchBot/1.0)',
-          'Accept': 'application/rss+xml, application/xml, text/xml, */*'
-        }
+        headers,
+        validateStatus: status => (status >= 200 && status < 300) || status === 304
       });
+
+      const state: FeedFetchState = {
+        feed_name: source.name,
+        feed_url: source.url,
+        etag: response.headers['etag'] || previous?.etag || null,
+        last_modified: response.headers['last-modified'] || previous?.last_modified || null,
+        last_seen_published_at: previous?.last_seen_published_at || null,
+        last_seen_guid: previous?.last_seen_guid || null
+      };
+
+      if (response.status === 304) {
+        resolve({ articles, httpStatus: 304, notModified: true, skippedItems: 0, state });
+        return;
+      }
+
+      const watermark = previous?.last_seen_published_at
+        ? new Date(new Date(previous.last_seen_published_at).getTime() - WATERMARK_GRACE_MS)
+        : null;
+      const fetchedAt = new Date();
+      let skippedItems = 0;
       
       // Parse RSS feed
       const feedparser = new FeedParser({
@@ -68,6 +173,28 @@ export class RSSCollector {
       feedparser.on('readable', function(this: FeedParser) {
         let item;
         while ((item = this.read())) {
+          const pubdate = item.pubdate && !isNaN(new Date(item.pubdate).getTime()) ? new Date(item.pubdate) : null;
+          // A future-dated item would otherwise hold the watermark ahead of everything the feed publishes until then
+          const publishedAt = pubdate && pubdate > fetchedAt ? fetchedAt : pubdate;
+
+          // Track the newest item for the next run, whether or not it is new to us
+          if (publishedAt && (!state.last_seen_published_at || publishedAt > new Date(state.last_seen_published_at))) {
+            state.last_seen_published_at = publishedAt;
+            state.last_seen_guid = item.guid || item.link || null;
+          }
+
+          // Items are judged one by one rather than stopping at the last seen one, since some feeds
+          // (Google News among them) don't list newest first. Undated items always pass; storage
+          // dedupes them by content hash, as it does items repeated inside the grace window.
+          if (previous?.last_seen_guid && (item.guid || item.link) === previous.last_seen_guid) {
+            skippedItems++;
+            continue;
+          }
+          if (watermark && publishedAt && publishedAt < watermark) {
+            skippedItems++;
+            continue;
+          }
+
           const article = parseRSSItem(item, source);
           if (article) {
             articles.push(article);
@@ -76,7 +203,7 @@ export class RSSCollector {
       });
       
       feedparser.on('end', () => {
-        resolve(articles);
+        resolve({ articles, httpStatus: response.status, notModified: false, skippedItems, state });
       });
       
       // Convert response to stream and pipe to feedparser
@@ -91,7 +218,7 @@ export class RSSCollector {
   }
 
   async collectByCategory(category: string): Promise<RawContentItem[]> {
-    const categoryFeeds = this.sources.filter(s => s.category === category);
+    const categoryFeeds = (await this.getSources()).filter(s => s.category === category);
     console.log(`📡 Collecting from ${categoryFeeds.length} ${category} feeds...`);
     
     const allArticles: RawContentItem[] = [];
@@ -109,7 +236,7 @@ export class RSSCollector {
   }
 
   async collectHighPriority(): Promise<RawContentItem[]> {
-    const priorityFeeds = this.sources.filter(s => s.priority === 1);
+    const priorityFeeds = (await this.getSources()).filter(s => s.priority === 1);
     console.log(`⭐ Collecting from ${priorityFeeds.length} high-priority feeds...`);
     
     const allArticles: RawContentItem[] = [];
@@ -127,6 +254,14 @@ export class RSSCollector {
   }
 }
 
+function getHttpStatus(error: unknown): number | undefined {
+  if (error && typeof error === 'object' && 'response' in error) {
+    const response = (error as { response?: { status?: number } }).response;
+    return response?.status;
+  }
+  return undefined;
+}
+
 function parseRSSItem(item: any, source: RSSSource): RawContentItem | null {
   try {
     // Extract and clean description
@@ -209,18 +344,23 @@ function parseRSSItem(item: any, source: RSSSource): RawContentItem | null {
       }
     }
     
+    // Google News wraps publisher links; unwrap them and drop tracking parameters
+    const rawLink = item.link || item.guid || '';
+    const link = rawLink ? normalizeUrl(decodeGoogleNewsUrl(rawLink) || rawLink) : '';
+
     // Generate content hash from URL or GUID
-    const uniqueId = item.link || item.guid || `${item.title}-${item.pubDate}`;
+    const uniqueId = link || `${item.title}-${item.pubDate}`;
     const contentHash = crypto.createHash('md5').update(uniqueId).digest('hex');
     
     const rawItem: RawContentItem & { metadata?: any; content_hash?: string; image_url?: string } = {
       title: item.title || 'Untitled',
-      url: item.link || item.guid || '',
+      url: link,
       snippet: description.substring(0, 500),
       full_content: description,
       published_at: item.pubDate ? new Date(item.pubDate) : undefined,
       author: item.author || source.name,
-      categories: item.categories || [source.category]
+      categories: item.categories || [source.category],
+      language: source.language
     };
     
     // Add metadata as extended properties
@@ -0,0 +1,192 @@
+import db from '../db/connection';
+import { RSS_SOURCES, RSSSource } from '../config/rss-sources';
+import { LanguageCode } from '../config/languages';
+
+export interface RegisteredRSSSource extends RSSSource {
+  id: string;
+  language: LanguageCode;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type RSSSourceInput = RSSSource & { enabled?: boolean };
+
+export class RSSSourceConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RSSSourceConflictError';
+  }
+}
+
+const SOURCE_COLUMNS = 'id, name, url, category, source_group, priority, update_frequency, language, enabled, created_at, updated_at';
+const UPDATABLE_FIELDS = ['name', 'url', 'category', 'source_group', 'priority', 'update_frequency', 'language', 'enabled'] as const;
+
+// Runtime-managed RSS feeds. The table is seeded from RSS_SOURCES so new config
+// entries appear automatically, while feeds edited or removed via the API stay that way.
+export class RSSSourceRegistry {
+  private static seeded: Promise<void> | null = null;
+
+  private async ensureReady(): Promise<void> {
+    await db.ensureSchema('rss-sources-schema.sql');
+
+    if (!RSSSourceRegistry.seeded) {
+      RSSSourceRegistry.seeded = this.seedFromConfig();
+      RSSSourceRegistry.seeded.catch(() => { RSSSourceRegistry.seeded = null; });
+    }
+    await RSSSourceRegistry.seeded;
+  }
+
+  private async seedFromConfig(): Promise<void> {
+    let inserted = 0;
+    for (const source of RSS_SOURCES) {
+      const result = await db.query(`
+        INSERT INTO rss_sources (name, url, category, source_group, priority, update_frequency, language)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT DO NOTHING
+      `, [source.name, source.url, source.category, source.source_group, source.priority, source.update_frequency, source.language || 'en']);
+      inserted += result.rowCount || 0;
+    }
+
+    if (inserted > 0) {
+      console.log(`🌱 Seeded ${inserted} RSS sources from configuration`);
+    }
+  }
+
+  async list(options: { enabled?: boolean } = {}): Promise<RegisteredRSSSource[]> {
+    await this.ensureReady();
+
+    const values: unknown[] = [];
+    let query = `SELECT ${SOURCE_COLUMNS} FROM rss_sources WHERE deleted_at IS NULL`;
+    if (options.enabled !== undefined) {
+      values.push(options.enabled);
+      query += ` AND enabled = $${values.length}`;
+    }
+    query += ' ORDER BY priority, name';
+
+    const result = await db.query(query, values);
+    return result.rows;
+  }
+
+  async get(id: string): Promise<RegisteredRSSSource | null> {
+    await this.ensureReady();
+    const result = await db.query(
+      `SELECT ${SOURCE_COLUMNS} FROM rss_sources WHERE id = $1 AND deleted_at IS NULL`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  async create(source: RSSSourceInput): Promise<RegisteredRSSSource> {
+    await this.ensureReady();
+
+    try {
+      // Re-creating a previously deleted feed revives its row
+      const result = await db.query(`
+        INSERT INTO rss_sources (name, url, category, source_group, priority, update_frequency, language, enabled)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (name) DO UPDATE SET
+          url = EXCLUDED.url,
+          category = EXCLUDED.category,
+          source_group = EXCLUDED.source_group,
+          priority = EXCLUDED.priority,
+          update_frequency = EXCLUDED.update_frequency,
+          language = EXCLUDED.language,
+          enabled = EXCLUDED.enabled,
+          deleted_at = NULL,
+          updated_at = now()
+        WHERE rss_sources.deleted_at IS NOT NULL
+        RETURNING ${SOURCE_COLUMNS}
+      `, [
+        source.name,
+        source.url,
+        source.category,
+        source.source_group,
+        source.priority,
+        source.update_frequency,
+        source.language || 'en',
+        source.enabled ?? true
+      ]);
+
+      if (result.rows.length === 0) {
+        throw new RSSSourceConflictError(`RSS source "${source.name}" already exists`);
+      }
+
+      console.log(`➕ Registered RSS source: ${source.name}`);
+      return result.rows[0];
+    } catch (error) {
+      throw this.translateError(error);
+    }
+  }
+
+  async update(id: string, changes: Partial<RSSSourceInput>): Promise<RegisteredRSSSource | null> {
+    await this.ensureReady();
+
+    const assignments: string[] = [];
+    const values: unknown[] = [id];
+    for (const field of UPDATABLE_FIELDS) {
+      if (changes[field] !== undefined) {
+        values.push(changes[field]);
+        assignments.push(`${field} = $${values.length}`);
+      }
+    }
+
+    if (assignments.length === 0) {
+      return this.get(id);
+    }
+
+    try {
+      const result = await db.query(`
+        UPDATE rss_sources SET ${assignments.join(', ')}, updated_at = now()
+        WHERE id = $1 AND deleted_at IS NULL
+        RETURNING ${SOURCE_COLUMNS}
+      `, values);
+
+      if (result.rows[0]) {
+        console.log(`✏️ Updated RSS source: ${result.rows[0].name}`);
+      }
+      return result.rows[0] || null;
+    } catch (error) {
+      throw this.translateError(error);
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.ensureReady();
+    const result = await db.query(
+      'UPDATE rss_sources SET deleted_at = now(), enabled = false, updated_at = now() WHERE id = $1 AND deleted_at IS NULL',
+      [id]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Feeds the collector should fetch; falls back to the static config if the database is unavailable
+  async getEnabledSources(): Promise<RSSSource[]> {
+    try {
+      const sources = await this.list({ enabled: true });
+      return sources.map(toRSSSource);
+    } catch (error) {
+      console.error('⚠️ Could not load RSS source registry, using configured feeds:', error);
+      return RSS_SOURCES;
+    }
+  }
+
+  private translateError(error: unknown): unknown {
+    if (error && typeof error === 'object' && 'code' in error && (error as { code?: string }).code === '23505') {
+      return new RSSSourceConflictError('An RSS source with this name or URL already exists');
+    }
+    return error;
+  }
+}
+
+export function toRSSSource(source: RegisteredRSSSource): RSSSource {
+  return {
+    name: source.name,
+    url: source.url,
+    category: source.category,
+    source_group: source.source_group,
+    priority: source.priority,
+    update_frequency: source.update_frequency,
+    language: source.language
+  };
+}
@@ -0,0 +1,62 @@
+// Domain authority seeds for ContentScorer. Patterns are a host ("pib.gov.in") or a
+// wildcard ("*.gov.in", which also matches gov.in itself); the most specific match wins.
+
+export const DOMAIN_AUTHORITY_TIERS = ['government', 'regulator', 'tier1_media', 'hr_trade_press', 'blog', 'vendor_marketing'] as const;
+
+export type DomainAuthorityTier = typeof DOMAIN_AUTHORITY_TIERS[number];
+
+// Used when an entry doesn't set its own score
+export const TIER_DEFAULT_SCORES: Record<DomainAuthorityTier, number> = {
+  government: 1.0,
+  regulator: 0.95,
+  tier1_media: 0.85,
+  hr_trade_press: 0.8,
+  blog: 0.5,
+  vendor_marketing: 0.4
+};
+
+// Domains that match no entry
+export const DEFAULT_DOMAIN_AUTHORITY = 0.70;
+
+export interface DomainAuthoritySeed {
+  pattern: string;
+  tier: DomainAuthorityTier;
+  score?: number;
+  notes?: string;
+}
+
+export const DOMAIN_AUTHORITIES: DomainAuthoritySeed[] = [
+  // Government
+  { pattern: '*.gov.in', tier: 'government' },
+  { pattern: '*.nic.in', tier: 'government' },
+  { pattern: 'pib.gov.in', tier: 'government', notes: 'Press Information Bureau' },
+  { pattern: 'labour.gov.in', tier: 'government', notes: 'Ministry of Labour & Employment' },
+  { pattern: 'epfindia.gov.in', tier: 'government', notes: 'EPFO' },
+  { pattern: 'esic.gov.in', tier: 'government', notes: 'ESIC' },
+
+  // Regulators
+  { pattern: '*.rbi.org.in', tier: 'regulator' },
+  { pattern: 'sebi.gov.in', tier: 'regulator' },
+
+  // National media
+  { pattern: 'economictimes.indiatimes.com', tier: 'tier1_media' },
+  { pattern: 'timesofindia.indiatimes.com', tier: 'tier1_media' },
+  { pattern: 'indianexpress.com', tier: 'tier1_media' },
+  { pattern: 'thehindu.com', tier: 'tier1_media' },
+  { pattern: 'livemint.com', tier: 'tier1_media' },
+  { pattern: 'business-standard.com', tier: 'tier1_media' },
+  { pattern: 'hindustantimes.com', tier: 'tier1_media' },
+  { pattern: 'moneycontrol.com', tier: 'tier1_media' },
+
+  // HR trade press
+  { pattern: 'hr.economictimes.indiatimes.com', tier: 'hr_trade_press', score: 0.85 },
+  { pattern: 'peoplematters.in', tier: 'hr_trade_press' },
+  { pattern: 'hrkatha.com', tier: 'hr_trade_press' },
+  { pattern: 'shrm.org', tier: 'hr_trade_press' },
+
+  // Blogs
+  { pattern: 'medium.com', tier: 'blog' },
+  { pattern: '*.blogspot.com', tier: 'blog' },
+  { pattern: '*.wordpress.com', tier: 'blog' },
+  { pattern: '*.substack.com', tier: 'blog' }
+];
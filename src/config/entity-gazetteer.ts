@@ -0,0 +1,104 @@
+// Entities seeded into the entities table. Names and aliases are matched as whole tokens
+// (case-insensitive) by EntityExtractor, so keep ambiguous short forms (e.g. "Indeed", "Meta")
+// out. Locations reuse the states and cities of the Indian gazetteer.
+
+import { EntityType } from '../types/entities';
+import { INDIAN_CITIES, INDIAN_STATES } from './indian-gazetteer';
+
+export interface EntitySeed {
+  name: string;
+  type: EntityType;
+  aliases?: string[];
+}
+
+export const COMPANY_ENTITIES: EntitySeed[] = [
+  { name: 'Tata Consultancy Services', type: 'company', aliases: ['TCS'] },
+  { name: 'Infosys', type: 'company', aliases: ['Infy'] },
+  { name: 'Wipro', type: 'company' },
+  { name: 'HCLTech', type: 'company', aliases: ['HCL Technologies', 'HCL Tech'] },
+  { name: 'Tech Mahindra', type: 'company' },
+  { name: 'LTIMindtree', type: 'company', aliases: ['LTI Mindtree'] },
+  { name: 'Larsen and Toubro', type: 'company', aliases: ['L&T', 'Larsen & Toubro'] },
+  { name: 'Cognizant', type: 'company' },
+  { name: 'Accenture', type: 'company' },
+  { name: 'Capgemini', type: 'company' },
+  { name: 'IBM', type: 'company' },
+  { name: 'Reliance Industries', type: 'company', aliases: ['RIL'] },
+  { name: 'Tata Motors', type: 'company' },
+  { name: 'Tata Steel', type: 'company' },
+  { name: 'Mahindra and Mahindra', type: 'company', aliases: ['M&M', 'Mahindra & Mahindra'] },
+  { name: 'Maruti Suzuki', type: 'company' },
+  { name: 'Hindustan Unilever', type: 'company', aliases: ['HUL'] },
+  { name: 'ITC', type: 'company' },
+  { name: 'HDFC Bank', type: 'company' },
+  { name: 'ICICI Bank', type: 'company' },
+  { name: 'State Bank of India', type: 'company', aliases: ['SBI'] },
+  { name: 'Punjab National Bank', type: 'company', aliases: ['PNB'] },
+  { name: 'Axis Bank', type: 'company' },
+  { name: 'Flipkart', type: 'company' },
+  { name: 'Amazon', type: 'company' },
+  { name: 'Google', type: 'company', aliases: ['Alphabet'] },
+  { name: 'Microsoft', type: 'company' },
+  { name: 'Zomato', type: 'company', aliases: ['Eternal'] },
+  { name: 'Swiggy', type: 'company' },
+  { name: 'Paytm', type: 'company', aliases: ['One97 Communications'] },
+  { name: 'Byju\'s', type: 'company', aliases: ['Think and Learn'] },
+  { name: 'Ola', type: 'company', aliases: ['Ola Electric', 'ANI Technologies'] },
+  { name: 'Info Edge', type: 'company', aliases: ['Naukri', 'Naukri.com'] },
+  { name: 'TeamLease', type: 'company', aliases: ['TeamLease Services'] },
+  { name: 'Quess Corp', type: 'company', aliases: ['Quess'] },
+  { name: 'Randstad', type: 'company', aliases: ['Randstad India'] },
+  { name: 'Adecco', type: 'company', aliases: ['Adecco India'] },
+  { name: 'LinkedIn', type: 'company' },
+  { name: 'Deloitte', type: 'company' },
+  { name: 'PwC', type: 'company', aliases: ['PricewaterhouseCoopers'] },
+  { name: 'EY', type: 'company', aliases: ['Ernst & Young', 'Ernst and Young'] },
+  { name: 'KPMG', type: 'company' },
+  { name: 'Mercer', type: 'company' },
+  { name: 'Aon', type: 'company' },
+  { name: 'WTW', type: 'company', aliases: ['Willis Towers Watson'] },
+  { name: 'NASSCOM', type: 'company', aliases: ['National Association of Software and Service Companies'] }
+];
+
+export const GOVERNMENT_ENTITIES: EntitySeed[] = [
+  { name: 'EPFO', type: 'government_body', aliases: ['Employees Provident Fund Organisation', 'Employees\' Provident Fund Organisation'] },
+  { name: 'ESIC', type: 'government_body', aliases: ['Employees State Insurance Corporation', 'Employees\' State Insurance Corporation'] },
+  { name: 'Ministry of Labour and Employment', type: 'government_body', aliases: ['Ministry of Labour', 'Labour Ministry', 'MoLE'] },
+  { name: 'Labour Bureau', type: 'government_body' },
+  { name: 'Directorate General of Employment', type: 'government_body', aliases: ['DGE'] },
+  { name: 'Ministry of Finance', type: 'government_body', aliases: ['Finance Ministry'] },
+  { name: 'Ministry of Statistics and Programme Implementation', type: 'government_body', aliases: ['MoSPI', 'National Statistics Office', 'NSO'] },
+  { name: 'Ministry of Skill Development and Entrepreneurship', type: 'government_body', aliases: ['MSDE'] },
+  { name: 'NSDC', type: 'government_body', aliases: ['National Skill Development Corporation'] },
+  { name: 'NITI Aayog', type: 'government_body' },
+  { name: 'SEBI', type: 'government_body', aliases: ['Securities and Exchange Board of India'] },
+  { name: 'RBI', type: 'government_body', aliases: ['Reserve Bank of India'] },
+  { name: 'CBDT', type: 'government_body', aliases: ['Central Board of Direct Taxes', 'Income Tax Department'] },
+  { name: 'Ministry of Corporate Affairs', type: 'government_body', aliases: ['MCA'] },
+  { name: 'Supreme Court of India', type: 'government_body', aliases: ['Supreme Court'] }
+];
+
+// Office holders change; the LLM pass adds people as they appear in the news
+export const PERSON_ENTITIES: EntitySeed[] = [
+  { name: 'Mansukh Mandaviya', type: 'person' },
+  { name: 'Nirmala Sitharaman', type: 'person' },
+  { name: 'N Chandrasekaran', type: 'person', aliases: ['Natarajan Chandrasekaran'] },
+  { name: 'K Krithivasan', type: 'person' },
+  { name: 'Salil Parekh', type: 'person' },
+  { name: 'N R Narayana Murthy', type: 'person', aliases: ['Narayana Murthy', 'NR Narayana Murthy'] },
+  { name: 'Srinivas Pallia', type: 'person' },
+  { name: 'C Vijayakumar', type: 'person' }
+];
+
+export const LOCATION_ENTITIES: EntitySeed[] = [...INDIAN_STATES, ...INDIAN_CITIES].map(entry => ({
+  name: entry.name,
+  type: 'location',
+  aliases: entry.aliases
+}));
+
+export const ENTITY_GAZETTEER: EntitySeed[] = [
+  ...COMPANY_ENTITIES,
+  ...GOVERNMENT_ENTITIES,
+  ...PERSON_ENTITIES,
+  ...LOCATION_ENTITIES
+];
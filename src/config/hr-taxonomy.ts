@@ -0,0 +1,62 @@
+// HR topic taxonomy, seeded into taxonomy_nodes. Slugs are dotted paths, so
+// 'compensation.variable_pay' is a child of 'compensation'. Keywords are matched as whole
+// tokens (case-insensitive) by TopicClassifier; an item tagged with a child is also tagged
+// with its parent.
+
+export interface TaxonomySeed {
+  slug: string;
+  name: string;
+  keywords: string[];
+}
+
+export const HR_TAXONOMY: TaxonomySeed[] = [
+  { slug: 'compensation', name: 'Compensation', keywords: ['compensation', 'salary', 'salaries', 'pay', 'wages', 'CTC', 'remuneration'] },
+  { slug: 'compensation.salary_increments', name: 'Salary increments', keywords: ['increment', 'increments', 'salary hike', 'pay hike', 'wage hike', 'appraisal', 'appraisals', 'pay revision'] },
+  { slug: 'compensation.variable_pay', name: 'Variable pay', keywords: ['variable pay', 'bonus', 'bonuses', 'incentive', 'incentives', 'performance pay', 'commission'] },
+  { slug: 'compensation.equity', name: 'Equity and ESOPs', keywords: ['ESOP', 'ESOPs', 'stock options', 'RSU', 'RSUs', 'employee stock'] },
+  { slug: 'compensation.minimum_wages', name: 'Minimum wages', keywords: ['minimum wage', 'minimum wages', 'floor wage', 'living wage', 'dearness allowance'] },
+  { slug: 'compensation.pay_equity', name: 'Pay equity', keywords: ['pay gap', 'gender pay gap', 'pay parity', 'pay transparency', 'equal pay'] },
+
+  { slug: 'benefits', name: 'Benefits', keywords: ['benefits', 'employee benefits', 'perks'] },
+  { slug: 'benefits.retirement', name: 'Provident fund and retirement', keywords: ['provident fund', 'PF', 'EPF', 'EPS', 'pension', 'gratuity', 'NPS', 'retirement'] },
+  { slug: 'benefits.health', name: 'Health insurance', keywords: ['health insurance', 'medical insurance', 'group health', 'ESI', 'health cover'] },
+  { slug: 'benefits.leave', name: 'Leave policy', keywords: ['leave policy', 'maternity leave', 'paternity leave', 'menstrual leave', 'parental leave', 'sabbatical', 'earned leave'] },
+
+  { slug: 'compliance', name: 'Compliance', keywords: ['compliance', 'labour law', 'labour laws', 'statutory'] },
+  { slug: 'compliance.labour_codes', name: 'Labour codes', keywords: ['labour code', 'labour codes', 'code on wages', 'wage code', 'industrial relations code', 'code on social security', 'social security code', 'OSH code'] },
+  { slug: 'compliance.social_security', name: 'Social security (EPFO, ESIC)', keywords: ['EPFO', 'ESIC', 'UAN', 'social security', 'e-Shram', 'eShram'] },
+  { slug: 'compliance.workplace_safety', name: 'Workplace safety and POSH', keywords: ['POSH', 'sexual harassment', 'internal committee', 'workplace safety', 'occupational safety', 'Factories Act'] },
+  { slug: 'compliance.employment_law', name: 'Employment law', keywords: ['Shops and Establishments Act', 'contract labour', 'standing orders', 'Industrial Disputes Act', 'notice period', 'non-compete', 'moonlighting'] },
+
+  { slug: 'talent_acquisition', name: 'Talent acquisition', keywords: ['recruitment', 'recruiting', 'recruiter', 'recruiters', 'talent acquisition'] },
+  { slug: 'talent_acquisition.hiring_trends', name: 'Hiring trends', keywords: ['hiring', 'hires', 'job openings', 'vacancies', 'job postings', 'hiring intent', 'headcount'] },
+  { slug: 'talent_acquisition.campus_hiring', name: 'Campus hiring', keywords: ['campus hiring', 'campus placements', 'placements', 'freshers', 'fresh graduates', 'internship', 'internships'] },
+  { slug: 'talent_acquisition.gig_work', name: 'Gig and contract work', keywords: ['gig workers', 'gig economy', 'gig work', 'platform workers', 'freelancers', 'temporary staffing', 'contract staffing', 'flexi staffing'] },
+  { slug: 'talent_acquisition.layoffs', name: 'Layoffs', keywords: ['layoffs', 'layoff', 'laid off', 'job cuts', 'retrenchment', 'downsizing', 'redundancies'] },
+
+  { slug: 'retention', name: 'Retention', keywords: ['retention', 'retain talent'] },
+  { slug: 'retention.attrition', name: 'Attrition', keywords: ['attrition', 'resignation', 'resignations', 'great resignation', 'quit rate', 'employee turnover', 'turnover'] },
+  { slug: 'retention.engagement', name: 'Employee engagement', keywords: ['employee engagement', 'engagement', 'employee experience', 'employee satisfaction', 'recognition'] },
+
+  { slug: 'learning', name: 'Learning and development', keywords: ['learning and development', 'L&D', 'training', 'learning'] },
+  { slug: 'learning.skilling', name: 'Upskilling and reskilling', keywords: ['upskilling', 'reskilling', 'skilling', 'skill development', 'skills gap', 'apprenticeship', 'apprentices'] },
+  { slug: 'learning.leadership', name: 'Leadership development', keywords: ['leadership development', 'leadership', 'succession planning', 'CHRO', 'CHROs'] },
+
+  { slug: 'workplace', name: 'Workplace', keywords: ['workplace', 'work culture', 'workplace culture'] },
+  { slug: 'workplace.flexible_work', name: 'Remote and hybrid work', keywords: ['remote work', 'work from home', 'WFH', 'hybrid work', 'hybrid', 'return to office', 'RTO', 'four-day week', 'four day week'] },
+  { slug: 'workplace.wellbeing', name: 'Wellbeing', keywords: ['wellbeing', 'well-being', 'mental health', 'burnout', 'wellness', 'work-life balance', 'work life balance'] },
+  { slug: 'workplace.diversity', name: 'Diversity and inclusion', keywords: ['diversity', 'inclusion', 'DEI', 'D&I', 'gender diversity', 'women in the workforce', 'LGBTQ', 'persons with disabilities'] },
+
+  { slug: 'hr_technology', name: 'HR technology', keywords: ['HR tech', 'HRTech', 'HRMS', 'HRIS', 'payroll software', 'HR software'] },
+  { slug: 'hr_technology.ai', name: 'AI in HR', keywords: ['AI', 'artificial intelligence', 'generative AI', 'GenAI', 'machine learning', 'automation', 'chatbot', 'chatbots'] },
+  { slug: 'hr_technology.people_analytics', name: 'People analytics', keywords: ['people analytics', 'HR analytics', 'workforce analytics', 'HR data'] },
+
+  { slug: 'labour_market', name: 'Labour market', keywords: ['labour market', 'job market', 'employment', 'jobs'] },
+  { slug: 'labour_market.employment_data', name: 'Employment data', keywords: ['unemployment', 'unemployment rate', 'PLFS', 'labour force participation', 'employment rate', 'payroll data', 'job creation'] },
+  { slug: 'labour_market.industrial_relations', name: 'Industrial relations', keywords: ['trade union', 'trade unions', 'union', 'unions', 'strike', 'strikes', 'collective bargaining', 'wage agreement'] }
+];
+
+export function parentSlug(slug: string): string | null {
+  const index = slug.lastIndexOf('.');
+  return index === -1 ? null : slug.substring(0, index);
+}
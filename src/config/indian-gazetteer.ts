@@ -0,0 +1,179 @@
+// Gazetteer for the Indian-context classifier. Names and aliases are matched as whole
+// tokens (case-insensitive), so "PF" never fires inside "profit". Add entries here, or pass
+// extra ones to IndianContextClassifier.
+
+export const GAZETTEER_KINDS = ['country', 'state', 'city', 'regulator', 'statute', 'scheme', 'term', 'currency'] as const;
+
+export type GazetteerKind = typeof GAZETTEER_KINDS[number];
+
+export interface GazetteerEntry {
+  name: string;
+  kind: GazetteerKind;
+  aliases?: string[];
+  // The state an entry is located in: a state's own name, or a city's state
+  state?: string;
+}
+
+// States and union territories; items are tagged with these names
+export const INDIAN_STATES: GazetteerEntry[] = [
+  { name: 'Andhra Pradesh', kind: 'state' },
+  { name: 'Arunachal Pradesh', kind: 'state' },
+  { name: 'Assam', kind: 'state' },
+  { name: 'Bihar', kind: 'state' },
+  { name: 'Chhattisgarh', kind: 'state' },
+  { name: 'Goa', kind: 'state' },
+  { name: 'Gujarat', kind: 'state' },
+  { name: 'Haryana', kind: 'state' },
+  { name: 'Himachal Pradesh', kind: 'state' },
+  { name: 'Jharkhand', kind: 'state' },
+  { name: 'Karnataka', kind: 'state' },
+  { name: 'Kerala', kind: 'state' },
+  { name: 'Madhya Pradesh', kind: 'state' },
+  { name: 'Maharashtra', kind: 'state' },
+  { name: 'Manipur', kind: 'state' },
+  { name: 'Meghalaya', kind: 'state' },
+  { name: 'Mizoram', kind: 'state' },
+  { name: 'Nagaland', kind: 'state' },
+  { name: 'Odisha', kind: 'state', aliases: ['Orissa'] },
+  { name: 'Punjab', kind: 'state' },
+  { name: 'Rajasthan', kind: 'state' },
+  { name: 'Sikkim', kind: 'state' },
+  { name: 'Tamil Nadu', kind: 'state' },
+  { name: 'Telangana', kind: 'state' },
+  { name: 'Tripura', kind: 'state' },
+  { name: 'Uttar Pradesh', kind: 'state' },
+  { name: 'Uttarakhand', kind: 'state' },
+  { name: 'West Bengal', kind: 'state' },
+  { name: 'Andaman and Nicobar Islands', kind: 'state' },
+  { name: 'Chandigarh', kind: 'state' },
+  { name: 'Dadra and Nagar Haveli and Daman and Diu', kind: 'state' },
+  { name: 'Delhi', kind: 'state', aliases: ['New Delhi', 'NCT of Delhi'] },
+  { name: 'Jammu and Kashmir', kind: 'state', aliases: ['J&K'] },
+  { name: 'Ladakh', kind: 'state' },
+  { name: 'Lakshadweep', kind: 'state' },
+  { name: 'Puducherry', kind: 'state', aliases: ['Pondicherry'] }
+].map(entry => ({ ...entry, kind: 'state' as const, state: entry.name }));
+
+export const INDIAN_CITIES: GazetteerEntry[] = [
+  { name: 'Mumbai', kind: 'city', state: 'Maharashtra', aliases: ['Bombay'] },
+  { name: 'Pune', kind: 'city', state: 'Maharashtra' },
+  { name: 'Nagpur', kind: 'city', state: 'Maharashtra' },
+  { name: 'Navi Mumbai', kind: 'city', state: 'Maharashtra' },
+  { name: 'Bengaluru', kind: 'city', state: 'Karnataka', aliases: ['Bangalore'] },
+  { name: 'Mysuru', kind: 'city', state: 'Karnataka', aliases: ['Mysore'] },
+  { name: 'Chennai', kind: 'city', state: 'Tamil Nadu', aliases: ['Madras'] },
+  { name: 'Coimbatore', kind: 'city', state: 'Tamil Nadu' },
+  { name: 'Hyderabad', kind: 'city', state: 'Telangana' },
+  { name: 'Kolkata', kind: 'city', state: 'West Bengal', aliases: ['Calcutta'] },
+  { name: 'Ahmedabad', kind: 'city', state: 'Gujarat' },
+  { name: 'Surat', kind: 'city', state: 'Gujarat' },
+  { name: 'Vadodara', kind: 'city', state: 'Gujarat' },
+  { name: 'GIFT City', kind: 'city', state: 'Gujarat' },
+  { name: 'Gurugram', kind: 'city', state: 'Haryana', aliases: ['Gurgaon'] },
+  { name: 'Noida', kind: 'city', state: 'Uttar Pradesh', aliases: ['Greater Noida'] },
+  { name: 'Lucknow', kind: 'city', state: 'Uttar Pradesh' },
+  { name: 'Kanpur', kind: 'city', state: 'Uttar Pradesh' },
+  { name: 'Jaipur', kind: 'city', state: 'Rajasthan' },
+  { name: 'Indore', kind: 'city', state: 'Madhya Pradesh' },
+  { name: 'Bhopal', kind: 'city', state: 'Madhya Pradesh' },
+  { name: 'Kochi', kind: 'city', state: 'Kerala', aliases: ['Cochin'] },
+  { name: 'Thiruvananthapuram', kind: 'city', state: 'Kerala', aliases: ['Trivandrum'] },
+  { name: 'Visakhapatnam', kind: 'city', state: 'Andhra Pradesh', aliases: ['Vizag'] },
+  { name: 'Bhubaneswar', kind: 'city', state: 'Odisha' },
+  { name: 'Patna', kind: 'city', state: 'Bihar' },
+  { name: 'Ranchi', kind: 'city', state: 'Jharkhand' },
+  { name: 'Guwahati', kind: 'city', state: 'Assam' },
+  { name: 'Dehradun', kind: 'city', state: 'Uttarakhand' },
+  { name: 'Ludhiana', kind: 'city', state: 'Punjab' },
+  { name: 'Srinagar', kind: 'city', state: 'Jammu and Kashmir' }
+];
+
+export const INDIAN_INSTITUTIONS: GazetteerEntry[] = [
+  { name: 'India', kind: 'country', aliases: ['Indian', 'Indians', 'Bharat'] },
+
+  // Regulators and government bodies
+  { name: 'EPFO', kind: 'regulator', aliases: ['Employees Provident Fund Organisation', 'Employees\' Provident Fund Organisation'] },
+  { name: 'ESIC', kind: 'regulator', aliases: ['Employees State Insurance Corporation', 'Employees\' State Insurance Corporation'] },
+  { name: 'Ministry of Labour and Employment', kind: 'regulator', aliases: ['Ministry of Labour', 'Labour Ministry', 'MoLE'] },
+  { name: 'Labour Bureau', kind: 'regulator' },
+  { name: 'Government of India', kind: 'regulator', aliases: ['Union government', 'Central government', 'GoI'] },
+  { name: 'SEBI', kind: 'regulator', aliases: ['Securities and Exchange Board of India'] },
+  { name: 'RBI', kind: 'regulator', aliases: ['Reserve Bank of India'] },
+  { name: 'NITI Aayog', kind: 'regulator' },
+  { name: 'MoSPI', kind: 'regulator', aliases: ['Ministry of Statistics and Programme Implementation', 'NSO', 'PLFS', 'Periodic Labour Force Survey'] },
+  { name: 'NSDC', kind: 'regulator', aliases: ['National Skill Development Corporation'] },
+  { name: 'Ministry of Skill Development and Entrepreneurship', kind: 'regulator', aliases: ['MSDE'] },
+  { name: 'CBDT', kind: 'regulator', aliases: ['Central Board of Direct Taxes', 'Income Tax Department'] },
+  { name: 'MCA', kind: 'regulator', aliases: ['Ministry of Corporate Affairs'] },
+  { name: 'NASSCOM', kind: 'regulator' },
+
+  // Statutes, including the four labour codes
+  { name: 'Code on Wages', kind: 'statute', aliases: ['Wage Code', 'Code on Wages 2019'] },
+  { name: 'Industrial Relations Code', kind: 'statute', aliases: ['IR Code', 'Industrial Relations Code 2020'] },
+  { name: 'Code on Social Security', kind: 'statute', aliases: ['Social Security Code', 'Code on Social Security 2020'] },
+  { name: 'Occupational Safety, Health and Working Conditions Code', kind: 'statute', aliases: ['OSH Code', 'OSHWC Code', 'Occupational Safety Health and Working Conditions Code'] },
+  { name: 'Labour Codes', kind: 'statute', aliases: ['Labour Code', 'new labour codes', 'four labour codes'] },
+  { name: 'Shops and Establishments Act', kind: 'statute', aliases: ['Shops & Establishments Act', 'Shops and Establishment Act', 'Shops & Establishment Act'] },
+  { name: 'Payment of Gratuity Act', kind: 'statute' },
+  { name: 'Payment of Bonus Act', kind: 'statute' },
+  { name: 'Payment of Wages Act', kind: 'statute' },
+  { name: 'Minimum Wages Act', kind: 'statute' },
+  { name: 'Maternity Benefit Act', kind: 'statute' },
+  { name: 'POSH Act', kind: 'statute', aliases: ['POSH', 'Sexual Harassment of Women at Workplace Act'] },
+  { name: 'Factories Act', kind: 'statute' },
+  { name: 'Industrial Disputes Act', kind: 'statute' },
+  { name: 'Contract Labour Act', kind: 'statute', aliases: ['Contract Labour (Regulation and Abolition) Act'] },
+  { name: 'EPF Act', kind: 'statute', aliases: ['Employees Provident Funds and Miscellaneous Provisions Act'] },
+  { name: 'ESI Act', kind: 'statute', aliases: ['Employees State Insurance Act'] },
+  { name: 'Apprentices Act', kind: 'statute' },
+  { name: 'DPDP Act', kind: 'statute', aliases: ['Digital Personal Data Protection Act'] },
+
+  // Schemes
+  { name: 'e-Shram', kind: 'scheme', aliases: ['eShram', 'e Shram'] },
+  { name: 'PMKVY', kind: 'scheme', aliases: ['Pradhan Mantri Kaushal Vikas Yojana'] },
+  { name: 'Skill India', kind: 'scheme' },
+  { name: 'Startup India', kind: 'scheme' },
+  { name: 'MGNREGA', kind: 'scheme', aliases: ['MGNREGS', 'NREGA'] },
+  { name: 'ELI scheme', kind: 'scheme', aliases: ['Employment Linked Incentive'] },
+  { name: 'Atal Pension Yojana', kind: 'scheme' },
+  { name: 'PM Internship Scheme', kind: 'scheme' },
+
+  // Employment terms specific to India
+  { name: 'Provident Fund', kind: 'term', aliases: ['PF', 'EPF', 'UAN', 'Universal Account Number'] },
+  { name: 'ESI', kind: 'term' },
+  { name: 'Gratuity', kind: 'term' },
+  { name: 'Form 16', kind: 'term' },
+  { name: 'Professional tax', kind: 'term' },
+  { name: 'Notice period buyout', kind: 'term' },
+
+  // Currency and number words
+  { name: 'Rupee', kind: 'currency', aliases: ['Rupees', 'INR', 'Rs', '₹'] },
+  { name: 'Lakh', kind: 'currency', aliases: ['Lakhs', 'Lac'] },
+  { name: 'Crore', kind: 'currency', aliases: ['Crores'] }
+];
+
+export const INDIAN_GAZETTEER: GazetteerEntry[] = [...INDIAN_STATES, ...INDIAN_CITIES, ...INDIAN_INSTITUTIONS];
+
+// Publishers based in India whose domains don't end in .in
+export const INDIAN_PUBLISHER_DOMAINS = [
+  'economictimes.indiatimes.com',
+  'timesofindia.indiatimes.com',
+  'indiatimes.com',
+  'livemint.com',
+  'thehindu.com',
+  'thehindubusinessline.com',
+  'hindustantimes.com',
+  'indianexpress.com',
+  'financialexpress.com',
+  'business-standard.com',
+  'moneycontrol.com',
+  'ndtv.com',
+  'news18.com',
+  'deccanherald.com',
+  'peoplematters.in',
+  'yourstory.com',
+  'inc42.com',
+  'thewire.in',
+  'scroll.in',
+  'theprint.in'
+];
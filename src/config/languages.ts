@@ -0,0 +1,36 @@
+// Languages we ingest. Detection works on the Unicode script; Hindi and Marathi share
+// Devanagari and are told apart by common function words (or the feed's declared language).
+// The Postgres text search configuration for each code is chosen by text_search_config()
+// in src/db/language-schema.sql.
+
+export const LANGUAGE_CODES = ['en', 'hi', 'mr', 'bn', 'gu', 'pa', 'or', 'ta', 'te', 'kn', 'ml'] as const;
+
+export type LanguageCode = typeof LANGUAGE_CODES[number];
+
+export interface LanguageInfo {
+  name: string;
+  script: string;
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  en: { name: 'English', script: 'Latin' },
+  hi: { name: 'Hindi', script: 'Devanagari' },
+  mr: { name: 'Marathi', script: 'Devanagari' },
+  bn: { name: 'Bengali', script: 'Bengali' },
+  gu: { name: 'Gujarati', script: 'Gujarati' },
+  pa: { name: 'Punjabi', script: 'Gurmukhi' },
+  or: { name: 'Odia', script: 'Oriya' },
+  ta: { name: 'Tamil', script: 'Tamil' },
+  te: { name: 'Telugu', script: 'Telugu' },
+  kn: { name: 'Kannada', script: 'Kannada' },
+  ml: { name: 'Malayalam', script: 'Malayalam' }
+};
+
+export function isLanguageCode(value: string): value is LanguageCode {
+  return (LANGUAGE_CODES as readonly string[]).includes(value);
+}
+
+// English name for a language code, or the code itself when it isn't one we know
+export function languageName(code: string): string {
+  return isLanguageCode(code) ? LANGUAGES[code].name : code;
+}
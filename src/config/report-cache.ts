@@ -0,0 +1,33 @@
+// Report reuse: how long a generated report answers new requests for the same topic and parameters
+
+import { QueryAnalysis } from '../types/chat';
+
+export type CacheIntent = QueryAnalysis['intent'] | 'default';
+
+// Hours a report stays reusable, by the intent of the new request. Questions about what just
+// happened need fresh coverage; background research holds up for days. 'default' covers API and
+// CLI requests, which carry no intent. Override with REPORT_CACHE_TTL_HOURS_<INTENT>, e.g.
+// REPORT_CACHE_TTL_HOURS_TEMPORAL=2; 0 turns reuse off for that intent.
+export const REPORT_CACHE_TTL_HOURS: Record<CacheIntent, number> = {
+  temporal: 6,
+  factual: 24,
+  comparative: 72,
+  exploratory: 72,
+  default: 24
+};
+
+export function cacheTTLHours(intent: CacheIntent = 'default', env: NodeJS.ProcessEnv = process.env): number {
+  const override = parseFloat(env[`REPORT_CACHE_TTL_HOURS_${intent.toUpperCase()}`] || '');
+  return Number.isFinite(override) && override >= 0 ? override : REPORT_CACHE_TTL_HOURS[intent];
+}
+
+// Topics whose embeddings are at least this similar count as the same question
+// (REPORT_CACHE_SIMILARITY, default 0.9), provided they also name the same states and entities.
+// Only used with a neural embedder: the hashing embedder measures word overlap, so topics that
+// differ in one word ("... in Karnataka" vs "... in Maharashtra") score about 0.85 and unrelated
+// questions with shared wording well above 0.5; with it, reports are only reused for the same
+// normalised topic.
+export const REPORT_CACHE_SIMILARITY = parseFloat(process.env.REPORT_CACHE_SIMILARITY || '') || 0.9;
+
+// Most recent reports with matching parameters compared by topic embedding
+export const REPORT_CACHE_CANDIDATES = 50;
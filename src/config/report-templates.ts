@@ -0,0 +1,120 @@
+// Report templates: the deliverables consultants can ask for. Seeded into the report_templates
+// table on first use; edits made via the API are kept.
+
+import { ScoringProfileName } from './scoring';
+
+export interface TemplateSection {
+  title: string;
+  // What the section covers, passed to the drafting prompt
+  instructions: string;
+  max_words: number;
+}
+
+// Defaults for source selection; values given with a request take precedence
+export interface TemplateSourceRules {
+  max_sources?: number;
+  time_range_days?: number;
+  scoring_profile?: ScoringProfileName;
+  // Only use sources tagged with at least one of these taxonomy nodes
+  topics?: string[];
+}
+
+export interface ReportTemplateConfig {
+  slug: string;
+  // Used in report titles, e.g. "Attrition in IT - Policy and Compliance Brief 2026"
+  name: string;
+  description: string;
+  // Length of the executive summary, which is written from every section
+  summary_words: number;
+  sections: TemplateSection[];
+  source_rules: TemplateSourceRules;
+}
+
+// Used when a request names no template
+export const DEFAULT_REPORT_TEMPLATE = 'market_analysis';
+
+// Source selection when neither the request nor its template sets it
+export const DEFAULT_MAX_SOURCES = 15;
+export const DEFAULT_TIME_RANGE_DAYS = 30;
+
+export const REPORT_TEMPLATES: ReportTemplateConfig[] = [
+  {
+    slug: 'market_analysis',
+    name: 'Indian HR Market Analysis',
+    description: 'Full research report: findings, trends, statistics, regional breakdown, outlook and recommendations.',
+    summary_words: 200,
+    sections: [
+      { title: 'Key Findings', instructions: 'The most important developments and numbers, most significant first.', max_words: 350 },
+      { title: 'Current Market Trends', instructions: 'Patterns across sources: what is rising or falling, and where employers and employees are moving.', max_words: 350 },
+      { title: 'Statistical Analysis', instructions: 'The figures in the evidence (rates, amounts, counts) with their periods, compared where they overlap. Do not invent numbers.', max_words: 350 },
+      { title: 'Regional and Sector Breakdown', instructions: 'Differences between states, cities and industries. Say so briefly if the evidence has none.', max_words: 300 },
+      { title: 'Future Implications', instructions: 'What these developments mean for employers, HR teams and employees over the next year.', max_words: 300 },
+      { title: 'Recommendations', instructions: 'Concrete, actionable steps for HR leaders, each grounded in cited evidence.', max_words: 300 }
+    ],
+    source_rules: {}
+  },
+  {
+    slug: 'policy_brief',
+    name: 'Policy and Compliance Brief',
+    description: 'What changed in labour law and regulation, who it applies to, deadlines and the actions employers must take.',
+    summary_words: 150,
+    sections: [
+      { title: 'What Changed', instructions: 'The new or amended laws, rules, notifications and circulars, with the issuing body and dates.', max_words: 300 },
+      { title: 'Who Is Affected', instructions: 'The employers, establishments, states and categories of workers each change applies to, including thresholds.', max_words: 250 },
+      { title: 'Key Dates and Deadlines', instructions: 'Effective dates, filing deadlines and transition periods as a short list, earliest first. Say so if the evidence gives none.', max_words: 200 },
+      { title: 'Compliance Actions', instructions: 'The concrete steps employers must take to comply, as a numbered list, each with the penalty or risk of not doing so where the evidence gives it.', max_words: 300 }
+    ],
+    source_rules: { time_range_days: 90, scoring_profile: 'factual', topics: ['compliance'] }
+  },
+  {
+    slug: 'competitor_benchmarking',
+    name: 'Competitor Benchmarking',
+    description: 'How named employers compare on pay, hiring, benefits and workplace policies.',
+    summary_words: 150,
+    sections: [
+      { title: 'Companies Covered', instructions: 'The employers the evidence discusses, with their sector and the HR moves they made.', max_words: 250 },
+      { title: 'Benchmark Comparison', instructions: 'A markdown table comparing the companies on the measures the evidence gives (hikes, headcount, benefits, policies). Leave a cell blank rather than guess.', max_words: 350 },
+      { title: 'Differentiators', instructions: 'Where individual employers stand out from the rest, and what it says about their talent strategy.', max_words: 250 },
+      { title: 'Implications for Our Clients', instructions: 'What an employer competing with these companies for talent should match, beat or ignore.', max_words: 250 }
+    ],
+    source_rules: { scoring_profile: 'comparative', time_range_days: 60 }
+  },
+  {
+    slug: 'news_digest',
+    name: 'Monthly HR News Digest',
+    description: 'The month\'s most important HR news in short, cited items.',
+    summary_words: 100,
+    sections: [
+      { title: 'Top Stories', instructions: 'The five to eight most significant stories as a list, one or two sentences each.', max_words: 400 },
+      { title: 'Policy and Regulation', instructions: 'Government and regulatory news as a short list. Say so briefly if there was none.', max_words: 200 },
+      { title: 'Company Moves', instructions: 'Notable hiring, layoffs, pay and policy announcements by employers, as a short list.', max_words: 250 },
+      { title: 'What to Watch', instructions: 'Developments expected in the coming month.', max_words: 150 }
+    ],
+    source_rules: { max_sources: 25, time_range_days: 30, scoring_profile: 'temporal' }
+  },
+  {
+    slug: 'board_one_pager',
+    name: 'Board Briefing',
+    description: 'A one-page briefing for boards and CXOs: the headline, why it matters and the decisions needed.',
+    summary_words: 80,
+    sections: [
+      { title: 'Headline Numbers', instructions: 'Three to five of the most decision-relevant figures as a list, each with its period.', max_words: 120 },
+      { title: 'Business Impact', instructions: 'Why this matters for cost, talent and risk, in plain language without HR jargon.', max_words: 120 },
+      { title: 'Decisions Needed', instructions: 'Two or three decisions or approvals leadership should consider, as a numbered list.', max_words: 100 }
+    ],
+    source_rules: { max_sources: 10 }
+  },
+  {
+    slug: 'salary_benchmark',
+    name: 'Salary Benchmarking Note',
+    description: 'Increment, pay range and variable pay figures by role, sector and city.',
+    summary_words: 120,
+    sections: [
+      { title: 'Increment and Pay Figures', instructions: 'Average and projected increments, pay ranges and variable pay figures, each with its period and who published it. Do not invent numbers.', max_words: 300 },
+      { title: 'By Sector and Role', instructions: 'A markdown table of the figures by industry, role or level where the evidence breaks them down.', max_words: 300 },
+      { title: 'By City and Region', instructions: 'Differences between cities and states. Say so briefly if the evidence has none.', max_words: 200 },
+      { title: 'Pay Recommendations', instructions: 'Where an employer should position its increments and pay ranges given these benchmarks.', max_words: 200 }
+    ],
+    source_rules: { scoring_profile: 'factual', time_range_days: 90, topics: ['compensation'] }
+  }
+];
@@ -1,13 +1,21 @@
 // Comprehensive RSS feed configuration for HR domain in India
 // Verified sources - September 2025
 
+import { LanguageCode } from './languages';
+
+export const RSS_CATEGORIES = ['general', 'technology', 'recruitment', 'analytics', 'diversity', 'wellbeing', 'business'] as const;
+export const RSS_SOURCE_GROUPS = ['et_hr', 'indian_express', 'toi', 'google_news', 'global_hr', 'government', 'indian_hr_blogs'] as const;
+export const RSS_UPDATE_FREQUENCIES = ['hourly', 'daily', 'weekly'] as const;
+
 export interface RSSSource {
   name: string;
   url: string;
-  category: 'general' | 'technology' | 'recruitment' | 'analytics' | 'diversity' | 'wellbeing' | 'business';
-  source_group: 'et_hr' | 'indian_express' | 'toi' | 'google_news' | 'global_hr' | 'government' | 'indian_hr_blogs';
+  category: typeof RSS_CATEGORIES[number];
+  source_group: typeof RSS_SOURCE_GROUPS[number];
   priority: 1 | 2 | 3;
-  update_frequency: 'hourly' | 'daily' | 'weekly';
+  update_frequency: typeof RSS_UPDATE_FREQUENCIES[number];
+  // Language the feed publishes in; defaults to 'en'
+  language?: LanguageCode;
 }
 
 export const RSS_SOURCES: RSSSource[] = [
@@ -147,6 +155,68 @@ export const RSS_SOURCES: RSSSource[] = [
     update_frequency: 'daily'
   },
 
+  // Regional-language Google News feeds; the query is in the comment above each URL
+  {
+    name: 'Google News - Labour Law (Hindi)',
+    // श्रम कानून नौकरी
+    url: 'https://news.google.com/rss/search?q=%E0%A4%B6%E0%A5%8D%E0%A4%B0%E0%A4%AE+%E0%A4%95%E0%A4%BE%E0%A4%A8%E0%A5%82%E0%A4%A8+%E0%A4%A8%E0%A5%8C%E0%A4%95%E0%A4%B0%E0%A5%80&hl=hi&gl=IN&ceid=IN:hi',
+    category: 'general',
+    source_group: 'google_news',
+    priority: 2,
+    update_frequency: 'daily',
+    language: 'hi'
+  },
+  {
+    name: 'Google News - EPFO (Hindi)',
+    // ईपीएफओ कर्मचारी
+    url: 'https://news.google.com/rss/search?q=%E0%A4%88%E0%A4%AA%E0%A5%80%E0%A4%8F%E0%A4%AB%E0%A4%93+%E0%A4%95%E0%A4%B0%E0%A5%8D%E0%A4%AE%E0%A4%9A%E0%A4%BE%E0%A4%B0%E0%A5%80&hl=hi&gl=IN&ceid=IN:hi',
+    category: 'general',
+    source_group: 'google_news',
+    priority: 2,
+    update_frequency: 'daily',
+    language: 'hi'
+  },
+  {
+    name: 'Google News - Labour Law (Marathi)',
+    // कामगार कायदा नोकरी
+    url: 'https://news.google.com/rss/search?q=%E0%A4%95%E0%A4%BE%E0%A4%AE%E0%A4%97%E0%A4%BE%E0%A4%B0+%E0%A4%95%E0%A4%BE%E0%A4%AF%E0%A4%A6%E0%A4%BE+%E0%A4%A8%E0%A5%8B%E0%A4%95%E0%A4%B0%E0%A5%80&hl=mr&gl=IN&ceid=IN:mr',
+    category: 'general',
+    source_group: 'google_news',
+    priority: 3,
+    update_frequency: 'daily',
+    language: 'mr'
+  },
+  {
+    name: 'Google News - Labour Law (Tamil)',
+    // தொழிலாளர் சட்டம் வேலைவாய்ப்பு
+    url: 'https://news.google.com/rss/search?q=%E0%AE%A4%E0%AF%8A%E0%AE%B4%E0%AE%BF%E0%AE%B2%E0%AE%BE%E0%AE%B3%E0%AE%B0%E0%AF%8D+%E0%AE%9A%E0%AE%9F%E0%AF%8D%E0%AE%9F%E0%AE%AE%E0%AF%8D+%E0%AE%B5%E0%AF%87%E0%AE%B2%E0%AF%88%E0%AE%B5%E0%AE%BE%E0%AE%AF%E0%AF%8D%E0%AE%AA%E0%AF%8D%E0%AE%AA%E0%AF%81&hl=ta&gl=IN&ceid=IN:ta',
+    category: 'general',
+    source_group: 'google_news',
+    priority: 3,
+    update_frequency: 'daily',
+    language: 'ta'
+  },
+  {
+    name: 'Google News - Labour Law (Kannada)',
+    // ಕಾರ್ಮಿಕ ಕಾನೂನು ಉದ್ಯೋಗ
+    url: 'https://news.google.com/rss/search?q=%E0%B2%95%E0%B2%BE%E0%B2%B0%E0%B3%8D%E0%B2%AE%E0%B2%BF%E0%B2%95+%E0%B2%95%E0%B2%BE%E0%B2%A8%E0%B3%82%E0%B2%A8%E0%B3%81+%E0%B2%89%E0%B2%A6%E0%B3%8D%E0%B2%AF%E0%B3%8B%E0%B2%97&hl=kn&gl=IN&ceid=IN:kn',
+    category: 'general',
+    source_group: 'google_news',
+    priority: 3,
+    update_frequency: 'daily',
+    language: 'kn'
+  },
+  {
+    name: 'Google News - Labour Law (Bengali)',
+    // শ্রম আইন কর্মসংস্থান
+    url: 'https://news.google.com/rss/search?q=%E0%A6%B6%E0%A7%8D%E0%A6%B0%E0%A6%AE+%E0%A6%86%E0%A6%87%E0%A6%A8+%E0%A6%95%E0%A6%B0%E0%A7%8D%E0%A6%AE%E0%A6%B8%E0%A6%82%E0%A6%B8%E0%A7%8D%E0%A6%A5%E0%A6%BE%E0%A6%A8&hl=bn&gl=IN&ceid=IN:bn',
+    category: 'general',
+    source_group: 'google_news',
+    priority: 3,
+    update_frequency: 'daily',
+    language: 'bn'
+  },
+
   // Additional Indian HR Publications
   {
     name: 'HRKatha - HR News India',
@@ -0,0 +1,99 @@
+import { ScoringWeights } from '../types';
+import { QueryAnalysis } from '../types/chat';
+
+export interface ScoringVersion {
+  weights: ScoringWeights;
+  freshness_half_life_days: number;
+  // 'keywords': the original keyword-density heuristic; 'gazetteer': IndianContextClassifier
+  indian_context: 'keywords' | 'gazetteer';
+  description: string;
+}
+
+// Every change to weights or scoring parameters gets a new version, so stored scores and
+// their explanations can be traced back and recomputed with `npm run rescore -- --version N`
+export const SCORING_VERSIONS: Record<number, ScoringVersion> = {
+  1: {
+    weights: {
+      domain_authority: 0.4,
+      indian_context: 0.3,
+      freshness: 0.2,
+      extractability: 0.1
+    },
+    freshness_half_life_days: 180,
+    indian_context: 'keywords',
+    description: 'Initial weights: authority 40%, Indian context 30%, freshness 20%, extractability 10%'
+  },
+  2: {
+    weights: {
+      domain_authority: 0.4,
+      indian_context: 0.3,
+      freshness: 0.2,
+      extractability: 0.1
+    },
+    freshness_half_life_days: 180,
+    indian_context: 'gazetteer',
+    description: 'Version 1 weights; Indian context from the gazetteer classifier with TLD and publisher signals'
+  }
+};
+
+export const CURRENT_SCORING_VERSION = 2;
+
+// Weights of each component in ContentScorer's composite score (they sum to 1)
+export const SCORING_WEIGHTS = SCORING_VERSIONS[CURRENT_SCORING_VERSION].weights;
+
+export const SCORING_PROFILE_NAMES = ['balanced', 'temporal', 'factual', 'comparative'] as const;
+export type ScoringProfileName = typeof SCORING_PROFILE_NAMES[number];
+
+export interface ScoringProfile {
+  weights: ScoringWeights;
+  freshness_half_life_days: number;
+  description: string;
+}
+
+// Query-time re-weighting of the stored score components when picking report sources.
+// Stored composite scores always use the current scoring version (the balanced profile).
+export const SCORING_PROFILES: Record<ScoringProfileName, ScoringProfile> = {
+  balanced: {
+    weights: SCORING_WEIGHTS,
+    freshness_half_life_days: SCORING_VERSIONS[CURRENT_SCORING_VERSION].freshness_half_life_days,
+    description: 'Default weighting of authority, Indian context, freshness and extractability'
+  },
+  temporal: {
+    weights: {
+      domain_authority: 0.25,
+      indian_context: 0.2,
+      freshness: 0.45,
+      extractability: 0.1
+    },
+    freshness_half_life_days: 14,
+    description: 'Favours recent coverage: freshness dominates and halves every 14 days'
+  },
+  factual: {
+    weights: {
+      domain_authority: 0.45,
+      indian_context: 0.2,
+      freshness: 0.05,
+      extractability: 0.3
+    },
+    freshness_half_life_days: 365,
+    description: 'Favours authoritative sources with statistics, figures and dates'
+  },
+  comparative: {
+    weights: {
+      domain_authority: 0.35,
+      indian_context: 0.3,
+      freshness: 0.1,
+      extractability: 0.25
+    },
+    freshness_half_life_days: 180,
+    description: 'Favours authoritative, data-rich Indian sources over recency'
+  }
+};
+
+// Profile used for each QueryAnalysis intent when the caller doesn't pick one
+export const INTENT_SCORING_PROFILES: Record<QueryAnalysis['intent'], ScoringProfileName> = {
+  exploratory: 'balanced',
+  factual: 'factual',
+  comparative: 'comparative',
+  temporal: 'temporal'
+};
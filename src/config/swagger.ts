@@ -1,4 +1,5 @@
 import swaggerJSDoc from 'swagger-jsdoc';
+import { SCORING_PROFILE_NAMES } from './scoring';
 
 const swaggerDefinition = {
   openapi: '3.0.0',
@@ -55,7 +56,16 @@ const swaggerDefinition = {
           citation_count: { type: 'integer' },
           confidence_score: { type: 'number', minimum: 0, maximum: 1 },
           created_at: { type: 'string', format: 'date-time' },
-          pdf_url: { type: 'string', format: 'uri' }
+          pdf_url: { type: 'string', format: 'uri' },
+          document: {
+            type: 'object',
+            description: 'Structured form of content: sections made of paragraph, list, table and figure blocks, with text and citation spans'
+          },
+          template: {
+            type: 'string',
+            nullable: true,
+            description: 'Slug of the report template it was generated with; null for reports from before templates'
+          }
         }
       },
       GenerateReportRequest: {
@@ -71,15 +81,42 @@ const swaggerDefinition = {
             type: 'integer', 
             minimum: 1, 
             maximum: 50, 
-            default: 15,
-            description: 'Maximum number of sources to analyze'
+            description: 'Maximum number of sources to analyze. Defaults to the template\'s source rules, else 15'
           },
           time_range_days: { 
             type: 'integer', 
             minimum: 1, 
             maximum: 365, 
-            default: 30,
-            description: 'Number of days back to search for content'
+            description: 'Number of days back to search for content. Defaults to the template\'s source rules, else 30'
+          },
+          scoring_profile: {
+            type: 'string',
+            enum: [...SCORING_PROFILE_NAMES],
+            description: 'How sources are ranked: temporal favours recent coverage (14-day freshness half-life), factual favours authoritative, data-rich sources. Defaults to balanced'
+          },
+          states: {
+            type: 'array',
+            items: { type: 'string' },
+            maxItems: 10,
+            example: ['Karnataka', 'Tamil Nadu'],
+            description: 'Only use sources that mention one of these Indian states or union territories (directly or through a city in them)'
+          },
+          topics: {
+            type: 'array',
+            items: { type: 'string' },
+            maxItems: 10,
+            example: ['compensation.variable_pay'],
+            description: 'Only use sources tagged with one of these HR taxonomy nodes (see GET /api/taxonomy); a parent node includes its children'
+          },
+          template: {
+            type: 'string',
+            example: 'policy_brief',
+            description: 'Report template slug (see GET /api/report-templates). Sets the sections and their lengths, and its source rules fill in max_sources, time_range_days, scoring_profile and topics when they are left out. Defaults to market_analysis'
+          },
+          force_refresh: {
+            type: 'boolean',
+            default: false,
+            description: 'Generate a new report even if a recent one matches the topic (normalised or semantically similar) and parameters. Otherwise such a report is returned with 200 and cached: true instead of queueing a job'
           }
         }
       },
@@ -0,0 +1,15 @@
+-- Citation Verification
+-- How well each citation's source supports the report sentence that cites it, as scored by
+-- CitationVerifier. Flagged citations quote figures the source doesn't contain or have little
+-- support in it, and are listed for review with the report.
+
+ALTER TABLE citations ADD COLUMN IF NOT EXISTS support_score REAL;
+ALTER TABLE citations ADD COLUMN IF NOT EXISTS flagged BOOLEAN NOT NULL DEFAULT false;
+-- e.g. 'numbers not in source: 12%'
+ALTER TABLE citations ADD COLUMN IF NOT EXISTS flag_reasons TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_citations_flagged ON citations(report_id) WHERE flagged;
+
+-- [Source N] markers citing a number the report has no source for (hallucinated citations), as
+-- flagged claims. With no source to point at they get no citations row, so they are kept here.
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS invalid_citations JSONB NOT NULL DEFAULT '[]';
@@ -1,8 +1,16 @@
 import { Pool, PoolClient } from 'pg';
-import { ContentItem, Report, Citation, CollectionStats } from '../types';
+import fs from 'fs';
+import path from 'path';
+import { ContentItem, Report, Citation, CollectionStats, FlaggedClaim } from '../types';
+
+// Schema files that use objects (functions, columns) created by another schema file
+const SCHEMA_DEPENDENCIES: Record<string, string[]> = {
+  'rss-enrichment-schema.sql': ['language-schema.sql', 'content-version-schema.sql']
+};
 
 class Database {
   private pool: Pool;
+  private schemaPromises = new Map<string, Promise<void>>();
 
   constructor() {
     this.pool = new Pool({
@@ -84,20 +92,48 @@ class Database {
     await this.pool.end();
   }
 
+  // Run an idempotent schema file from src/db once per process
+  async ensureSchema(fileName: string): Promise<void> {
+    let pending = this.schemaPromises.get(fileName);
+    if (!pending) {
+      pending = (async () => {
+        for (const dependency of SCHEMA_DEPENDENCIES[fileName] || []) {
+          await this.ensureSchema(dependency);
+        }
+        const schemaPath = path.join(__dirname, fileName);
+        const schema = fs.readFileSync(schemaPath, 'utf-8');
+        await this.query(schema);
+        console.log(`✅ Schema ensured: ${fileName}`);
+      })();
+      this.schemaPromises.set(fileName, pending);
+      // Allow a retry on the next call if this attempt failed
+      pending.catch(() => this.schemaPromises.delete(fileName));
+    }
+    await pending;
+  }
+
   // Content Items
   async insertContentItem(item: Omit<ContentItem, 'id' | 'collected_at'>): Promise<ContentItem> {
+    // scoring_version, score_explanation and states columns
+    await this.ensureSchema('scoring-schema.sql');
+
     const query = `
       INSERT INTO content_items (
         source, source_url, title, url, content_hash, snippet, full_content, author, 
         published_at, categories, language, domain_authority, indian_context_score,
         freshness_score, extractability_score, composite_score, has_statistics,
-        has_dates, has_numbers, word_count, scraper_version, processing_notes
+        has_dates, has_numbers, word_count, scraper_version, processing_notes,
+        scoring_version, score_explanation, states
       ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25
       ) 
       ON CONFLICT (url) DO UPDATE SET 
         full_content = EXCLUDED.full_content,
         composite_score = EXCLUDED.composite_score,
+        scoring_version = EXCLUDED.scoring_version,
+        score_explanation = EXCLUDED.score_explanation,
+        states = EXCLUDED.states,
+        language = EXCLUDED.language,
         collected_at = now()
       RETURNING *
     `;
@@ -108,7 +144,9 @@ class Database {
       item.categories, item.language, item.domain_authority, item.indian_context_score,
       item.freshness_score, item.extractability_score, item.composite_score,
       item.has_statistics, item.has_dates, item.has_numbers, item.word_count,
-      item.scraper_version, item.processing_notes
+      item.scraper_version, item.processing_notes,
+      item.scoring_version ?? null, item.score_explanation ? JSON.stringify(item.score_explanation) : null,
+      item.states || []
     ];
     
     const result = await this.query(query, values);
@@ -121,6 +159,7 @@ class Database {
     min_score?: number;
     categories?: string[];
     since_days?: number;
+    topics?: string[];
   } = {}): Promise<ContentItem[]> {
     let query = `
       SELECT * FROM content_items 
@@ -148,6 +187,15 @@ class Database {
       query += ` AND published_at >= NOW() - INTERVAL '${options.since_days} days'`;
     }
 
+    // Requires taxonomy-schema.sql
+    if (options.topics && options.topics.length > 0) {
+      query += ` AND EXISTS (
+        SELECT 1 FROM item_topics it
+        WHERE it.source_type = 'content_item' AND it.item_id = content_items.id AND it.node_slug = ANY($${++paramCount}::text[])
+      )`;
+      values.push(options.topics);
+    }
+
     query += ' ORDER BY composite_score DESC';
 
     if (options.limit) {
@@ -160,11 +208,14 @@ class Database {
   }
 
   async searchContentItems(topic: string, limit = 20): Promise<ContentItem[]> {
+    // text_search_config()
+    await this.ensureSchema('language-schema.sql');
+
     const query = `
       SELECT *, 
-        ts_rank(to_tsvector('english', title || ' ' || COALESCE(snippet, '')), plainto_tsquery('english', $1)) as relevance
+        ts_rank(to_tsvector(text_search_config(language), title || ' ' || COALESCE(snippet, '')), plainto_tsquery(text_search_config(language), $1)) as relevance
       FROM content_items 
-      WHERE to_tsvector('english', title || ' ' || COALESCE(snippet, '')) @@ plainto_tsquery('english', $1)
+      WHERE to_tsvector(text_search_config(language), title || ' ' || COALESCE(snippet, '')) @@ plainto_tsquery(text_search_config(language), $1)
         OR title ILIKE '%' || $1 || '%'
         OR snippet ILIKE '%' || $1 || '%'
       ORDER BY relevance DESC, composite_score DESC
@@ -177,12 +228,16 @@ class Database {
 
   // Reports
   async insertReport(report: Omit<Report, 'id' | 'created_at'>): Promise<Report> {
+    await this.ensureSchema('report-document-schema.sql');
+    await this.ensureSchema('report-templates-schema.sql');
+    await this.ensureSchema('citation-verification-schema.sql');
+
     const query = `
       INSERT INTO reports (
         topic, topic_hash, title, content, executive_summary, methodology,
         pdf_path, html_content, confidence_score, source_count, citation_count,
-        word_count, generation_time_ms, source_ids
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        word_count, generation_time_ms, source_ids, document, template, invalid_citations
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
       RETURNING *
     `;
     
@@ -191,26 +246,71 @@ class Database {
       report.executive_summary, report.methodology, report.pdf_path,
       report.html_content, report.confidence_score, report.source_count,
       report.citation_count, report.word_count, report.generation_time_ms,
-      report.source_ids
+      report.source_ids, report.document ? JSON.stringify(report.document) : null,
+      report.template || null,
+      JSON.stringify(report.invalid_citations || [])
     ];
     
     const result = await this.query(query, values);
     return result.rows[0];
   }
 
+  // Rewrites a report's text and swaps its citations for the new set after one of its sections
+  // was regenerated, in one transaction so readers never see the text without its citations
+  async updateReportContent(
+    id: string,
+    update: Pick<Report, 'content' | 'executive_summary' | 'html_content' | 'confidence_score' | 'citation_count' | 'word_count' | 'document' | 'invalid_citations'>,
+    citations: Omit<Citation, 'id' | 'created_at'>[]
+  ): Promise<Report | null> {
+    await this.ensureSchema('report-document-schema.sql');
+    await this.ensureSchema('citation-verification-schema.sql');
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        `UPDATE reports SET content = $2, executive_summary = $3, html_content = $4, confidence_score = $5,
+                citation_count = $6, word_count = $7, document = $8, invalid_citations = $9
+         WHERE id = $1
+         RETURNING *`,
+        [
+          id, update.content, update.executive_summary, update.html_content, update.confidence_score,
+          update.citation_count, update.word_count, update.document ? JSON.stringify(update.document) : null,
+          JSON.stringify(update.invalid_citations || [])
+        ]
+      );
+      if (!result.rows[0]) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query('DELETE FROM citations WHERE report_id = $1', [id]);
+      await this.insertCitations(citations, client);
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   async getReport(id: string): Promise<Report | null> {
     const result = await this.query('SELECT * FROM reports WHERE id = $1', [id]);
     return result.rows[0] || null;
   }
 
-  // Citations - Handle both content_items and rss_articles
-  async insertCitations(citations: Omit<Citation, 'id' | 'created_at'>[]): Promise<Citation[]> {
+  // Citations - Handle both content_items and rss_articles. Runs on the given client when part
+  // of a transaction.
+  async insertCitations(citations: Omit<Citation, 'id' | 'created_at'>[], client?: PoolClient): Promise<Citation[]> {
     if (citations.length === 0) return [];
+    const run = (text: string, params?: unknown[]) => client ? client.query(text, params) : this.query(text, params);
     
     // Check if new columns exist
     let hasNewColumns = false;
     try {
-      const checkResult = await this.query(`
+      const checkResult = await run(`
         SELECT column_name 
         FROM information_schema.columns 
         WHERE table_name = 'citations' AND column_name = 'source_type'
@@ -221,13 +321,15 @@ class Database {
     }
     
     if (hasNewColumns) {
+      await this.ensureSchema('citation-verification-schema.sql');
+
       // Use new schema with source_type and source_id
       const values = citations.map((c, i) => 
-        `($${i*7+1}, $${i*7+2}, $${i*7+3}, $${i*7+4}, $${i*7+5}, $${i*7+6}, $${i*7+7})`
+        `($${i*10+1}, $${i*10+2}, $${i*10+3}, $${i*10+4}, $${i*10+5}, $${i*10+6}, $${i*10+7}, $${i*10+8}, $${i*10+9}, $${i*10+10})`
       ).join(', ');
       
       const query = `
-        INSERT INTO citations (report_id, content_item_id, citation_number, quoted_text, context, source_type, source_id)
+        INSERT INTO citations (report_id, content_item_id, citation_number, quoted_text, context, source_type, source_id, support_score, flagged, flag_reasons)
         VALUES ${values}
         RETURNING *
       `;
@@ -239,10 +341,13 @@ class Database {
         c.quoted_text, 
         c.context,
         c.source_type || 'content_item',
-        c.source_id || c.content_item_id
+        c.source_id || c.content_item_id,
+        c.support_score ?? null,
+        c.flagged || false,
+        c.flag_reasons || []
       ]);
       
-      const result = await this.query(query, flatValues);
+      const result = await run(query, flatValues);
       return result.rows;
     } else {
       // Use legacy schema - only insert if we have valid content_item_id
@@ -267,11 +372,26 @@ class Database {
         c.report_id, c.content_item_id, c.citation_number, c.quoted_text, c.context
       ]);
       
-      const result = await this.query(query, flatValues);
+      const result = await run(query, flatValues);
       return result.rows;
     }
   }
 
+  // Flagged citations, then claims citing sources the report doesn't have
+  async getFlaggedClaims(reportId: string): Promise<FlaggedClaim[]> {
+    await this.ensureSchema('citation-verification-schema.sql');
+    const result = await this.query(
+      `SELECT citation_number, context AS claim, quoted_text AS source_title,
+              support_score, flag_reasons AS reasons
+       FROM citations
+       WHERE report_id = $1 AND flagged
+       ORDER BY citation_number`,
+      [reportId]
+    );
+    const invalid = await this.query('SELECT invalid_citations FROM reports WHERE id = $1', [reportId]);
+    return [...result.rows, ...(invalid.rows[0]?.invalid_citations || [])];
+  }
+
   // Statistics
   async updateCollectionStats(stats: Omit<CollectionStats, 'id'>): Promise<void> {
     const query = `
@@ -0,0 +1,44 @@
+-- Content Versions
+-- content_updated_at moves whenever an item's text changes (new body from enrichment, a
+-- translation, an edited title). Background workers record the value they processed and pick
+-- the item up again when it differs, instead of hashing every item's text on every pass.
+
+-- rss_articles is created lazily, so its column and trigger are in rss-enrichment-schema.sql,
+-- which runs this file first.
+
+-- Rows from before the column existed share the epoch, which the workers' existing records
+-- were given too, so adding it doesn't reprocess everything
+ALTER TABLE IF EXISTS content_items ADD COLUMN IF NOT EXISTS content_updated_at TIMESTAMPTZ NOT NULL DEFAULT 'epoch';
+
+-- Trigger arguments name the text columns; they're read through jsonb so a column another
+-- schema hasn't added yet counts as unchanged instead of failing the write
+CREATE OR REPLACE FUNCTION touch_content_updated_at()
+RETURNS TRIGGER AS $$
+DECLARE
+  col TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.content_updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  FOREACH col IN ARRAY TG_ARGV LOOP
+    IF to_jsonb(NEW) -> col IS DISTINCT FROM to_jsonb(OLD) -> col THEN
+      NEW.content_updated_at := now();
+      EXIT;
+    END IF;
+  END LOOP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF to_regclass('content_items') IS NOT NULL THEN
+    DROP TRIGGER IF EXISTS touch_content_items_content ON content_items;
+    CREATE TRIGGER touch_content_items_content
+    BEFORE INSERT OR UPDATE ON content_items
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_content_updated_at('title', 'snippet', 'full_content', 'translated_title', 'translated_content');
+  END IF;
+END $$;
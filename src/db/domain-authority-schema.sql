@@ -0,0 +1,27 @@
+-- Domain Authority Registry
+-- Per-domain and wildcard authority scores used by ContentScorer, seeded from src/config/domain-authorities.ts
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS domain_authorities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- A host ("pib.gov.in") or wildcard ("*.gov.in"), lowercase without "www."
+  pattern TEXT NOT NULL UNIQUE,
+  tier TEXT NOT NULL CHECK (tier IN ('government', 'regulator', 'tier1_media', 'hr_trade_press', 'blog', 'vendor_marketing')),
+  score REAL NOT NULL CHECK (score >= 0 AND score <= 1),
+  notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  -- Seeds removed via the API stay removed
+  deleted_at TIMESTAMPTZ
+);
+
+-- Every set of entries items were scored with, keyed by a hash of the entries; each
+-- score_explanation and scoring run records its version so the scores can be reproduced
+CREATE TABLE IF NOT EXISTS domain_authority_snapshots (
+  version TEXT PRIMARY KEY,
+  -- [{ pattern, tier, score }] sorted by pattern
+  entries JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
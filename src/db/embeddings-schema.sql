@@ -0,0 +1,34 @@
+-- Item Embeddings
+-- Vectors for rss_articles and content_items, one row per item and embedding model.
+-- Stored as REAL[] so no extension is required. Where pgvector is available, nearest neighbours
+-- come from a per-model HNSW index over embedding::vector(n) (EmbeddingStore.ensureAnnIndex);
+-- otherwise similarity is computed in the application.
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'vector') THEN
+    CREATE EXTENSION IF NOT EXISTS vector;
+  END IF;
+EXCEPTION WHEN insufficient_privilege THEN
+  RAISE NOTICE 'pgvector is installed but this role cannot enable it; using in-application similarity';
+END $$;
+
+CREATE TABLE IF NOT EXISTS item_embeddings (
+  source_type TEXT NOT NULL CHECK (source_type IN ('rss_article', 'content_item')),
+  item_id UUID NOT NULL,
+  -- Provider and model, e.g. 'hashing:hashing-256'; switching models re-indexes everything
+  model TEXT NOT NULL,
+  dimensions INT NOT NULL,
+  embedding REAL[] NOT NULL,
+  -- The item's content_updated_at when it was embedded (content-version-schema.sql), so items
+  -- are re-embedded when enrichment replaces their body
+  content_updated_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+
+  PRIMARY KEY (source_type, item_id, model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_embeddings_model ON item_embeddings(model, source_type, updated_at DESC);
+
+ALTER TABLE item_embeddings ADD COLUMN IF NOT EXISTS content_updated_at TIMESTAMPTZ NOT NULL DEFAULT 'epoch';
+ALTER TABLE item_embeddings DROP COLUMN IF EXISTS text_hash;
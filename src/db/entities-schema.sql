@@ -0,0 +1,57 @@
+-- Named Entities
+-- Companies, government bodies, people and locations mentioned by rss_articles and
+-- content_items. Entities are seeded from src/config/entity-gazetteer.ts; the optional LLM
+-- pass adds the ones it finds. Reports keep the entities their sources discuss.
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS entities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('company', 'government_body', 'person', 'location')),
+  -- Other names it is matched by, e.g. 'TCS' for Tata Consultancy Services
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  origin TEXT NOT NULL DEFAULT 'gazetteer' CHECK (origin IN ('gazetteer', 'llm')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entities_type_name ON entities(type, lower(name));
+
+CREATE TABLE IF NOT EXISTS item_entities (
+  source_type TEXT NOT NULL CHECK (source_type IN ('rss_article', 'content_item')),
+  item_id UUID NOT NULL,
+  entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  mentions INT NOT NULL DEFAULT 1,
+
+  -- The item's publication date, so an entity's articles can be listed without a join
+  published_at TIMESTAMPTZ,
+
+  PRIMARY KEY (source_type, item_id, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_entities_entity ON item_entities(entity_id, published_at DESC);
+
+-- Which items have been through the extractor, and with which version of its rules
+CREATE TABLE IF NOT EXISTS entity_extractions (
+  source_type TEXT NOT NULL CHECK (source_type IN ('rss_article', 'content_item')),
+  item_id UUID NOT NULL,
+  extractor_version INT NOT NULL,
+  entity_count INT NOT NULL DEFAULT 0,
+  extracted_at TIMESTAMPTZ DEFAULT now(),
+
+  PRIMARY KEY (source_type, item_id)
+);
+
+-- The item's content_updated_at when its entities were extracted (content-version-schema.sql);
+-- items whose text changed since (enrichment, an edited title) are extracted again
+ALTER TABLE entity_extractions ADD COLUMN IF NOT EXISTS content_updated_at TIMESTAMPTZ NOT NULL DEFAULT 'epoch';
+
+CREATE TABLE IF NOT EXISTS report_entities (
+  report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
+  -- How many of the report's sources mention it
+  source_count INT NOT NULL,
+
+  PRIMARY KEY (report_id, entity_id)
+);
@@ -0,0 +1,45 @@
+-- Extracted Facts
+-- Statistics pulled from the text of rss_articles and content_items (metric, normalised value,
+-- unit, period, geography, sector) with the sentence they came from.
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS facts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  source_type TEXT NOT NULL CHECK (source_type IN ('rss_article', 'content_item')),
+  item_id UUID NOT NULL,
+
+  -- e.g. 'attrition', 'salary_increment', 'hiring'
+  metric TEXT NOT NULL,
+  -- Normalised: "1.5 lakh" is stored as 150000
+  value DOUBLE PRECISION NOT NULL,
+  unit TEXT NOT NULL CHECK (unit IN ('%', '₹', '$', 'count')),
+  raw_value TEXT NOT NULL,
+  period TEXT,
+  geography TEXT,
+  sector TEXT,
+  sentence TEXT NOT NULL,
+
+  -- The item's publication date, so facts can be filtered by recency without a join
+  published_at TIMESTAMPTZ,
+  extracted_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_facts_item ON facts(source_type, item_id);
+CREATE INDEX IF NOT EXISTS idx_facts_metric ON facts(metric, sector, published_at DESC);
+
+-- Which items have been through the extractor, and with which version of its rules
+CREATE TABLE IF NOT EXISTS fact_extractions (
+  source_type TEXT NOT NULL CHECK (source_type IN ('rss_article', 'content_item')),
+  item_id UUID NOT NULL,
+  extractor_version INT NOT NULL,
+  fact_count INT NOT NULL DEFAULT 0,
+  extracted_at TIMESTAMPTZ DEFAULT now(),
+
+  PRIMARY KEY (source_type, item_id)
+);
+
+-- The item's content_updated_at when its facts were extracted (content-version-schema.sql);
+-- items whose text changed since (enrichment, a new full_content) are extracted again
+ALTER TABLE fact_extractions ADD COLUMN IF NOT EXISTS content_updated_at TIMESTAMPTZ NOT NULL DEFAULT 'epoch';
+ALTER TABLE fact_extractions DROP COLUMN IF EXISTS text_hash;
@@ -0,0 +1,16 @@
+-- RSS Conditional Fetch State
+-- Validators and the newest item seen per feed, used for conditional GETs and incremental parsing
+
+CREATE TABLE IF NOT EXISTS rss_feed_fetch_state (
+  feed_name TEXT PRIMARY KEY,
+  -- State is discarded when a feed's URL changes
+  feed_url TEXT NOT NULL,
+
+  etag TEXT,
+  last_modified TEXT,
+
+  last_seen_published_at TIMESTAMPTZ,
+  last_seen_guid TEXT,
+
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
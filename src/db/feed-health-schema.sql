@@ -0,0 +1,29 @@
+-- RSS Feed Health Tracking
+-- One row per feed, updated after every fetch attempt
+
+CREATE TABLE IF NOT EXISTS rss_feed_health (
+  feed_name TEXT PRIMARY KEY,
+  feed_url TEXT NOT NULL,
+
+  -- Last fetch
+  last_status TEXT NOT NULL DEFAULT 'unknown' CHECK (last_status IN ('unknown', 'success', 'error')),
+  last_http_status INT,
+  last_latency_ms INT,
+  last_error TEXT,
+  last_attempt_at TIMESTAMPTZ,
+  last_success_at TIMESTAMPTZ,
+  last_article_count INT DEFAULT 0,
+
+  -- Failure tracking and quarantine
+  consecutive_failures INT NOT NULL DEFAULT 0,
+  quarantine_level INT NOT NULL DEFAULT 0,
+  quarantined_until TIMESTAMPTZ,
+
+  -- Lifetime counters
+  total_attempts INT NOT NULL DEFAULT 0,
+  total_failures INT NOT NULL DEFAULT 0,
+
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rss_feed_health_quarantined ON rss_feed_health(quarantined_until) WHERE quarantined_until IS NOT NULL;
@@ -0,0 +1,51 @@
+-- Report Job Queue Schema
+-- Report generation runs asynchronously; jobs are persisted so they survive restarts
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS report_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_type TEXT NOT NULL DEFAULT 'standard' CHECK (job_type IN ('standard', 'deep_dive', 'section')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+
+  -- Input
+  params JSONB NOT NULL DEFAULT '{}',
+
+  -- Progress
+  stage TEXT NOT NULL DEFAULT 'queued',
+  percentage INT NOT NULL DEFAULT 0,
+  message TEXT,
+  stage_history JSONB NOT NULL DEFAULT '[]',
+
+  -- Output
+  report_id UUID REFERENCES reports(id) ON DELETE SET NULL,
+  result JSONB,
+  error TEXT,
+
+  -- Execution bookkeeping
+  attempts INT NOT NULL DEFAULT 0,
+  max_attempts INT NOT NULL DEFAULT 2,
+  cancel_requested BOOLEAN NOT NULL DEFAULT false,
+  worker_id TEXT,
+  heartbeat_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ
+);
+
+-- Section regeneration jobs came later; widen the check once on tables created before them
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'report_jobs_job_type_check' AND pg_get_constraintdef(oid) LIKE '%section%'
+  ) THEN
+    ALTER TABLE report_jobs DROP CONSTRAINT IF EXISTS report_jobs_job_type_check;
+    ALTER TABLE report_jobs ADD CONSTRAINT report_jobs_job_type_check CHECK (job_type IN ('standard', 'deep_dive', 'section'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_report_jobs_queued ON report_jobs(created_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_report_jobs_running ON report_jobs(heartbeat_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_report_jobs_created ON report_jobs(created_at DESC);
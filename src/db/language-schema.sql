@@ -0,0 +1,41 @@
+-- Multilingual Content
+-- Full-text search with each item's own language: text_search_config() maps a language code
+-- to a stemming configuration where Postgres ships one, and to 'simple' otherwise.
+-- English translations of regional items are cached alongside the original text.
+-- rss_articles gets the same columns and index from rss-enrichment-schema.sql.
+
+DO $$
+DECLARE
+  branches TEXT := '';
+  lang RECORD;
+BEGIN
+  -- Stemmers depend on the Postgres version (hindi arrived in 14), so only map installed ones
+  FOR lang IN
+    SELECT * FROM (VALUES ('en', 'english'), ('hi', 'hindi'), ('ta', 'tamil')) AS l(code, config)
+  LOOP
+    IF EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = lang.config) THEN
+      branches := branches || format(' WHEN %L THEN %L::regconfig', lang.code, lang.config);
+    END IF;
+  END LOOP;
+
+  EXECUTE format(
+    'CREATE OR REPLACE FUNCTION text_search_config(code TEXT) RETURNS regconfig
+     LANGUAGE sql IMMUTABLE PARALLEL SAFE
+     AS $f$ SELECT CASE code %s ELSE ''simple''::regconfig END $f$',
+    branches
+  );
+END $$;
+
+ALTER TABLE IF EXISTS content_items ADD COLUMN IF NOT EXISTS translated_title TEXT;
+ALTER TABLE IF EXISTS content_items ADD COLUMN IF NOT EXISTS translated_content TEXT;
+ALTER TABLE IF EXISTS content_items ADD COLUMN IF NOT EXISTS translated_at TIMESTAMPTZ;
+
+-- Queries must use this exact expression to hit the index
+CREATE INDEX IF NOT EXISTS idx_content_items_search
+ON content_items
+USING GIN(to_tsvector(text_search_config(language), title || ' ' || COALESCE(snippet, '')));
+
+-- English translations are searched too (SourceRepository TRANSLATION_TSVECTOR)
+CREATE INDEX IF NOT EXISTS idx_content_items_translation_search
+ON content_items
+USING GIN(to_tsvector('english', COALESCE(translated_title, '') || ' ' || left(COALESCE(translated_content, ''), 1000)));
@@ -0,0 +1,35 @@
+-- Report Cache
+-- Reports answer later requests with the same (or a semantically similar) topic and parameters
+
+-- md5 of the generation parameters (sources, time range, scoring profile, filters, template, job type)
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS params_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_reports_cache ON reports(params_hash, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reports_topic_hash ON reports(topic_hash);
+
+-- Topic vectors for semantic matching; REAL[] like item_embeddings, compared in the application
+CREATE TABLE IF NOT EXISTS report_topic_embeddings (
+  report_id UUID PRIMARY KEY REFERENCES reports(id) ON DELETE CASCADE,
+  -- Provider and model, e.g. 'hashing:hashing-256'; reports embedded with another model only match exactly
+  model TEXT NOT NULL,
+  embedding REAL[] NOT NULL
+);
+
+-- One row per request that could have been answered from the cache
+CREATE TABLE IF NOT EXISTS report_cache_events (
+  id BIGSERIAL PRIMARY KEY,
+  topic TEXT NOT NULL,
+  -- hit: an existing report was returned; miss: a new one was generated; refresh: force_refresh
+  -- skipped the cache
+  outcome TEXT NOT NULL CHECK (outcome IN ('hit', 'miss', 'refresh')),
+  report_id UUID REFERENCES reports(id) ON DELETE SET NULL,
+  -- For hits: how the topic matched and the reused report's embedding similarity
+  match_type TEXT CHECK (match_type IN ('exact', 'semantic')),
+  similarity REAL,
+  -- For hits: the work the reused report took, i.e. what the hit saved
+  saved_generation_ms INT,
+  saved_sources INT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_cache_events_created ON report_cache_events(created_at DESC);
@@ -0,0 +1,5 @@
+-- Structured Report Documents
+-- The sections, paragraphs, lists, tables, figures and citation spans a report was generated
+-- as (see src/types/report-document.ts). content keeps the document's markdown rendering.
+
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS document JSONB;
@@ -0,0 +1,24 @@
+-- Report Templates
+-- Deliverable structures managed at runtime; seeded from src/config/report-templates.ts
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS report_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  summary_words INT NOT NULL CHECK (summary_words > 0),
+  -- [{ title, instructions, max_words }] in report order
+  sections JSONB NOT NULL,
+  -- { max_sources?, time_range_days?, scoring_profile?, topics? }
+  source_rules JSONB NOT NULL DEFAULT '{}',
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  -- Soft delete so config seeding does not resurrect removed templates
+  deleted_at TIMESTAMPTZ
+);
+
+-- Slug of the template a report was generated with; NULL for reports from before templates
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS template TEXT;
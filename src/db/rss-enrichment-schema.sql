@@ -0,0 +1,60 @@
+-- RSS Article Enrichment
+-- Full article bodies fetched from the linked page, plus the scores computed from them
+
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS full_content TEXT;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS enriched_author TEXT;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS enriched_published_at TIMESTAMPTZ;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS word_count INT;
+
+-- Scores from ContentScorer over the enriched body
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS domain_authority REAL;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS indian_context_score REAL;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS freshness_score REAL;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS extractability_score REAL;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS composite_score REAL;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS has_statistics BOOLEAN;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS has_dates BOOLEAN;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS has_numbers BOOLEAN;
+-- Scoring version, explanation and tagged states (see scoring-schema.sql)
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS scoring_version INT;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS score_explanation JSONB;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS states TEXT[] NOT NULL DEFAULT '{}';
+
+-- Detected language and cached English translation (see language-schema.sql)
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS translated_title TEXT;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS translated_content TEXT;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS translated_at TIMESTAMPTZ;
+
+-- Moves when the text changes (see content-version-schema.sql)
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS content_updated_at TIMESTAMPTZ NOT NULL DEFAULT 'epoch';
+DROP TRIGGER IF EXISTS touch_rss_articles_content ON rss_articles;
+CREATE TRIGGER touch_rss_articles_content
+BEFORE INSERT OR UPDATE ON rss_articles
+FOR EACH ROW
+EXECUTE FUNCTION touch_content_updated_at('title', 'description', 'full_content', 'translated_title', 'translated_content');
+
+-- Work queue state: pending rows are picked up once enrichment_next_attempt_at has passed
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS enrichment_status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (enrichment_status IN ('pending', 'enriched', 'failed'));
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS enrichment_attempts INT NOT NULL DEFAULT 0;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS enrichment_next_attempt_at TIMESTAMPTZ DEFAULT now();
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS enrichment_error TEXT;
+ALTER TABLE IF EXISTS rss_articles ADD COLUMN IF NOT EXISTS enriched_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_rss_articles_enrichment_due
+ON rss_articles(enrichment_next_attempt_at)
+WHERE enrichment_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_rss_articles_states ON rss_articles USING GIN(states);
+
+-- Full-text search in each article's language; replaces the English-only index from rss-schema.sql
+CREATE INDEX IF NOT EXISTS idx_rss_articles_search_language
+ON rss_articles
+USING GIN(to_tsvector(text_search_config(language), title || ' ' || COALESCE(description, '')));
+DROP INDEX IF EXISTS idx_rss_articles_search;
+
+-- English translations are searched too (SourceRepository TRANSLATION_TSVECTOR)
+CREATE INDEX IF NOT EXISTS idx_rss_articles_translation_search
+ON rss_articles
+USING GIN(to_tsvector('english', COALESCE(translated_title, '') || ' ' || left(COALESCE(translated_content, ''), 1000)));
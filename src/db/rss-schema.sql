@@ -37,10 +37,7 @@ CREATE INDEX IF NOT EXISTS idx_rss_articles_feed_category ON rss_articles(feed_c
 CREATE INDEX IF NOT EXISTS idx_rss_articles_collected_at ON rss_articles(collected_at DESC);
 CREATE INDEX IF NOT EXISTS idx_rss_articles_content_hash ON rss_articles(content_hash);
 
--- Full text search on RSS articles
-CREATE INDEX IF NOT EXISTS idx_rss_articles_search 
-ON rss_articles 
-USING gin(to_tsvector('english', title || ' ' || COALESCE(description, '')));
+-- Full text search on RSS articles: language-aware index in rss-enrichment-schema.sql
 
 -- RSS collection stats
 CREATE TABLE IF NOT EXISTS rss_collection_stats (
@@ -50,6 +47,9 @@ CREATE TABLE IF NOT EXISTS rss_collection_stats (
   articles_collected INT DEFAULT 0,
   articles_new INT DEFAULT 0,
   articles_duplicate INT DEFAULT 0,
+  articles_error INT DEFAULT 0,
+  -- HTTP status of the feed's last fetch that day
+  http_status INT,
   collection_time_ms INT,
   errors TEXT,
   created_at TIMESTAMPTZ DEFAULT now(),
@@ -57,6 +57,10 @@ CREATE TABLE IF NOT EXISTS rss_collection_stats (
   CONSTRAINT unique_collection_per_day UNIQUE (collection_date, feed_name)
 );
 
+-- Stats tables created before per-feed error counts
+ALTER TABLE rss_collection_stats ADD COLUMN IF NOT EXISTS articles_error INT DEFAULT 0;
+ALTER TABLE rss_collection_stats ADD COLUMN IF NOT EXISTS http_status INT;
+
 -- Citations table migration for RSS article support
 -- Add new columns if they don't exist
 ALTER TABLE citations ADD COLUMN IF NOT EXISTS source_type TEXT DEFAULT 'content_item';
@@ -0,0 +1,25 @@
+-- RSS Source Registry
+-- Feeds are managed at runtime; seeded from src/config/rss-sources.ts
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS rss_sources (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE,
+  url TEXT NOT NULL UNIQUE,
+  category TEXT NOT NULL,
+  source_group TEXT NOT NULL,
+  priority INT NOT NULL DEFAULT 2 CHECK (priority IN (1, 2, 3)),
+  update_frequency TEXT NOT NULL DEFAULT 'daily' CHECK (update_frequency IN ('hourly', 'daily', 'weekly')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  -- Soft delete so config seeding does not resurrect removed feeds
+  deleted_at TIMESTAMPTZ
+);
+
+-- Language code the feed publishes in (see src/config/languages.ts)
+ALTER TABLE rss_sources ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+
+CREATE INDEX IF NOT EXISTS idx_rss_sources_enabled ON rss_sources(enabled) WHERE deleted_at IS NULL;
@@ -0,0 +1,20 @@
+-- RSS Collection Schedules
+-- One row per feed; the scheduler collects feeds whose next_run_at has passed
+
+CREATE TABLE IF NOT EXISTS rss_feed_schedules (
+  feed_name TEXT PRIMARY KEY,
+  frequency TEXT NOT NULL CHECK (frequency IN ('hourly', 'daily', 'weekly')),
+
+  last_run_at TIMESTAMPTZ,
+  next_run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  -- Outcome of the last run
+  last_status TEXT CHECK (last_status IN ('success', 'error', 'skipped')),
+  last_duration_ms INT,
+  last_article_count INT,
+  last_error TEXT,
+
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rss_feed_schedules_next_run ON rss_feed_schedules(next_run_at);
@@ -0,0 +1,35 @@
+-- Versioned Scoring
+-- Which scoring version produced each item's scores and why, the states it was tagged with,
+-- plus a log of rescoring runs.
+-- rss_articles gets the same columns from rss-enrichment-schema.sql.
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+ALTER TABLE IF EXISTS content_items ADD COLUMN IF NOT EXISTS scoring_version INT;
+ALTER TABLE IF EXISTS content_items ADD COLUMN IF NOT EXISTS score_explanation JSONB;
+
+-- Indian states and union territories each item mentions, tagged by IndianContextClassifier
+ALTER TABLE IF EXISTS content_items ADD COLUMN IF NOT EXISTS states TEXT[] NOT NULL DEFAULT '{}';
+CREATE INDEX IF NOT EXISTS idx_content_items_states ON content_items USING GIN(states);
+
+CREATE TABLE IF NOT EXISTS scoring_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  version INT NOT NULL,
+  weights JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  -- Where the run was started from: 'cli' or 'api'
+  triggered_by TEXT NOT NULL,
+
+  items_rescored INT NOT NULL DEFAULT 0,
+  -- How rankings moved: score deltas, rank changes and the biggest movers
+  summary JSONB,
+  error TEXT,
+
+  started_at TIMESTAMPTZ DEFAULT now(),
+  finished_at TIMESTAMPTZ
+);
+
+-- Domain authority snapshot the run scored with (see domain_authority_snapshots)
+ALTER TABLE scoring_runs ADD COLUMN IF NOT EXISTS authority_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_scoring_runs_started ON scoring_runs(started_at DESC);
@@ -0,0 +1,38 @@
+-- Story Clusters
+-- Near-duplicate and syndicated copies of the same story, across rss_articles and content_items
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS story_clusters (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  title TEXT NOT NULL,
+
+  -- The copy reports should cite: highest scoring, then earliest published
+  canonical_source_type TEXT NOT NULL CHECK (canonical_source_type IN ('rss_article', 'content_item')),
+  canonical_item_id UUID NOT NULL,
+  canonical_score REAL,
+  canonical_published_at TIMESTAMPTZ,
+
+  member_count INT NOT NULL DEFAULT 1,
+  first_seen_at TIMESTAMPTZ DEFAULT now(),
+  last_seen_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_clusters_last_seen ON story_clusters(last_seen_at DESC);
+
+CREATE TABLE IF NOT EXISTS story_cluster_members (
+  source_type TEXT NOT NULL CHECK (source_type IN ('rss_article', 'content_item')),
+  item_id UUID NOT NULL,
+  cluster_id UUID NOT NULL REFERENCES story_clusters(id) ON DELETE CASCADE,
+  simhash BIGINT NOT NULL,
+  -- Lowercased headline without the publisher suffix; empty when too short to match on
+  title_key TEXT NOT NULL DEFAULT '',
+  -- Hamming distance to the member it matched (0 for the first member)
+  distance INT NOT NULL DEFAULT 0,
+  added_at TIMESTAMPTZ DEFAULT now(),
+
+  PRIMARY KEY (source_type, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_cluster_members_cluster ON story_cluster_members(cluster_id);
+CREATE INDEX IF NOT EXISTS idx_story_cluster_members_added ON story_cluster_members(added_at DESC);
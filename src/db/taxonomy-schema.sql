@@ -0,0 +1,43 @@
+-- HR Topic Taxonomy
+-- Hierarchical topics seeded from src/config/hr-taxonomy.ts, and the topics TopicClassifier
+-- assigned to each rss_article and content_item with its confidence.
+
+CREATE TABLE IF NOT EXISTS taxonomy_nodes (
+  -- Dotted path: 'compensation.variable_pay' is a child of 'compensation'
+  slug TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  parent_slug TEXT REFERENCES taxonomy_nodes(slug) ON DELETE CASCADE,
+  keywords TEXT[] NOT NULL DEFAULT '{}',
+
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_taxonomy_nodes_parent ON taxonomy_nodes(parent_slug);
+
+-- An item tagged with a child node is also tagged with its parent
+CREATE TABLE IF NOT EXISTS item_topics (
+  source_type TEXT NOT NULL CHECK (source_type IN ('rss_article', 'content_item')),
+  item_id UUID NOT NULL,
+  node_slug TEXT NOT NULL REFERENCES taxonomy_nodes(slug) ON DELETE CASCADE,
+  confidence REAL NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+
+  PRIMARY KEY (source_type, item_id, node_slug)
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_topics_node ON item_topics(node_slug, confidence DESC);
+
+-- Which items have been categorised, and with which classifier version
+CREATE TABLE IF NOT EXISTS topic_classifications (
+  source_type TEXT NOT NULL CHECK (source_type IN ('rss_article', 'content_item')),
+  item_id UUID NOT NULL,
+  classifier_version INT NOT NULL,
+  topic_count INT NOT NULL DEFAULT 0,
+  classified_at TIMESTAMPTZ DEFAULT now(),
+
+  PRIMARY KEY (source_type, item_id)
+);
+
+-- The item's content_updated_at when it was classified (content-version-schema.sql); items
+-- whose text changed since (enrichment, an edited title) are classified again
+ALTER TABLE topic_classifications ADD COLUMN IF NOT EXISTS content_updated_at TIMESTAMPTZ NOT NULL DEFAULT 'epoch';
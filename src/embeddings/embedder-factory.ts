@@ -0,0 +1,40 @@
+import { Embedder } from './embedder';
+import { HashingEmbedder } from './hashing-embedder';
+import { OpenAICompatibleEmbedder } from './openai-compatible-embedder';
+
+export type EmbedderName = 'hashing' | 'openai_compatible' | 'none';
+
+const EMBEDDER_NAMES: EmbedderName[] = ['hashing', 'openai_compatible', 'none'];
+
+// Resolves the embedder from the environment:
+//   EMBEDDING_PROVIDER   - openai_compatible (the default once EMBEDDING_BASE_URL is set), hashing,
+//                          or none (the default otherwise) to disable semantic search
+//   EMBEDDING_MODEL      - model name for openai_compatible (e.g. nomic-embed-text)
+//   EMBEDDING_BASE_URL / EMBEDDING_API_KEY - endpoint for openai_compatible (e.g. http://localhost:11434/v1)
+//   EMBEDDING_DIMENSIONS - vector size for the hashing embedder (default 256)
+// Semantic search needs a neural model; hashing vectors only match shared words, so they are
+// for offline development rather than a fallback.
+export function createEmbedder(env: NodeJS.ProcessEnv = process.env): Embedder | null {
+  const fallback: EmbedderName = env.EMBEDDING_BASE_URL ? 'openai_compatible' : 'none';
+  const requested = (env.EMBEDDING_PROVIDER || fallback).toLowerCase() as EmbedderName;
+  const embedderName = EMBEDDER_NAMES.includes(requested) ? requested : fallback;
+  if (embedderName !== requested) {
+    console.warn(`⚠️ Unknown embedding provider "${requested}", falling back to ${fallback}`);
+  }
+
+  switch (embedderName) {
+    case 'none':
+      return null;
+
+    case 'openai_compatible':
+      return new OpenAICompatibleEmbedder({
+        baseUrl: env.EMBEDDING_BASE_URL || '',
+        apiKey: env.EMBEDDING_API_KEY,
+        model: env.EMBEDDING_MODEL || ''
+      });
+
+    case 'hashing':
+    default:
+      return new HashingEmbedder(parseInt(env.EMBEDDING_DIMENSIONS || '') || 256);
+  }
+}
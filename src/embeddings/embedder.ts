@@ -0,0 +1,30 @@
+// Text embedding abstraction used by hybrid search
+
+export interface Embedder {
+  readonly name: string;
+  readonly model: string;
+
+  // False when required endpoints are missing
+  isConfigured(): boolean;
+
+  // One L2-normalised vector per input text, in order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map(value => value / norm) : vector;
+}
@@ -0,0 +1,31 @@
+import { EmbeddingStore } from './embedding-store';
+import { PeriodicWorker } from '../jobs/periodic-worker';
+
+// Background worker that keeps item_embeddings up to date as articles are collected and enriched
+export class EmbeddingIndexer {
+  private store: EmbeddingStore;
+  private worker: PeriodicWorker;
+
+  constructor(
+    store: EmbeddingStore,
+    batchSize = parseInt(process.env.EMBEDDING_BATCH_SIZE || '') || 32,
+    intervalMs = parseInt(process.env.EMBEDDING_INTERVAL_MS || '') || 60 * 1000
+  ) {
+    this.store = store;
+    this.worker = new PeriodicWorker('Embeddings', async size => {
+      const indexed = await this.store.indexPending(size);
+      if (indexed > 0) {
+        console.log(`🧭 [Embeddings] Indexed ${indexed} items`);
+      }
+    }, batchSize, intervalMs);
+  }
+
+  start(): void {
+    console.log(`🧭 Starting embedding indexer (${this.store.modelKey}, ${this.worker.describe()})`);
+    this.worker.start();
+  }
+
+  stop(): void {
+    this.worker.stop();
+  }
+}
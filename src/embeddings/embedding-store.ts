@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import db from '../db/connection';
+import { SourceType } from '../types/sources';
+import { Embedder, cosineSimilarity } from './embedder';
+import { createEmbedder } from './embedder-factory';
+
+export interface SemanticMatch {
+  source_type: SourceType;
+  id: string;
+  similarity: number;
+}
+
+// Text that gets embedded for each table: title plus the start of the best available body, in
+// English once the translation worker has translated a regional item (which re-embeds it)
+const EMBEDDED_TEXT: Record<SourceType, { table: string, text: string }> = {
+  rss_article: {
+    table: 'rss_articles',
+    text: "COALESCE(t.translated_title, t.title) || '. ' || left(COALESCE(t.translated_content, t.full_content, t.description, ''), 2000)"
+  },
+  content_item: {
+    table: 'content_items',
+    text: "COALESCE(t.translated_title, t.title) || '. ' || left(COALESCE(t.translated_content, t.full_content, t.snippet, ''), 2000)"
+  }
+};
+
+// Cosine similarity below which a nearest neighbour is noise rather than a match
+// (EMBEDDING_MIN_SIMILARITY). Hashing vectors of unrelated texts still collide at 0.1-0.15
+// while a query word shared with an item scores 0.2 and up; neural models rate unrelated
+// text higher, so they get a higher floor.
+const DEFAULT_MIN_SIMILARITY = { hashing: 0.15, neural: 0.3 };
+
+export function minSimilarityFor(embedder: Embedder, env: NodeJS.ProcessEnv = process.env): number {
+  const configured = parseFloat(env.EMBEDDING_MIN_SIMILARITY || '');
+  if (Number.isFinite(configured)) return configured;
+  return embedder.name === 'hashing' ? DEFAULT_MIN_SIMILARITY.hashing : DEFAULT_MIN_SIMILARITY.neural;
+}
+
+// pgvector's HNSW index doesn't take wider vectors
+const MAX_ANN_DIMENSIONS = 2000;
+
+// Stores item vectors in item_embeddings and answers nearest-neighbour queries over them
+export class EmbeddingStore {
+  readonly embedder: Embedder;
+  private searchWindow: number;
+  private minSimilarity: number;
+  private annIndex: Promise<boolean> | null = null;
+
+  constructor(
+    embedder: Embedder,
+    searchWindow = parseInt(process.env.EMBEDDING_SEARCH_WINDOW || '') || 5000,
+    minSimilarity = minSimilarityFor(embedder)
+  ) {
+    this.embedder = embedder;
+    this.searchWindow = searchWindow;
+    this.minSimilarity = minSimilarity;
+  }
+
+  // Null when semantic search is disabled or the configured embedder is incomplete
+  static fromEnv(): EmbeddingStore | null {
+    const embedder = createEmbedder();
+    return embedder && embedder.isConfigured() ? new EmbeddingStore(embedder) : null;
+  }
+
+  get modelKey(): string {
+    return `${this.embedder.name}:${this.embedder.model}`;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embedder.embed([text]);
+    return vector;
+  }
+
+  // True once this model's vectors have an HNSW index. Built on first use, concurrently so
+  // indexing keeps writing; false without pgvector, leaving nearest() to compare in the application.
+  private ensureAnnIndex(dimensions: number): Promise<boolean> {
+    if (!this.annIndex) {
+      this.annIndex = (async () => {
+        const vectorType = await db.query("SELECT to_regtype('vector') IS NOT NULL AS available");
+        if (!vectorType.rows[0].available || dimensions > MAX_ANN_DIMENSIONS) return false;
+
+        // The partial index predicate can't be a parameter
+        const indexName = `idx_item_embeddings_ann_${crypto.createHash('md5').update(this.modelKey).digest('hex').slice(0, 12)}`;
+        await db.query(`
+          CREATE INDEX CONCURRENTLY IF NOT EXISTS ${indexName}
+          ON item_embeddings
+          USING hnsw ((embedding::vector(${dimensions})) vector_cosine_ops)
+          WHERE model = '${this.modelKey.replace(/'/g, "''")}'
+        `);
+        console.log(`🧭 HNSW index ready for ${this.modelKey}`);
+        return true;
+      })().catch(error => {
+        console.warn(`⚠️ No HNSW index for ${this.modelKey}, comparing vectors in the application:`, error instanceof Error ? error.message : error);
+        return false;
+      });
+    }
+    return this.annIndex;
+  }
+
+  // At most k items of the given types, all at or above the similarity floor: from the HNSW
+  // index where there is one, otherwise by brute-force cosine over the most recently embedded items
+  async nearest(vector: number[], sourceTypes: SourceType[], k: number): Promise<SemanticMatch[]> {
+    await db.ensureSchema('embeddings-schema.sql');
+
+    if (await this.ensureAnnIndex(vector.length)) {
+      // The vector expressions must match the index's; <=> is cosine distance
+      const vectorType = `vector(${vector.length})`;
+      const result = await db.query(`
+        SELECT source_type, item_id::text AS id, 1 - (embedding::${vectorType} <=> $1::${vectorType}) AS similarity
+        FROM item_embeddings
+        WHERE model = $2 AND source_type = ANY($3)
+        ORDER BY embedding::${vectorType} <=> $1::${vectorType}
+        LIMIT $4
+      `, [JSON.stringify(vector), this.modelKey, sourceTypes, k]);
+
+      const matches: SemanticMatch[] = result.rows;
+      return matches.filter(match => match.similarity >= this.minSimilarity);
+    }
+
+    const result = await db.query(`
+      SELECT source_type, item_id::text AS id, embedding
+      FROM item_embeddings
+      WHERE model = $1 AND source_type = ANY($2)
+      ORDER BY updated_at DESC
+      LIMIT $3
+    `, [this.modelKey, sourceTypes, this.searchWindow]);
+
+    return result.rows
+      .map((row: { source_type: SourceType, id: string, embedding: number[] }) => ({
+        source_type: row.source_type,
+        id: row.id,
+        similarity: cosineSimilarity(vector, row.embedding)
+      }))
+      .filter((match: SemanticMatch) => match.similarity >= this.minSimilarity)
+      .sort((a: SemanticMatch, b: SemanticMatch) => b.similarity - a.similarity)
+      .slice(0, k);
+  }
+
+  // Embed items that have no vector for the current model, or whose text changed since
+  async indexPending(batchSize: number): Promise<number> {
+    await db.ensureSchema('embeddings-schema.sql');
+    // translated_* columns
+    await db.ensureSchema('language-schema.sql');
+    let indexed = 0;
+
+    for (const sourceType of Object.keys(EMBEDDED_TEXT) as SourceType[]) {
+      const { table, text } = EMBEDDED_TEXT[sourceType];
+
+      const exists = await db.query('SELECT to_regclass($1) IS NOT NULL AS exists', [table]);
+      if (!exists.rows[0].exists) continue;
+      if (sourceType === 'rss_article') {
+        // full_content comes from the enrichment schema
+        await db.ensureSchema('rss-enrichment-schema.sql');
+      }
+      await db.ensureSchema('content-version-schema.sql');
+
+      const pending = await db.query(`
+        SELECT t.id::text AS id, ${text} AS text, t.content_updated_at
+        FROM ${table} t
+        LEFT JOIN item_embeddings e ON e.source_type = $1 AND e.item_id = t.id AND e.model = $2
+        WHERE e.item_id IS NULL OR e.content_updated_at <> t.content_updated_at
+        ORDER BY t.collected_at DESC
+        LIMIT $3
+      `, [sourceType, this.modelKey, batchSize]);
+
+      if (pending.rows.length === 0) continue;
+
+      const vectors = await this.embedder.embed(pending.rows.map((row: { text: string }) => row.text));
+      for (let i = 0; i < pending.rows.length; i++) {
+        await db.query(`
+          INSERT INTO item_embeddings (source_type, item_id, model, dimensions, embedding, content_updated_at)
+          VALUES ($1, $2, $3, $4, $5, $6)
+          ON CONFLICT (source_type, item_id, model) DO UPDATE SET
+            dimensions = EXCLUDED.dimensions,
+            embedding = EXCLUDED.embedding,
+            content_updated_at = EXCLUDED.content_updated_at,
+            updated_at = now()
+        `, [sourceType, pending.rows[i].id, this.modelKey, vectors[i].length, vectors[i], pending.rows[i].content_updated_at]);
+      }
+      indexed += pending.rows.length;
+      await this.ensureAnnIndex(vectors[0].length);
+    }
+
+    return indexed;
+  }
+}
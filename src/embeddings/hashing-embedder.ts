@@ -0,0 +1,79 @@
+import { Embedder, normalize } from './embedder';
+
+// Deterministic feature-hashing embedder: stemmed words and word pairs hashed into a fixed
+// number of buckets. Needs no model or network, so it is the default for tests and offline
+// runs; it captures word overlap (resign / resignations) but not true synonyms.
+export class HashingEmbedder implements Embedder {
+  readonly name = 'hashing';
+  readonly model: string;
+  private dimensions: number;
+
+  constructor(dimensions = 256) {
+    this.dimensions = dimensions;
+    this.model = `hashing-${dimensions}`;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = tokenize(text);
+
+    const features = [...tokens];
+    for (let i = 0; i < tokens.length - 1; i++) {
+      features.push(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // The sign bit spreads collisions around zero instead of piling them up
+      vector[hash % this.dimensions] += (hash & 0x80000000) ? -1 : 1;
+    }
+
+    return normalize(vector);
+  }
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'has', 'have',
+  'had', 'its', 'their', 'they', 'into', 'over', 'about', 'than', 'but', 'not', 'will', 'can'
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 2 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+// Crude suffix stripping so "resignations", "resigned" and "resigning" share a feature
+function stem(token: string): string {
+  for (const suffix of ['ations', 'ation', 'ings', 'ing', 'ies', 'ed', 's']) {
+    if (token.length - suffix.length >= 4 && token.endsWith(suffix)) {
+      return suffix === 'ies' ? token.slice(0, -3) + 'y' : token.slice(0, -suffix.length);
+    }
+  }
+  return token;
+}
+
+// FNV-1a followed by the murmur3 finalizer, whose avalanche keeps short words from clustering in the low bits
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
@@ -0,0 +1,65 @@
+import axios from 'axios';
+import { Embedder, normalize } from './embedder';
+
+interface EmbeddingsResponse {
+  data: {
+    index: number;
+    embedding: number[];
+  }[];
+}
+
+export interface OpenAICompatibleEmbedderConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+// Any server that speaks the OpenAI embeddings API, e.g. a local CPU model behind
+// Ollama (nomic-embed-text), llama.cpp or text-embeddings-inference (bge-small-en)
+export class OpenAICompatibleEmbedder implements Embedder {
+  readonly name = 'openai_compatible';
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(config: OpenAICompatibleEmbedderConfig) {
+    this.model = config.model;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey || '';
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl && this.model);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.isConfigured()) {
+      throw new Error('Embedding provider "openai_compatible" is not configured');
+    }
+    if (texts.length === 0) return [];
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    try {
+      const response = await axios.post<EmbeddingsResponse>(`${this.baseUrl}/embeddings`, {
+        model: this.model,
+        input: texts
+      }, {
+        headers,
+        timeout: 30000
+      });
+
+      return response.data.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => normalize(item.embedding));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Embedding request failed (${this.model}): ${errorMessage}`);
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import db from '../db/connection';
+import { ScrapingBeeScraper } from '../scrapers/scrapingbee-scraper';
+import { ContentScorer } from '../scoring/content-scorer';
+import { LanguageCode } from '../config/languages';
+import { isGoogleNewsUrl, normalizeUrl, resolveGoogleNewsUrl } from '../utils/url-normalizer';
+
+interface ArticleEnrichmentWorkerOptions {
+  batchSize?: number;
+  intervalMs?: number;
+  maxAttempts?: number;
+  baseBackoffMinutes?: number;
+  minContentLength?: number;
+}
+
+interface PendingArticle {
+  id: string;
+  feed_group: string;
+  title: string;
+  url: string;
+  description: string | null;
+  author: string | null;
+  published_at: Date | null;
+  language: LanguageCode;
+  enrichment_attempts: number;
+}
+
+// How long a claimed article stays invisible to other workers before it can be retried
+const CLAIM_LEASE_MINUTES = 10;
+const MAX_BACKOFF_MINUTES = 24 * 60;
+
+// Fetches the linked page for new RSS articles, stores the extracted body, author and
+// publish date, and scores the result. Google News links the collector couldn't decode offline
+// are resolved to the publisher URL first (GOOGLE_NEWS_RESOLVE=false keeps the wrapper URL). Failed fetches are retried with exponential backoff
+// until maxAttempts, after which the article keeps its feed description.
+export class ArticleEnrichmentWorker {
+  private scraper: ScrapingBeeScraper;
+  private useScrapingBee: boolean;
+  private scorer: ContentScorer;
+  private batchSize: number;
+  private intervalMs: number;
+  private maxAttempts: number;
+  private baseBackoffMinutes: number;
+  private minContentLength: number;
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(options: ArticleEnrichmentWorkerOptions = {}) {
+    const apiKey = process.env.SCRAPINGBEE_API_KEY || '';
+    this.scraper = new ScrapingBeeScraper(apiKey);
+    this.useScrapingBee = !!apiKey;
+    this.scorer = new ContentScorer();
+    this.batchSize = options.batchSize ?? (parseInt(process.env.RSS_ENRICHMENT_BATCH_SIZE || '') || 10);
+    this.intervalMs = options.intervalMs ?? (parseInt(process.env.RSS_ENRICHMENT_INTERVAL_MS || '') || 2 * 60 * 1000);
+    this.maxAttempts = options.maxAttempts ?? 4;
+    this.baseBackoffMinutes = options.baseBackoffMinutes ?? 15;
+    this.minContentLength = options.minContentLength ?? 300;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    console.log(`📰 Starting RSS enrichment worker (${this.batchSize} articles every ${Math.round(this.intervalMs / 1000)}s, ${this.useScrapingBee ? 'ScrapingBee' : 'direct fetch'})`);
+    this.timer = setInterval(() => this.runBatch(), this.intervalMs);
+    this.runBatch();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runBatch(): Promise<void> {
+    try {
+      await this.enrichBatch();
+    } catch (error) {
+      console.error('❌ [Enrichment] Batch failed:', error);
+    }
+  }
+
+  async enrichBatch(): Promise<{ enriched: number, failed: number }> {
+    if (this.running) return { enriched: 0, failed: 0 };
+    this.running = true;
+
+    try {
+      await db.ensureSchema('rss-enrichment-schema.sql');
+      const articles = await this.claimBatch();
+
+      let enriched = 0;
+      let failed = 0;
+      for (const article of articles) {
+        if (await this.enrichArticle(article)) {
+          enriched++;
+        } else {
+          failed++;
+        }
+      }
+
+      if (articles.length > 0) {
+        console.log(`📰 [Enrichment] ${enriched} enriched, ${failed} failed of ${articles.length} articles`);
+      }
+      return { enriched, failed };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Newest first; SKIP LOCKED plus a short lease keeps replicas from fetching the same article
+  private async claimBatch(): Promise<PendingArticle[]> {
+    const result = await db.query(`
+      UPDATE rss_articles SET
+        enrichment_attempts = enrichment_attempts + 1,
+        enrichment_next_attempt_at = now() + make_interval(mins => $2)
+      WHERE id IN (
+        SELECT id FROM rss_articles
+        WHERE enrichment_status = 'pending' AND enrichment_next_attempt_at <= now()
+        ORDER BY collected_at DESC
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, feed_group, title, url, description, author, published_at, language, enrichment_attempts
+    `, [this.batchSize, CLAIM_LEASE_MINUTES]);
+
+    return result.rows;
+  }
+
+  private async enrichArticle(article: PendingArticle): Promise<boolean> {
+    try {
+      article.url = await this.resolveLink(article);
+
+      const html = this.useScrapingBee
+        ? await this.scraper.scrapeUrl(article.url)
+        : await this.scraper.directScrape(article.url);
+      if (!html) {
+        throw new Error('No HTML received');
+      }
+
+      const extracted = await this.scraper.extractContent(html, article.url);
+      if (extracted.content.length < this.minContentLength) {
+        throw new Error(`Extracted body too short (${extracted.content.length} chars)`);
+      }
+      if (extracted.canonical_url && extracted.canonical_url !== article.url) {
+        article.url = extracted.canonical_url;
+        await this.saveUrl(article.id, article.url);
+      }
+
+      const { scored_item, explanation } = this.scorer.scoreContent({
+        title: article.title,
+        url: article.url,
+        content: extracted.content,
+        snippet: article.description || undefined,
+        author: extracted.author || article.author || undefined,
+        published_at: extracted.published_at || article.published_at || undefined,
+        // Re-detected from the full body, with the feed-time language as the hint
+        language: article.language
+      }, article.feed_group);
+
+      await db.query(`
+        UPDATE rss_articles SET
+          full_content = $2,
+          enriched_author = $3,
+          enriched_published_at = $4,
+          word_count = $5,
+          domain_authority = $6,
+          indian_context_score = $7,
+          freshness_score = $8,
+          extractability_score = $9,
+          composite_score = $10,
+          has_statistics = $11,
+          has_dates = $12,
+          has_numbers = $13,
+          scoring_version = $14,
+          score_explanation = $15,
+          states = $16,
+          language = $17,
+          enrichment_status = 'enriched',
+          enrichment_error = NULL,
+          enrichment_next_attempt_at = NULL,
+          enriched_at = now()
+        WHERE id = $1
+      `, [
+        article.id,
+        extracted.content,
+        extracted.author || null,
+        extracted.published_at || null,
+        scored_item.word_count,
+        scored_item.domain_authority,
+        scored_item.indian_context_score,
+        scored_item.freshness_score,
+        scored_item.extractability_score,
+        scored_item.composite_score,
+        scored_item.has_statistics,
+        scored_item.has_dates,
+        scored_item.has_numbers,
+        explanation.version,
+        JSON.stringify(explanation),
+        explanation.indian_context.states,
+        scored_item.language
+      ]);
+
+      return true;
+    } catch (error) {
+      await this.recordFailure(article, error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
+
+  // The publisher URL behind a Google News wrapper link, saved as the article's url. The
+  // content_hash stays that of the wrapper so the next collection of the same link still matches
+  // the row.
+  private async resolveLink(article: PendingArticle): Promise<string> {
+    if (process.env.GOOGLE_NEWS_RESOLVE === 'false' || !isGoogleNewsUrl(article.url)) return article.url;
+
+    const resolved = normalizeUrl(await resolveGoogleNewsUrl(article.url));
+    if (resolved === article.url) return article.url;
+
+    await this.saveUrl(article.id, resolved);
+    return resolved;
+  }
+
+  // Re-keys the row to the article's publisher or canonical URL. When another row already has
+  // that URL, this one keeps its old key and the backfill script merges the two.
+  private async saveUrl(id: string, url: string): Promise<void> {
+    await db.query(
+      'UPDATE rss_articles SET url = $2 WHERE id = $1 AND NOT EXISTS (SELECT 1 FROM rss_articles WHERE url = $2)',
+      [id, url]
+    );
+  }
+
+  private async recordFailure(article: PendingArticle, message: string): Promise<void> {
+    const exhausted = article.enrichment_attempts >= this.maxAttempts;
+    const backoffMinutes = Math.min(MAX_BACKOFF_MINUTES, this.baseBackoffMinutes * Math.pow(2, article.enrichment_attempts - 1));
+
+    await db.query(`
+      UPDATE rss_articles SET
+        enrichment_status = $2,
+        enrichment_error = $3,
+        enrichment_next_attempt_at = CASE WHEN $2 = 'failed' THEN NULL ELSE now() + make_interval(mins => $4) END
+      WHERE id = $1
+    `, [article.id, exhausted ? 'failed' : 'pending', message.substring(0, 500), backoffMinutes]);
+
+    console.log(`⚠️ [Enrichment] ${article.url}: ${message}${exhausted ? ' (giving up)' : ` (retry in ${backoffMinutes} min)`}`);
+  }
+}
@@ -0,0 +1,30 @@
+import { EntityStore } from './entity-store';
+import { PeriodicWorker } from '../jobs/periodic-worker';
+
+// Background worker that finds companies, government bodies, people and locations in newly
+// collected and enriched items
+export class EntityExtractionWorker {
+  private worker: PeriodicWorker;
+
+  constructor(
+    store: EntityStore,
+    batchSize = parseInt(process.env.ENTITY_EXTRACTION_BATCH_SIZE || '') || 200,
+    intervalMs = parseInt(process.env.ENTITY_EXTRACTION_INTERVAL_MS || '') || 60 * 1000
+  ) {
+    this.worker = new PeriodicWorker('Entities', async size => {
+      const { items, entities } = await store.extractPending(size);
+      if (items > 0) {
+        console.log(`🏢 [Entities] Found ${entities} entity mentions in ${items} items`);
+      }
+    }, batchSize, intervalMs);
+  }
+
+  start(): void {
+    console.log(`🏢 Starting entity extraction (${this.worker.describe()})`);
+    this.worker.start();
+  }
+
+  stop(): void {
+    this.worker.stop();
+  }
+}
@@ -0,0 +1,56 @@
+import { Entity, EntityMention } from '../types/entities';
+import { tokenize } from '../scoring/indian-context-classifier';
+
+// Bump when the matching rules change so stored items are extracted again
+export const ENTITY_EXTRACTOR_VERSION = 1;
+
+const MAX_ENTITIES = 30;
+
+interface IndexedName {
+  tokens: string[];
+  entityId: string;
+}
+
+// Finds known entities in text by whole-token matches of their names and aliases, so
+// "TCS" and "Tata Consultancy Services" both count as mentions of the same entity
+export class EntityExtractor {
+  private index = new Map<string, IndexedName[]>();
+
+  constructor(entities: Pick<Entity, 'id' | 'name' | 'aliases'>[]) {
+    for (const entity of entities) {
+      for (const name of [entity.name, ...entity.aliases]) {
+        const tokens = tokenize(name);
+        if (tokens.length === 0) continue;
+
+        const names = this.index.get(tokens[0]) || [];
+        names.push({ tokens, entityId: entity.id });
+        // Longest name first, so "Punjab National Bank" wins over "Punjab" at the same position
+        names.sort((a, b) => b.tokens.length - a.tokens.length);
+        this.index.set(tokens[0], names);
+      }
+    }
+  }
+
+  // Entities mentioned in the text, most mentioned first
+  extract(text: string): EntityMention[] {
+    const tokens = tokenize(text);
+    const mentions = new Map<string, number>();
+
+    for (let i = 0; i < tokens.length;) {
+      const name = (this.index.get(tokens[i]) || [])
+        .find(candidate => candidate.tokens.every((token, offset) => tokens[i + offset] === token));
+
+      if (name) {
+        mentions.set(name.entityId, (mentions.get(name.entityId) || 0) + 1);
+        i += name.tokens.length;
+      } else {
+        i++;
+      }
+    }
+
+    return Array.from(mentions.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_ENTITIES)
+      .map(([entity_id, count]) => ({ entity_id, mentions: count }));
+  }
+}
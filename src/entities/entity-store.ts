@@ -0,0 +1,369 @@
+import { PoolClient } from 'pg';
+import db from '../db/connection';
+import { ENTITY_GAZETTEER } from '../config/entity-gazetteer';
+import {
+  Entity,
+  EntityArticle,
+  EntityMention,
+  EntityQueryOptions,
+  EntitySummary,
+  NamedEntity,
+  ReportEntity
+} from '../types/entities';
+import { SourceItem, SourceType } from '../types/sources';
+import { SourceRepository } from '../sources/source-repository';
+import { tokenize } from '../scoring/indian-context-classifier';
+import { EntityExtractor, ENTITY_EXTRACTOR_VERSION } from './entity-extractor';
+import { LLMEntityExtractor } from './llm-entity-extractor';
+
+interface PendingItem {
+  id: string;
+  title: string;
+  text: string | null;
+  published_at: Date | null;
+  content_updated_at: Date;
+}
+
+// Text entities are extracted from. Like fact extraction, RSS articles wait for the full body
+// unless enrichment has been pending for a day.
+const EXTRACTED_TEXT: Record<SourceType, { table: string, text: string, publishedAt: string, ready: string }> = {
+  rss_article: {
+    table: 'rss_articles',
+    text: 'COALESCE(t.full_content, t.description)',
+    publishedAt: 'COALESCE(t.enriched_published_at, t.published_at)',
+    ready: "(t.enrichment_status <> 'pending' OR t.collected_at < now() - interval '1 day')"
+  },
+  content_item: {
+    table: 'content_items',
+    text: "COALESCE(NULLIF(t.full_content, ''), t.snippet)",
+    publishedAt: 't.published_at',
+    ready: 'TRUE'
+  }
+};
+
+const ENTITY_COLUMNS = 'id, name, type, aliases, origin, created_at, updated_at';
+
+// Entities listed on a report
+const MAX_REPORT_ENTITIES = 25;
+
+// Only one replica extracts at a time
+const ENTITY_LOCK_KEY = 48151628;
+
+// Companies, government bodies, people and locations (seeded from src/config/entity-gazetteer.ts),
+// the items that mention them and the reports that discuss them
+export class EntityStore {
+  private static seeded: Promise<void> | null = null;
+  private repository: SourceRepository;
+  private llmExtractor: LLMEntityExtractor;
+
+  constructor(repository = new SourceRepository(), llmExtractor = new LLMEntityExtractor()) {
+    this.repository = repository;
+    this.llmExtractor = llmExtractor;
+  }
+
+  private async ensureReady(): Promise<void> {
+    await db.ensureSchema('entities-schema.sql');
+
+    if (!EntityStore.seeded) {
+      EntityStore.seeded = this.seedFromConfig();
+      EntityStore.seeded.catch(() => { EntityStore.seeded = null; });
+    }
+    await EntityStore.seeded;
+  }
+
+  private async seedFromConfig(): Promise<void> {
+    let inserted = 0;
+    for (const seed of ENTITY_GAZETTEER) {
+      const result = await db.query(`
+        INSERT INTO entities (name, type, aliases)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (type, lower(name)) DO NOTHING
+      `, [seed.name, seed.type, seed.aliases || []]);
+      inserted += result.rowCount || 0;
+    }
+
+    if (inserted > 0) {
+      console.log(`🌱 Seeded ${inserted} entities from configuration`);
+    }
+  }
+
+  // Entities with how many items mention them, most mentioned first
+  async list(options: EntityQueryOptions = {}): Promise<EntitySummary[]> {
+    await this.ensureReady();
+
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    if (options.type) {
+      values.push(options.type);
+      conditions.push(`e.type = $${values.length}`);
+    }
+    if (options.q) {
+      values.push(`%${options.q}%`);
+      conditions.push(`(e.name ILIKE $${values.length} OR array_to_string(e.aliases, ' ') ILIKE $${values.length})`);
+    }
+    values.push(options.limit || 50);
+
+    const result = await db.query(`
+      SELECT e.id, e.name, e.type, e.aliases, e.origin, e.created_at, e.updated_at,
+        COUNT(ie.item_id)::int AS article_count,
+        MAX(ie.published_at) AS last_mentioned_at
+      FROM entities e
+      LEFT JOIN item_entities ie ON ie.entity_id = e.id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      GROUP BY e.id
+      ORDER BY article_count DESC, e.name
+      LIMIT $${values.length}
+    `, values);
+    return result.rows;
+  }
+
+  async get(id: string): Promise<Entity | null> {
+    await this.ensureReady();
+    const result = await db.query(`SELECT ${ENTITY_COLUMNS} FROM entities WHERE id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  // Items that mention the entity, newest first
+  async articles(entityId: string, options: { days?: number, limit?: number } = {}): Promise<EntityArticle[]> {
+    await this.ensureReady();
+
+    const values: unknown[] = [entityId];
+    let recency = '';
+    if (options.days) {
+      values.push(options.days);
+      recency = `AND published_at >= now() - make_interval(days => $${values.length})`;
+    }
+    values.push(options.limit || 20);
+
+    const result = await db.query(`
+      SELECT source_type, item_id::text AS item_id, mentions
+      FROM item_entities
+      WHERE entity_id = $1 ${recency}
+      ORDER BY published_at DESC NULLS LAST
+      LIMIT $${values.length}
+    `, values);
+
+    const mentions = new Map<string, number>(
+      result.rows.map((row: { source_type: SourceType, item_id: string, mentions: number }) => [`${row.source_type}:${row.item_id}`, row.mentions])
+    );
+    const items = await this.repository.getByRefs(
+      result.rows.map((row: { source_type: SourceType, item_id: string }) => ({ source_type: row.source_type, id: row.item_id }))
+    );
+
+    return items.map(item => ({
+      source_type: item.source_type,
+      id: item.id,
+      title: item.title,
+      url: item.url,
+      source: item.source,
+      published_at: item.published_at || null,
+      mentions: mentions.get(`${item.source_type}:${item.id}`) || 0
+    }));
+  }
+
+  // Extract entities from items not yet processed by the current extractor version, or whose text
+  // changed since. Returns how many items were processed and how many entity mentions they yielded.
+  async extractPending(batchSize: number): Promise<{ items: number, entities: number }> {
+    await this.ensureReady();
+    const types = await this.availableTypes();
+    await db.ensureSchema('content-version-schema.sql');
+
+    const client = await db.getClient();
+    let locked = false;
+    const totals = { items: 0, entities: 0 };
+
+    try {
+      const lock = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [ENTITY_LOCK_KEY]);
+      locked = lock.rows[0].locked;
+      if (!locked) return totals;
+
+      const known = await this.allEntities();
+      const extractor = new EntityExtractor(known);
+
+      for (const sourceType of types) {
+        const { table, text, publishedAt, ready } = EXTRACTED_TEXT[sourceType];
+        const pending = await client.query(`
+          SELECT t.id::text AS id, t.title, ${text} AS text, ${publishedAt} AS published_at, t.content_updated_at
+          FROM ${table} t
+          LEFT JOIN entity_extractions e ON e.source_type = $1 AND e.item_id = t.id
+          WHERE (e.item_id IS NULL OR e.extractor_version < $2 OR e.content_updated_at <> t.content_updated_at) AND ${ready}
+          ORDER BY t.collected_at DESC
+          LIMIT $3
+        `, [sourceType, ENTITY_EXTRACTOR_VERSION, batchSize]);
+
+        for (const item of pending.rows as PendingItem[]) {
+          const mentions = extractor.extract(`${item.title}\n${item.text || ''}`);
+          if (this.llmExtractor.isEnabled()) {
+            await this.addLLMEntities(item, known, mentions);
+          }
+
+          await this.replaceEntities(client, sourceType, item, mentions);
+          totals.items++;
+          totals.entities += mentions.length;
+        }
+      }
+
+      return totals;
+    } finally {
+      if (locked) {
+        await client.query('SELECT pg_advisory_unlock($1)', [ENTITY_LOCK_KEY]).catch(() => undefined);
+      }
+      client.release();
+    }
+  }
+
+  // Entities discussed by a set of report sources, by how many sources mention them.
+  // Sources the worker hasn't reached yet (e.g. live search results) are matched in memory.
+  async forSources(sources: Pick<SourceItem, 'source_type' | 'id' | 'title' | 'full_content' | 'snippet'>[]): Promise<ReportEntity[]> {
+    await this.ensureReady();
+    if (sources.length === 0) return [];
+
+    const stored = await db.query(`
+      SELECT source_type, item_id::text AS item_id, entity_id::text AS entity_id
+      FROM item_entities
+      WHERE (source_type, item_id) IN (SELECT * FROM unnest($1::text[], $2::uuid[]))
+    `, [sources.map(source => source.source_type), sources.map(source => source.id)]);
+    const extracted = await db.query(`
+      SELECT source_type, item_id::text AS item_id
+      FROM entity_extractions
+      WHERE (source_type, item_id) IN (SELECT * FROM unnest($1::text[], $2::uuid[]))
+    `, [sources.map(source => source.source_type), sources.map(source => source.id)]);
+
+    const sourceCounts = new Map<string, number>();
+    for (const row of stored.rows as { entity_id: string }[]) {
+      sourceCounts.set(row.entity_id, (sourceCounts.get(row.entity_id) || 0) + 1);
+    }
+
+    const extractedRefs = new Set(extracted.rows.map((row: { source_type: string, item_id: string }) => `${row.source_type}:${row.item_id}`));
+    const pending = sources.filter(source => !extractedRefs.has(`${source.source_type}:${source.id}`));
+    const entities = new Map((await this.allEntities()).map(entity => [entity.id, entity]));
+
+    if (pending.length > 0) {
+      const extractor = new EntityExtractor(Array.from(entities.values()));
+      for (const source of pending) {
+        for (const mention of extractor.extract(`${source.title}\n${source.full_content || source.snippet || ''}`)) {
+          sourceCounts.set(mention.entity_id, (sourceCounts.get(mention.entity_id) || 0) + 1);
+        }
+      }
+    }
+
+    const discussed: ReportEntity[] = [];
+    for (const [id, sourceCount] of sourceCounts) {
+      const entity = entities.get(id);
+      if (entity) {
+        discussed.push({ id, name: entity.name, type: entity.type, source_count: sourceCount });
+      }
+    }
+
+    return discussed
+      .sort((a, b) => b.source_count - a.source_count)
+      .slice(0, MAX_REPORT_ENTITIES);
+  }
+
+  async saveReportEntities(reportId: string, entities: ReportEntity[]): Promise<void> {
+    await this.ensureReady();
+    if (entities.length === 0) return;
+
+    await db.query(`
+      INSERT INTO report_entities (report_id, entity_id, source_count)
+      SELECT $1, e.id, e.source_count
+      FROM unnest($2::uuid[], $3::int[]) AS e(id, source_count)
+      ON CONFLICT (report_id, entity_id) DO UPDATE SET source_count = EXCLUDED.source_count
+    `, [reportId, entities.map(entity => entity.id), entities.map(entity => entity.source_count)]);
+  }
+
+  async forReport(reportId: string): Promise<ReportEntity[]> {
+    await this.ensureReady();
+    const result = await db.query(`
+      SELECT e.id, e.name, e.type, r.source_count
+      FROM report_entities r
+      JOIN entities e ON e.id = r.entity_id
+      WHERE r.report_id = $1
+      ORDER BY r.source_count DESC, e.name
+    `, [reportId]);
+    return result.rows;
+  }
+
+  private async allEntities(): Promise<Entity[]> {
+    const result = await db.query(`SELECT ${ENTITY_COLUMNS} FROM entities`);
+    return result.rows;
+  }
+
+  // Resolves the names the LLM finds to known entities (by name or alias), creating the
+  // unknown ones, and adds any the gazetteer match missed to mentions
+  private async addLLMEntities(item: PendingItem, known: Entity[], mentions: EntityMention[]): Promise<void> {
+    let found: NamedEntity[];
+    try {
+      found = await this.llmExtractor.extract(item.title, item.text || '');
+    } catch (error) {
+      console.error(`⚠️ [Entities] LLM extraction failed for ${item.id}:`, error instanceof Error ? error.message : error);
+      return;
+    }
+
+    for (const named of found) {
+      const key = tokenize(named.name).join(' ');
+      let entity = known.find(candidate => candidate.type === named.type
+        && [candidate.name, ...candidate.aliases].some(name => tokenize(name).join(' ') === key));
+      if (!entity) {
+        const created = await db.query(`
+          INSERT INTO entities (name, type, origin)
+          VALUES ($1, $2, 'llm')
+          ON CONFLICT (type, lower(name)) DO UPDATE SET updated_at = now()
+          RETURNING ${ENTITY_COLUMNS}
+        `, [named.name, named.type]);
+        entity = created.rows[0] as Entity;
+        known.push(entity);
+      }
+
+      const entityId = entity.id;
+      if (!mentions.some(mention => mention.entity_id === entityId)) {
+        mentions.push({ entity_id: entityId, mentions: 1 });
+      }
+    }
+  }
+
+  private async replaceEntities(client: PoolClient, sourceType: SourceType, item: PendingItem, mentions: EntityMention[]): Promise<void> {
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM item_entities WHERE source_type = $1 AND item_id = $2', [sourceType, item.id]);
+
+      if (mentions.length > 0) {
+        await client.query(`
+          INSERT INTO item_entities (source_type, item_id, entity_id, mentions, published_at)
+          SELECT $1, $2, m.entity_id, m.mentions, $3
+          FROM unnest($4::uuid[], $5::int[]) AS m(entity_id, mentions)
+        `, [
+          sourceType,
+          item.id,
+          item.published_at,
+          mentions.map(mention => mention.entity_id),
+          mentions.map(mention => mention.mentions)
+        ]);
+      }
+
+      await client.query(`
+        INSERT INTO entity_extractions (source_type, item_id, extractor_version, entity_count, content_updated_at)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (source_type, item_id) DO UPDATE SET
+          extractor_version = EXCLUDED.extractor_version,
+          entity_count = EXCLUDED.entity_count,
+          content_updated_at = EXCLUDED.content_updated_at,
+          extracted_at = now()
+      `, [sourceType, item.id, ENTITY_EXTRACTOR_VERSION, mentions.length, item.content_updated_at]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private async availableTypes(): Promise<SourceType[]> {
+    // rss_articles is created lazily on first collection
+    const result = await db.query("SELECT to_regclass('rss_articles') IS NOT NULL AS exists");
+    if (!result.rows[0].exists) return ['content_item'];
+
+    await db.ensureSchema('rss-enrichment-schema.sql');
+    return ['rss_article', 'content_item'];
+  }
+}
@@ -0,0 +1,57 @@
+import { LLMMessage, LLMProvider } from '../llm/llm-provider';
+import { createLLMProvider } from '../llm/provider-factory';
+import { ENTITY_TYPES, EntityType, NamedEntity } from '../types/entities';
+
+// Longest text we send; names that matter are almost always in the opening paragraphs
+const MAX_EXTRACTION_CHARS = 3000;
+
+// Finds entities the gazetteer doesn't know, through the 'entity_extraction' LLM call site.
+// Off unless ENTITY_LLM_ENABLED=true, since it costs a completion per item.
+export class LLMEntityExtractor {
+  private llm: LLMProvider;
+  private enabled: boolean;
+
+  constructor(llm: LLMProvider = createLLMProvider('entity_extraction'), enabled = process.env.ENTITY_LLM_ENABLED === 'true') {
+    this.llm = llm;
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled && this.llm.isConfigured();
+  }
+
+  async extract(title: string, text: string): Promise<NamedEntity[]> {
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `Extract named entities from an Indian HR news article: companies, government bodies (ministries, regulators, courts), people and locations. Use each entity's full name as written in the article. Leave out publishers, generic groups ("employees", "the government") and job titles.
+
+Reply with valid JSON only, in this format:
+{"entities": [{"name": "<name>", "type": "${ENTITY_TYPES.join('" | "')}"}]}`
+      },
+      {
+        role: 'user',
+        content: `${title}\n\n${text.substring(0, MAX_EXTRACTION_CHARS)}`
+      }
+    ];
+
+    const completion = await this.llm.complete(messages, { temperature: 0, maxTokens: 800 });
+    const json = completion.content.match(/\{[\s\S]*\}/);
+    if (!json) {
+      throw new Error('Entity extraction response did not contain JSON');
+    }
+
+    const parsed = JSON.parse(json[0]);
+    const entities: unknown[] = Array.isArray(parsed.entities) ? parsed.entities : [];
+
+    return entities
+      .filter((entity): entity is NamedEntity => {
+        const candidate = entity as Partial<NamedEntity>;
+        return typeof candidate.name === 'string'
+          && candidate.name.trim().length >= 2
+          && candidate.name.trim().length <= 100
+          && ENTITY_TYPES.includes(candidate.type as EntityType);
+      })
+      .map(entity => ({ name: entity.name.trim(), type: entity.type }));
+  }
+}
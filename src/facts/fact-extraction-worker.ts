@@ -0,0 +1,29 @@
+import { FactStore } from './fact-store';
+import { PeriodicWorker } from '../jobs/periodic-worker';
+
+// Background worker that extracts statistics from newly collected and enriched items
+export class FactExtractionWorker {
+  private worker: PeriodicWorker;
+
+  constructor(
+    store: FactStore,
+    batchSize = parseInt(process.env.FACT_EXTRACTION_BATCH_SIZE || '') || 200,
+    intervalMs = parseInt(process.env.FACT_EXTRACTION_INTERVAL_MS || '') || 60 * 1000
+  ) {
+    this.worker = new PeriodicWorker('Facts', async size => {
+      const { items, facts } = await store.extractPending(size);
+      if (items > 0) {
+        console.log(`🔢 [Facts] Extracted ${facts} facts from ${items} items`);
+      }
+    }, batchSize, intervalMs);
+  }
+
+  start(): void {
+    console.log(`🔢 Starting fact extraction (${this.worker.describe()})`);
+    this.worker.start();
+  }
+
+  stop(): void {
+    this.worker.stop();
+  }
+}
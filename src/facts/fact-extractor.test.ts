@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FactExtractor } from './fact-extractor';
+
+const extractor = new FactExtractor();
+
+describe('FactExtractor', () => {
+  it('extracts a percentage with its metric, period, geography and sector', () => {
+    const [fact] = extractor.extract('Attrition in the IT sector in India fell to 12% in FY24, according to the survey.');
+    assert.equal(fact.metric, 'attrition');
+    assert.equal(fact.value, 12);
+    assert.equal(fact.unit, '%');
+    assert.equal(fact.period, 'FY24');
+    assert.equal(fact.sector, 'IT');
+    assert.equal(fact.geography, 'India');
+  });
+
+  it('normalises Indian number formats', () => {
+    const facts = extractor.extract('The average salary increment was ₹1.5 lakh this year, while layoffs cost firms 2,300 crore rupees.');
+    assert.deepEqual(facts.map(fact => [fact.value, fact.unit]), [[150000, '₹'], [23000000000, '₹']]);
+  });
+
+  it('gives each figure the period nearest to it', () => {
+    const facts = extractor.extract('Attrition was 12% in FY24, down from 18% in FY23 across the IT sector.');
+    assert.deepEqual(facts.map(fact => [fact.value, fact.period]), [[12, 'FY24'], [18, 'FY23']]);
+  });
+
+  it('gives figures quoted after their years the nearest year', () => {
+    const facts = extractor.extract('Unemployment stood at 9.5% in 2023 before easing to 9.1% in 2024, the survey said.');
+    assert.deepEqual(facts.map(fact => [fact.value, fact.period]), [[9.5, '2023'], [9.1, '2024']]);
+  });
+
+  it('keeps month and year together as one period', () => {
+    const [fact] = extractor.extract('Hiring in the IT sector rose 8% in March 2024 compared with a year ago.');
+    assert.equal(fact.period, 'March 2024');
+  });
+
+  it('leaves the period empty when the sentence names none', () => {
+    const [fact] = extractor.extract('Attrition across the IT sector remains at 15% according to recruiters.');
+    assert.equal(fact.period, null);
+  });
+
+  it('ignores numbers in sentences that name no metric', () => {
+    assert.deepEqual(extractor.extract('The company opened 12 new offices in Pune and Chennai last quarter.'), []);
+  });
+});
@@ -0,0 +1,223 @@
+import { ExtractedFact, FactUnit } from '../types/facts';
+import { parseIndianNumber, SCALE_PATTERN } from '../utils/indian-numbers';
+
+// Bump when the rules below change so stored items are re-extracted
+export const FACT_EXTRACTOR_VERSION = 2;
+
+interface NumberMatch {
+  start: number;
+  end: number;
+  raw: string;
+  value: number;
+  unit: FactUnit;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const NUMBER = '\\d[\\d,]*(?:\\.\\d+)?';
+const PEOPLE = '(?:new\\s+)?(?:employees|workers|jobs|people|candidates|professionals|members|roles|positions|freshers|hires|women)';
+
+// Tried in order; a span claimed by an earlier pattern isn't matched again
+const NUMBER_PATTERNS: { regex: RegExp, unit: FactUnit }[] = [
+  { regex: new RegExp(`(?:₹|\\bRs\\.?|\\bINR)\\s*${NUMBER}(?:\\s*(?:${SCALE_PATTERN})\\b)?`, 'gi'), unit: '₹' },
+  { regex: new RegExp(`\\b${NUMBER}(?:\\s*(?:${SCALE_PATTERN}))?\\s+rupees\\b`, 'gi'), unit: '₹' },
+  { regex: new RegExp(`(?:\\$|\\bUSD\\s*)${NUMBER}(?:\\s*(?:${SCALE_PATTERN})\\b)?`, 'gi'), unit: '$' },
+  { regex: /\b\d+(?:\.\d+)?\s*(?:%|per\s?cent\b|percent\b)/gi, unit: '%' },
+  { regex: new RegExp(`\\b${NUMBER}\\s*(?:${SCALE_PATTERN})\\b`, 'gi'), unit: 'count' },
+  { regex: /\b\d{1,3}(?:,\d{2,3})+(?:\.\d+)?\b/g, unit: 'count' },
+  { regex: new RegExp(`\\b\\d{2,}(?=\\s+${PEOPLE}\\b)`, 'gi'), unit: 'count' }
+];
+
+// Metric names and the phrases that signal them; the phrase closest to a number names it
+const METRICS: { metric: string, pattern: RegExp }[] = [
+  { metric: 'attrition', pattern: /\b(?:attrition|employee turnover|staff turnover|quit rate|churn)\b/gi },
+  { metric: 'salary_increment', pattern: /\b(?:salary (?:hikes?|increases?|increments?)|increments?|pay (?:hikes?|rises?)|wage (?:hikes?|increases?)|appraisals?)\b/gi },
+  { metric: 'salary', pattern: /\b(?:salar(?:y|ies)|ctc|pay packages?|compensation|remuneration|stipends?)\b/gi },
+  { metric: 'minimum_wage', pattern: /\bminimum wages?\b/gi },
+  { metric: 'epf_interest_rate', pattern: /\b(?:epf|provident fund) (?:interest )?rate\b|\binterest rate on (?:epf|provident fund)\b/gi },
+  { metric: 'layoffs', pattern: /\b(?:layoffs?|laid off|job cuts|retrenchments?|retrenched)\b/gi },
+  { metric: 'unemployment_rate', pattern: /\b(?:unemployment|jobless(?:ness)?)\b/gi },
+  { metric: 'labour_force_participation', pattern: /\b(?:labour force participation|lfpr)\b/gi },
+  { metric: 'hiring', pattern: /\b(?:hiring|hired|hires|recruitments?|job openings|job postings|vacancies|new jobs|jobs created)\b/gi },
+  { metric: 'headcount', pattern: /\b(?:headcount|workforce|employees|employ(?:s|ed))\b/gi },
+  { metric: 'gender_diversity', pattern: /\b(?:women|female|gender diversity|gender pay gap)\b/gi },
+  { metric: 'gig_workers', pattern: /\b(?:gig workers?|gig economy|platform workers?)\b/gi },
+  { metric: 'epfo_subscribers', pattern: /\b(?:epfo (?:subscribers|members|payroll)|net payroll additions?)\b/gi },
+  { metric: 'remote_work', pattern: /\b(?:remote work(?:ing)?|work from home|wfh|hybrid work(?:ing)?)\b/gi },
+  { metric: 'upskilling', pattern: /\b(?:upskill(?:ing)?|reskill(?:ing)?|training)\b/gi }
+];
+
+// Canonical sector names; IT must be upper case so it doesn't match the pronoun
+const SECTORS: { sector: string, pattern: RegExp }[] = [
+  { sector: 'IT', pattern: /\b(?:IT|ITeS|tech(?:nology)? (?:sector|industry|companies|firms)|software)\b/ },
+  { sector: 'BFSI', pattern: /\b(?:BFSI|banking|banks|financial services|insurance|NBFCs?)\b/i },
+  { sector: 'Manufacturing', pattern: /\bmanufactur(?:ing|ers?)\b/i },
+  { sector: 'Healthcare', pattern: /\b(?:healthcare|hospitals?|pharma(?:ceuticals?)?)\b/i },
+  { sector: 'Retail', pattern: /\b(?:retail|e-?commerce)\b/i },
+  { sector: 'FMCG', pattern: /\bFMCG\b/i },
+  { sector: 'Telecom', pattern: /\btelecom(?:munications)?\b/i },
+  { sector: 'Automobile', pattern: /\b(?:automobiles?|automotive|auto sector|EV makers?)\b/i },
+  { sector: 'Startups', pattern: /\bstart-?ups?\b/i },
+  { sector: 'Education', pattern: /\b(?:edtech|education)\b/i },
+  { sector: 'Fintech', pattern: /\bfintech\b/i },
+  { sector: 'Hospitality', pattern: /\b(?:hospitality|hotels?|tourism)\b/i },
+  { sector: 'Logistics', pattern: /\b(?:logistics|supply chain|warehousing)\b/i },
+  { sector: 'Energy', pattern: /\b(?:energy|power sector|oil and gas|renewables?)\b/i },
+  { sector: 'Construction', pattern: /\b(?:construction|real estate|infrastructure)\b/i },
+  { sector: 'Government', pattern: /\b(?:government (?:jobs|employees)|public sector|PSUs?|central government)\b/i }
+];
+
+const GEOGRAPHIES = [
+  'Andhra Pradesh', 'Arunachal Pradesh', 'Assam', 'Bihar', 'Chhattisgarh', 'Goa', 'Gujarat', 'Haryana',
+  'Himachal Pradesh', 'Jharkhand', 'Karnataka', 'Kerala', 'Madhya Pradesh', 'Maharashtra', 'Manipur',
+  'Meghalaya', 'Mizoram', 'Nagaland', 'Odisha', 'Punjab', 'Rajasthan', 'Sikkim', 'Tamil Nadu', 'Telangana',
+  'Tripura', 'Uttar Pradesh', 'Uttarakhand', 'West Bengal', 'Delhi', 'Jammu and Kashmir', 'Ladakh',
+  'Mumbai', 'Bengaluru', 'Bangalore', 'Chennai', 'Hyderabad', 'Pune', 'Kolkata', 'Ahmedabad', 'Noida',
+  'Gurugram', 'Gurgaon', 'NCR', 'India'
+];
+const GEOGRAPHY_ALIASES: Record<string, string> = { Bangalore: 'Bengaluru', Gurgaon: 'Gurugram' };
+const GEOGRAPHY_PATTERN = new RegExp(`\\b(${GEOGRAPHIES.join('|')})\\b`, 'g');
+
+const MONTHS = 'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?';
+// Tried in order; a span claimed by an earlier pattern isn't matched again
+const PERIOD_PATTERNS = [
+  /\bQ[1-4]\s?FY\s?'?\d{2,4}\b/gi,
+  /\bFY\s?'?\d{2,4}(?:[-–/]\d{2,4})?\b/gi,
+  new RegExp(`\\b(?:${MONTHS})\\s+(?:19|20)\\d{2}\\b`, 'gi'),
+  /\b(?:19|20)\d{2}(?:[-–](?:19|20)?\d{2})?\b/g
+];
+
+const MAX_SENTENCE_LENGTH = 600;
+const MAX_FACTS_PER_ITEM = 50;
+
+// Pulls statistics (metric, normalised value, unit, period, geography, sector) out of article
+// text one sentence at a time. A number only becomes a fact when its sentence names a metric.
+export class FactExtractor {
+  extract(text: string): ExtractedFact[] {
+    const facts: ExtractedFact[] = [];
+    const seen = new Set<string>();
+
+    for (const sentence of this.splitSentences(text)) {
+      for (const fact of this.extractFromSentence(sentence)) {
+        const key = `${fact.metric}|${fact.value}|${fact.unit}|${fact.period}|${fact.sector}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        facts.push(fact);
+        if (facts.length >= MAX_FACTS_PER_ITEM) return facts;
+      }
+    }
+
+    return facts;
+  }
+
+  private extractFromSentence(sentence: string): ExtractedFact[] {
+    const metrics = this.findMetrics(sentence);
+    if (metrics.length === 0) return [];
+
+    const numbers = this.findNumbers(sentence);
+    if (numbers.length === 0) return [];
+
+    const periods = this.findPeriods(sentence);
+    const geography = this.findGeography(sentence);
+    const sector = SECTORS.find(({ pattern }) => pattern.test(sentence))?.sector || null;
+
+    return numbers.map(number => ({
+      metric: this.nearestMetric(number, metrics),
+      value: number.value,
+      unit: number.unit,
+      raw_value: number.raw,
+      period: this.nearestPeriod(number, periods),
+      geography,
+      sector,
+      sentence
+    }));
+  }
+
+  private splitSentences(text: string): string[] {
+    return text
+      // "Rs. 5 lakh" would otherwise end a sentence
+      .replace(/\bRs\.\s*/g, 'Rs ')
+      .split(/(?<=[.!?])\s+(?=[A-Z₹"'(\d])|\n+/)
+      .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+      .filter(sentence => sentence.length >= 20 && sentence.length <= MAX_SENTENCE_LENGTH);
+  }
+
+  private findMetrics(sentence: string): { metric: string, start: number, end: number }[] {
+    const found: { metric: string, start: number, end: number }[] = [];
+    for (const { metric, pattern } of METRICS) {
+      for (const match of sentence.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        found.push({ metric, start, end: start + match[0].length });
+      }
+    }
+    return found;
+  }
+
+  private findNumbers(sentence: string): NumberMatch[] {
+    const numbers: NumberMatch[] = [];
+    const overlaps = (start: number, end: number) => numbers.some(n => start < n.end && end > n.start);
+
+    for (const { regex, unit } of NUMBER_PATTERNS) {
+      for (const match of sentence.matchAll(regex)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (overlaps(start, end)) continue;
+
+        const raw = match[0].trim();
+        const value = parseIndianNumber(raw.replace(/\s*(?:%|per\s?cent|percent|rupees)$/i, ''));
+        if (value === null) continue;
+
+        numbers.push({ start, end, raw, value, unit });
+      }
+    }
+
+    return numbers.sort((a, b) => a.start - b.start);
+  }
+
+  private nearestMetric(number: NumberMatch, metrics: { metric: string, start: number, end: number }[]): string {
+    const distance = (metric: { start: number, end: number }) =>
+      metric.end <= number.start ? number.start - metric.end
+        : metric.start >= number.end ? metric.start - number.end
+          : 0;
+    return metrics.reduce((best, metric) => distance(metric) < distance(best) ? metric : best).metric;
+  }
+
+  private findPeriods(sentence: string): Span[] {
+    const periods: Span[] = [];
+    for (const pattern of PERIOD_PATTERNS) {
+      for (const match of sentence.matchAll(pattern)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (periods.some(period => start < period.end && end > period.start)) continue;
+        periods.push({ start, end, text: match[0].replace(/\s+/g, ' ').replace(/^fy/i, 'FY').replace(/^q/i, 'Q') });
+      }
+    }
+    return periods;
+  }
+
+  // "12% in FY24, down from 18% in FY23": each figure takes the period closest to it, and the
+  // one after it on a tie, as periods usually follow their figure
+  private nearestPeriod(number: NumberMatch, periods: Span[]): string | null {
+    let best: { text: string, distance: number } | null = null;
+    for (const period of periods) {
+      const distance = period.start >= number.end ? period.start - number.end : number.start - period.end + 0.5;
+      if (!best || distance < best.distance) {
+        best = { text: period.text, distance };
+      }
+    }
+    return best?.text ?? null;
+  }
+
+  // A state or city is preferred over "India" in the same sentence
+  private findGeography(sentence: string): string | null {
+    const matches = Array.from(sentence.matchAll(GEOGRAPHY_PATTERN), match => match[1]);
+    if (matches.length === 0) return null;
+
+    const specific = matches.find(name => name !== 'India') || matches[0];
+    return GEOGRAPHY_ALIASES[specific] || specific;
+  }
+}
@@ -0,0 +1,213 @@
+import { PoolClient } from 'pg';
+import db from '../db/connection';
+import { ExtractedFact, Fact, FactQueryOptions, FactSource } from '../types/facts';
+import { SourceType } from '../types/sources';
+import { SourceRepository } from '../sources/source-repository';
+import { FactExtractor, FACT_EXTRACTOR_VERSION } from './fact-extractor';
+
+export interface FactWithSource extends Fact {
+  source: FactSource | null;
+}
+
+export interface FactMetricSummary {
+  metric: string;
+  fact_count: number;
+  sectors: string[];
+}
+
+interface PendingItem {
+  id: string;
+  text: string | null;
+  content_updated_at: Date;
+  published_at: Date | null;
+}
+
+// Text facts are extracted from. RSS articles wait for enrichment to fetch the full body,
+// unless it has been pending for a day (e.g. the enrichment worker is disabled).
+const EXTRACTED_TEXT: Record<SourceType, { table: string, text: string, publishedAt: string, ready: string }> = {
+  rss_article: {
+    table: 'rss_articles',
+    text: 'COALESCE(t.full_content, t.description)',
+    publishedAt: 'COALESCE(t.enriched_published_at, t.published_at)',
+    ready: "(t.enrichment_status <> 'pending' OR t.collected_at < now() - interval '1 day')"
+  },
+  content_item: {
+    table: 'content_items',
+    text: "COALESCE(NULLIF(t.full_content, ''), t.snippet)",
+    publishedAt: 't.published_at',
+    ready: 'TRUE'
+  }
+};
+
+const FACT_COLUMNS = `id, source_type, item_id::text AS item_id, metric, value, unit, raw_value,
+  period, geography, sector, sentence, published_at, extracted_at`;
+
+// Only one replica extracts at a time
+const FACT_LOCK_KEY = 48151626;
+
+// Stores the statistics FactExtractor finds in collected items and answers queries over them
+export class FactStore {
+  private repository: SourceRepository;
+  private extractor: FactExtractor;
+
+  constructor(repository = new SourceRepository(), extractor = new FactExtractor()) {
+    this.repository = repository;
+    this.extractor = extractor;
+  }
+
+  // Extract facts from items not yet processed by the current extractor version, or whose text
+  // changed since (e.g. enrichment fetched the full body). Returns how many items were processed
+  // and how many facts they yielded.
+  async extractPending(batchSize: number): Promise<{ items: number, facts: number }> {
+    await db.ensureSchema('facts-schema.sql');
+    const types = await this.availableTypes();
+    await db.ensureSchema('content-version-schema.sql');
+
+    const client = await db.getClient();
+    let locked = false;
+    const totals = { items: 0, facts: 0 };
+
+    try {
+      const lock = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [FACT_LOCK_KEY]);
+      locked = lock.rows[0].locked;
+      if (!locked) return totals;
+
+      for (const sourceType of types) {
+        const { table, text, publishedAt, ready } = EXTRACTED_TEXT[sourceType];
+        const pending = await client.query(`
+          SELECT t.id::text AS id, ${text} AS text, t.content_updated_at, ${publishedAt} AS published_at
+          FROM ${table} t
+          LEFT JOIN fact_extractions e ON e.source_type = $1 AND e.item_id = t.id
+          WHERE (e.item_id IS NULL OR e.extractor_version < $2 OR e.content_updated_at <> t.content_updated_at) AND ${ready}
+          ORDER BY t.collected_at DESC
+          LIMIT $3
+        `, [sourceType, FACT_EXTRACTOR_VERSION, batchSize]);
+
+        for (const item of pending.rows as PendingItem[]) {
+          const facts = this.extractor.extract(item.text || '');
+          await this.replaceFacts(client, sourceType, item, facts);
+          totals.items++;
+          totals.facts += facts.length;
+        }
+      }
+
+      return totals;
+    } finally {
+      if (locked) {
+        await client.query('SELECT pg_advisory_unlock($1)', [FACT_LOCK_KEY]).catch(() => undefined);
+      }
+      client.release();
+    }
+  }
+
+  private async replaceFacts(client: PoolClient, sourceType: SourceType, item: PendingItem, facts: ExtractedFact[]): Promise<void> {
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM facts WHERE source_type = $1 AND item_id = $2', [sourceType, item.id]);
+
+      if (facts.length > 0) {
+        await client.query(`
+          INSERT INTO facts (source_type, item_id, metric, value, unit, raw_value, period, geography, sector, sentence, published_at)
+          SELECT $1, $2, f.metric, f.value, f.unit, f.raw_value, f.period, f.geography, f.sector, f.sentence, $3
+          FROM unnest($4::text[], $5::float8[], $6::text[], $7::text[], $8::text[], $9::text[], $10::text[], $11::text[])
+            AS f(metric, value, unit, raw_value, period, geography, sector, sentence)
+        `, [
+          sourceType,
+          item.id,
+          item.published_at,
+          facts.map(fact => fact.metric),
+          facts.map(fact => fact.value),
+          facts.map(fact => fact.unit),
+          facts.map(fact => fact.raw_value),
+          facts.map(fact => fact.period),
+          facts.map(fact => fact.geography),
+          facts.map(fact => fact.sector),
+          facts.map(fact => fact.sentence)
+        ]);
+      }
+
+      await client.query(`
+        INSERT INTO fact_extractions (source_type, item_id, extractor_version, fact_count, content_updated_at)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (source_type, item_id) DO UPDATE SET
+          extractor_version = EXCLUDED.extractor_version,
+          fact_count = EXCLUDED.fact_count,
+          content_updated_at = EXCLUDED.content_updated_at,
+          extracted_at = now()
+      `, [sourceType, item.id, FACT_EXTRACTOR_VERSION, facts.length, item.content_updated_at]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // Facts matching the filters, newest first, each with the title and URL of its item.
+  // metric, sector, geography and period match exactly, ignoring case.
+  async query(options: FactQueryOptions = {}): Promise<FactWithSource[]> {
+    await db.ensureSchema('facts-schema.sql');
+
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const filters = { metric: options.metric, sector: options.sector, geography: options.geography, period: options.period };
+    for (const [column, value] of Object.entries(filters)) {
+      if (value) {
+        values.push(value);
+        conditions.push(`lower(${column}) = lower($${values.length})`);
+      }
+    }
+    if (options.unit) {
+      values.push(options.unit);
+      conditions.push(`unit = $${values.length}`);
+    }
+    if (options.days) {
+      values.push(options.days);
+      conditions.push(`COALESCE(published_at, extracted_at) >= now() - make_interval(days => $${values.length})`);
+    }
+    values.push(options.limit || 50);
+
+    const result = await db.query(`
+      SELECT ${FACT_COLUMNS} FROM facts
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY published_at DESC NULLS LAST, extracted_at DESC
+      LIMIT $${values.length}
+    `, values);
+    const facts: Fact[] = result.rows;
+
+    const refs = Array.from(
+      new Map(facts.map(fact => [`${fact.source_type}:${fact.item_id}`, { source_type: fact.source_type, id: fact.item_id }])).values()
+    );
+    const items = await this.repository.getByRefs(refs);
+    const sources = new Map(items.map(item => [`${item.source_type}:${item.id}`, {
+      title: item.title,
+      url: item.url,
+      source: item.source,
+      ...(item.source_type === 'rss_article' ? { feed_name: item.feed_name } : {})
+    }]));
+
+    return facts.map(fact => ({ ...fact, source: sources.get(`${fact.source_type}:${fact.item_id}`) || null }));
+  }
+
+  // Metrics with at least one fact, and the sectors they were reported for
+  async listMetrics(): Promise<FactMetricSummary[]> {
+    await db.ensureSchema('facts-schema.sql');
+    const result = await db.query(`
+      SELECT metric, COUNT(*)::int AS fact_count,
+        COALESCE(array_agg(DISTINCT sector) FILTER (WHERE sector IS NOT NULL), '{}') AS sectors
+      FROM facts
+      GROUP BY metric
+      ORDER BY fact_count DESC
+    `);
+    return result.rows;
+  }
+
+  private async availableTypes(): Promise<SourceType[]> {
+    // rss_articles is created lazily on first collection
+    const result = await db.query("SELECT to_regclass('rss_articles') IS NOT NULL AS exists");
+    if (!result.rows[0].exists) return ['content_item'];
+
+    await db.ensureSchema('rss-enrichment-schema.sql');
+    return ['rss_article', 'content_item'];
+  }
+}
@@ -6,7 +6,39 @@ import swaggerUi from 'swagger-ui-express';
 import path from 'path';
 import db from './db/connection';
 import { ReportGenerator } from './reports/generator';
+import { ReportJobQueue } from './jobs/report-job-queue';
+import { describeLLMConfig } from './llm/provider-factory';
 import { swaggerSpec } from './config/swagger';
+import { RSS_CATEGORIES, RSS_SOURCE_GROUPS, RSS_UPDATE_FREQUENCIES } from './config/rss-sources';
+import { DOMAIN_AUTHORITY_TIERS } from './config/domain-authorities';
+import { LANGUAGE_CODES } from './config/languages';
+import { CURRENT_SCORING_VERSION, SCORING_PROFILE_NAMES, SCORING_VERSIONS } from './config/scoring';
+import { RSSSourceRegistry, RSSSourceConflictError } from './collectors/rss-source-registry';
+import { RSSScheduler } from './scheduler/rss-scheduler';
+import { ArticleEnrichmentWorker } from './enrichment/article-enrichment-worker';
+import { EmbeddingStore } from './embeddings/embedding-store';
+import { EmbeddingIndexer } from './embeddings/embedding-indexer';
+import { SourceRepository } from './sources/source-repository';
+import { StoryClusterer } from './clustering/story-clusterer';
+import { StoryClusterWorker } from './clustering/story-cluster-worker';
+import { FactStore } from './facts/fact-store';
+import { FactExtractionWorker } from './facts/fact-extraction-worker';
+import { TaxonomyStore } from './taxonomy/taxonomy-store';
+import { TopicClassificationWorker } from './taxonomy/topic-classification-worker';
+import { EntityStore } from './entities/entity-store';
+import { EntityExtractionWorker } from './entities/entity-extraction-worker';
+import { TranslationWorker } from './llm/translation-worker';
+import { DomainAuthorityRegistry, DomainAuthorityConflictError, normalizePattern } from './scoring/domain-authority-registry';
+import { Rescorer, RescoreInProgressError, UnknownAuthorityVersionError } from './scoring/rescorer';
+import { resolveStateName } from './scoring/indian-context-classifier';
+import { SourceType } from './types/sources';
+import { FACT_UNITS } from './types/facts';
+import { ENTITY_TYPES, EntityType } from './types/entities';
+import { findSection, reportDocument } from './reports/report-document';
+import { renderSectionHTML, renderSectionMarkdown } from './reports/document-renderers';
+import { ReportTemplate, ReportTemplateRegistry, ReportTemplateConflictError, applySourceRules } from './reports/report-template-registry';
+import { ReportJobParams } from './types/jobs';
+import { ReportCache } from './reports/report-cache';
 
 dotenv.config();
 
@@ -32,12 +64,178 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
 // Request validation schemas
 const GenerateReportSchema = z.object({
   topic: z.string().min(1, 'Topic is required'),
-  max_sources: z.number().min(1).max(50).default(15),
-  time_range_days: z.number().min(1).max(365).default(30)
+  // Left out, these come from the template's source rules, else 15 sources over 30 days
+  max_sources: z.number().min(1).max(50).optional(),
+  time_range_days: z.number().min(1).max(365).optional(),
+  scoring_profile: z.enum(SCORING_PROFILE_NAMES).optional(),
+  // State or union territory names, normalised to the names items are tagged with
+  states: z.array(z.string().transform((value, ctx) => {
+    const state = resolveStateName(value);
+    if (!state) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown Indian state or union territory: ${value}` });
+      return z.NEVER;
+    }
+    return state;
+  })).max(10).optional(),
+  // Taxonomy node slugs; checked against taxonomy_nodes by rejectUnknownTopics
+  topics: z.array(z.string()).max(10).optional(),
+  // Report template slug; checked against the registry by reportJobParams
+  template: z.string().min(1).max(50).optional(),
+  // Generate a new report even if a recent one answers the same topic and parameters
+  force_refresh: z.boolean().optional()
+});
+
+// Job parameters with the template's source rules filling in what the request left out.
+// Responds 400 and returns null when the template doesn't exist.
+async function reportJobParams(data: z.infer<typeof GenerateReportSchema>, res: express.Response): Promise<ReportJobParams | null> {
+  const template = data.template
+    ? await reportTemplateRegistry.get(data.template)
+    : await reportTemplateRegistry.resolve();
+  if (!template) {
+    res.status(400).json({ success: false, error: `Unknown template: ${data.template}. See GET /api/report-templates` });
+    return null;
+  }
+
+  return { ...data, ...applySourceRules(data, template), template: template.slug };
+}
+
+// Responds 200 with a recent report of the same job type on the same topic with the same
+// parameters and returns true, so the request isn't queued; false when there is none (or
+// force_refresh is set)
+async function sendCachedReport(params: ReportJobParams, jobType: 'standard' | 'deep_dive', res: express.Response): Promise<boolean> {
+  const cached = await reportGenerator.findCachedReport(params.topic, params.max_sources, params.time_range_days, {
+    scoringProfile: params.scoring_profile,
+    states: params.states,
+    topics: params.topics,
+    template: params.template,
+    forceRefresh: params.force_refresh,
+    jobType
+  });
+  if (!cached) return false;
+
+  res.json({
+    success: true,
+    cached: true,
+    report_id: cached.report.id,
+    report_url: `/api/reports/${cached.report.id}`,
+    title: cached.report.title,
+    created_at: cached.report.created_at,
+    age_hours: Number(cached.age_hours.toFixed(1)),
+    match_type: cached.match_type,
+    message: 'Returned a recent report on this topic; send "force_refresh": true to generate a new one'
+  });
+  return true;
+}
+
+// Responds 400 and returns true when a topics filter names nodes that aren't in the taxonomy
+async function rejectUnknownTopics(topics: string[] | undefined, res: express.Response): Promise<boolean> {
+  if (!topics || topics.length === 0) return false;
+
+  const unknown = await taxonomyStore.unknownSlugs(topics);
+  if (unknown.length === 0) return false;
+
+  res.status(400).json({ success: false, error: `Unknown topic: ${unknown.join(', ')}` });
+  return true;
+}
+
+const RSSSourceSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  url: z.string().url('A valid feed URL is required'),
+  category: z.enum(RSS_CATEGORIES),
+  source_group: z.enum(RSS_SOURCE_GROUPS),
+  priority: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+  update_frequency: z.enum(RSS_UPDATE_FREQUENCIES),
+  language: z.enum(LANGUAGE_CODES).optional(),
+  enabled: z.boolean().optional()
+});
+
+const UpdateRSSSourceSchema = RSSSourceSchema.partial();
+
+const DomainAuthoritySchema = z.object({
+  pattern: z.string()
+    .transform(normalizePattern)
+    .refine(pattern => /^(\*\.)?([a-z0-9-]+\.)+[a-z]{2,}$/.test(pattern), 'Pattern must be a host such as pib.gov.in or a wildcard such as *.gov.in'),
+  tier: z.enum(DOMAIN_AUTHORITY_TIERS),
+  score: z.number().min(0).max(1).optional(),
+  notes: z.string().max(500).nullable().optional()
+});
+
+const UpdateDomainAuthoritySchema = DomainAuthoritySchema.partial();
+
+const ReportTemplateSectionSchema = z.object({
+  title: z.string().trim().min(1).max(100)
+    .refine(title => title.toLowerCase() !== 'executive summary', 'Every report starts with an executive summary; use summary_words to size it'),
+  instructions: z.string().trim().min(1).max(2000),
+  max_words: z.number().int().min(30).max(1500)
+});
+
+const ReportTemplateFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).default(''),
+  summary_words: z.number().int().min(30).max(600),
+  sections: z.array(ReportTemplateSectionSchema).min(1).max(12)
+    .refine(sections => new Set(sections.map(section => section.title.toLowerCase())).size === sections.length, 'Section titles must be unique'),
+  source_rules: z.object({
+    max_sources: z.number().int().min(1).max(50).optional(),
+    time_range_days: z.number().int().min(1).max(365).optional(),
+    scoring_profile: z.enum(SCORING_PROFILE_NAMES).optional(),
+    // Taxonomy node slugs; checked against taxonomy_nodes by rejectUnknownTopics
+    topics: z.array(z.string()).max(10).optional()
+  }).strict().default({})
+});
+
+const ReportTemplateSchema = ReportTemplateFieldsSchema.extend({
+  slug: z.string().regex(/^[a-z][a-z0-9_]{1,49}$/, 'Slug must be lowercase letters, digits and underscores, e.g. policy_brief')
+});
+
+const UpdateReportTemplateSchema = ReportTemplateFieldsSchema.partial();
+
+const RescoreSchema = z.object({
+  version: z.number().int()
+    .refine(version => !!SCORING_VERSIONS[version], `Unknown scoring version; available: ${Object.keys(SCORING_VERSIONS).join(', ')}`)
+    .default(CURRENT_SCORING_VERSION),
+  // Recorded domain authority snapshot to score with instead of the current registry
+  authority_version: z.string().min(1).optional()
 });
 
-// Initialize report generator
+// Ids in :id routes are UUIDs; anything else can't match a row, so it's a 404 rather than a
+// Postgres cast error
+function isUUID(id: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+}
+
+// Initialize report generator and the job queue that runs it
 const reportGenerator = new ReportGenerator();
+const reportJobQueue = new ReportJobQueue(reportGenerator);
+
+// Collects due RSS feeds every minute; schedules are shared across replicas via Postgres
+const rssScheduler = new RSSScheduler();
+
+// Fetches full article bodies for newly collected RSS items
+const articleEnrichmentWorker = new ArticleEnrichmentWorker();
+
+// Translates regional-language items so they are embedded and searched in English
+const translationWorker = new TranslationWorker();
+
+// Embeds new and re-enriched items for hybrid search (EMBEDDING_PROVIDER=none disables it)
+const embeddingStore = EmbeddingStore.fromEnv();
+const embeddingIndexer = embeddingStore ? new EmbeddingIndexer(embeddingStore) : null;
+
+// Groups syndicated copies of the same story across feeds
+const storyClusterer = new StoryClusterer();
+const storyClusterWorker = new StoryClusterWorker(storyClusterer);
+
+// Extracts statistics (attrition rates, salary hikes, hiring numbers...) into the facts table
+const factStore = new FactStore();
+const factExtractionWorker = new FactExtractionWorker(factStore);
+
+// Tags collected items with nodes of the HR taxonomy (compensation.variable_pay, compliance.labour_codes...)
+const taxonomyStore = new TaxonomyStore();
+const topicClassificationWorker = new TopicClassificationWorker(taxonomyStore);
+
+// Finds companies, government bodies, people and locations in collected items
+const entityStore = new EntityStore();
+const entityExtractionWorker = new EntityExtractionWorker(entityStore);
 
 // Root endpoint - redirect based on domain
 app.get('/', (req, res) => {
@@ -71,10 +269,13 @@ app.get('/', (req, res) => {
         },
         reports: {
           generate: 'POST /api/reports/generate',
+          job_status: 'GET /api/reports/jobs/:id',
+          job_cancel: 'DELETE /api/reports/jobs/:id',
           get: 'GET /api/reports/:id',
           pdf: 'GET /api/reports/:id/pdf'
         },
-        stats: 'GET /api/stats/collection?days=7'
+        stats: 'GET /api/stats/collection?days=7',
+        cache_stats: 'GET /api/stats/cache?days=7'
       },
       example: {
         generate_report: {
@@ -166,9 +367,12 @@ app.get('/api/content', async (req, res) => {
       limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
       min_score: req.query.min_score ? parseFloat(req.query.min_score as string) : undefined,
       categories: req.query.categories ? (req.query.categories as string).split(',') : undefined,
-      since_days: req.query.since_days ? parseInt(req.query.since_days as string) : undefined
+      since_days: req.query.since_days ? parseInt(req.query.since_days as string) : undefined,
+      topics: req.query.topic ? (req.query.topic as string).split(',') : undefined
     };
 
+    if (await rejectUnknownTopics(options.topics, res)) return;
+
     const items = await db.getContentItems(options);
     
     res.json({
@@ -199,10 +403,11 @@ app.get('/api/content/search', async (req, res) => {
       });
     }
 
-    const items = await db.searchContentItems(
-      query as string, 
-      limit ? parseInt(limit as string) : 20
-    );
+    // Hybrid full-text + semantic ranking
+    const items = await new SourceRepository().search(query as string, {
+      sourceTypes: ['content_item'],
+      limit: limit ? parseInt(limit as string) : 20
+    });
     
     res.json({
       success: true,
@@ -220,43 +425,84 @@ app.get('/api/content/search', async (req, res) => {
   }
 });
 
-// Generate report endpoint
+// Search RSS articles and web content together; every result carries its source_type
+app.get('/api/sources/search', async (req, res) => {
+  try {
+    const { q: query, type, limit, since_days, min_score, state, topic } = req.query;
+
+    if (!query) {
+      return res.status(400).json({
+        success: false,
+        error: 'Search query is required'
+      });
+    }
+
+    const types = type ? (type as string).split(',') : undefined;
+    if (types && types.some(t => t !== 'rss_article' && t !== 'content_item')) {
+      return res.status(400).json({
+        success: false,
+        error: 'type must be rss_article, content_item or both (comma separated)'
+      });
+    }
+
+    const states = state ? (state as string).split(',').map(name => resolveStateName(name)) : undefined;
+    if (states && states.some(name => !name)) {
+      return res.status(400).json({
+        success: false,
+        error: 'state must be one or more Indian state or union territory names (comma separated)'
+      });
+    }
+
+    const topics = topic ? (topic as string).split(',') : undefined;
+    if (await rejectUnknownTopics(topics, res)) return;
+
+    const items = await new SourceRepository().search(query as string, {
+      sourceTypes: types as SourceType[] | undefined,
+      limit: limit ? parseInt(limit as string) : 20,
+      sinceDays: since_days ? parseInt(since_days as string) : undefined,
+      minScore: min_score ? parseFloat(min_score as string) : undefined,
+      states: states as string[] | undefined,
+      topics
+    });
+
+    res.json({
+      success: true,
+      query,
+      count: items.length,
+      data: items
+    });
+
+  } catch (error) {
+    console.error('Error searching sources:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Search failed'
+    });
+  }
+});
+
+// Generate report endpoint - queues an asynchronous report job
 app.post('/api/reports/generate', async (req, res) => {
   try {
     const validatedData = GenerateReportSchema.parse(req.body);
+    if (await rejectUnknownTopics(validatedData.topics, res)) return;
+    const params = await reportJobParams(validatedData, res);
+    if (!params) return;
     
-    console.log(`🎯 Generating report for topic: ${validatedData.topic}`);
-    console.log(`   Max sources: ${validatedData.max_sources}, Time range: ${validatedData.time_range_days} days`);
+    // A recent report on the same topic with the same parameters is returned instead of queueing
+    if (await sendCachedReport(params, 'standard', res)) return;
     
-    // Start report generation (async)
-    const reportResult = await reportGenerator.generateReport(
-      validatedData.topic,
-      validatedData.max_sources,
-      validatedData.time_range_days
-    );
+    console.log(`🎯 Queueing ${params.template} report for topic: ${params.topic}`);
+    console.log(`   Max sources: ${params.max_sources}, Time range: ${params.time_range_days} days, Scoring profile: ${params.scoring_profile || 'from topic'}${params.states ? `, States: ${params.states.join(', ')}` : ''}${params.topics ? `, Topics: ${params.topics.join(', ')}` : ''}`);
     
-    if (!reportResult.success) {
-      return res.status(500).json({
-        success: false,
-        error: reportResult.error || 'Failed to generate report'
-      });
-    }
+    const job = await reportJobQueue.enqueue('standard', params);
 
-    res.json({
+    res.status(202).json({
       success: true,
-      report_id: reportResult.report!.id,
-      status: 'completed',
-      report: {
-        id: reportResult.report!.id,
-        title: reportResult.report!.title,
-        topic: reportResult.report!.topic,
-        word_count: reportResult.report!.word_count,
-        source_count: reportResult.report!.source_count,
-        citation_count: reportResult.report!.citation_count,
-        confidence_score: reportResult.report!.confidence_score,
-        created_at: reportResult.report!.created_at,
-        pdf_url: reportResult.report!.pdf_path ? `/api/reports/${reportResult.report!.id}/pdf` : undefined
-      }
+      job_id: job.id,
+      status: job.status,
+      status_url: `/api/reports/jobs/${job.id}`,
+      message: 'Report generation queued'
     });
     
   } catch (error) {
@@ -268,33 +514,29 @@ app.post('/api/reports/generate', async (req, res) => {
       });
     }
     
-    console.error('Error generating report:', error);
+    console.error('Error queueing report:', error);
     res.status(500).json({ 
       success: false, 
-      error: 'Failed to generate report' 
+      error: 'Failed to queue report generation' 
     });
   }
 });
 
-// Generate deep dive PDF report with live search
+// Generate deep dive PDF report with live search - queues an asynchronous report job
 app.post('/api/reports/generate-pdf-deep-dive', async (req, res) => {
   try {
     const validatedData = GenerateReportSchema.parse(req.body);
+    if (await rejectUnknownTopics(validatedData.topics, res)) return;
+    const params = await reportJobParams(validatedData, res);
+    if (!params) return;
     
-    console.log(`🔍 Generating DEEP DIVE PDF report for topic: ${validatedData.topic}`);
-    console.log(`   Live search results: ${validatedData.max_sources}, Search recency: ${validatedData.time_range_days} days`);
+    console.log(`🔍 Queueing DEEP DIVE PDF ${params.template} report for topic: ${params.topic}`);
+    console.log(`   Live search results: ${params.max_sources}, Search recency: ${params.time_range_days} days`);
     
     // Check if API keys are available for live search
     const braveApiKey = process.env.BRAVE_API_KEY || process.env.BRAVE_SEARCH_API_KEY;
     const scrapingBeeApiKey = process.env.SCRAPINGBEE_API_KEY;
     
-    console.log('🔑 API Key Check:', {
-      hasBrave: !!braveApiKey,
-      hasScrapingBee: !!scrapingBeeApiKey,
-      braveLength: braveApiKey?.length || 0,
-      scrapingBeeLength: scrapingBeeApiKey?.length || 0
-    });
-    
     if (!braveApiKey || !scrapingBeeApiKey) {
       console.log('❌ Missing API keys:', {
         brave: !braveApiKey ? 'MISSING' : 'PRESENT',
@@ -306,109 +548,113 @@ app.post('/api/reports/generate-pdf-deep-dive', async (req, res) => {
       });
     }
 
-    // Import the collector for live search
-    const { BraveScrapingBeeCollector } = await import('./collectors/brave-scrapingbee-collector');
-    const { ContentScorer } = await import('./scoring/content-scorer');
-    
-    console.log('🌐 Starting live content collection...');
-    
-    // Create dynamic search queries based on the topic
-    const topicQueries = [
-      validatedData.topic,
-      `${validatedData.topic} India statistics`,
-      `${validatedData.topic} Indian companies trends`,
-      `${validatedData.topic} market research India`,
-      `${validatedData.topic} survey data analysis`
-    ];
-    
-    // Initialize collector and scorer
-    const collector = new BraveScrapingBeeCollector(braveApiKey, scrapingBeeApiKey);
-    const scorer = new ContentScorer();
-    
-    // Collect live content
-    const maxPerQuery = Math.max(3, Math.floor(validatedData.max_sources / topicQueries.length));
-    const rawItems = await collector.collectHRContent(topicQueries, maxPerQuery);
+    // Answered from a recent report, no live search is spent
+    if (await sendCachedReport(params, 'deep_dive', res)) return;
+
+    const job = await reportJobQueue.enqueue('deep_dive', params);
+
+    res.status(202).json({
+      success: true,
+      job_id: job.id,
+      status: job.status,
+      status_url: `/api/reports/jobs/${job.id}`,
+      report_type: 'deep-dive-pdf',
+      message: 'Deep dive report generation queued'
+    });
     
-    if (rawItems.length === 0) {
-      return res.status(404).json({
-        success: false,
-        error: 'No live content found for the specified topic'
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid request parameters',
+        details: error.errors
       });
     }
     
-    console.log(`📊 Processing and scoring ${rawItems.length} live items...`);
-    
-    // Score and prepare content items for database insertion
-    const scoredItems: unknown[] = [];
-    for (const rawItem of rawItems) {
-      try {
-        const crypto = await import('crypto');
-        const contentHash = crypto.createHash('md5')
-          .update(`${rawItem.title}${rawItem.url}`)
-          .digest('hex');
-        
-        const { scored_item } = scorer.scoreContent(rawItem, 'brave-search-deep-dive');
-        
-        const contentItem = {
-          ...scored_item,
-          source: 'brave-search-deep-dive',
-          content_hash: contentHash
-        };
-        
-        scoredItems.push(contentItem);
-      } catch (error) {
-        console.error(`Failed to process item: ${rawItem.title}`, error);
-      }
-    }
-    
-    console.log(`📈 Successfully processed ${scoredItems.length} items for deep dive analysis`);
-    
-    // Generate enhanced report with live data
-    const reportResult = await reportGenerator.generateReport(
-      validatedData.topic,
-      scoredItems.length,  // Use actual collected items
-      validatedData.time_range_days
-    );
+    console.error('Error queueing deep dive PDF report:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Failed to queue deep dive PDF report' 
+    });
+  }
+});
+
+// Get report job status and per-stage progress
+app.get('/api/reports/jobs/:id', async (req, res) => {
+  try {
+    const job = isUUID(req.params.id) ? await reportJobQueue.getJob(req.params.id) : null;
     
-    if (!reportResult.success) {
-      return res.status(500).json({
-        success: false,
-        error: reportResult.error || 'Failed to generate deep dive PDF report'
+    if (!job) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Job not found' 
       });
     }
 
     res.json({
       success: true,
-      report_id: reportResult.report!.id,
-      status: 'completed',
-      live_sources_collected: scoredItems.length,
-      report: {
-        id: reportResult.report!.id,
-        title: reportResult.report!.title,
-        topic: reportResult.report!.topic,
-        word_count: reportResult.report!.word_count,
-        source_count: reportResult.report!.source_count,
-        citation_count: reportResult.report!.citation_count,
-        confidence_score: reportResult.report!.confidence_score,
-        created_at: reportResult.report!.created_at,
-        pdf_url: reportResult.report!.pdf_path ? `/api/reports/${reportResult.report!.id}/pdf` : undefined,
-        report_type: 'deep-dive-pdf'
+      job: {
+        id: job.id,
+        job_type: job.job_type,
+        status: job.status,
+        params: job.params,
+        stage: job.stage,
+        percentage: job.percentage,
+        message: job.message,
+        stages: job.stage_history,
+        attempts: job.attempts,
+        error: job.error,
+        report_id: job.report_id,
+        report_url: job.report_id ? `/api/reports/${job.report_id}` : undefined,
+        pdf_url: job.result?.pdf_url,
+        result: job.result,
+        created_at: job.created_at,
+        started_at: job.started_at,
+        finished_at: job.finished_at
       }
     });
     
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({ 
+    console.error('Error fetching report job:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Failed to fetch report job' 
+    });
+  }
+});
+
+// Cancel a queued or running report job
+app.delete('/api/reports/jobs/:id', async (req, res) => {
+  try {
+    const job = isUUID(req.params.id) ? await reportJobQueue.cancelJob(req.params.id) : null;
+    
+    if (!job) {
+      return res.status(404).json({ 
         success: false, 
-        error: 'Invalid request parameters',
-        details: error.errors
+        error: 'Job not found' 
+      });
+    }
+
+    if (['completed', 'failed'].includes(job.status)) {
+      return res.status(409).json({
+        success: false,
+        error: `Job already ${job.status}`,
+        status: job.status
       });
     }
+
+    res.json({
+      success: true,
+      job_id: job.id,
+      status: job.status,
+      message: job.status === 'cancelled' ? 'Job cancelled' : 'Cancellation requested; the job stops at its next stage'
+    });
     
-    console.error('Error generating deep dive PDF report:', error);
+  } catch (error) {
+    console.error('Error cancelling report job:', error);
     res.status(500).json({ 
       success: false, 
-      error: 'Failed to generate deep dive PDF report' 
+      error: 'Failed to cancel report job' 
     });
   }
 });
@@ -427,7 +673,12 @@ app.get('/api/reports/:id', async (req, res) => {
 
     res.json({
       success: true,
-      data: report
+      data: {
+        ...report,
+        document: reportDocument(report),
+        entities: await entityStore.forReport(report.id),
+        flagged_claims: await db.getFlaggedClaims(report.id)
+      }
     });
     
   } catch (error) {
@@ -486,6 +737,222 @@ app.get('/api/reports/:id/pdf', async (req, res) => {
   }
 });
 
+// List a report's sections
+app.get('/api/reports/:id/sections', async (req, res) => {
+  try {
+    const report = await db.getReport(req.params.id);
+    
+    if (!report) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Report not found' 
+      });
+    }
+
+    res.json({
+      success: true,
+      data: reportDocument(report).sections.map(section => ({ id: section.id, title: section.title }))
+    });
+    
+  } catch (error) {
+    console.error('Error fetching report sections:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Failed to fetch report sections' 
+    });
+  }
+});
+
+// Get one section of a report as structured blocks (default), markdown or HTML
+app.get('/api/reports/:id/sections/:sectionId', async (req, res) => {
+  try {
+    const format = (req.query.format as string) || 'json';
+    if (!['json', 'markdown', 'html'].includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: 'format must be one of: json, markdown, html'
+      });
+    }
+
+    const report = await db.getReport(req.params.id);
+    const section = report ? findSection(reportDocument(report), req.params.sectionId) : undefined;
+    
+    if (!section) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Report section not found' 
+      });
+    }
+
+    if (format === 'markdown') {
+      return res.type('text/markdown').send(renderSectionMarkdown(section));
+    }
+    if (format === 'html') {
+      return res.type('text/html').send(renderSectionHTML(section));
+    }
+
+    res.json({
+      success: true,
+      data: section
+    });
+    
+  } catch (error) {
+    console.error('Error fetching report section:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Failed to fetch report section' 
+    });
+  }
+});
+
+// Redraft one section from the report's sources - queues a report job; citations, confidence and
+// the PDF are refreshed when it runs
+app.post('/api/reports/:id/sections/:sectionId/regenerate', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const report = await db.getReport(req.params.id);
+    const section = report ? findSection(reportDocument(report), req.params.sectionId) : undefined;
+    
+    if (!report || !section) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Report section not found' 
+      });
+    }
+
+    const job = await reportJobQueue.enqueue('section', {
+      topic: report.topic,
+      report_id: report.id,
+      section_id: section.id
+    });
+
+    res.status(202).json({
+      success: true,
+      job_id: job.id,
+      status: job.status,
+      status_url: `/api/reports/jobs/${job.id}`,
+      message: `Regeneration of "${section.title}" queued`
+    });
+    
+  } catch (error) {
+    console.error('Error queueing report section regeneration:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Failed to queue report section regeneration' 
+    });
+  }
+});
+
+// Report templates - the deliverables reports can be generated as: sections with their
+// prompt instructions and length budgets, and default source selection rules
+const reportTemplateRegistry = new ReportTemplateRegistry();
+
+function sendReportTemplateError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid report template',
+      details: error.errors
+    });
+  }
+  if (error instanceof ReportTemplateConflictError) {
+    return res.status(409).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  console.error(`Report template ${action} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+app.get('/api/report-templates', async (req, res) => {
+  try {
+    const templates = await reportTemplateRegistry.list();
+
+    res.json({
+      success: true,
+      count: templates.length,
+      templates
+    });
+  } catch (error) {
+    sendReportTemplateError(res, error, 'list');
+  }
+});
+
+app.get('/api/report-templates/:slug', async (req, res) => {
+  try {
+    const template = await reportTemplateRegistry.get(req.params.slug);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Report template not found'
+      });
+    }
+
+    res.json({ success: true, template });
+  } catch (error) {
+    sendReportTemplateError(res, error, 'fetch');
+  }
+});
+
+app.post('/api/report-templates', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const input = ReportTemplateSchema.parse(req.body);
+    if (await rejectUnknownTopics(input.source_rules.topics, res)) return;
+
+    const template = await reportTemplateRegistry.create(input);
+    res.status(201).json({ success: true, template });
+  } catch (error) {
+    sendReportTemplateError(res, error, 'create');
+  }
+});
+
+app.patch('/api/report-templates/:slug', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const changes = UpdateReportTemplateSchema.parse(req.body);
+    if (await rejectUnknownTopics(changes.source_rules?.topics, res)) return;
+
+    const template = await reportTemplateRegistry.update(req.params.slug, changes);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Report template not found'
+      });
+    }
+
+    res.json({ success: true, template });
+  } catch (error) {
+    sendReportTemplateError(res, error, 'update');
+  }
+});
+
+app.delete('/api/report-templates/:slug', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const deleted = await reportTemplateRegistry.delete(req.params.slug);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Report template not found'
+      });
+    }
+
+    res.json({ success: true, message: 'Report template deleted' });
+  } catch (error) {
+    sendReportTemplateError(res, error, 'delete');
+  }
+});
+
 // Global flag to track RSS table creation
 let rssTablesCreated = false;
 let rssTableCreationPromise: Promise<void> | null = null;
@@ -557,10 +1024,7 @@ CREATE INDEX IF NOT EXISTS idx_rss_articles_feed_category ON rss_articles(feed_c
 CREATE INDEX IF NOT EXISTS idx_rss_articles_collected_at ON rss_articles(collected_at DESC);
 CREATE INDEX IF NOT EXISTS idx_rss_articles_content_hash ON rss_articles(content_hash);
 
--- Full text search on RSS articles
-CREATE INDEX IF NOT EXISTS idx_rss_articles_search 
-ON rss_articles 
-USING gin(to_tsvector('english', title || ' ' || COALESCE(description, '')));
+-- Full text search on RSS articles: language-aware index in rss-enrichment-schema.sql
 
 -- RSS collection stats
 CREATE TABLE IF NOT EXISTS rss_collection_stats (
@@ -570,12 +1034,19 @@ CREATE TABLE IF NOT EXISTS rss_collection_stats (
   articles_collected INT DEFAULT 0,
   articles_new INT DEFAULT 0,
   articles_duplicate INT DEFAULT 0,
+  articles_error INT DEFAULT 0,
+  -- HTTP status of the feed's last fetch that day
+  http_status INT,
   collection_time_ms INT,
   errors TEXT,
   created_at TIMESTAMPTZ DEFAULT now(),
   
   CONSTRAINT unique_collection_per_day UNIQUE (collection_date, feed_name)
-);`;
+);
+
+-- Stats tables created before per-feed error counts
+ALTER TABLE rss_collection_stats ADD COLUMN IF NOT EXISTS articles_error INT DEFAULT 0;
+ALTER TABLE rss_collection_stats ADD COLUMN IF NOT EXISTS http_status INT;`;
 
     const statements = rssSchema.split(';').filter(s => s.trim());
     for (const statement of statements) {
@@ -612,28 +1083,43 @@ app.get('/api/rss/articles', async (req, res) => {
     await ensureRSSTables(); // Auto-create tables if needed
     
     const category = req.query.category as string;
+    // Taxonomy node slugs, comma-separated; a parent such as 'compensation' matches all its children
+    const topics = req.query.topic ? (req.query.topic as string).split(',') : undefined;
     const limit = parseInt(req.query.limit as string) || 20;
     const offset = parseInt(req.query.offset as string) || 0;
+
+    if (await rejectUnknownTopics(topics, res)) return;
+
+    const conditions: string[] = [];
+    const filterParams: unknown[] = [];
+    if (category) {
+      filterParams.push(category);
+      conditions.push(`feed_category = $${filterParams.length}`);
+    }
+    if (topics) {
+      filterParams.push(topics);
+      conditions.push(`EXISTS (
+        SELECT 1 FROM item_topics it
+        WHERE it.source_type = 'rss_article' AND it.item_id = rss_articles.id AND it.node_slug = ANY($${filterParams.length}::text[])
+      )`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
     
     // Get total count for pagination
-    let countQuery = `
-      SELECT COUNT(*) as total FROM rss_articles 
-      ${category ? 'WHERE feed_category = $1' : ''}
-    `;
-    const countParams = category ? [category] : [];
-    const countResult = await db.query(countQuery, countParams);
+    const countQuery = `SELECT COUNT(*) as total FROM rss_articles ${where}`;
+    const countResult = await db.query(countQuery, filterParams);
     const totalCount = parseInt(countResult.rows[0].total);
     
     // Get paginated articles
-    let query = `
+    const query = `
       SELECT * FROM rss_articles 
-      ${category ? 'WHERE feed_category = $1' : ''}
+      ${where}
       ORDER BY published_at DESC 
-      LIMIT ${category ? '$2' : '$1'} 
-      OFFSET ${category ? '$3' : '$2'}
+      LIMIT $${filterParams.length + 1} 
+      OFFSET $${filterParams.length + 2}
     `;
     
-    const params = category ? [category, limit, offset] : [limit, offset];
+    const params = [...filterParams, limit, offset];
     const result = await db.query(query, params);
     
     res.json({
@@ -683,58 +1169,416 @@ app.get('/api/rss/categories', async (req, res) => {
   }
 });
 
-app.get('/api/rss/search', async (req, res) => {
+app.get('/api/rss/search', async (req, res) => {
+  try {
+    await ensureRSSTables(); // Auto-create tables if needed
+    
+    const searchTerm = req.query.q as string;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const offset = parseInt(req.query.offset as string) || 0;
+    
+    if (!searchTerm) {
+      return res.status(400).json({
+        success: false,
+        error: 'Search term required'
+      });
+    }
+    
+    // Rank with hybrid full-text + semantic search, then load the full rows for the requested page
+    const { items: page, total: totalCount } = await new SourceRepository().searchPage(searchTerm, {
+      sourceTypes: ['rss_article'],
+      limit,
+      offset
+    });
+    
+    const rowsResult = await db.query('SELECT * FROM rss_articles WHERE id = ANY($1::uuid[])', [page.map(item => item.id)]);
+    const rowsById = new Map((rowsResult.rows as Record<string, unknown>[]).map(row => [String(row.id), row]));
+    const articles = page
+      .filter(item => rowsById.has(item.id))
+      .map(item => ({
+        ...rowsById.get(item.id),
+        relevance: item.relevance,
+        semantic_similarity: item.semantic_similarity,
+        hybrid_score: item.hybrid_score
+      }));
+    
+    res.json({
+      success: true,
+      count: articles.length,
+      total: totalCount,
+      search_term: searchTerm,
+      articles,
+      pagination: {
+        currentPage: Math.floor(offset / limit) + 1,
+        totalPages: Math.ceil(totalCount / limit),
+        hasNext: (offset + limit) < totalCount,
+        hasPrev: offset > 0
+      }
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Story clusters: the same story syndicated across feeds, most widely covered first
+app.get('/api/rss/stories', async (req, res) => {
+  try {
+    const days = Math.min(parseInt(req.query.days as string) || 7, 90);
+    const minSize = parseInt(req.query.min_size as string) || 2;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+    const stories = await storyClusterer.listStories({ days, minSize, limit });
+
+    res.json({
+      success: true,
+      count: stories.length,
+      filters: { days, min_size: minSize },
+      stories
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Extracted statistics, e.g. /api/facts?metric=attrition&sector=IT
+app.get('/api/facts', async (req, res) => {
+  try {
+    const unit = req.query.unit ? z.enum(FACT_UNITS).parse(req.query.unit) : undefined;
+    const filters = {
+      metric: req.query.metric as string | undefined,
+      sector: req.query.sector as string | undefined,
+      geography: req.query.geography as string | undefined,
+      period: req.query.period as string | undefined,
+      unit,
+      days: parseInt(req.query.days as string) || undefined
+    };
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const facts = await factStore.query({ ...filters, limit });
+
+    res.json({
+      success: true,
+      count: facts.length,
+      filters,
+      facts
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: `unit must be one of ${FACT_UNITS.join(', ')}`
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Metrics that have extracted facts, with fact counts and sectors
+app.get('/api/facts/metrics', async (req, res) => {
+  try {
+    const metrics = await factStore.listMetrics();
+    res.json({
+      success: true,
+      count: metrics.length,
+      metrics
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// The HR topic taxonomy with item counts per node; slugs are used by ?topic= filters
+app.get('/api/taxonomy', async (req, res) => {
+  try {
+    const tree = await taxonomyStore.tree();
+    res.json({
+      success: true,
+      taxonomy: tree
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Named entities, e.g. /api/entities?type=company&q=infosys
+app.get('/api/entities', async (req, res) => {
+  try {
+    const type = req.query.type as string | undefined;
+    if (type && !ENTITY_TYPES.includes(type as EntityType)) {
+      return res.status(400).json({
+        success: false,
+        error: `type must be one of ${ENTITY_TYPES.join(', ')}`
+      });
+    }
+
+    const entities = await entityStore.list({
+      type: type as EntityType | undefined,
+      q: req.query.q as string | undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 50, 500)
+    });
+
+    res.json({
+      success: true,
+      count: entities.length,
+      entities
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Items that mention an entity, newest first
+app.get('/api/entities/:id/articles', async (req, res) => {
+  try {
+    const entity = isUUID(req.params.id) ? await entityStore.get(req.params.id) : null;
+    if (!entity) {
+      return res.status(404).json({
+        success: false,
+        error: 'Entity not found'
+      });
+    }
+
+    const articles = await entityStore.articles(entity.id, {
+      days: req.query.days ? parseInt(req.query.days as string) : undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 20, 200)
+    });
+
+    res.json({
+      success: true,
+      entity,
+      count: articles.length,
+      articles
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// RSS source registry - feeds are read from the database on every collection run
+const rssSourceRegistry = new RSSSourceRegistry();
+
+function isRSSAdmin(req: express.Request, res: express.Response): boolean {
+  // Simple auth check - in production, use proper auth
+  if (req.headers.authorization !== 'Bearer collect-rss-2024') {
+    console.log(`❌ Unauthorized RSS admin request: ${req.method} ${req.path}`);
+    res.status(401).json({
+      success: false,
+      error: 'Unauthorized'
+    });
+    return false;
+  }
+  return true;
+}
+
+function sendRSSSourceError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid RSS source',
+      details: error.errors
+    });
+  }
+  if (error instanceof RSSSourceConflictError) {
+    return res.status(409).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  console.error(`RSS source ${action} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+// Parse a feed without storing anything, to check a source before enabling it
+async function testFetchRSSSource(source: z.infer<typeof RSSSourceSchema>) {
+  const { RSSCollector } = await import('./collectors/rss-collector');
+  const startedAt = Date.now();
+
+  try {
+    const { articles, httpStatus } = await new RSSCollector([source]).fetchFeed(source);
+    return {
+      success: true,
+      http_status: httpStatus,
+      latency_ms: Date.now() - startedAt,
+      article_count: articles.length,
+      sample: articles.slice(0, 5).map(article => ({
+        title: article.title,
+        url: article.url,
+        published_at: article.published_at
+      }))
+    };
+  } catch (error) {
+    return {
+      success: false,
+      latency_ms: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// List registered RSS sources (?enabled=true|false)
+app.get('/api/rss/sources', async (req, res) => {
+  try {
+    const enabled = req.query.enabled === undefined ? undefined : req.query.enabled === 'true';
+    const sources = await rssSourceRegistry.list({ enabled });
+
+    res.json({
+      success: true,
+      count: sources.length,
+      sources
+    });
+  } catch (error) {
+    sendRSSSourceError(res, error, 'list');
+  }
+});
+
+app.get('/api/rss/sources/:id', async (req, res) => {
+  try {
+    const source = isUUID(req.params.id) ? await rssSourceRegistry.get(req.params.id) : null;
+    if (!source) {
+      return res.status(404).json({
+        success: false,
+        error: 'RSS source not found'
+      });
+    }
+
+    res.json({ success: true, source });
+  } catch (error) {
+    sendRSSSourceError(res, error, 'fetch');
+  }
+});
+
+app.post('/api/rss/sources', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const source = await rssSourceRegistry.create(RSSSourceSchema.parse(req.body));
+    res.status(201).json({ success: true, source });
+  } catch (error) {
+    sendRSSSourceError(res, error, 'create');
+  }
+});
+
+app.patch('/api/rss/sources/:id', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const changes = UpdateRSSSourceSchema.parse(req.body);
+    const source = isUUID(req.params.id) ? await rssSourceRegistry.update(req.params.id, changes) : null;
+    if (!source) {
+      return res.status(404).json({
+        success: false,
+        error: 'RSS source not found'
+      });
+    }
+
+    res.json({ success: true, source });
+  } catch (error) {
+    sendRSSSourceError(res, error, 'update');
+  }
+});
+
+app.delete('/api/rss/sources/:id', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const deleted = isUUID(req.params.id) && await rssSourceRegistry.delete(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'RSS source not found'
+      });
+    }
+
+    res.json({ success: true, message: 'RSS source deleted' });
+  } catch (error) {
+    sendRSSSourceError(res, error, 'delete');
+  }
+});
+
+// Test fetch an unsaved feed definition
+app.post('/api/rss/sources/test', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const result = await testFetchRSSSource(RSSSourceSchema.parse(req.body));
+    res.json(result);
+  } catch (error) {
+    sendRSSSourceError(res, error, 'test');
+  }
+});
+
+// Test fetch a registered feed
+app.post('/api/rss/sources/:id/test', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const source = isUUID(req.params.id) ? await rssSourceRegistry.get(req.params.id) : null;
+    if (!source) {
+      return res.status(404).json({
+        success: false,
+        error: 'RSS source not found'
+      });
+    }
+
+    const result = await testFetchRSSSource(source);
+    res.json({ ...result, source_id: source.id });
+  } catch (error) {
+    sendRSSSourceError(res, error, 'test');
+  }
+});
+
+// Per-feed RSS health: last fetch, failure streaks and quarantine state
+app.get('/api/rss/feeds/health', async (req, res) => {
   try {
-    await ensureRSSTables(); // Auto-create tables if needed
-    
-    const searchTerm = req.query.q as string;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const offset = parseInt(req.query.offset as string) || 0;
-    
-    if (!searchTerm) {
-      return res.status(400).json({
-        success: false,
-        error: 'Search term required'
-      });
+    const { FeedHealthTracker } = await import('./collectors/feed-health');
+
+    const status = req.query.status as string;
+    let feeds = await new FeedHealthTracker().getHealth(await rssSourceRegistry.list());
+    if (status) {
+      feeds = feeds.filter(feed => feed.status === status);
     }
-    
-    // Get total count for search results
-    const countQuery = `
-      SELECT COUNT(*) as total FROM rss_articles 
-      WHERE to_tsvector('english', title || ' ' || COALESCE(description, '')) 
-        @@ plainto_tsquery('english', $1)
-    `;
-    const countResult = await db.query(countQuery, [searchTerm]);
-    const totalCount = parseInt(countResult.rows[0].total);
-    
-    // Get paginated search results
-    const query = `
-      SELECT * FROM rss_articles 
-      WHERE to_tsvector('english', title || ' ' || COALESCE(description, '')) 
-        @@ plainto_tsquery('english', $1)
-      ORDER BY published_at DESC 
-      LIMIT $2 OFFSET $3
-    `;
-    
-    const result = await db.query(query, [searchTerm, limit, offset]);
-    
+
+    const summary = feeds.reduce((acc, feed) => {
+      acc[feed.status] = (acc[feed.status] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
     res.json({
       success: true,
-      count: result.rows.length,
-      total: totalCount,
-      search_term: searchTerm,
-      articles: result.rows,
-      pagination: {
-        currentPage: Math.floor(offset / limit) + 1,
-        totalPages: Math.ceil(totalCount / limit),
-        hasNext: (offset + limit) < totalCount,
-        hasPrev: offset > 0
-      }
+      count: feeds.length,
+      summary,
+      feeds
     });
-  } catch (error: any) {
+  } catch (error) {
+    console.error('Feed health fetch error:', error);
     res.status(500).json({
       success: false,
-      error: error.message
+      error: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
@@ -805,6 +1649,27 @@ app.get('/api/stats/collection', async (req, res) => {
   }
 });
 
+// Report cache - how often requests were answered with an existing report and what that saved
+const reportCache = new ReportCache();
+
+app.get('/api/stats/cache', async (req, res) => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string) || 7 : 7;
+    const stats = await reportCache.stats(days);
+
+    res.json({
+      success: true,
+      ...stats
+    });
+  } catch (error) {
+    console.error('Error fetching cache stats:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch cache statistics'
+    });
+  }
+});
+
 // ==========================================
 // CHAT API ENDPOINTS
 // ==========================================
@@ -874,12 +1739,25 @@ app.get('/api/chat/sessions/:id/messages', async (req, res) => {
 
 // SSE streaming chat endpoint
 app.post('/api/chat/message', async (req, res) => {
-  const { session_id, message } = req.body;
+  const { session_id, message, template: templateSlug, force_refresh } = req.body;
 
   if (!session_id || !message) {
     return res.status(400).json({ error: 'session_id and message required' });
   }
 
+  // An optional report template slug; checked before the event stream starts
+  let template: ReportTemplate | null | undefined;
+  if (templateSlug !== undefined) {
+    try {
+      template = typeof templateSlug === 'string' ? await reportTemplateRegistry.get(templateSlug) : null;
+    } catch (error) {
+      return sendReportTemplateError(res, error, 'fetch');
+    }
+    if (!template) {
+      return res.status(400).json({ error: `Unknown template: ${templateSlug}. See GET /api/report-templates` });
+    }
+  }
+
   console.log(`💬 Chat message request: session=${session_id}, message="${message.substring(0, 50)}..."`);
 
   // Set SSE headers
@@ -896,7 +1774,7 @@ app.post('/api/chat/message', async (req, res) => {
   try {
     const chatController = new ChatController();
 
-    for await (const event of chatController.handleMessage(session_id, message)) {
+    for await (const event of chatController.handleMessage(session_id, message, template || undefined, force_refresh === true)) {
       console.log('📤 Sending event:', event.type, event);
       const data = JSON.stringify(event);
       res.write(`data: ${data}\n\n`);
@@ -1490,6 +2368,280 @@ app.post('/api/admin/collect-rss', async (req, res) => {
   }
 });
 
+// RSS collection schedules: frequency, last/next run and last outcome per feed
+app.get('/api/admin/schedules', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const schedules = await rssScheduler.getSchedules();
+    const due = schedules.filter(schedule => schedule.next_run_at && new Date(schedule.next_run_at) <= new Date());
+
+    res.json({
+      success: true,
+      count: schedules.length,
+      due: due.length,
+      schedules
+    });
+  } catch (error) {
+    console.error('Schedule fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Run feeds now instead of waiting for their next slot (body: { feeds?: string[] }, default all enabled feeds)
+app.post('/api/admin/schedules/run', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const { feeds } = z.object({ feeds: z.array(z.string()).min(1).optional() }).parse(req.body || {});
+    const { queued, run } = await rssScheduler.runNow(feeds);
+
+    if (queued.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'No enabled feeds matched'
+      });
+    }
+
+    if (!run) {
+      // Another tick holds the lock; the feeds are marked due and it will pick them up
+      return res.status(202).json({
+        success: true,
+        message: 'A collection is already running; the feeds will be collected on the next tick',
+        queued
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Collected ${run.feeds.length} feeds`,
+      ...run
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request',
+        details: error.errors
+      });
+    }
+
+    console.error('Manual scheduler run failed:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Domain authority registry - ContentScorer's per-domain and wildcard authority scores.
+// Every change rescores the stored items under the affected patterns.
+const domainAuthorityRegistry = new DomainAuthorityRegistry();
+
+function sendDomainAuthorityError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid domain authority',
+      details: error.errors
+    });
+  }
+  if (error instanceof DomainAuthorityConflictError) {
+    return res.status(409).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  console.error(`Domain authority ${action} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+app.get('/api/admin/domain-authorities', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const tier = req.query.tier ? z.enum(DOMAIN_AUTHORITY_TIERS).parse(req.query.tier) : undefined;
+    const authorities = await domainAuthorityRegistry.list({ tier });
+
+    res.json({
+      success: true,
+      count: authorities.length,
+      authorities
+    });
+  } catch (error) {
+    sendDomainAuthorityError(res, error, 'list');
+  }
+});
+
+// Which entry (if any) scores a given domain, e.g. ?domain=labour.gov.in
+app.get('/api/admin/domain-authorities/lookup', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  const domain = String(req.query.domain || '').trim();
+  if (!domain) {
+    return res.status(400).json({
+      success: false,
+      error: 'domain query parameter is required'
+    });
+  }
+
+  try {
+    await domainAuthorityRegistry.refresh();
+    res.json({
+      success: true,
+      domain,
+      ...DomainAuthorityRegistry.lookup(normalizePattern(domain))
+    });
+  } catch (error) {
+    sendDomainAuthorityError(res, error, 'lookup');
+  }
+});
+
+app.post('/api/admin/domain-authorities', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const { authority, rescored } = await domainAuthorityRegistry.create(DomainAuthoritySchema.parse(req.body));
+    res.status(201).json({ success: true, authority, rescored });
+  } catch (error) {
+    sendDomainAuthorityError(res, error, 'create');
+  }
+});
+
+app.patch('/api/admin/domain-authorities/:id', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const changes = UpdateDomainAuthoritySchema.parse(req.body);
+    const result = isUUID(req.params.id) ? await domainAuthorityRegistry.update(req.params.id, changes) : null;
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Domain authority not found'
+      });
+    }
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendDomainAuthorityError(res, error, 'update');
+  }
+});
+
+app.delete('/api/admin/domain-authorities/:id', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const { deleted, rescored } = isUUID(req.params.id)
+      ? await domainAuthorityRegistry.delete(req.params.id)
+      : { deleted: false, rescored: 0 };
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Domain authority not found'
+      });
+    }
+
+    res.json({ success: true, message: 'Domain authority deleted', rescored });
+  } catch (error) {
+    sendDomainAuthorityError(res, error, 'delete');
+  }
+});
+
+// Rescoring - recompute every stored item's scores with a scoring version (e.g. after
+// changing weights). Runs in the background; poll the run for its ranking diff summary.
+const rescorer = new Rescorer();
+
+app.post('/api/admin/rescore', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const { version, authority_version } = RescoreSchema.parse(req.body || {});
+    const { run } = await rescorer.begin(version, 'api', authority_version);
+
+    res.status(202).json({
+      success: true,
+      run,
+      status_url: `/api/admin/rescore/runs/${run.id}`
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid rescore request',
+        details: error.errors
+      });
+    }
+    if (error instanceof UnknownAuthorityVersionError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+    if (error instanceof RescoreInProgressError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Rescore error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.get('/api/admin/rescore/runs', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const runs = await rescorer.listRuns(limit);
+
+    res.json({
+      success: true,
+      count: runs.length,
+      runs
+    });
+  } catch (error) {
+    console.error('Rescore runs error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.get('/api/admin/rescore/runs/:id', async (req, res) => {
+  if (!isRSSAdmin(req, res)) return;
+
+  try {
+    const run = isUUID(req.params.id) ? await rescorer.getRun(req.params.id) : null;
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        error: 'Rescore run not found'
+      });
+    }
+
+    res.json({ success: true, run });
+  } catch (error) {
+    console.error('Rescore run error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // 404 handler
 app.use((req, res) => {
   res.status(404).json({ 
@@ -1498,78 +2650,6 @@ app.use((req, res) => {
   });
 });
 
-// Automatic RSS Collection Scheduler
-function startRSSScheduler() {
-  console.log('⏰ Starting automatic RSS collection scheduler...');
-  
-  // Function to run RSS collection
-  const runRSSCollection = async () => {
-    try {
-      console.log('🤖 [Scheduler] Starting automatic RSS collection...');
-      
-      // Import RSS collection manager
-      const { RSSCollectionManager } = await import('./scripts/collect-rss');
-      const manager = new RSSCollectionManager();
-      
-      // Run the collection
-      const result = await manager.runDailyCollection();
-      console.log('✅ [Scheduler] Automatic RSS collection completed successfully');
-      console.log(`📊 [Scheduler] Collected: ${result.totalArticles}, New: ${result.newArticles}, Duplicates: ${result.duplicates}`);
-      
-    } catch (error) {
-      console.error('❌ [Scheduler] Automatic RSS collection failed:', error);
-    }
-  };
-  
-  // Calculate time until next 6 AM UTC
-  const scheduleNextCollection = () => {
-    const now = new Date();
-    const next6AM = new Date();
-    next6AM.setUTCHours(6, 0, 0, 0); // 6 AM UTC
-    
-    // If it's already past 6 AM today, schedule for tomorrow
-    if (now >= next6AM) {
-      next6AM.setUTCDate(next6AM.getUTCDate() + 1);
-    }
-    
-    const msUntil6AM = next6AM.getTime() - now.getTime();
-    console.log(`⏰ [Scheduler] Next RSS collection scheduled for: ${next6AM.toISOString()} (in ${Math.round(msUntil6AM / 1000 / 60 / 60)} hours)`);
-    
-    // Schedule the next collection
-    setTimeout(async () => {
-      await runRSSCollection();
-      // Schedule the next one (every 24 hours)
-      setInterval(runRSSCollection, 24 * 60 * 60 * 1000);
-    }, msUntil6AM);
-  };
-  
-  // Run initial collection if it's been more than 12 hours since last collection
-  const checkAndRunInitialCollection = async () => {
-    try {
-      // Check when last collection happened
-      const result = await db.query(`
-        SELECT MAX(collected_at) as last_collection 
-        FROM rss_articles 
-        WHERE collected_at > NOW() - INTERVAL '12 hours'
-      `);
-      
-      if (result.rows.length === 0 || !result.rows[0].last_collection) {
-        console.log('🚀 [Scheduler] No recent RSS collection found, running initial collection...');
-        await runRSSCollection();
-      } else {
-        console.log('✅ [Scheduler] Recent RSS collection found, skipping initial collection');
-      }
-    } catch (error) {
-      console.log('⚠️ [Scheduler] Could not check last collection time, running initial collection...');
-      await runRSSCollection();
-    }
-  };
-  
-  // Start the scheduler
-  checkAndRunInitialCollection();
-  scheduleNextCollection();
-}
-
 // Start server
 app.listen(port, () => {
   console.log(`🚀 HR Research Platform API running on port ${port}`);
@@ -1581,35 +2661,97 @@ app.listen(port, () => {
     SCRAPINGBEE: process.env.SCRAPINGBEE_API_KEY ? '✅ Configured' : '❌ Not configured',
     GROQ: process.env.GROQ_API_KEY ? '✅ Configured' : '❌ Not configured'
   });
+  console.log('🤖 LLM Providers:', describeLLMConfig(['query_analysis', 'report_synthesis', 'executive_summary', 'translation', 'entity_extraction', 'evidence_extraction']));
   
   console.log('📚 Available endpoints:');
   console.log('   GET  /health                           - Health check');
   console.log('   GET  /api/content                      - List content items');
   console.log('   GET  /api/content/search               - Search content');
-  console.log('   POST /api/reports/generate             - Generate content report');
-  console.log('   POST /api/reports/generate-pdf-deep-dive - Generate deep dive PDF (live search)');
+  console.log('   GET  /api/sources/search               - Search RSS and web sources together');
+  console.log('   GET  /api/taxonomy                     - HR topic taxonomy with item counts');
+  console.log('   GET  /api/entities                     - Companies, government bodies, people and locations');
+  console.log('   POST /api/reports/generate             - Queue content report job');
+  console.log('   POST /api/reports/generate-pdf-deep-dive - Queue deep dive PDF job (live search)');
+  console.log('   GET  /api/reports/jobs/:id             - Report job status and progress');
+  console.log('   DELETE /api/reports/jobs/:id           - Cancel report job');
   console.log('   GET  /api/reports/:id                  - Get report by ID');
   console.log('   GET  /api/reports/:id/pdf              - Download report PDF');
   console.log('   GET  /api/stats/collection             - Collection statistics');
+  console.log('   GET  /api/admin/schedules              - RSS collection schedules');
   console.log('');
   console.log('📖 Example requests:');
   console.log(`   curl http://localhost:${port}/health`);
   console.log(`   curl http://localhost:${port}/api/content?limit=5&min_score=0.7`);
   console.log(`   curl -X POST http://localhost:${port}/api/reports/generate -H "Content-Type: application/json" -d '{"topic":"attrition trends in India","max_sources":10}'`);
   
-  // Start automatic RSS collection scheduler
-  startRSSScheduler();
+  // Load domain authority scores (seeds the registry on first run)
+  domainAuthorityRegistry.refresh();
+
+  // Start the RSS scheduler (each feed is collected on its own update_frequency)
+  rssScheduler.start();
+
+  // Start RSS article enrichment (set RSS_ENRICHMENT_ENABLED=false to disable)
+  if (process.env.RSS_ENRICHMENT_ENABLED !== 'false') {
+    articleEnrichmentWorker.start();
+  }
+
+  // Start translating regional-language items (off with TRANSLATION_ENABLED=false)
+  translationWorker.start();
+
+  // Start embedding indexer for hybrid search
+  embeddingIndexer?.start();
+
+  // Start story clustering (set STORY_CLUSTERING_ENABLED=false to disable)
+  if (process.env.STORY_CLUSTERING_ENABLED !== 'false') {
+    storyClusterWorker.start();
+  }
+
+  // Start fact extraction (set FACT_EXTRACTION_ENABLED=false to disable)
+  if (process.env.FACT_EXTRACTION_ENABLED !== 'false') {
+    factExtractionWorker.start();
+  }
+
+  // Start topic classification (set TOPIC_CLASSIFICATION_ENABLED=false to disable)
+  if (process.env.TOPIC_CLASSIFICATION_ENABLED !== 'false') {
+    topicClassificationWorker.start();
+  }
+
+  // Start entity extraction (set ENTITY_EXTRACTION_ENABLED=false to disable)
+  if (process.env.ENTITY_EXTRACTION_ENABLED !== 'false') {
+    entityExtractionWorker.start();
+  }
+
+  // Start report job workers (also resumes jobs interrupted by a restart)
+  reportJobQueue.start();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('🛑 Received SIGTERM, shutting down gracefully...');
+  reportJobQueue.stop();
+  rssScheduler.stop();
+  articleEnrichmentWorker.stop();
+  translationWorker.stop();
+  embeddingIndexer?.stop();
+  storyClusterWorker.stop();
+  factExtractionWorker.stop();
+  topicClassificationWorker.stop();
+  entityExtractionWorker.stop();
   await db.close();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('\n🛑 Received SIGINT, shutting down gracefully...');
+  reportJobQueue.stop();
+  rssScheduler.stop();
+  articleEnrichmentWorker.stop();
+  translationWorker.stop();
+  embeddingIndexer?.stop();
+  storyClusterWorker.stop();
+  factExtractionWorker.stop();
+  topicClassificationWorker.stop();
+  entityExtractionWorker.stop();
   await db.close();
   process.exit(0);
 });
@@ -0,0 +1,49 @@
+// Runs a batch on a timer for the background workers; a tick that comes while the previous batch
+// is still running is skipped rather than queued
+export class PeriodicWorker {
+  readonly name: string;
+  readonly batchSize: number;
+  readonly intervalMs: number;
+  private runOnce: (batchSize: number) => Promise<void>;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(name: string, runOnce: (batchSize: number) => Promise<void>, batchSize: number, intervalMs: number) {
+    this.name = name;
+    this.runOnce = runOnce;
+    this.batchSize = batchSize;
+    this.intervalMs = intervalMs;
+  }
+
+  // e.g. "32 items every 60s", for the worker's start-up log
+  describe(): string {
+    return `${this.batchSize} items every ${Math.round(this.intervalMs / 1000)}s`;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.runBatch(), this.intervalMs);
+    this.runBatch();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runBatch(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.runOnce(this.batchSize);
+    } catch (error) {
+      console.error(`❌ [${this.name}] Batch failed:`, error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
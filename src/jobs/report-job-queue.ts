@@ -0,0 +1,432 @@
+import os from 'os';
+import crypto from 'crypto';
+import db from '../db/connection';
+import { ReportGenerator, GenerationOptions, GenerationResult, GenerationStage } from '../reports/generator';
+import { BraveScrapingBeeCollector } from '../collectors/brave-scrapingbee-collector';
+import { ContentScorer } from '../scoring/content-scorer';
+import { SourceRepository } from '../sources/source-repository';
+import { Report } from '../types';
+import { ReportJob, ReportJobParams, ReportJobStage, ReportJobType, SectionJobParams } from '../types/jobs';
+
+interface ReportJobQueueOptions {
+  concurrency?: number;
+  pollIntervalMs?: number;
+  heartbeatIntervalMs?: number;
+  staleAfterMs?: number;
+  maxAttempts?: number;
+}
+
+export class ReportJobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Report job ${jobId} was cancelled`);
+    this.name = 'ReportJobCancelledError';
+  }
+}
+
+// Thrown when a job was requeued as stale and claimed by another worker while this one ran it
+export class ReportJobLostError extends Error {
+  constructor(jobId: string) {
+    super(`Report job ${jobId} is no longer owned by this worker`);
+    this.name = 'ReportJobLostError';
+  }
+}
+
+export class ReportJobQueue {
+  private generator: ReportGenerator;
+  private workerId: string;
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private heartbeatIntervalMs: number;
+  private staleAfterMs: number;
+  private maxAttempts: number;
+
+  private activeJobs = new Set<string>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(generator: ReportGenerator, options: ReportJobQueueOptions = {}) {
+    this.generator = generator;
+    this.workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+    this.concurrency = options.concurrency ?? (parseInt(process.env.REPORT_JOB_CONCURRENCY || '') || 2);
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 15000;
+    this.staleAfterMs = options.staleAfterMs ?? 60000;
+    this.maxAttempts = options.maxAttempts ?? 2;
+  }
+
+  async enqueue(jobType: ReportJobType, params: ReportJobParams | SectionJobParams): Promise<ReportJob> {
+    await db.ensureSchema('jobs-schema.sql');
+
+    const result = await db.query(
+      `INSERT INTO report_jobs (job_type, params, max_attempts, stage_history)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [
+        jobType,
+        JSON.stringify(params),
+        this.maxAttempts,
+        JSON.stringify([{ stage: 'queued', percentage: 0, at: new Date().toISOString() }])
+      ]
+    );
+
+    const job: ReportJob = result.rows[0];
+    console.log(`📥 Queued ${jobType} report job ${job.id} for "${params.topic}"`);
+
+    // Pick it up straight away if a worker slot is free
+    setImmediate(() => this.poll());
+
+    return job;
+  }
+
+  async getJob(id: string): Promise<ReportJob | null> {
+    await db.ensureSchema('jobs-schema.sql');
+    const result = await db.query('SELECT * FROM report_jobs WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  // Queued jobs are cancelled immediately; running jobs stop at their next stage boundary
+  async cancelJob(id: string): Promise<ReportJob | null> {
+    await db.ensureSchema('jobs-schema.sql');
+
+    const result = await db.query(
+      `UPDATE report_jobs SET
+         cancel_requested = true,
+         status = CASE WHEN status = 'queued' THEN 'cancelled' ELSE status END,
+         finished_at = CASE WHEN status = 'queued' THEN now() ELSE finished_at END,
+         message = CASE WHEN status = 'queued' THEN 'Cancelled before start' ELSE 'Cancellation requested' END
+       WHERE id = $1 AND status IN ('queued', 'running')
+       RETURNING *`,
+      [id]
+    );
+
+    if (result.rows.length > 0) {
+      console.log(`🛑 Cancellation requested for report job ${id}`);
+      return result.rows[0];
+    }
+
+    return this.getJob(id);
+  }
+
+  async start(): Promise<void> {
+    try {
+      await db.ensureSchema('jobs-schema.sql');
+    } catch (error) {
+      console.error('❌ [Jobs] Could not ensure report job schema, worker not started:', error);
+      return;
+    }
+
+    console.log(`👷 [Jobs] Report worker ${this.workerId} started (concurrency: ${this.concurrency})`);
+
+    await this.recoverInterruptedJobs();
+
+    this.pollTimer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), this.heartbeatIntervalMs);
+    this.poll();
+  }
+
+  stop(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.pollTimer = null;
+    this.heartbeatTimer = null;
+  }
+
+  // Jobs left 'running' by a crashed or restarted worker are requeued, or failed once out of attempts
+  private async recoverInterruptedJobs(): Promise<void> {
+    try {
+      const result = await db.query(
+        `UPDATE report_jobs SET
+           status = CASE WHEN attempts < max_attempts AND NOT cancel_requested THEN 'queued'
+                         WHEN cancel_requested THEN 'cancelled'
+                         ELSE 'failed' END,
+           stage = CASE WHEN attempts < max_attempts AND NOT cancel_requested THEN 'queued' ELSE stage END,
+           error = CASE WHEN attempts < max_attempts OR cancel_requested THEN error
+                        ELSE 'Worker stopped while the job was running' END,
+           finished_at = CASE WHEN attempts < max_attempts AND NOT cancel_requested THEN NULL ELSE now() END,
+           worker_id = NULL
+         WHERE status = 'running'
+           AND (heartbeat_at IS NULL OR heartbeat_at < now() - ($1::int * interval '1 millisecond'))
+         RETURNING id, status`,
+        [this.staleAfterMs]
+      );
+
+      for (const row of result.rows) {
+        console.log(`♻️ [Jobs] Recovered interrupted job ${row.id} -> ${row.status}`);
+      }
+    } catch (error) {
+      console.error('⚠️ [Jobs] Failed to recover interrupted jobs:', error);
+    }
+  }
+
+  private async heartbeat(): Promise<void> {
+    if (this.activeJobs.size > 0) {
+      try {
+        await db.query(
+          'UPDATE report_jobs SET heartbeat_at = now() WHERE id = ANY($1::uuid[])',
+          [Array.from(this.activeJobs)]
+        );
+      } catch (error) {
+        console.error('⚠️ [Jobs] Heartbeat failed:', error);
+      }
+    }
+
+    // Other replicas may have died mid-job; pick those up too
+    await this.recoverInterruptedJobs();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || !this.pollTimer) return;
+    this.polling = true;
+
+    try {
+      while (this.activeJobs.size < this.concurrency) {
+        const job = await this.claimNextJob();
+        if (!job) break;
+
+        this.activeJobs.add(job.id);
+        this.runJob(job)
+          .catch(error => console.error(`❌ [Jobs] Unhandled error in job ${job.id}:`, error))
+          .finally(() => {
+            this.activeJobs.delete(job.id);
+            setImmediate(() => this.poll());
+          });
+      }
+    } catch (error) {
+      console.error('⚠️ [Jobs] Failed to poll for jobs:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async claimNextJob(): Promise<ReportJob | null> {
+    const result = await db.query(
+      `UPDATE report_jobs SET
+         status = 'running',
+         attempts = attempts + 1,
+         worker_id = $1,
+         heartbeat_at = now(),
+         started_at = COALESCE(started_at, now()),
+         error = NULL
+       WHERE id = (
+         SELECT id FROM report_jobs
+         WHERE status = 'queued'
+         ORDER BY created_at
+         FOR UPDATE SKIP LOCKED
+         LIMIT 1
+       )
+       RETURNING *`,
+      [this.workerId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  private async runJob(job: ReportJob): Promise<void> {
+    console.log(`🏗️ [Jobs] Running ${job.job_type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts}): "${job.params.topic}"`);
+
+    const result: Record<string, unknown> = {};
+
+    try {
+      const report = 'section_id' in job.params
+        ? await this.regenerateSection(job.id, job.params, result)
+        : await this.generate(job, job.params, result);
+
+      if (await this.isCancelRequested(job.id)) {
+        throw new ReportJobCancelledError(job.id);
+      }
+
+      result.pdf_url = report.pdf_path ? `/api/reports/${report.id}/pdf` : undefined;
+
+      // Only while this worker still owns the job: if its heartbeat lapsed, the job may have been
+      // requeued and claimed by another worker, whose outcome must not be overwritten
+      const completed = await db.query(
+        `UPDATE report_jobs SET
+           status = 'completed',
+           stage = 'complete',
+           percentage = 100,
+           message = 'Report ready',
+           report_id = $2,
+           result = $3,
+           stage_history = stage_history || $4::jsonb,
+           finished_at = now()
+         WHERE id = $1 AND worker_id = $5 AND status = 'running'`,
+        [
+          job.id,
+          report.id,
+          JSON.stringify(result),
+          JSON.stringify([{ stage: 'complete', percentage: 100, at: new Date().toISOString() }]),
+          this.workerId
+        ]
+      );
+
+      if (completed.rowCount === 0) {
+        console.warn(`⚠️ [Jobs] Job ${job.id} produced report ${report.id} but is no longer owned by this worker; leaving its status alone`);
+        return;
+      }
+      console.log(`✅ [Jobs] Job ${job.id} completed with report ${report.id}`);
+
+    } catch (error) {
+      const cancelled = error instanceof ReportJobCancelledError || await this.isCancelRequested(job.id);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      const finished = await db.query(
+        `UPDATE report_jobs SET
+           status = $2,
+           message = $3,
+           error = $4,
+           result = $5,
+           finished_at = now()
+         WHERE id = $1 AND worker_id = $6 AND status = 'running'`,
+        [
+          job.id,
+          cancelled ? 'cancelled' : 'failed',
+          cancelled ? 'Cancelled' : 'Report generation failed',
+          cancelled ? null : errorMessage,
+          JSON.stringify(result),
+          this.workerId
+        ]
+      );
+
+      if (finished.rowCount === 0) {
+        console.warn(`⚠️ [Jobs] Job ${job.id} stopped (${errorMessage}) after another worker took it over; leaving its status alone`);
+      } else if (cancelled) {
+        console.log(`🛑 [Jobs] Job ${job.id} cancelled`);
+      } else {
+        console.error(`❌ [Jobs] Job ${job.id} failed:`, errorMessage);
+      }
+    }
+  }
+
+  private async generate(job: ReportJob, params: ReportJobParams, result: Record<string, unknown>): Promise<Report> {
+    const { topic, max_sources, time_range_days, scoring_profile, states, topics, template, force_refresh } = params;
+    let maxSources = max_sources;
+    let reportResult: GenerationResult | null = null;
+    const options: GenerationOptions = {
+      scoringProfile: scoring_profile,
+      states,
+      topics,
+      template,
+      forceRefresh: force_refresh,
+      cacheMaxSources: max_sources,
+      jobType: job.job_type === 'deep_dive' ? 'deep_dive' : 'standard',
+      onProgress: (stage: GenerationStage, percentage: number, message: string) =>
+        this.updateProgress(job.id, stage, percentage, message)
+    };
+
+    if (job.job_type === 'deep_dive') {
+      // A matching recent report makes live collection unnecessary, so look before spending
+      // Brave and ScrapingBee quota
+      const cached = await this.generator.findCachedReport(topic, max_sources, time_range_days, options);
+      if (cached) {
+        reportResult = { success: true, report: cached.report, cached };
+      } else {
+        await this.updateProgress(job.id, 'collecting', 5, 'Collecting live content...');
+        const liveSourceCount = await this.collectLiveSources(params);
+        result.live_sources_collected = liveSourceCount;
+
+        if (liveSourceCount === 0) {
+          throw new Error('No live content found for the specified topic');
+        }
+        // Use actual collected items
+        maxSources = liveSourceCount;
+      }
+    }
+
+    reportResult = reportResult || await this.generator.generateReport(topic, maxSources, time_range_days, options);
+
+    if (!reportResult.success || !reportResult.report) {
+      throw new Error(reportResult.error || 'Failed to generate report');
+    }
+
+    if (reportResult.cached) {
+      // A matching report was finished while this job waited in the queue, or (for deep dives)
+      // one was found before collecting
+      result.cached = true;
+      result.cached_report_age_hours = reportResult.cached.age_hours;
+    }
+    return reportResult.report;
+  }
+
+  private async regenerateSection(jobId: string, params: SectionJobParams, result: Record<string, unknown>): Promise<Report> {
+    await this.updateProgress(jobId, 'drafting_sections', 10, 'Redrafting section...');
+    const regenerated = await this.generator.regenerateSection(params.report_id, params.section_id);
+    if (!regenerated) {
+      throw new Error('Report section not found');
+    }
+
+    result.section_id = regenerated.section.id;
+    result.confidence_score = regenerated.report.confidence_score;
+    result.citation_count = regenerated.report.citation_count;
+    result.flagged_claims = regenerated.report.flagged_claims?.length || 0;
+    return regenerated.report;
+  }
+
+  private async updateProgress(jobId: string, stage: ReportJobStage, percentage: number, message: string): Promise<void> {
+    const result = await db.query(
+      `UPDATE report_jobs SET
+         stage = $2,
+         percentage = $3,
+         message = $4,
+         heartbeat_at = now(),
+         stage_history = stage_history || $5::jsonb
+       WHERE id = $1 AND worker_id = $6 AND status = 'running'
+       RETURNING cancel_requested`,
+      [jobId, stage, percentage, message, JSON.stringify([{ stage, percentage, message, at: new Date().toISOString() }]), this.workerId]
+    );
+
+    // A heartbeat from a worker that lost the job would hide the new owner's stalls
+    if (result.rows.length === 0) {
+      throw new ReportJobLostError(jobId);
+    }
+    if (result.rows[0].cancel_requested) {
+      throw new ReportJobCancelledError(jobId);
+    }
+  }
+
+  private async isCancelRequested(jobId: string): Promise<boolean> {
+    const result = await db.query('SELECT cancel_requested FROM report_jobs WHERE id = $1', [jobId]);
+    return Boolean(result.rows[0]?.cancel_requested);
+  }
+
+  // Live Brave + ScrapingBee collection that precedes deep dive reports
+  private async collectLiveSources(params: ReportJobParams): Promise<number> {
+    const braveApiKey = process.env.BRAVE_API_KEY || process.env.BRAVE_SEARCH_API_KEY;
+    const scrapingBeeApiKey = process.env.SCRAPINGBEE_API_KEY;
+
+    if (!braveApiKey || !scrapingBeeApiKey) {
+      throw new Error('Deep dive PDF generation requires BRAVE_API_KEY (or BRAVE_SEARCH_API_KEY) and SCRAPINGBEE_API_KEY');
+    }
+
+    console.log('🌐 Starting live content collection...');
+
+    // Create dynamic search queries based on the topic
+    const topicQueries = [
+      params.topic,
+      `${params.topic} India statistics`,
+      `${params.topic} Indian companies trends`,
+      `${params.topic} market research India`,
+      `${params.topic} survey data analysis`
+    ];
+
+    const collector = new BraveScrapingBeeCollector(braveApiKey, scrapingBeeApiKey);
+    const scorer = new ContentScorer();
+
+    const maxPerQuery = Math.max(3, Math.floor(params.max_sources / topicQueries.length));
+    const rawItems = await collector.collectHRContent(topicQueries, maxPerQuery);
+
+    console.log(`📊 Processing and scoring ${rawItems.length} live items...`);
+
+    if (rawItems.length === 0) {
+      return 0;
+    }
+
+    // Store the live results so the generator's source search can use them
+    const scoredItems = scorer.scoreMultipleItems(rawItems, 'brave-search-deep-dive');
+    const saved = await new SourceRepository(scorer).saveWebItems(scoredItems);
+    const processed = saved.length;
+
+    console.log(`📈 Successfully processed ${processed} items for deep dive analysis`);
+    return processed;
+  }
+}
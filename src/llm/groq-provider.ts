@@ -0,0 +1,18 @@
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+
+export const GROQ_DEFAULT_MODEL = 'llama-3.3-70b-versatile';
+
+export class GroqProvider extends OpenAICompatibleProvider {
+  constructor(model = GROQ_DEFAULT_MODEL, apiKey = process.env.GROQ_API_KEY || '') {
+    super({
+      name: 'groq',
+      baseUrl: 'https://api.groq.com/openai/v1',
+      model,
+      apiKey
+    });
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+}
@@ -0,0 +1,34 @@
+// LLM provider abstraction shared by report generation and chat
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+// Places in the pipeline that request completions; each can be configured separately
+export type LLMCallSite = 'query_analysis' | 'report_synthesis' | 'executive_summary' | 'translation' | 'entity_extraction' | 'evidence_extraction';
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+
+  // False when required credentials or endpoints are missing
+  isConfigured(): boolean;
+
+  complete(messages: LLMMessage[], options?: LLMCompletionOptions): Promise<LLMCompletion>;
+}
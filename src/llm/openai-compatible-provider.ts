@@ -0,0 +1,78 @@
+import axios from 'axios';
+import { LLMCompletion, LLMCompletionOptions, LLMMessage, LLMProvider } from './llm-provider';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: {
+    message: {
+      content: string;
+    };
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  name?: string;
+}
+
+// Any server that speaks the OpenAI chat completions API (Groq, llama.cpp, Ollama, vLLM...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  protected baseUrl: string;
+  protected apiKey: string;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name || 'openai_compatible';
+    this.model = config.model;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey || '';
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl && this.model);
+  }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    if (!this.isConfigured()) {
+      throw new Error(`LLM provider "${this.name}" is not configured`);
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    try {
+      const response = await axios.post<ChatCompletionResponse>(`${this.baseUrl}/chat/completions`, {
+        model: this.model,
+        messages,
+        temperature: options.temperature ?? 0.3,
+        max_tokens: options.maxTokens ?? 1000
+      }, {
+        headers,
+        timeout: options.timeoutMs
+      });
+
+      return {
+        content: response.data.choices[0].message.content,
+        model: response.data.model || this.model,
+        usage: {
+          prompt_tokens: response.data.usage?.prompt_tokens || 0,
+          completion_tokens: response.data.usage?.completion_tokens || 0
+        }
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`${this.name} completion failed (${this.model}): ${errorMessage}`);
+    }
+  }
+}
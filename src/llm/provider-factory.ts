@@ -0,0 +1,49 @@
+import { LLMCallSite, LLMProvider } from './llm-provider';
+import { GroqProvider, GROQ_DEFAULT_MODEL } from './groq-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { FakeLLMProvider } from './fake-provider';
+
+export type LLMProviderName = 'groq' | 'openai_compatible' | 'fake';
+
+const PROVIDER_NAMES: LLMProviderName[] = ['groq', 'openai_compatible', 'fake'];
+
+// Resolves a provider for a call site from the environment:
+//   LLM_PROVIDER / LLM_MODEL                    - defaults for every call site
+//   LLM_PROVIDER_<SITE> / LLM_MODEL_<SITE>      - per call site overrides, e.g. LLM_MODEL_QUERY_ANALYSIS
+//   LLM_BASE_URL / LLM_API_KEY                  - endpoint for openai_compatible (e.g. http://localhost:11434/v1)
+export function createLLMProvider(callSite: LLMCallSite, env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const siteKey = callSite.toUpperCase();
+
+  const requested = (env[`LLM_PROVIDER_${siteKey}`] || env.LLM_PROVIDER || 'groq').toLowerCase() as LLMProviderName;
+  const providerName = PROVIDER_NAMES.includes(requested) ? requested : 'groq';
+  if (providerName !== requested) {
+    console.warn(`⚠️ Unknown LLM provider "${requested}" for ${callSite}, falling back to groq`);
+  }
+
+  const model = env[`LLM_MODEL_${siteKey}`] || env.LLM_MODEL;
+
+  switch (providerName) {
+    case 'fake':
+      return new FakeLLMProvider(model || undefined);
+
+    case 'openai_compatible':
+      return new OpenAICompatibleProvider({
+        baseUrl: env[`LLM_BASE_URL_${siteKey}`] || env.LLM_BASE_URL || '',
+        apiKey: env[`LLM_API_KEY_${siteKey}`] || env.LLM_API_KEY,
+        model: model || ''
+      });
+
+    case 'groq':
+    default:
+      return new GroqProvider(model || GROQ_DEFAULT_MODEL, env.GROQ_API_KEY || '');
+  }
+}
+
+export function describeLLMConfig(callSites: LLMCallSite[]): Record<string, string> {
+  const description: Record<string, string> = {};
+  for (const callSite of callSites) {
+    const provider = createLLMProvider(callSite);
+    description[callSite] = `${provider.name}/${provider.model || 'unset'}${provider.isConfigured() ? '' : ' (not configured)'}`;
+  }
+  return description;
+}
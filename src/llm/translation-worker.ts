@@ -0,0 +1,54 @@
+import { SourceRepository } from '../sources/source-repository';
+import { Translator } from './translator';
+import { PeriodicWorker } from '../jobs/periodic-worker';
+
+// Background worker that translates newly collected regional-language items into English, so
+// they are embedded and full-text indexed in English and can be found when sources are picked
+export class TranslationWorker {
+  private translator: Translator;
+  private repository: SourceRepository;
+  private worker: PeriodicWorker;
+
+  constructor(
+    translator = new Translator(),
+    repository = new SourceRepository(),
+    batchSize = parseInt(process.env.TRANSLATION_BATCH_SIZE || '') || 10,
+    intervalMs = parseInt(process.env.TRANSLATION_INTERVAL_MS || '') || 60 * 1000
+  ) {
+    this.translator = translator;
+    this.repository = repository;
+    this.worker = new PeriodicWorker('Translation', size => this.translateBatch(size), batchSize, intervalMs);
+  }
+
+  start(): void {
+    if (!this.translator.isEnabled()) {
+      console.log('🌐 Translation disabled - regional-language items are indexed untranslated');
+      return;
+    }
+
+    console.log(`🌐 Starting translation worker (${this.worker.describe()})`);
+    this.worker.start();
+  }
+
+  stop(): void {
+    this.worker.stop();
+  }
+
+  private async translateBatch(batchSize: number): Promise<void> {
+    const items = await this.repository.untranslated(batchSize);
+    let translated = 0;
+    for (const item of items) {
+      try {
+        const translation = await this.translator.translate(item.title, item.full_content || item.snippet || '', item.language);
+        await this.repository.saveTranslation(item, translation);
+        translated++;
+      } catch (error) {
+        console.error(`⚠️ [Translation] Failed for ${item.url}:`, error instanceof Error ? error.message : error);
+        await this.repository.saveTranslation(item, null);
+      }
+    }
+    if (items.length > 0) {
+      console.log(`🌐 [Translation] Translated ${translated}/${items.length} regional-language items`);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { LLMMessage, LLMProvider } from './llm-provider';
+import { createLLMProvider } from './provider-factory';
+import { languageName } from '../config/languages';
+import { MAX_SOURCE_TOKENS, TokenBudgeter } from '../reports/token-budget';
+
+export interface Translation {
+  title: string;
+  content: string;
+}
+
+// Reply allowance: the translated body plus its title
+const MAX_REPLY_TOKENS = MAX_SOURCE_TOKENS + 200;
+
+// English translations of regional-language items, through the 'translation' LLM call site.
+// Off when TRANSLATION_ENABLED=false or the provider is not configured.
+export class Translator {
+  private llm: LLMProvider;
+  private enabled: boolean;
+  private budgeter = new TokenBudgeter();
+
+  constructor(llm: LLMProvider = createLLMProvider('translation'), enabled = process.env.TRANSLATION_ENABLED !== 'false') {
+    this.llm = llm;
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled && this.llm.isConfigured();
+  }
+
+  async translate(title: string, content: string, language: string): Promise<Translation> {
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `Translate ${languageName(language)} news text into English. Keep names, numbers, currency amounts (₹, lakh, crore) and acronyms such as EPFO exactly as written. Do not summarise or add commentary.
+
+Reply in exactly this format:
+TITLE: <translated title>
+TEXT: <translated text>`
+      },
+      {
+        role: 'user',
+        // As much of the body as report synthesis reads
+        content: `TITLE: ${title}\nTEXT: ${this.budgeter.truncate(content, MAX_SOURCE_TOKENS)}`
+      }
+    ];
+
+    const completion = await this.llm.complete(messages, { temperature: 0, maxTokens: MAX_REPLY_TOKENS });
+    const match = completion.content.match(/TITLE:\s*(.+?)\s*\n\s*TEXT:\s*([\s\S]+)/);
+    if (!match) {
+      throw new Error('Translation response was not in the TITLE/TEXT format');
+    }
+
+    return { title: match[1].trim(), content: match[2].trim() };
+  }
+}
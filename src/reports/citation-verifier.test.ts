@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContentItem } from '../types';
+import { CitationVerifier } from './citation-verifier';
+
+function source(fullContent: string): ContentItem {
+  return {
+    id: 'source-1',
+    source: 'test',
+    source_url: 'https://example.com',
+    title: 'IT sector attrition report',
+    url: 'https://example.com/attrition',
+    content_hash: 'hash',
+    full_content: fullContent,
+    collected_at: new Date(),
+    categories: [],
+    language: 'en',
+    domain_authority: 0.7,
+    indian_context_score: 0.5,
+    freshness_score: 0.5,
+    extractability_score: 0.5,
+    composite_score: 0.5,
+    has_statistics: true,
+    has_dates: false,
+    has_numbers: true,
+    word_count: 50,
+    scraper_version: '1.0'
+  };
+}
+
+const ARTICLE = source(
+  'Attrition in the Indian IT sector fell to 12.4% in FY24, down from 18% a year earlier. ' +
+  'Companies hired 2.3 lakh freshers as demand for cloud and AI skills grew.'
+);
+
+// Word overlap only, so the results don't depend on an embedder
+const verifier = new CitationVerifier(null, 0.4);
+
+describe('CitationVerifier', () => {
+  it('supports a claim whose words and figures are in the source', async () => {
+    const [check] = await verifier.verify([{ claim: 'IT sector attrition fell to 12.4% in FY24.', source: ARTICLE }]);
+    assert.equal(check.flagged, false);
+    assert.deepEqual(check.reasons, []);
+    assert.ok(check.support_score >= 0.9);
+  });
+
+  it('accepts figures rounded from the source', async () => {
+    const [check] = await verifier.verify([{ claim: 'IT sector attrition fell to 12% in FY24.', source: ARTICLE }]);
+    assert.equal(check.flagged, false);
+  });
+
+  it('matches amounts written in lakh', async () => {
+    const [check] = await verifier.verify([{ claim: 'IT companies hired 230,000 freshers.', source: ARTICLE }]);
+    assert.deepEqual(check.reasons, []);
+  });
+
+  it('flags figures the source does not contain', async () => {
+    const [check] = await verifier.verify([{ claim: 'IT sector attrition fell to 9.5% in FY24.', source: ARTICLE }]);
+    assert.equal(check.flagged, true);
+    assert.deepEqual(check.reasons, ['numbers not in source: 9.5%']);
+  });
+
+  it('flags claims unrelated to the source', async () => {
+    const [check] = await verifier.verify([{ claim: 'Manufacturing wages in Gujarat rose sharply.', source: ARTICLE }]);
+    assert.equal(check.flagged, true);
+    assert.ok(check.reasons.includes('little overlap with the cited source'));
+  });
+
+  it('returns one check per claim in order', async () => {
+    const checks = await verifier.verify([
+      { claim: 'Manufacturing wages in Gujarat rose sharply.', source: ARTICLE },
+      { claim: 'IT sector attrition fell to 12.4% in FY24.', source: ARTICLE }
+    ]);
+    assert.deepEqual(checks.map(check => check.flagged), [true, false]);
+  });
+});
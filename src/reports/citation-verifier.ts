@@ -0,0 +1,180 @@
+import { ContentItem } from '../types';
+import { Embedder, cosineSimilarity } from '../embeddings/embedder';
+import { createEmbedder } from '../embeddings/embedder-factory';
+import { HashingEmbedder } from '../embeddings/hashing-embedder';
+import { tokenize } from '../scoring/indian-context-classifier';
+import { parseIndianNumber, SCALE_PATTERN } from '../utils/indian-numbers';
+
+// A sentence of the report and the source it cites
+export interface CitedClaim {
+  claim: string;
+  source: ContentItem;
+}
+
+export interface SupportCheck {
+  // 0-1: how well the cited source backs the claim
+  support_score: number;
+  flagged: boolean;
+  // Why the claim was flagged, e.g. 'numbers not in source: 12%'
+  reasons: string[];
+}
+
+interface SourceEvidence {
+  stems: Set<string>;
+  numbers: number[];
+  passages: string[];
+}
+
+// Amounts, percentages and scaled counts; plain numbers under 10 and bare years are skipped
+const CLAIM_NUMBER = new RegExp(
+  `(?:₹|\\bRs\\.?\\s*|\\bINR\\s*|\\$)?\\b\\d[\\d,]*(?:\\.\\d+)?(?:\\s*(?:${SCALE_PATTERN})\\b)?(?:\\s*(?:%|per\\s?cent\\b|percent\\b))?`,
+  'gi'
+);
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'has', 'have', 'had',
+  'its', 'their', 'they', 'which', 'while', 'also', 'into', 'over', 'than', 'more', 'most', 'such',
+  'been', 'being', 'will', 'would', 'can', 'could', 'may', 'not', 'but', 'all', 'any', 'these',
+  'those', 'according', 'report', 'reports', 'reported', 'source', 'sources', 'per', 'cent'
+]);
+
+// Passages compared with a claim per source, so long articles don't flood the embedder
+const MAX_PASSAGES = 80;
+
+// Checks each cited sentence against the text of the source it cites: how many of its words
+// appear there, how close it is to the most similar passage (with a neural embedder),
+// and whether every figure it quotes is in the source. Claims quoting figures the source
+// doesn't contain, or with little support, are flagged.
+export class CitationVerifier {
+  private embedder: Embedder | null;
+  private threshold: number;
+
+  constructor(
+    embedder: Embedder | null = createEmbedder(),
+    threshold = parseFloat(process.env.CITATION_SUPPORT_THRESHOLD || '') || 0.4
+  ) {
+    // Hashing vectors only repeat the word overlap already measured, and rate a claim that swaps
+    // the one word that matters as supported, so similarity needs a neural embedder
+    this.embedder = embedder instanceof HashingEmbedder ? null : embedder;
+    this.threshold = threshold;
+  }
+
+  // One check per claim, in order
+  async verify(claims: CitedClaim[]): Promise<SupportCheck[]> {
+    const checks: SupportCheck[] = new Array(claims.length);
+
+    // Claims citing the same source share its passages and their embeddings
+    const bySource = new Map<ContentItem, number[]>();
+    claims.forEach((claim, index) => {
+      bySource.set(claim.source, [...(bySource.get(claim.source) || []), index]);
+    });
+
+    for (const [source, indexes] of bySource) {
+      const evidence = this.sourceEvidence(source);
+      const similarities = await this.semanticSimilarities(indexes.map(index => claims[index].claim), evidence.passages);
+
+      indexes.forEach((claimIndex, position) => {
+        checks[claimIndex] = this.check(claims[claimIndex].claim, evidence, similarities[position]);
+      });
+    }
+
+    return checks;
+  }
+
+  private check(claim: string, evidence: SourceEvidence, similarity: number): SupportCheck {
+    const words = contentStems(claim);
+    const lexical = words.length > 0 ? words.filter(word => evidence.stems.has(word)).length / words.length : 1;
+    const relevance = Math.max(lexical, similarity);
+
+    const numbers = claimNumbers(claim);
+    const missing = numbers.filter(number => !evidence.numbers.some(value => sameFigure(number.value, value, number.percent)));
+    const numberCoverage = numbers.length > 0 ? 1 - missing.length / numbers.length : 1;
+
+    const score = numbers.length > 0 ? 0.5 * relevance + 0.5 * numberCoverage : relevance;
+
+    const reasons: string[] = [];
+    if (missing.length > 0) {
+      reasons.push(`numbers not in source: ${missing.map(number => number.raw).join(', ')}`);
+    }
+    if (relevance < this.threshold) {
+      reasons.push('little overlap with the cited source');
+    }
+
+    return {
+      support_score: Math.round(score * 1000) / 1000,
+      flagged: reasons.length > 0 || score < this.threshold,
+      reasons
+    };
+  }
+
+  private sourceEvidence(source: ContentItem): SourceEvidence {
+    // Translated sources are checked against both texts, as figures survive translation
+    const text = [source.title, source.translated_title, source.translated_content, source.full_content || source.snippet]
+      .filter(Boolean)
+      .join('\n');
+
+    const sentences = text
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+    const passages: string[] = [];
+    for (let i = 0; i < sentences.length && passages.length < MAX_PASSAGES; i += 2) {
+      passages.push(sentences.slice(i, i + 3).join(' '));
+    }
+
+    return {
+      stems: new Set(contentStems(text)),
+      numbers: claimNumbers(text, true).map(number => number.value),
+      passages
+    };
+  }
+
+  // Highest cosine similarity between each claim and any passage; 0 without an embedder
+  private async semanticSimilarities(claims: string[], passages: string[]): Promise<number[]> {
+    if (!this.embedder || !this.embedder.isConfigured() || passages.length === 0) {
+      return claims.map(() => 0);
+    }
+
+    try {
+      const vectors = await this.embedder.embed([...claims, ...passages]);
+      const passageVectors = vectors.slice(claims.length);
+      return claims.map((_, index) =>
+        Math.max(0, ...passageVectors.map(vector => cosineSimilarity(vectors[index], vector)))
+      );
+    } catch (error) {
+      console.error('⚠️ Citation embedding failed, using word overlap only:', error instanceof Error ? error.message : error);
+      return claims.map(() => 0);
+    }
+  }
+}
+
+// Lowercased content words with common suffixes removed, so "hiring" matches "hired"
+function contentStems(text: string): string[] {
+  return tokenize(text)
+    .filter(token => token.length >= 3 && !/^\d/.test(token) && !STOPWORDS.has(token))
+    .map(token => token.length > 4 ? token.replace(/(?:ing|ed|es|s)$/, '') : token);
+}
+
+// Figures quoted in text. Sources keep small numbers and years too, since a claim may round to them.
+function claimNumbers(text: string, includeAll = false): { raw: string, value: number, percent: boolean }[] {
+  const numbers: { raw: string, value: number, percent: boolean }[] = [];
+  for (const match of text.matchAll(CLAIM_NUMBER)) {
+    const raw = match[0].trim();
+    const percent = /(?:%|per\s?cent|percent)$/i.test(raw);
+    const value = parseIndianNumber(raw.replace(/\s*(?:%|per\s?cent|percent)$/i, ''));
+    if (value === null) continue;
+
+    const qualified = percent || /[₹$]|rs|inr/i.test(raw) || new RegExp(`(?:${SCALE_PATTERN})$`, 'i').test(raw);
+    const isYear = !qualified && Number.isInteger(value) && value >= 1900 && value <= 2100;
+    if (!includeAll && !qualified && (value < 10 || isYear)) continue;
+
+    numbers.push({ raw, value, percent });
+  }
+  return numbers;
+}
+
+// Exact, or close enough to be the same figure rounded ("12.4%" reported as "12%")
+function sameFigure(claimed: number, found: number, percent: boolean): boolean {
+  const tolerance = percent ? 0.5 : Math.abs(found) * 0.02;
+  return Math.abs(claimed - found) <= tolerance;
+}
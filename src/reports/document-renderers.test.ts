@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContentItem } from '../types';
+import { ReportDocument } from '../types/report-document';
+import { renderReportHTML } from './document-renderers';
+
+const DOCUMENT: ReportDocument = { version: 1, title: 'Attrition in IT', sections: [] };
+
+function source(url: string, name = 'test'): ContentItem {
+  return {
+    id: 'source-1',
+    source: name,
+    source_url: 'https://example.com',
+    title: 'IT sector attrition report',
+    url,
+    content_hash: 'hash',
+    collected_at: new Date(),
+    categories: [],
+    language: 'en',
+    domain_authority: 0.7,
+    indian_context_score: 0.5,
+    freshness_score: 0.5,
+    extractability_score: 0.5,
+    composite_score: 0.5,
+    has_statistics: false,
+    has_dates: false,
+    has_numbers: false,
+    word_count: 50,
+    scraper_version: '1.0'
+  };
+}
+
+describe('renderReportHTML', () => {
+  it('links web sources with the URL escaped', () => {
+    const html = renderReportHTML(DOCUMENT, [source('https://example.com/a?x=1&y="2"')]);
+    assert.ok(html.includes('<a href="https://example.com/a?x=1&amp;y=&quot;2&quot;" target="_blank" rel="noopener noreferrer">'));
+  });
+
+  it('shows other schemes as text rather than links', () => {
+    const html = renderReportHTML(DOCUMENT, [source('javascript:alert("x")')]);
+    assert.ok(!html.includes('<a '));
+    assert.ok(html.includes('javascript:alert(&quot;x&quot;)'));
+  });
+
+  it('escapes the source name', () => {
+    const html = renderReportHTML(DOCUMENT, [source('https://example.com', '<img src=x onerror=alert(1)>')]);
+    assert.ok(!html.includes('<img'));
+  });
+});
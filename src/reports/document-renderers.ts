@@ -0,0 +1,151 @@
+import { ContentItem } from '../types';
+import { DocumentBlock, DocumentSection, DocumentSpan, EXECUTIVE_SUMMARY_SECTION_ID, ReportDocument } from '../types/report-document';
+import { languageName } from '../config/languages';
+
+// Markdown stored as reports.content. Figures are left out: they are derived from the text.
+export function renderMarkdown(document: ReportDocument): string {
+  return document.sections.map(renderSectionMarkdown).join('\n\n');
+}
+
+export function renderSectionMarkdown(section: DocumentSection): string {
+  const blocks = section.blocks.map(block => blockMarkdown(block)).filter(Boolean);
+  return [`## ${section.title}`, ...blocks].join('\n\n');
+}
+
+// Just the text of a section, as the synthesizer wrote it
+export function renderSectionBody(section: DocumentSection): string {
+  return section.blocks.map(block => blockMarkdown(block)).filter(Boolean).join('\n\n');
+}
+
+// Report HTML stored as reports.html_content, with the numbered source list citations refer to
+export function renderReportHTML(document: ReportDocument, sources: ContentItem[]): string {
+  let html = '<div class="research-report">';
+  html += document.sections.map(section => `<section id="${section.id}">${renderSectionHTML(section)}</section>`).join('');
+
+  if (sources.length > 0) {
+    html += '<section class="bibliography">';
+    html += '<h2>Sources</h2>';
+    html += '<ol>';
+
+    sources.forEach(source => {
+      html += '<li>';
+      if (source.translated_title) {
+        html += `<strong>${escapeHTML(source.translated_title)}</strong><br>`;
+        html += `<em>${escapeHTML(source.title)}</em> (translated from ${languageName(source.language)})<br>`;
+      } else {
+        html += `<strong>${escapeHTML(source.title)}</strong><br>`;
+      }
+      html += isWebUrl(source.url)
+        ? `<a href="${escapeHTML(source.url)}" target="_blank" rel="noopener noreferrer">${escapeHTML(source.url)}</a><br>`
+        : `${escapeHTML(source.url)}<br>`;
+      html += `Published: ${source.published_at ? new Date(source.published_at).toISOString().split('T')[0] : 'Unknown'}<br>`;
+      html += `Source: ${escapeHTML(source.source)}<br>`;
+      html += '</li>';
+    });
+
+    html += '</ol>';
+    html += '</section>';
+  }
+
+  html += '</div>';
+  return html;
+}
+
+// A section's title as an <hN> followed by its blocks; headingLevel 0 leaves the title out
+export function renderSectionHTML(section: DocumentSection, headingLevel = 2): string {
+  const heading = headingLevel > 0 ? `<h${headingLevel}>${escapeHTML(section.title)}</h${headingLevel}>` : '';
+  return heading + section.blocks.map(blockHTML).join('\n');
+}
+
+export function renderSpansHTML(spans: DocumentSpan[]): string {
+  return spans.map(span => {
+    if (span.type === 'citation') {
+      const title = span.invalid
+        ? ' title="Cites a source this report does not have"'
+        : span.flagged ? ' title="Not clearly supported by this source"' : '';
+      return `<span class="citation${span.flagged ? ' citation-flagged' : ''}"${title}>[${span.source_number}]</span>`;
+    }
+    return span.bold ? `<strong>${escapeHTML(span.text)}</strong>` : escapeHTML(span.text);
+  }).join('');
+}
+
+// The executive summary for a chat reply, with the other sections listed after it
+export function renderChatMarkdown(document: ReportDocument): string {
+  const summary = document.sections.find(section => section.id === EXECUTIVE_SUMMARY_SECTION_ID);
+  const others = document.sections.filter(section => section !== summary);
+
+  const parts = [summary ? summary.blocks.map(block => blockMarkdown(block, true)).filter(Boolean).join('\n\n') : 'No summary available.'];
+  if (others.length > 0) {
+    parts.push(`**In the full report:** ${others.map(section => section.title).join(' · ')}`);
+  }
+  return parts.join('\n\n');
+}
+
+// Figures only appear in chat, where they read as a short list
+function blockMarkdown(block: DocumentBlock, withFigures = false): string {
+  switch (block.type) {
+    case 'paragraph':
+      return spansMarkdown(block.spans);
+    case 'list':
+      return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${spansMarkdown(item)}`).join('\n');
+    case 'table': {
+      const row = (cells: DocumentSpan[][]) => `| ${cells.map(spansMarkdown).join(' | ')} |`;
+      return [row(block.header), `|${block.header.map(() => ' --- |').join('')}`, ...block.rows.map(row)].join('\n');
+    }
+    case 'figure':
+      return withFigures
+        ? [`*${block.caption}*`, ...block.data.map(point => `- ${point.label}: ${point.value}${block.unit}`)].join('\n')
+        : '';
+  }
+}
+
+function spansMarkdown(spans: DocumentSpan[]): string {
+  return spans.map(span => {
+    if (span.type === 'citation') return `[Source ${span.source_number}]`;
+    return span.bold ? `**${span.text}**` : span.text;
+  }).join('');
+}
+
+function blockHTML(block: DocumentBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+      return `<p>${renderSpansHTML(block.spans)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>${block.items.map(item => `<li>${renderSpansHTML(item)}</li>`).join('')}</${tag}>`;
+    }
+    case 'table':
+      return `<table>
+        <thead><tr>${block.header.map(cell => `<th>${renderSpansHTML(cell)}</th>`).join('')}</tr></thead>
+        <tbody>${block.rows.map(row => `<tr>${row.map(cell => `<td>${renderSpansHTML(cell)}</td>`).join('')}</tr>`).join('')}</tbody>
+      </table>`;
+    case 'figure': {
+      // Bars scaled to the largest value, so the chart renders without scripts (e.g. in PDFs)
+      const max = Math.max(...block.data.map(point => Math.abs(point.value)), 1);
+      return `<figure class="report-figure">
+        ${block.data.map(point => `
+        <div class="figure-row">
+          <span class="figure-label">${escapeHTML(point.label)}${point.source_number ? ` <span class="citation">[${point.source_number}]</span>` : ''}</span>
+          <span class="figure-bar" style="width: ${Math.round(Math.abs(point.value) / max * 60)}%"></span>
+          <span class="figure-value">${point.value}${block.unit}</span>
+        </div>`).join('')}
+        <figcaption>${escapeHTML(block.caption)}</figcaption>
+      </figure>`;
+    }
+  }
+}
+
+// Collected URLs come from feeds and search results, so anything but http(s) (javascript:,
+// data:) is shown as text rather than linked
+function isWebUrl(url: string): boolean {
+  try {
+    const protocol = new URL(url).protocol;
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -1,54 +1,124 @@
-import axios from 'axios';
-import crypto from 'crypto';
 import db from '../db/connection';
-import { ContentItem, Report } from '../types';
+import { ContentItem, FlaggedClaim, Report } from '../types';
 import { ProfessionalPDFGenerator } from './professional-pdf-generator';
 import { BraveScrapingBeeCollector } from '../collectors/brave-scrapingbee-collector';
 import { ContentScorer } from '../scoring/content-scorer';
-
-interface GroqMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+import { SourceRepository } from '../sources/source-repository';
+import { SourceItem } from '../types/sources';
+import { StoryClusterer } from '../clustering/story-clusterer';
+import { INTENT_SCORING_PROFILES, SCORING_PROFILES, ScoringProfileName } from '../config/scoring';
+import { QueryAnalysis } from '../types/chat';
+import { defaultAnalysis } from '../chat/query-analyzer';
+import { Translator } from '../llm/translator';
+import { TaxonomyStore } from '../taxonomy/taxonomy-store';
+import { TopicClassifier } from '../taxonomy/topic-classifier';
+import { EntityStore } from '../entities/entity-store';
+import { ReportSynthesizer, SynthesisStage } from './report-synthesizer';
+import { CitationVerifier } from './citation-verifier';
+import { buildReportDocument, buildSection, findSection, numberCitations, reportDocument } from './report-document';
+import { renderMarkdown, renderReportHTML, renderSectionBody } from './document-renderers';
+import { DocumentSection, EXECUTIVE_SUMMARY_SECTION_ID, ReportDocument } from '../types/report-document';
+import { ReportTemplateRegistry } from './report-template-registry';
+import { ReportTemplateConfig } from '../config/report-templates';
+import { CachedReportMatch, ReportCache, ReportCacheParams, topicHash } from './report-cache';
+
+// A [Source N] marker in the report, numbered in reading order
+interface ExtractedCitation {
+  number: number;
+  sourceNumber: number;
+  sourceId: string;
+  text: string;
+  // The sentence that cites the source
+  context: string;
 }
 
-interface GroqResponse {
-  choices: {
-    message: {
-      content: string;
-    };
-  }[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-  };
+interface VerifiedCitation extends ExtractedCitation {
+  support_score: number;
+  flagged: boolean;
+  flag_reasons: string[];
 }
 
-interface ReportSection {
-  title: string;
+// Everything stored about a report's text, derived from its document
+interface AssembledReport {
+  document: ReportDocument;
   content: string;
-  citations: number[];
+  executive_summary: string;
+  html_content: string;
+  confidence_score: number;
+  word_count: number;
+  citations: VerifiedCitation[];
+  // Verification failures, including invalidCitations
+  flaggedClaims: FlaggedClaim[];
+  // Claims whose [Source N] marker cites a source number the report doesn't have
+  invalidCitations: FlaggedClaim[];
 }
 
-interface GenerationResult {
+export interface GenerationResult {
   success: boolean;
   report?: Report;
   error?: string;
+  // Set when an existing report was returned instead of generating one
+  cached?: CachedReportMatch;
+}
+
+export type GenerationStage = 'searching' | SynthesisStage | 'saving' | 'rendering_pdf';
+
+// Progress range of each synthesis stage, spread over its LLM requests
+const SYNTHESIS_PROGRESS: Record<SynthesisStage, { from: number, to: number, message: string }> = {
+  extracting_evidence: { from: 30, to: 50, message: 'Extracting evidence from sources' },
+  drafting_sections: { from: 50, to: 70, message: 'Drafting report sections' },
+  summarizing: { from: 70, to: 75, message: 'Writing executive summary' }
+};
+
+export interface GenerationOptions {
+  // Invoked as each stage starts; throwing from it aborts the generation
+  onProgress?: (stage: GenerationStage, percentage: number, message: string) => Promise<void> | void;
+  // Scoring profile used to rank sources; when omitted it follows the intent, else the intent the
+  // topic's wording suggests (e.g. "latest ..." ranks by recency)
+  scoringProfile?: ScoringProfileName;
+  intent?: QueryAnalysis['intent'];
+  // Only use sources tagged with at least one of these states (canonical names)
+  states?: string[];
+  // Only use sources tagged with at least one of these taxonomy nodes
+  topics?: string[];
+  // Report template slug; unknown or omitted slugs use the default template. Its source rules
+  // are not applied here - callers resolve them into the arguments above.
+  template?: string;
+  // Generate a new report even if a recent one matches the topic and parameters
+  forceRefresh?: boolean;
+  // max_sources of the cache key when it differs from maxSources: deep dives are looked up by
+  // the requested number before collecting, then sized to the live sources they collected
+  cacheMaxSources?: number;
+  // Job type of the cache key; defaults to standard
+  jobType?: ReportCacheParams['job_type'];
 }
 
 export class ReportGenerator {
-  private groqApiKey: string;
-  private groqApiUrl = 'https://api.groq.com/openai/v1/chat/completions';
+  private synthesizer: ReportSynthesizer;
   private pdfGenerator: ProfessionalPDFGenerator;
   private braveCollector: BraveScrapingBeeCollector | null = null;
   private contentScorer: ContentScorer;
+  private sourceRepository: SourceRepository;
+  private storyClusterer: StoryClusterer;
+  private translator: Translator;
+  private taxonomyStore: TaxonomyStore;
+  private entityStore: EntityStore;
+  private citationVerifier: CitationVerifier;
+  private templateRegistry: ReportTemplateRegistry;
+  private reportCache: ReportCache;
 
   constructor() {
-    this.groqApiKey = process.env.GROQ_API_KEY || '';
-    if (!this.groqApiKey) {
-      throw new Error('GROQ_API_KEY environment variable is required');
-    }
+    this.synthesizer = new ReportSynthesizer();
     this.pdfGenerator = new ProfessionalPDFGenerator();
     this.contentScorer = new ContentScorer();
+    this.sourceRepository = new SourceRepository(this.contentScorer);
+    this.storyClusterer = new StoryClusterer(this.sourceRepository);
+    this.translator = new Translator();
+    this.taxonomyStore = new TaxonomyStore();
+    this.entityStore = new EntityStore(this.sourceRepository);
+    this.citationVerifier = new CitationVerifier();
+    this.templateRegistry = new ReportTemplateRegistry();
+    this.reportCache = new ReportCache();
     
     // Initialize Brave + ScrapingBee collector if keys available
     const braveKey = process.env.BRAVE_API_KEY;
@@ -65,14 +135,32 @@ export class ReportGenerator {
   async generateReport(
     topic: string, 
     maxSources = 15, 
-    timeRangeDays = 30
+    timeRangeDays = 30,
+    options: GenerationOptions = {}
   ): Promise<GenerationResult> {
     const startTime = Date.now();
     console.log(`📊 Starting report generation for: "${topic}"`);
 
+    const progress = async (stage: GenerationStage, percentage: number, message: string) => {
+      if (options.onProgress) {
+        await options.onProgress(stage, percentage, message);
+      }
+    };
+
     try {
+      // A recent report on the same question saves the searches and LLM calls below
+      const { template, cacheParams } = await this.resolveParams(topic, maxSources, timeRangeDays, options);
+      if (!options.forceRefresh) {
+        const cached = await this.reportCache.lookup(topic, cacheParams, options.intent);
+        if (cached) {
+          return { success: true, report: cached.report, cached };
+        }
+      }
+
       // Step 1: Search and retrieve relevant content
-      const sources = await this.findRelevantSources(topic, maxSources, timeRangeDays);
+      await progress('searching', 10, 'Searching for relevant sources...');
+      const { scoring_profile: scoringProfile, states, topics } = cacheParams;
+      const sources = await this.findRelevantSources(topic, maxSources, timeRangeDays, scoringProfile, states, topics);
       
       if (sources.length === 0) {
         return {
@@ -82,78 +170,71 @@ export class ReportGenerator {
       }
 
       console.log(`📚 Found ${sources.length} relevant sources`);
+      await this.translateSources(sources);
 
-      // Step 2: Generate report content using LLM
-      const reportContent = await this.generateReportContent(topic, sources);
-      
-      // Step 3: Extract citations and create structured data
-      const { sections, citations } = this.extractCitationsFromContent(reportContent, sources);
-      
-      // Step 4: Generate executive summary
-      const executiveSummary = await this.generateExecutiveSummary(reportContent, sources.length);
-      
-      // Step 5: Calculate quality metrics
-      const qualityMetrics = this.calculateQualityMetrics(sources, reportContent);
+      // Steps 2-4: Extract evidence from every source, draft the template's sections, then summarise
+      const synthesis = await this.synthesizer.synthesize(topic, sources, template, (stage, completed, total) => {
+        const { from, to, message } = SYNTHESIS_PROGRESS[stage];
+        return progress(stage, Math.round(from + (to - from) * completed / total), `${message} (${completed + 1}/${total})...`);
+      });
+
+      // Structure the drafted text; the executive summary is the document's first section
+      const title = this.generateReportTitle(topic, template);
+      const document = buildReportDocument(title, [
+        { title: 'Executive Summary', content: synthesis.executive_summary },
+        ...synthesis.sections
+      ], sources.length);
+
+      // Step 5: Verify citations and calculate quality metrics
+      const assembled = await this.assemble(document, sources);
       
       // Step 6: Create report metadata
       const reportData = {
         topic,
-        topic_hash: this.generateTopicHash(topic),
-        title: this.generateReportTitle(topic),
-        content: reportContent,
-        executive_summary: executiveSummary,
-        methodology: this.generateMethodology(sources.length, timeRangeDays),
-        confidence_score: qualityMetrics.confidenceScore,
+        topic_hash: topicHash(topic),
+        title,
+        content: assembled.content,
+        executive_summary: assembled.executive_summary,
+        methodology: this.generateMethodology(sources.length, timeRangeDays, scoringProfile),
+        confidence_score: assembled.confidence_score,
         source_count: sources.length,
-        citation_count: citations.length,
-        word_count: this.countWords(reportContent),
+        citation_count: assembled.citations.length,
+        word_count: assembled.word_count,
         generation_time_ms: Date.now() - startTime,
         source_ids: sources.map(s => s.id),
-        html_content: this.convertToHTML(sections, sources, citations)
+        html_content: assembled.html_content,
+        document,
+        template: template.slug,
+        invalid_citations: assembled.invalidCitations
       };
 
       // Step 7: Save report to database
+      await progress('saving', 80, 'Saving report and citations...');
       const report = await db.insertReport(reportData);
+      report.flagged_claims = assembled.flaggedClaims;
       console.log(`💾 Report saved with ID: ${report.id}`);
 
-      // Step 8: Save citations - Handle both content items and RSS articles
-      const citationRecords = citations.map(citation => {
-        // Find the source to determine if it's from RSS or content_items
-        const source = sources.find(s => s.id === citation.sourceId);
-        const isRSSArticle = source && source.source.includes('rss') || source?.source.includes('et_hr') || source?.source.includes('indian_hr_blogs');
-        
-        return {
-          report_id: report.id,
-          content_item_id: isRSSArticle ? undefined : citation.sourceId,
-          citation_number: citation.number,
-          quoted_text: citation.text,
-          context: citation.context,
-          source_type: isRSSArticle ? 'rss_article' as const : 'content_item' as const,
-          source_id: citation.sourceId
-        };
-      });
+      // The companies, government bodies, people and places the sources discuss
+      try {
+        report.entities = await this.entityStore.forSources(sources);
+        await this.entityStore.saveReportEntities(report.id, report.entities);
+      } catch (error) {
+        console.error('⚠️ Entity listing failed:', error);
+      }
 
+      // Step 8: Save citations
+      const citationRecords = this.citationRecords(report.id, assembled.citations, sources);
       if (citationRecords.length > 0) {
         await db.insertCitations(citationRecords);
         console.log(`📝 Saved ${citationRecords.length} citations`);
       }
 
+      // Only offered from the cache once its entities and citations are saved
+      await this.reportCache.remember(report, cacheParams, !!options.forceRefresh);
+
       // Step 9: Generate PDF
-      try {
-        const pdfPath = await this.pdfGenerator.generatePDF(report, sources, citations);
-        
-        // Update report with PDF path
-        await db.query(
-          'UPDATE reports SET pdf_path = $1 WHERE id = $2',
-          [pdfPath, report.id]
-        );
-        
-        report.pdf_path = pdfPath;
-        console.log(`📄 PDF generated: ${pdfPath}`);
-      } catch (pdfError) {
-        console.error('PDF generation failed:', pdfError);
-        // Continue without PDF - report is still valid
-      }
+      await progress('rendering_pdf', 90, 'Rendering PDF...');
+      await this.renderPDF(report, sources, assembled.citations);
 
       const totalTime = Date.now() - startTime;
       console.log(`✅ Report generation completed in ${totalTime}ms`);
@@ -172,25 +253,198 @@ export class ReportGenerator {
     }
   }
 
+  // A recent report that already answers this request, without generating anything; the hit is
+  // counted in the cache stats. Null when there is none or options.forceRefresh is set.
+  async findCachedReport(topic: string, maxSources: number, timeRangeDays: number, options: GenerationOptions = {}): Promise<CachedReportMatch | null> {
+    if (options.forceRefresh) return null;
+    const { cacheParams } = await this.resolveParams(topic, maxSources, timeRangeDays, options);
+    return this.reportCache.lookup(topic, cacheParams, options.intent);
+  }
+
+  // The template and the source selection a request resolves to, which is also its cache key
+  private async resolveParams(topic: string, maxSources: number, timeRangeDays: number, options: GenerationOptions): Promise<{ template: ReportTemplateConfig, cacheParams: ReportCacheParams }> {
+    const template = await this.templateRegistry.resolve(options.template);
+    return {
+      template,
+      cacheParams: {
+        max_sources: options.cacheMaxSources ?? maxSources,
+        time_range_days: timeRangeDays,
+        scoring_profile: options.scoringProfile || INTENT_SCORING_PROFILES[options.intent || defaultAnalysis(topic).intent],
+        states: options.states || [],
+        topics: options.topics || [],
+        template: template.slug,
+        job_type: options.jobType || 'standard'
+      }
+    };
+  }
+
+  // Redrafts one section of a saved report from the report's own sources, then re-verifies its
+  // citations and re-renders the report. Null when the report or section doesn't exist.
+  async regenerateSection(reportId: string, id: string): Promise<{ report: Report, section: DocumentSection } | null> {
+    const report = await db.getReport(reportId);
+    if (!report) return null;
+
+    const document = reportDocument(report);
+    const section = findSection(document, id);
+    if (!section) return null;
+
+    console.log(`🔁 Regenerating "${section.title}" of report ${report.id}`);
+
+    // [Source N] markers in the other sections must keep pointing at the same items
+    const sources = await this.sourceRepository.getByIds(report.source_ids);
+    if (sources.length !== report.source_ids.length) {
+      throw new Error(`${report.source_ids.length - sources.length} of the report's sources are no longer available`);
+    }
+    await this.translateSources(sources);
+
+    // Reports from before templates were all written to the default one
+    const template = await this.templateRegistry.resolve(report.template);
+    const others = document.sections.filter(other => other !== section);
+    const markdown = section.id === EXECUTIVE_SUMMARY_SECTION_ID
+      ? await this.synthesizer.summarize(report.topic, template, others.map(other => ({ title: other.title, content: renderSectionBody(other) })), sources.length)
+      : await this.synthesizer.redraftSection(report.topic, template, section.title, sources, others.map(other => other.title));
+
+    const regenerated = buildSection(section.id, section.title, markdown, sources.length);
+    document.sections = document.sections.map(existing => existing === section ? regenerated : existing);
+
+    const assembled = await this.assemble(document, sources);
+    const updated = await db.updateReportContent(report.id, {
+      content: assembled.content,
+      executive_summary: assembled.executive_summary,
+      html_content: assembled.html_content,
+      confidence_score: assembled.confidence_score,
+      citation_count: assembled.citations.length,
+      word_count: assembled.word_count,
+      document,
+      invalid_citations: assembled.invalidCitations
+    }, this.citationRecords(report.id, assembled.citations, sources));
+    if (!updated) return null;
+
+    updated.flagged_claims = assembled.flaggedClaims;
+    updated.entities = await this.entityStore.forReport(report.id);
+    await this.renderPDF(updated, sources, assembled.citations);
+
+    return { report: updated, section: regenerated };
+  }
+
+  // Renders a report's document and verifies its citations against the sources
+  private async assemble(document: ReportDocument, sources: SourceItem[]): Promise<AssembledReport> {
+    const content = renderMarkdown(document);
+    const { citations: extracted, invalid } = this.extractCitationsFromContent(content, sources);
+
+    // Check each cited sentence against the source it cites
+    const checks = await this.citationVerifier.verify(extracted.map(citation => ({
+      claim: citation.context,
+      source: sources[citation.sourceNumber - 1]
+    })));
+    const citations = extracted.map((citation, index) => ({
+      ...citation,
+      support_score: checks[index].support_score,
+      flagged: checks[index].flagged,
+      flag_reasons: checks[index].reasons
+    }));
+    const invalidCitations: FlaggedClaim[] = invalid.map(citation => ({
+      citation_number: null,
+      source_number: citation.sourceNumber,
+      claim: citation.context,
+      support_score: 0,
+      reasons: [`cites Source ${citation.sourceNumber}, but the report has ${sources.length} sources`]
+    }));
+    const flaggedClaims: FlaggedClaim[] = [
+      ...citations.filter(citation => citation.flagged).map(citation => ({
+        citation_number: citation.number,
+        source_number: citation.sourceNumber,
+        claim: citation.context,
+        source_title: citation.text,
+        support_score: citation.support_score,
+        reasons: citation.flag_reasons
+      })),
+      ...invalidCitations
+    ];
+    if (flaggedClaims.length > 0) {
+      console.log(`🚩 ${flaggedClaims.length}/${citations.length + invalid.length} cited claims lack support in their sources`);
+    }
+    numberCitations(document, citations);
+
+    const summary = findSection(document, EXECUTIVE_SUMMARY_SECTION_ID);
+    // A made-up source number counts as a citation with no support
+    const qualityMetrics = this.calculateQualityMetrics(sources, content, [...citations.map(citation => citation.support_score), ...invalid.map(() => 0)]);
+
+    return {
+      document,
+      content,
+      executive_summary: summary ? renderSectionBody(summary) : '',
+      html_content: renderReportHTML(document, sources),
+      confidence_score: qualityMetrics.confidenceScore,
+      word_count: this.countWords(content),
+      citations,
+      flaggedClaims,
+      invalidCitations
+    };
+  }
+
+  // Citation rows - each source knows which table it came from
+  private citationRecords(reportId: string, citations: VerifiedCitation[], sources: SourceItem[]) {
+    return citations.map(citation => {
+      const source = sources.find(s => s.id === citation.sourceId);
+      const sourceType = source?.source_type || 'content_item';
+      
+      return {
+        report_id: reportId,
+        content_item_id: sourceType === 'content_item' ? citation.sourceId : undefined,
+        citation_number: citation.number,
+        quoted_text: citation.text,
+        context: citation.context,
+        source_type: sourceType,
+        source_id: citation.sourceId,
+        support_score: citation.support_score,
+        flagged: citation.flagged,
+        flag_reasons: citation.flag_reasons
+      };
+    });
+  }
+
+  private async renderPDF(report: Report, sources: ContentItem[], citations: VerifiedCitation[]): Promise<void> {
+    try {
+      const pdfPath = await this.pdfGenerator.generatePDF(report, sources, citations);
+      
+      // Update report with PDF path
+      await db.query(
+        'UPDATE reports SET pdf_path = $1 WHERE id = $2',
+        [pdfPath, report.id]
+      );
+      
+      report.pdf_path = pdfPath;
+      console.log(`📄 PDF generated: ${pdfPath}`);
+    } catch (pdfError) {
+      console.error('PDF generation failed:', pdfError);
+      // Continue without PDF - report is still valid
+    }
+  }
+
   private async findRelevantSources(
     topic: string, 
     maxSources: number, 
-    timeRangeDays: number
-  ): Promise<ContentItem[]> {
-    console.log(`🔍 Searching for content related to: "${topic}"`);
+    timeRangeDays: number,
+    scoringProfile: ScoringProfileName,
+    states: string[],
+    topics: string[]
+  ): Promise<SourceItem[]> {
+    console.log(`🔍 Searching for content related to: "${topic}" (scoring profile: ${scoringProfile}${states.length ? `, states: ${states.join(', ')}` : ''}${topics.length ? `, topics: ${topics.join(', ')}` : ''})`);
     
-    let sources: ContentItem[] = [];
+    let sources: SourceItem[] = [];
     
-    // 1. SEARCH RSS ARTICLES FIRST
-    console.log('📰 Searching RSS articles database...');
+    // 1. SEARCH STORED SOURCES FIRST (RSS articles and previously collected web pages)
+    console.log('📰 Searching stored RSS articles and web sources...');
     try {
-      const rssArticles = await this.searchRSSArticles(topic, Math.floor(maxSources / 2));
-      if (rssArticles.length > 0) {
-        console.log(`✅ Found ${rssArticles.length} relevant RSS articles`);
-        sources = sources.concat(rssArticles);
+      const storedSources = await this.sourceRepository.search(topic, { limit: Math.floor(maxSources / 2), states, topics, scoringProfile });
+      if (storedSources.length > 0) {
+        const rssCount = storedSources.filter(s => s.source_type === 'rss_article').length;
+        console.log(`✅ Found ${storedSources.length} relevant stored sources (RSS: ${rssCount}, web: ${storedSources.length - rssCount})`);
+        sources = sources.concat(storedSources);
       }
     } catch (error) {
-      console.error('⚠️ RSS search failed:', error);
+      console.error('⚠️ Stored source search failed:', error);
     }
     
     // 2. THEN DO REAL-TIME BRAVE + SCRAPINGBEE SEARCH
@@ -216,19 +470,13 @@ export class ReportGenerator {
         
         console.log(`✅ Collected ${rawItems.length} fresh articles from Brave + ScrapingBee`);
         
-        // Score and convert to ContentItems
+        // Score and store, so the results get real ids that citations can point at
         if (rawItems.length > 0) {
           const scoredItems = this.contentScorer.scoreMultipleItems(rawItems, 'brave_realtime');
-          
-          // Convert to ContentItems format (without saving to DB)
-          const braveContent = scoredItems.map(item => ({
-            ...item,
-            id: crypto.randomUUID(),
-            collected_at: new Date()
-          } as ContentItem));
+          const braveContent = await this.sourceRepository.saveWebItems(scoredItems);
           
           sources = sources.concat(braveContent);
-          console.log(`🎯 Total sources: ${sources.length} (RSS: ${sources.filter(s => s.source.includes('et_hr') || s.source.includes('google_news')).length}, Brave: ${braveContent.length})`);
+          console.log(`🎯 Total sources: ${sources.length} (RSS: ${sources.filter(s => s.source_type === 'rss_article').length}, Brave: ${braveContent.length})`);
         }
         
       } catch (error) {
@@ -236,10 +484,10 @@ export class ReportGenerator {
       }
     }
     
-    // If no real-time results or collector not available, fall back to database
+    // If nothing was found yet, widen the stored search
     if (sources.length === 0) {
       console.log('📚 Using database content (no real-time search available)');
-      sources = await db.searchContentItems(topic, maxSources);
+      sources = await this.sourceRepository.search(topic, { limit: maxSources, states, topics, scoringProfile });
       
       // If not enough results, try broader search with keywords
       if (sources.length < maxSources / 2) {
@@ -247,20 +495,21 @@ export class ReportGenerator {
         console.log(`🔍 Expanding search with keywords: ${keywords.join(', ')}`);
         
         for (const keyword of keywords) {
-          const additionalSources = await db.searchContentItems(keyword, 10);
+          const additionalSources = await this.sourceRepository.search(keyword, { limit: 10, states, topics, scoringProfile });
           sources = sources.concat(additionalSources);
         }
         
-        // Remove duplicates and sort by relevance
         sources = sources
-          .filter((source, index, self) => 
-            index === self.findIndex(s => s.id === source.id)
-          )
-          .sort((a, b) => Number(b.composite_score) - Number(a.composite_score))
+          .sort((a, b) => b.composite_score - a.composite_score)
           .slice(0, maxSources);
       }
     }
 
+    // The same page can come back from several searches
+    sources = sources.filter((source, index, self) =>
+      index === self.findIndex(s => s.source_type === source.source_type && s.id === source.id)
+    );
+
     // Filter by time range
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - timeRangeDays);
@@ -268,296 +517,129 @@ export class ReportGenerator {
     sources = sources.filter(source => 
       new Date(source.published_at || source.collected_at) > cutoffDate
     );
+
+    // Real-time results aren't filtered by the search, so apply the state filter to everything
+    if (states.length > 0) {
+      sources = sources.filter(source => source.states?.some(state => states.includes(state)));
+    }
+
+    // Likewise for topics; fresh results haven't been through the classification worker yet
+    if (topics.length > 0) {
+      const classifier = new TopicClassifier(await this.taxonomyStore.listNodes());
+      sources = sources.filter(source => {
+        const tagged = source.topics?.length
+          ? source.topics
+          : classifier.classify(source.title, source.full_content || source.snippet || '').map(tag => tag.slug);
+        return tagged.some(slug => topics.includes(slug));
+      });
+    }
     
     console.log(`🔍 Using ${sources.length} sources for report generation`);
 
+    // Stored sources were retrieved with the profile already; live results are re-weighted here
+    const profile = SCORING_PROFILES[scoringProfile];
+    sources = sources.map(source => this.contentScorer.applyProfile(source, profile));
+
     // Prioritize high-quality sources
     sources = sources
       .filter(source => Number(source.composite_score) > 0.3)
       .sort((a, b) => Number(b.composite_score) - Number(a.composite_score));
 
+    // One copy per story, so a syndicated press release doesn't fill the source list
+    const beforeCollapse = sources.length;
+    sources = await this.storyClusterer.collapse(sources);
+    if (sources.length < beforeCollapse) {
+      console.log(`🧩 Dropped ${beforeCollapse - sources.length} syndicated copies of stories already in the source list`);
+    }
+
     console.log(`📊 Selected ${sources.length} high-quality sources (avg score: ${(sources.reduce((sum, s) => sum + Number(s.composite_score), 0) / sources.length).toFixed(3)})`);
     
     return sources;
   }
 
-  private async generateReportContent(topic: string, sources: ContentItem[]): Promise<string> {
-    console.log('🤖 Generating report content with Groq AI...');
-    
-    // Prepare context from sources
-    const sourceContext = sources.map((source, index) => 
-      `[Source ${index + 1}] ${source.title}\n` +
-      `URL: ${source.url}\n` +
-      `Published: ${source.published_at?.toISOString().split('T')[0] || 'Unknown'}\n` +
-      `Content: ${(source.full_content || source.snippet || '').substring(0, 1000)}\n` +
-      '---'
-    ).join('\n');
-
-    const messages: GroqMessage[] = [
-      {
-        role: 'system',
-        content: `You are an expert HR researcher specializing in the Indian job market. You write comprehensive, data-driven reports based on recent news and developments. 
-
-Your reports should:
-- Be factual and analytical, not promotional
-- Include specific statistics, dates, and numbers when available
-- Reference sources using [Source X] format
-- Focus on trends, implications, and actionable insights
-- Use professional business language
-- Structure content with clear sections and subheadings
-- Cite sources frequently throughout the text
-
-Write a comprehensive research report on the given topic using only the provided sources.`
-      },
-      {
-        role: 'user',
-        content: `Topic: ${topic}
-
-Please write a comprehensive research report using these sources:
-
-${sourceContext}
-
-The report should be well-structured with:
-1. Executive Summary
-2. Key Findings
-3. Current Market Trends  
-4. Statistical Analysis
-5. Regional/Sector Breakdown (if applicable)
-6. Future Implications
-7. Recommendations
-
-Use [Source X] citations throughout. Focus on Indian HR market context.`
-      }
-    ];
-
-    try {
-      const response = await axios.post<GroqResponse>(this.groqApiUrl, {
-        model: 'llama-3.3-70b-versatile',
-        messages,
-        temperature: 0.3,
-        max_tokens: 4000
-      }, {
-        headers: {
-          'Authorization': `Bearer ${this.groqApiKey}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      const content = response.data.choices[0].message.content;
-      console.log(`📝 Generated ${this.countWords(content)} words using ${response.data.usage.completion_tokens} tokens`);
-      
-      return content;
+  // Regional-language sources are synthesised from their English translation, cached on the
+  // item so later reports don't translate it again. Untranslated sources are used as they are.
+  private async translateSources(sources: SourceItem[]): Promise<void> {
+    const pending = sources.filter(source => source.language && source.language !== 'en' && !source.translated_content);
+    if (pending.length === 0) return;
 
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error('Groq API error:', error);
-      throw new Error(`Failed to generate content: ${errorMessage}`);
+    if (!this.translator.isEnabled()) {
+      console.log(`🌐 ${pending.length} non-English sources will be used untranslated (translation disabled)`);
+      return;
     }
-  }
 
-  private async generateExecutiveSummary(content: string, sourceCount: number): Promise<string> {
-    console.log('📋 Generating executive summary...');
-    
-    const messages: GroqMessage[] = [
-      {
-        role: 'system',
-        content: 'You are a senior business analyst. Create a concise executive summary that highlights the most important findings and recommendations.'
-      },
-      {
-        role: 'user',
-        content: `Based on this research report, write a 150-200 word executive summary that covers:
-- Key findings
-- Main trends identified  
-- Critical implications
-- Primary recommendations
-
-Report content:
-${content.substring(0, 3000)}
-
-Note: This analysis is based on ${sourceCount} recent sources from the Indian HR market.`
+    console.log(`🌐 Translating ${pending.length} non-English sources...`);
+    for (const source of pending) {
+      try {
+        const translation = await this.translator.translate(source.title, source.full_content || source.snippet || '', source.language);
+        await this.sourceRepository.saveTranslation(source, translation);
+        source.translated_title = translation.title;
+        source.translated_content = translation.content;
+      } catch (error) {
+        console.error(`⚠️ Translation failed for ${source.url}:`, error instanceof Error ? error.message : error);
       }
-    ];
-
-    try {
-      const response = await axios.post<GroqResponse>(this.groqApiUrl, {
-        model: 'llama-3.3-70b-versatile',
-        messages,
-        temperature: 0.2,
-        max_tokens: 300
-      }, {
-        headers: {
-          'Authorization': `Bearer ${this.groqApiKey}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      return response.data.choices[0].message.content;
-
-    } catch (error: unknown) {
-      console.error('Executive summary generation failed:', error);
-      return `Executive Summary: This research report analyzes recent developments in the Indian HR market based on ${sourceCount} sources. The analysis covers key trends, statistical insights, and strategic implications for HR professionals and business leaders.`;
     }
   }
 
-  private extractCitationsFromContent(content: string, sources: ContentItem[]): {
-    sections: ReportSection[];
-    citations: { number: number; sourceId: string; text: string; context: string; }[];
-  } {
-    const citations: { number: number; sourceId: string; text: string; context: string; }[] = [];
+  // Markers citing one of the sources become citations; the rest (a source number the model
+  // made up) are returned as invalid, with the sentence they were attached to
+  private extractCitationsFromContent(content: string, sources: ContentItem[]): { citations: ExtractedCitation[], invalid: { sourceNumber: number, context: string }[] } {
+    const citations: ExtractedCitation[] = [];
+    const invalid: { sourceNumber: number, context: string }[] = [];
     const citationRegex = /\[Source (\d+)\]/g;
     
     let match;
     while ((match = citationRegex.exec(content)) !== null) {
       const sourceNumber = parseInt(match[1]) - 1;
+      // The sentence the marker cites, which is what gets verified against the source
+      const context = this.citedSentence(content, match.index);
       if (sourceNumber >= 0 && sourceNumber < sources.length) {
         const source = sources[sourceNumber];
         
-        // Extract surrounding context (50 chars before and after)
-        const start = Math.max(0, match.index - 50);
-        const end = Math.min(content.length, match.index + match[0].length + 50);
-        const context = content.substring(start, end);
-        
         citations.push({
           number: citations.length + 1,
+          sourceNumber: sourceNumber + 1,
           sourceId: source.id,
-          text: source.title,
-          context: context.replace(/\s+/g, ' ').trim()
+          text: source.translated_title || source.title,
+          context
         });
-      }
-    }
-
-    // Split content into sections (simple heuristic based on headers)
-    const sections: ReportSection[] = [];
-    // const sectionRegex = /^(#{1,3}|\d+\.)\s+(.+)$/gm; // Currently unused
-    let currentSection = '';
-    let currentContent = '';
-    
-    const lines = content.split('\n');
-    
-    for (const line of lines) {
-      const headerMatch = line.match(/^(#{1,3}|\d+\.)\s+(.+)$/);
-      
-      if (headerMatch) {
-        if (currentSection) {
-          sections.push({
-            title: currentSection,
-            content: currentContent.trim(),
-            citations: this.extractCitationNumbers(currentContent)
-          });
-        }
-        currentSection = headerMatch[2];
-        currentContent = '';
       } else {
-        currentContent += line + '\n';
+        invalid.push({ sourceNumber: sourceNumber + 1, context });
       }
     }
-    
-    // Add final section
-    if (currentSection) {
-      sections.push({
-        title: currentSection,
-        content: currentContent.trim(),
-        citations: this.extractCitationNumbers(currentContent)
-      });
-    }
 
-    console.log(`📊 Extracted ${citations.length} citations across ${sections.length} sections`);
+    console.log(`📊 Extracted ${citations.length} citations${invalid.length > 0 ? ` (${invalid.length} citing sources the report doesn't have)` : ''}`);
     
-    return { sections, citations };
+    return { citations, invalid };
   }
 
-  private extractCitationNumbers(text: string): number[] {
-    const matches = text.match(/\[Source (\d+)\]/g) || [];
-    return matches.map(match => {
-      const numberMatch = match.match(/\d+/);
-      return parseInt(numberMatch ? numberMatch[0] : '0');
-    });
-  }
-
-  private async searchRSSArticles(topic: string, limit: number): Promise<ContentItem[]> {
-    try {
-      // Auto-create RSS tables if they don't exist
-      try {
-        await db.query('SELECT 1 FROM rss_articles LIMIT 1');
-      } catch (error: any) {
-        if (error.code === '42P01') {
-          console.log('📰 RSS tables not found, skipping RSS search');
-          return [];
-        }
-      }
-      
-      // Search RSS articles in database
-      const query = `
-        SELECT 
-          id::text as id,
-          feed_group as source,
-          url as source_url,
-          title,
-          url,
-          md5(url) as content_hash,
-          description as snippet,
-          description as full_content,
-          author,
-          published_at,
-          collected_at,
-          categories,
-          'en' as language,
-          0.75 as domain_authority,
-          0.8 as indian_context_score,
-          0.9 as freshness_score,
-          0.7 as extractability_score,
-          0.8 as composite_score,
-          true as has_statistics,
-          true as has_dates,
-          true as has_numbers,
-          length(description) / 5 as word_count
-        FROM rss_articles 
-        WHERE 
-          to_tsvector('english', title || ' ' || COALESCE(description, '')) 
-          @@ plainto_tsquery('english', $1)
-          OR title ILIKE '%' || $1 || '%'
-          OR description ILIKE '%' || $1 || '%'
-        ORDER BY published_at DESC 
-        LIMIT $2
-      `;
-      
-      const result = await db.query(query, [topic, limit]);
-      return result.rows as ContentItem[];
-      
-    } catch (error) {
-      console.error('Failed to search RSS articles:', error);
-      return [];
-    }
+  // The sentence a [Source N] marker at index belongs to, whether the marker comes before or
+  // after its full stop. Markers right before it cite the same text; an earlier marker on the
+  // line ends the clause it cites.
+  private citedSentence(content: string, index: number): string {
+    const lineStart = content.lastIndexOf('\n', index - 1) + 1;
+    const before = content.substring(lineStart, index).replace(/(?:\s*\[Source \d+\])+\s*$/, '');
+    const clause = (before.split(/\[Source \d+\]/).pop() || '').trim();
+    const sentence = (clause.split(/(?<=[.!?])\s+/).pop() || '')
+      .replace(/^\s*(?:[-*•]|\d+\.)\s*/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    return sentence.length > 400 ? sentence.substring(sentence.length - 400) : sentence;
   }
 
   private extractKeywords(topic: string): string[] {
-    // Simple keyword extraction - could be enhanced with NLP
+    // Related terms (attrition vs turnover) are left to semantic search, which matches them
+    // without a hand-kept synonym list
     const keywords = topic
       .toLowerCase()
       .replace(/[^\w\s]/g, '')
       .split(/\s+/)
       .filter(word => word.length > 3);
     
-    // Add HR-related synonyms and expansions
-    const expansions: { [key: string]: string[] } = {
-      'attrition': ['turnover', 'retention', 'quit', 'resign'],
-      'hiring': ['recruitment', 'talent', 'job', 'employment'],
-      'salary': ['compensation', 'wage', 'pay', 'benefits'],
-      'remote': ['wfh', 'hybrid', 'flexible', 'telecommute'],
-      'skills': ['upskilling', 'training', 'development', 'learning']
-    };
-    
-    const expandedKeywords = [...keywords];
-    keywords.forEach(keyword => {
-      if (expansions[keyword]) {
-        expandedKeywords.push(...expansions[keyword]);
-      }
-    });
-    
-    return [...new Set(expandedKeywords)].slice(0, 10);
+    return [...new Set(keywords)].slice(0, 10);
   }
 
-  private calculateQualityMetrics(sources: ContentItem[], content: string): {
+  private calculateQualityMetrics(sources: ContentItem[], content: string, supportScores: number[]): {
     confidenceScore: number;
   } {
     // Calculate confidence based on multiple factors
@@ -581,65 +663,29 @@ Note: This analysis is based on ${sourceCount} recent sources from the Indian HR
     const citationDensity = citations / Math.max(1, wordCount / 100);
     const citationFactor = Math.min(1.0, citationDensity / 5);
     confidence += citationFactor * 0.1;
+
+    // Factor 5: How well the cited sources support the claims; unsupported claims cost up to half
+    if (supportScores.length > 0) {
+      const meanSupport = supportScores.reduce((sum, score) => sum + score, 0) / supportScores.length;
+      confidence *= 0.5 + 0.5 * meanSupport;
+    }
     
     return {
       confidenceScore: Math.min(1.0, Math.max(0.1, confidence))
     };
   }
 
-  private generateTopicHash(topic: string): string {
-    return crypto.createHash('md5').update(topic.toLowerCase()).digest('hex');
-  }
-
-  private generateReportTitle(topic: string): string {
+  private generateReportTitle(topic: string, template: ReportTemplateConfig): string {
     // Capitalize and format topic as a report title
     return topic.charAt(0).toUpperCase() + topic.slice(1) + 
-           ` - Indian HR Market Analysis ${new Date().getFullYear()}`;
+           ` - ${template.name} ${new Date().getFullYear()}`;
   }
 
-  private generateMethodology(sourceCount: number, timeRangeDays: number): string {
-    return `This report was generated through automated analysis of ${sourceCount} recent sources from the Indian HR market, covering the ${timeRangeDays}-day period ending ${new Date().toISOString().split('T')[0]}. Sources were selected based on relevance, authority, and recency, then analyzed using AI to extract key insights and trends.`;
+  private generateMethodology(sourceCount: number, timeRangeDays: number, scoringProfile: ScoringProfileName): string {
+    return `This report was generated through automated analysis of ${sourceCount} recent sources from the Indian HR market, covering the ${timeRangeDays}-day period ending ${new Date().toISOString().split('T')[0]}. Sources were selected based on relevance, authority, and recency (${scoringProfile} scoring profile: ${SCORING_PROFILES[scoringProfile].description.toLowerCase()}), then analyzed using AI to extract key insights and trends.`;
   }
 
   private countWords(text: string): number {
     return text.trim().split(/\s+/).filter(word => word.length > 0).length;
   }
-
-  private convertToHTML(
-    sections: ReportSection[], 
-    sources: ContentItem[], 
-    _citations: { number: number; sourceId: string; text: string; context: string; }[]
-  ): string {
-    let html = '<div class="research-report">';
-    
-    // Add sections
-    sections.forEach(section => {
-      html += '<section>';
-      html += `<h2>${section.title}</h2>`;
-      html += `<div class="content">${section.content.replace(/\n/g, '<br>')}</div>`;
-      html += '</section>';
-    });
-    
-    // Add bibliography
-    if (sources.length > 0) {
-      html += '<section class="bibliography">';
-      html += '<h2>Sources</h2>';
-      html += '<ol>';
-      
-      sources.forEach((source, _index) => {
-        html += '<li>';
-        html += `<strong>${source.title}</strong><br>`;
-        html += `<a href="${source.url}" target="_blank">${source.url}</a><br>`;
-        html += `Published: ${source.published_at?.toISOString().split('T')[0] || 'Unknown'}<br>`;
-        html += `Source: ${source.source}<br>`;
-        html += '</li>';
-      });
-      
-      html += '</ol>';
-      html += '</section>';
-    }
-    
-    html += '</div>';
-    return html;
-  }
-}
\ No newline at end of file
+}
@@ -2,6 +2,9 @@ import puppeteer from 'puppeteer';
 import fs from 'fs/promises';
 import path from 'path';
 import { ContentItem, Report } from '../types';
+import { EXECUTIVE_SUMMARY_SECTION_ID, ReportDocument } from '../types/report-document';
+import { findSection, reportDocument } from './report-document';
+import { renderSectionHTML } from './document-renderers';
 
 interface CitationData {
   number: number;
@@ -94,6 +97,7 @@ export class PDFGenerator {
     citations: CitationData[]
   ): Promise<string> {
     const charts = this.generateChartsData(sources);
+    const document = reportDocument(report);
     
     return `
 <!DOCTYPE html>
@@ -110,8 +114,8 @@ export class PDFGenerator {
 <body>
     <div class="report-container">
         ${this.generateTitlePage(report)}
-        ${this.generateExecutiveSummary(report)}
-        ${this.generateMainContent(report)}
+        ${this.generateExecutiveSummary(document)}
+        ${this.generateMainContent(document)}
         ${this.generateCharts(charts)}
         ${this.generateSourcesSection(sources)}
         ${this.generateAppendix(report, sources, citations)}
@@ -175,25 +179,29 @@ export class PDFGenerator {
     <div class="page-break"></div>`;
   }
 
-  private generateExecutiveSummary(report: Report): string {
-    if (!report.executive_summary) return '';
+  private generateExecutiveSummary(document: ReportDocument): string {
+    const summary = findSection(document, EXECUTIVE_SUMMARY_SECTION_ID);
+    if (!summary) return '';
     
     return `
     <div class="executive-summary">
         <h2>Executive Summary</h2>
         <div class="summary-content">
-            ${this.formatTextContent(report.executive_summary)}
+            ${renderSectionHTML(summary, 0)}
         </div>
     </div>
     <div class="page-break"></div>`;
   }
 
-  private generateMainContent(report: Report): string {
+  private generateMainContent(document: ReportDocument): string {
     return `
     <div class="main-content">
         <h2>Detailed Analysis</h2>
         <div class="content-body">
-            ${this.formatTextContent(report.content)}
+            ${document.sections
+              .filter(section => section.id !== EXECUTIVE_SUMMARY_SECTION_ID)
+              .map(section => renderSectionHTML(section, 3))
+              .join('\n')}
         </div>
     </div>`;
   }
@@ -435,27 +443,6 @@ export class PDFGenerator {
     </div>`;
   }
 
-  private formatTextContent(content: string): string {
-    // Convert markdown-style formatting to HTML
-    return content
-      // Headers
-      .replace(/^### (.+)$/gm, '<h4>$1</h4>')
-      .replace(/^## (.+)$/gm, '<h3>$1</h3>')
-      .replace(/^# (.+)$/gm, '<h2>$1</h2>')
-      // Bold and italic
-      .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.+?)\*/g, '<em>$1</em>')
-      // Citations
-      .replace(/\[Source (\d+)\]/g, '<sup class="citation">[$1]</sup>')
-      // Line breaks
-      .replace(/\n\n/g, '</p><p>')
-      .replace(/^\s*(.+)/gm, '<p>$1</p>')
-      // Clean up empty paragraphs
-      .replace(/<p><\/p>/g, '')
-      .replace(/<p><h/g, '<h')
-      .replace(/h><\/p>/g, 'h>');
-  }
-
   private getReportCSS(): string {
     return `
         * { margin: 0; padding: 0; box-sizing: border-box; }
@@ -2,6 +2,9 @@ import puppeteer from 'puppeteer';
 import fs from 'fs/promises';
 import path from 'path';
 import { ContentItem, Report } from '../types';
+import { EXECUTIVE_SUMMARY_SECTION_ID, ReportDocument } from '../types/report-document';
+import { findSection, reportDocument } from './report-document';
+import { renderSectionHTML, renderSpansHTML } from './document-renderers';
 
 interface CitationData {
   number: number;
@@ -106,6 +109,8 @@ export class ProfessionalPDFGenerator {
     sources: ContentItem[],
     citations: CitationData[]
   ): Promise<string> {
+    const document = reportDocument(report);
+
     return `
 <!DOCTYPE html>
 <html lang="en">
@@ -121,10 +126,10 @@ export class ProfessionalPDFGenerator {
 <body>
     ${this.generateCoverPage(report)}
     ${this.generateTableOfContents()}
-    ${this.generateExecutiveSummary(report)}
-    ${this.generateKeyFindings(report, sources)}
-    ${this.generateDetailedAnalysis(report, citations)}
-    ${this.generateSourceAnalysis(sources)}
+    ${this.generateExecutiveSummary(report, document)}
+    ${this.generateKeyFindings(document, sources)}
+    ${this.generateDetailedAnalysis(document)}
+    ${this.generateSourceAnalysis(report, sources)}
     ${this.generateMethodologySection(report)}
     ${this.generateReferences(sources, citations)}
     ${this.generateAppendix(report)}
@@ -228,8 +233,8 @@ export class ProfessionalPDFGenerator {
     <div class="page-break"></div>`;
   }
 
-  private generateExecutiveSummary(report: Report): string {
-    const summary = report.executive_summary || this.generateDefaultSummary(report);
+  private generateExecutiveSummary(report: Report, document: ReportDocument): string {
+    const summary = findSection(document, EXECUTIVE_SUMMARY_SECTION_ID);
     
     return `
     <div class="content-section">
@@ -237,7 +242,7 @@ export class ProfessionalPDFGenerator {
             <span class="section-number">1.</span> Executive Summary
         </h2>
         <div class="summary-content">
-            ${this.formatProfessionalContent(summary)}
+            ${summary ? renderSectionHTML(summary, 0) : `<p>${this.generateDefaultSummary(report)}</p>`}
         </div>
         
         <div class="summary-highlights">
@@ -253,7 +258,7 @@ export class ProfessionalPDFGenerator {
     <div class="page-break"></div>`;
   }
 
-  private generateKeyFindings(report: Report, sources: ContentItem[]): string {
+  private generateKeyFindings(document: ReportDocument, sources: ContentItem[]): string {
     // Extract key statistics from sources
     const stats = this.extractKeyStatistics(sources);
     
@@ -296,15 +301,18 @@ export class ProfessionalPDFGenerator {
         <div class="key-insights">
             <h3>Primary Insights</h3>
             <ol class="insights-list">
-                ${this.extractInsights(report.content)}
+                ${this.extractInsights(document)}
             </ol>
         </div>
     </div>
     <div class="page-break"></div>`;
   }
 
-  private generateDetailedAnalysis(report: Report, citations: CitationData[]): string {
-    const formattedContent = this.formatContentWithCitations(report.content, citations);
+  private generateDetailedAnalysis(document: ReportDocument): string {
+    const formattedContent = document.sections
+      .filter(section => section.id !== EXECUTIVE_SUMMARY_SECTION_ID)
+      .map(section => renderSectionHTML(section, 3))
+      .join('\n');
     
     return `
     <div class="content-section">
@@ -318,7 +326,7 @@ export class ProfessionalPDFGenerator {
     <div class="page-break"></div>`;
   }
 
-  private generateSourceAnalysis(sources: ContentItem[]): string {
+  private generateSourceAnalysis(report: Report, sources: ContentItem[]): string {
     const sourcesByQuality = this.categorizeSourcesByQuality(sources);
     
     return `
@@ -352,10 +360,46 @@ export class ProfessionalPDFGenerator {
                 ${this.generateFeatureAnalysis(sources)}
             </div>
         </div>
+        ${this.generateEntityTable(report)}
     </div>
     <div class="page-break"></div>`;
   }
 
+  private generateEntityTable(report: Report): string {
+    if (!report.entities || report.entities.length === 0) return '';
+
+    const typeLabels: Record<string, string> = {
+      company: 'Company',
+      government_body: 'Government body',
+      person: 'Person',
+      location: 'Location'
+    };
+
+    return `
+        <div class="source-entities">
+            <h3>Entities Discussed</h3>
+            <div class="quality-table">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Entity</th>
+                            <th>Type</th>
+                            <th>Sources</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${report.entities.map(entity => `
+                        <tr>
+                            <td>${entity.name}</td>
+                            <td>${typeLabels[entity.type] || entity.type}</td>
+                            <td>${entity.source_count}</td>
+                        </tr>`).join('')}
+                    </tbody>
+                </table>
+            </div>
+        </div>`;
+  }
+
   private generateMethodologySection(report: Report): string {
     return `
     <div class="content-section">
@@ -398,9 +442,9 @@ export class ProfessionalPDFGenerator {
         </h2>
         
         <div class="references-list">
-            ${usedSources.map((source, index) => `
+            ${usedSources.map(source => `
                 <div class="reference-item">
-                    <span class="ref-number">[${index + 1}]</span>
+                    <span class="ref-number">[${sources.indexOf(source) + 1}]</span>
                     <div class="ref-content">
                         <div class="ref-title">${source.title}</div>
                         <div class="ref-meta">
@@ -444,8 +488,8 @@ export class ProfessionalPDFGenerator {
                     <td class="meta-value">2.0</td>
                 </tr>
             </table>
-            
-            <h3>B. Disclaimer</h3>
+            ${this.generateFlaggedClaims(report)}
+            <h3>${report.flagged_claims && report.flagged_claims.length > 0 ? 'C' : 'B'}. Disclaimer</h3>
             <div class="disclaimer-box">
                 <p><strong>Important Notice:</strong> This report is generated using artificial intelligence and automated data collection methods. While every effort has been made to ensure accuracy, the information should be independently verified before making business decisions.</p>
                 
@@ -457,6 +501,35 @@ export class ProfessionalPDFGenerator {
     </div>`;
   }
 
+  private generateFlaggedClaims(report: Report): string {
+    if (!report.flagged_claims || report.flagged_claims.length === 0) return '';
+
+    return `
+            <h3>B. Claims Needing Review</h3>
+            <p>These cited statements were not clearly supported by their sources: a figure they quote was not found in the source, the source says little about them, or they cite a source number this report does not have. Check them against the original articles before relying on them.</p>
+            <div class="quality-table">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Citation</th>
+                            <th>Claim</th>
+                            <th>Source</th>
+                            <th>Support</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${report.flagged_claims.map(claim => `
+                        <tr>
+                            <td>${claim.citation_number !== null ? `[${claim.citation_number}]` : `Source ${claim.source_number} (missing)`}</td>
+                            <td>${claim.claim}${claim.reasons.length > 0 ? `<br><span class="flag-reason">${claim.reasons.join('; ')}</span>` : ''}</td>
+                            <td>${claim.source_title || ''}</td>
+                            <td>${claim.support_score !== null ? `${Math.round(claim.support_score * 100)}%` : 'N/A'}</td>
+                        </tr>`).join('')}
+                    </tbody>
+                </table>
+            </div>`;
+  }
+
   private getProfessionalCSS(): string {
     return `
         /* Reset and Base Styles */
@@ -775,6 +848,53 @@ export class ProfessionalPDFGenerator {
             font-size: 8pt;
         }
         
+        /* Figures */
+        .report-figure {
+            margin: 20px 0;
+        }
+        
+        .figure-row {
+            display: flex;
+            align-items: center;
+            margin-bottom: 6px;
+            font-size: 10pt;
+        }
+        
+        .figure-label {
+            width: 40%;
+            color: #4a5568;
+        }
+        
+        .figure-bar {
+            display: inline-block;
+            height: 12px;
+            background: #2b6cb0;
+            border-radius: 2px;
+            margin-right: 8px;
+        }
+        
+        .figure-value {
+            font-weight: 600;
+            color: #2d3748;
+        }
+        
+        .report-figure figcaption {
+            font-size: 9pt;
+            color: #718096;
+            font-style: italic;
+            margin-top: 8px;
+        }
+        
+        .citation-flagged {
+            background: #fff5f5;
+            color: #c53030;
+        }
+        
+        .flag-reason {
+            color: #c53030;
+            font-size: 9pt;
+        }
+        
         /* Tables */
         table {
             width: 100%;
@@ -934,49 +1054,6 @@ export class ProfessionalPDFGenerator {
   }
 
   // Helper methods
-  private formatProfessionalContent(content: string): string {
-    // Convert markdown-style content to HTML
-    return content
-      .split('\n\n')
-      .map(paragraph => {
-        if (paragraph.startsWith('#')) {
-          const level = paragraph.match(/^#+/)?.[0].length || 1;
-          const text = paragraph.replace(/^#+\s*/, '');
-          return `<h${Math.min(level + 2, 6)}>${text}</h${Math.min(level + 2, 6)}>`;
-        }
-        if (paragraph.startsWith('- ') || paragraph.startsWith('* ')) {
-          const items = paragraph.split('\n').map(item => 
-            `<li>${item.replace(/^[-*]\s*/, '')}</li>`
-          ).join('');
-          return `<ul>${items}</ul>`;
-        }
-        if (paragraph.match(/^\d+\.\s/)) {
-          const items = paragraph.split('\n').map(item => 
-            `<li>${item.replace(/^\d+\.\s*/, '')}</li>`
-          ).join('');
-          return `<ol>${items}</ol>`;
-        }
-        return `<p>${paragraph}</p>`;
-      })
-      .join('\n');
-  }
-
-  private formatContentWithCitations(content: string, citations: CitationData[]): string {
-    let formattedContent = this.formatProfessionalContent(content);
-    
-    // Add citation markers
-    citations.forEach(citation => {
-      const citationMarker = `<span class="citation">[${citation.number}]</span>`;
-      // Simple replacement - in production, you'd want more sophisticated matching
-      if (citation.text && citation.text.length > 20) {
-        const excerpt = citation.text.substring(0, 50);
-        formattedContent = formattedContent.replace(excerpt, excerpt + citationMarker);
-      }
-    });
-    
-    return formattedContent;
-  }
-
   private getConfidenceLevel(score?: number): string {
     const percentage = (score || 0) * 100;
     if (percentage >= 90) return 'Very High (90%+)';
@@ -1011,20 +1088,13 @@ export class ProfessionalPDFGenerator {
     };
   }
 
-  private extractInsights(content: string): string {
-    // Extract bullet points or key sentences from content
-    const lines = content.split('\n').filter(line => line.trim());
-    const insights = lines
-      .filter(line => 
-        line.startsWith('-') || 
-        line.startsWith('•') || 
-        line.match(/^\d+\./) ||
-        line.includes('significant') ||
-        line.includes('trend') ||
-        line.includes('growth')
-      )
-      .slice(0, 5)
-      .map(line => line.replace(/^[-•\d.]\s*/, ''));
+  private extractInsights(document: ReportDocument): string {
+    // The first list items or paragraphs of the key findings, else of the first section after the summary
+    const section = findSection(document, 'key-findings')
+      || document.sections.find(other => other.id !== EXECUTIVE_SUMMARY_SECTION_ID);
+    const insights = (section ? section.blocks : [])
+      .flatMap(block => block.type === 'list' ? block.items : block.type === 'paragraph' ? [block.spans] : [])
+      .slice(0, 5);
     
     if (insights.length === 0) {
       // Generate default insights
@@ -1037,7 +1107,7 @@ export class ProfessionalPDFGenerator {
       `;
     }
     
-    return insights.map(insight => `<li>${insight}</li>`).join('\n');
+    return insights.map(insight => `<li>${renderSpansHTML(insight)}</li>`).join('\n');
   }
 
   private categorizeSourcesByQuality(sources: ContentItem[]) {
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReportCacheParams, paramsHash, topicHash, topicTerms } from './report-cache';
+
+const PARAMS: ReportCacheParams = {
+  max_sources: 15,
+  time_range_days: 90,
+  scoring_profile: 'balanced',
+  states: ['Karnataka', 'Maharashtra'],
+  topics: ['talent.attrition'],
+  template: 'market_analysis',
+  job_type: 'standard'
+};
+
+describe('topicHash', () => {
+  it('ignores case, punctuation, filler words and word order', () => {
+    assert.equal(topicHash('Attrition trends in IT'), topicHash('IT attrition trends?'));
+    assert.equal(topicHash('What is the attrition rate for IT?'), topicHash('attrition rate IT'));
+  });
+
+  it('tells different topics apart', () => {
+    assert.notEqual(topicHash('Attrition trends in IT'), topicHash('Hiring trends in IT'));
+  });
+
+  it('hashes topics made only of filler words', () => {
+    assert.notEqual(topicHash('what is the'), topicHash('how are the'));
+  });
+});
+
+describe('topicTerms', () => {
+  it('lists the states a topic names', () => {
+    assert.deepEqual(topicTerms('Attrition in Karnataka').filter(term => term.startsWith('state:')), ['state:Karnataka']);
+  });
+
+  it('differs between topics naming different states', () => {
+    assert.notDeepEqual(topicTerms('IT hiring in Karnataka'), topicTerms('IT hiring in Maharashtra'));
+  });
+
+  it('is empty for topics naming no state or entity', () => {
+    assert.deepEqual(topicTerms('employee retention strategies'), []);
+  });
+});
+
+describe('paramsHash', () => {
+  it('ignores the order of states and topics', () => {
+    assert.equal(
+      paramsHash(PARAMS),
+      paramsHash({ ...PARAMS, states: ['Maharashtra', 'Karnataka'] })
+    );
+  });
+
+  it('changes with any parameter', () => {
+    const hash = paramsHash(PARAMS);
+    assert.notEqual(paramsHash({ ...PARAMS, max_sources: 20 }), hash);
+    assert.notEqual(paramsHash({ ...PARAMS, scoring_profile: 'temporal' }), hash);
+    assert.notEqual(paramsHash({ ...PARAMS, states: ['Karnataka'] }), hash);
+    assert.notEqual(paramsHash({ ...PARAMS, template: 'policy_brief' }), hash);
+    assert.notEqual(paramsHash({ ...PARAMS, job_type: 'deep_dive' }), hash);
+  });
+});
@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import db from '../db/connection';
+import { Report } from '../types';
+import { ScoringProfileName } from '../config/scoring';
+import { CacheIntent, REPORT_CACHE_CANDIDATES, REPORT_CACHE_SIMILARITY, cacheTTLHours } from '../config/report-cache';
+import { EmbeddingStore } from '../embeddings/embedding-store';
+import { cosineSimilarity } from '../embeddings/embedder';
+import { HashingEmbedder } from '../embeddings/hashing-embedder';
+import { EntityExtractor } from '../entities/entity-extractor';
+import { ENTITY_GAZETTEER } from '../config/entity-gazetteer';
+import { IndianContextClassifier } from '../scoring/indian-context-classifier';
+
+// Everything besides the topic that shapes a report; reports are only reused when all of it matches
+export interface ReportCacheParams {
+  max_sources: number;
+  time_range_days: number;
+  scoring_profile: ScoringProfileName;
+  states: string[];
+  topics: string[];
+  template: string;
+  // Deep dives report on freshly collected sources, so a standard report doesn't answer one
+  job_type: 'standard' | 'deep_dive';
+}
+
+export interface CachedReportMatch {
+  report: Report;
+  match_type: 'exact' | 'semantic';
+  // Cosine similarity of the topics; 1 for exact matches
+  similarity: number;
+  age_hours: number;
+  ttl_hours: number;
+}
+
+export interface ReportCacheStats {
+  period_days: number;
+  requests: number;
+  hits: number;
+  misses: number;
+  refreshes: number;
+  hit_rate: number;
+  semantic_hits: number;
+  // Generation work the reused reports took, i.e. what reusing them saved
+  saved: {
+    generation_ms: number;
+    sources: number;
+  };
+  most_reused: { report_id: string, title: string, hits: number }[];
+}
+
+// Words that don't change what a topic asks about
+const STOPWORDS = new Set(['a', 'an', 'the', 'in', 'of', 'for', 'on', 'to', 'and', 'at', 'by', 'with', 'about', 'what', 'are', 'is', 'how']);
+
+// Normalised topic: lower case, punctuation and filler words dropped, remaining words sorted, so
+// "Attrition trends in IT" and "IT attrition trends?" hash alike
+export function topicHash(topic: string): string {
+  const words = topic.toLowerCase().replace(/[^\p{L}\p{N}\s]+/gu, ' ').split(/\s+/)
+    .filter(word => word && !STOPWORDS.has(word));
+  const normalised = Array.from(new Set(words)).sort().join(' ') || topic.toLowerCase().trim();
+  return crypto.createHash('md5').update(normalised).digest('hex');
+}
+
+let termMatchers: { states: IndianContextClassifier, entities: EntityExtractor } | null = null;
+
+// States and known entities (companies, government bodies, people, places) a topic names, e.g.
+// ['entity:Karnataka', 'state:Karnataka']. Semantically close topics only share a report when
+// these agree, since embeddings rate "... in Karnataka" and "... in Maharashtra" as near-identical.
+export function topicTerms(topic: string): string[] {
+  if (!termMatchers) {
+    termMatchers = {
+      states: new IndianContextClassifier(),
+      entities: new EntityExtractor(ENTITY_GAZETTEER.map(seed => ({ id: seed.name, name: seed.name, aliases: seed.aliases || [] })))
+    };
+  }
+
+  const states = termMatchers.states.tagStates(topic).map(state => `state:${state}`);
+  const entities = termMatchers.entities.extract(topic).map(mention => `entity:${mention.entity_id}`);
+  return [...states, ...entities].sort();
+}
+
+export function paramsHash(params: ReportCacheParams): string {
+  const canonical = JSON.stringify([
+    params.max_sources,
+    params.time_range_days,
+    params.scoring_profile,
+    [...params.states].sort(),
+    [...params.topics].sort(),
+    params.template,
+    params.job_type
+  ]);
+  return crypto.createHash('md5').update(canonical).digest('hex');
+}
+
+// Finds a recent report that already answers a request - same parameters, and the same topic
+// after normalisation or (with a neural embedder) a close topic embedding naming the same states
+// and entities - and records hits, misses and refreshes for GET /api/stats/cache.
+export class ReportCache {
+  // Null when topics only match exactly
+  private embeddingStore: EmbeddingStore | null;
+  private similarityThreshold: number;
+
+  constructor(embeddingStore: EmbeddingStore | null = EmbeddingStore.fromEnv(), similarityThreshold = REPORT_CACHE_SIMILARITY) {
+    // Hashing vectors measure word overlap, not meaning: topics differing in the one word that
+    // matters score as rewordings, so semantic reuse needs a neural embedder
+    this.embeddingStore = embeddingStore && !(embeddingStore.embedder instanceof HashingEmbedder) ? embeddingStore : null;
+    this.similarityThreshold = similarityThreshold;
+  }
+
+  // Null on a miss, when reuse is turned off for the intent, or when the cache can't be read
+  async lookup(topic: string, params: ReportCacheParams, intent?: CacheIntent): Promise<CachedReportMatch | null> {
+    const ttlHours = cacheTTLHours(intent);
+    if (ttlHours <= 0) return null;
+
+    try {
+      await db.ensureSchema('report-cache-schema.sql');
+      const result = await db.query(`
+        SELECT r.id, r.topic, r.topic_hash, e.model AS embedding_model, e.embedding,
+               EXTRACT(EPOCH FROM (now() - r.created_at)) / 3600 AS age_hours
+        FROM reports r
+        LEFT JOIN report_topic_embeddings e ON e.report_id = r.id
+        WHERE r.params_hash = $1 AND r.created_at > now() - make_interval(secs => $2)
+        ORDER BY r.created_at DESC
+        LIMIT $3
+      `, [paramsHash(params), ttlHours * 3600, REPORT_CACHE_CANDIDATES]);
+
+      const candidates: { id: string, topic: string, topic_hash: string, embedding_model: string | null, embedding: number[] | null, age_hours: number }[] = result.rows;
+      if (candidates.length === 0) return null;
+
+      const hash = topicHash(topic);
+      let best = candidates.find(candidate => candidate.topic_hash === hash);
+      let matchType: CachedReportMatch['match_type'] = 'exact';
+      let similarity = 1;
+
+      if (!best && this.embeddingStore) {
+        const modelKey = this.embeddingStore.modelKey;
+        const terms = topicTerms(topic).join('|');
+        const comparable = candidates.filter(candidate =>
+          candidate.embedding && candidate.embedding_model === modelKey && topicTerms(candidate.topic).join('|') === terms
+        );
+        if (comparable.length > 0) {
+          const vector = await this.embeddingStore.embedQuery(topic);
+          similarity = 0;
+          for (const candidate of comparable) {
+            const score = cosineSimilarity(vector, candidate.embedding || []);
+            if (score >= this.similarityThreshold && score > similarity) {
+              best = candidate;
+              matchType = 'semantic';
+              similarity = score;
+            }
+          }
+        }
+      }
+
+      if (!best) return null;
+
+      const report = await db.getReport(best.id);
+      if (!report) return null;
+
+      const match: CachedReportMatch = {
+        report,
+        match_type: matchType,
+        similarity,
+        age_hours: Number(best.age_hours),
+        ttl_hours: ttlHours
+      };
+
+      await this.recordEvent(topic, 'hit', report.id, match);
+      console.log(`♻️ Reusing report ${report.id} for "${topic}" (${match.match_type} match, ${match.age_hours.toFixed(1)}h old)`);
+      return match;
+    } catch (error) {
+      console.error('⚠️ Report cache lookup failed, generating a new report:', error);
+      return null;
+    }
+  }
+
+  // Makes a newly generated report findable by later requests
+  async remember(report: Report, params: ReportCacheParams, forced: boolean): Promise<void> {
+    try {
+      await db.ensureSchema('report-cache-schema.sql');
+
+      await db.query('UPDATE reports SET params_hash = $2 WHERE id = $1', [report.id, paramsHash(params)]);
+
+      if (this.embeddingStore) {
+        try {
+          const embedding = await this.embeddingStore.embedQuery(report.topic);
+          await db.query(
+            'INSERT INTO report_topic_embeddings (report_id, model, embedding) VALUES ($1, $2, $3) ON CONFLICT (report_id) DO UPDATE SET model = EXCLUDED.model, embedding = EXCLUDED.embedding',
+            [report.id, this.embeddingStore.modelKey, embedding]
+          );
+        } catch (error) {
+          console.error('⚠️ Topic embedding failed; the report will only match exact topics:', error instanceof Error ? error.message : error);
+        }
+      }
+
+      await this.recordEvent(report.topic, forced ? 'refresh' : 'miss', report.id);
+    } catch (error) {
+      console.error('⚠️ Could not add report to the cache:', error);
+    }
+  }
+
+  async stats(days = 7): Promise<ReportCacheStats> {
+    await db.ensureSchema('report-cache-schema.sql');
+
+    const totals = await db.query(`
+      SELECT
+        COUNT(*) FILTER (WHERE outcome = 'hit') AS hits,
+        COUNT(*) FILTER (WHERE outcome = 'miss') AS misses,
+        COUNT(*) FILTER (WHERE outcome = 'refresh') AS refreshes,
+        COUNT(*) FILTER (WHERE match_type = 'semantic') AS semantic_hits,
+        COALESCE(SUM(saved_generation_ms), 0) AS saved_generation_ms,
+        COALESCE(SUM(saved_sources), 0) AS saved_sources
+      FROM report_cache_events
+      WHERE created_at > now() - make_interval(days => $1)
+    `, [days]);
+
+    const reused = await db.query(`
+      SELECT e.report_id, r.title, COUNT(*) AS hits
+      FROM report_cache_events e
+      JOIN reports r ON r.id = e.report_id
+      WHERE e.outcome = 'hit' AND e.created_at > now() - make_interval(days => $1)
+      GROUP BY e.report_id, r.title
+      ORDER BY hits DESC
+      LIMIT 5
+    `, [days]);
+
+    const row = totals.rows[0];
+    const hits = parseInt(row.hits);
+    const misses = parseInt(row.misses);
+    const refreshes = parseInt(row.refreshes);
+    const requests = hits + misses + refreshes;
+
+    return {
+      period_days: days,
+      requests,
+      hits,
+      misses,
+      refreshes,
+      hit_rate: requests > 0 ? hits / requests : 0,
+      semantic_hits: parseInt(row.semantic_hits),
+      saved: {
+        generation_ms: parseInt(row.saved_generation_ms),
+        sources: parseInt(row.saved_sources)
+      },
+      most_reused: reused.rows.map((reuse: { report_id: string, title: string, hits: string }) => ({
+        report_id: reuse.report_id,
+        title: reuse.title,
+        hits: parseInt(reuse.hits)
+      }))
+    };
+  }
+
+  private async recordEvent(topic: string, outcome: 'hit' | 'miss' | 'refresh', reportId: string, match?: CachedReportMatch): Promise<void> {
+    await db.query(`
+      INSERT INTO report_cache_events (topic, outcome, report_id, match_type, similarity, saved_generation_ms, saved_sources)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [
+      topic,
+      outcome,
+      reportId,
+      match?.match_type || null,
+      match?.similarity ?? null,
+      match ? match.report.generation_time_ms || 0 : null,
+      match ? match.report.source_count : null
+    ]);
+  }
+}
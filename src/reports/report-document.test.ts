@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildReportDocument, buildSection, numberCitations, sectionId, spanGroups } from './report-document';
+
+describe('buildSection', () => {
+  it('splits text, bold and citation markers into spans', () => {
+    const section = buildSection('key-findings', 'Key Findings', 'Attrition is **falling** [Source 2].', 3);
+    assert.deepEqual(section.blocks, [{
+      type: 'paragraph',
+      spans: [
+        { type: 'text', text: 'Attrition is ' },
+        { type: 'text', text: 'falling', bold: true },
+        { type: 'text', text: ' ' },
+        { type: 'citation', source_number: 2 },
+        { type: 'text', text: '.' }
+      ]
+    }]);
+  });
+
+  it('keeps markers citing a source the report does not have as invalid, flagged citations', () => {
+    const section = buildSection('key-findings', 'Key Findings', 'Hiring rose [Source 14] and fell [Source 0].', 12);
+    const citations = spanGroups({ version: 1, title: 'Report', sections: [section] }).flat().filter(span => span.type === 'citation');
+    assert.deepEqual(citations, [
+      { type: 'citation', source_number: 14, flagged: true, invalid: true },
+      { type: 'citation', source_number: 0, flagged: true, invalid: true }
+    ]);
+  });
+
+  it('parses lists and tables', () => {
+    const section = buildSection('data', 'Data', '- First [Source 1]\n- Second\n\n| City | Rate |\n|---|---|\n| Pune | 12% |', 1);
+    assert.deepEqual(section.blocks.map(block => block.type), ['list', 'table']);
+  });
+});
+
+describe('numberCitations', () => {
+  it('numbers valid citations in reading order and skips invalid ones', () => {
+    const document = buildReportDocument('Report', [
+      { title: 'Executive Summary', content: 'Attrition fell [Source 1]. Pay rose [Source 9].' },
+      { title: 'Key Findings', content: '- Hiring grew [Source 2]' }
+    ], 2);
+
+    numberCitations(document, [{ flagged: false }, { flagged: true }]);
+
+    const citations = spanGroups(document).flat().filter(span => span.type === 'citation');
+    assert.deepEqual(citations, [
+      { type: 'citation', source_number: 1, citation_number: 1, flagged: false },
+      { type: 'citation', source_number: 9, flagged: true, invalid: true },
+      { type: 'citation', source_number: 2, citation_number: 2, flagged: true }
+    ]);
+  });
+});
+
+describe('sectionId', () => {
+  it('slugs section titles', () => {
+    assert.equal(sectionId('Regional and Sector Breakdown'), 'regional-and-sector-breakdown');
+    assert.equal(sectionId('!!!'), 'section');
+  });
+});
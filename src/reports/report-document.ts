@@ -0,0 +1,234 @@
+import { Report } from '../types';
+import {
+  DocumentBlock,
+  DocumentSection,
+  DocumentSpan,
+  EXECUTIVE_SUMMARY_SECTION_ID,
+  FigureBlock,
+  REPORT_DOCUMENT_VERSION,
+  ReportDocument
+} from '../types/report-document';
+import { FactExtractor } from '../facts/fact-extractor';
+
+const factExtractor = new FactExtractor();
+
+// Most bars in a section's figure
+const MAX_FIGURE_BARS = 8;
+
+// Builds a document from drafted sections of markdown. Markers citing a source number outside
+// 1..sourceCount are kept as invalid, flagged citation spans so the hallucinated citation stays
+// visible for review.
+export function buildReportDocument(title: string, sections: { title: string, content: string }[], sourceCount: number): ReportDocument {
+  const ids = new Set<string>();
+
+  return {
+    version: REPORT_DOCUMENT_VERSION,
+    title,
+    sections: sections.map(section => {
+      const id = uniqueId(sectionId(section.title), ids);
+      return buildSection(id, section.title, section.content, sourceCount);
+    })
+  };
+}
+
+export function buildSection(id: string, title: string, markdown: string, sourceCount: number): DocumentSection {
+  const blocks = parseBlocks(markdown, sourceCount);
+  const figure = id === EXECUTIVE_SUMMARY_SECTION_ID ? null : percentageFigure(blocks);
+  return { id, title, blocks: figure ? [...blocks, figure] : blocks };
+}
+
+// The stored document, or one parsed from the markdown of reports saved before documents were
+export function reportDocument(report: Report): ReportDocument {
+  if (report.document) return report.document;
+
+  const sections = splitMarkdownSections(report.content || '');
+  if (report.executive_summary && !sections.some(section => sectionId(section.title) === EXECUTIVE_SUMMARY_SECTION_ID)) {
+    sections.unshift({ title: 'Executive Summary', content: report.executive_summary });
+  }
+  return buildReportDocument(report.title, sections, report.source_count);
+}
+
+export function findSection(document: ReportDocument, id: string): DocumentSection | undefined {
+  return document.sections.find(section => section.id === id);
+}
+
+// 'Regional and Sector Breakdown' -> 'regional-and-sector-breakdown'
+export function sectionId(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'section';
+}
+
+// Every paragraph, list item and table cell, in reading order
+export function spanGroups(document: ReportDocument): DocumentSpan[][] {
+  return document.sections.flatMap(section => section.blocks.flatMap(blockSpanGroups));
+}
+
+// Numbers the valid citation spans in reading order, matching the citations extracted from the
+// document's markdown, and marks the ones verification flagged
+export function numberCitations(document: ReportDocument, citations: { flagged?: boolean }[]): void {
+  let index = 0;
+  for (const spans of spanGroups(document)) {
+    for (const span of spans) {
+      if (span.type !== 'citation' || span.invalid) continue;
+      span.citation_number = index + 1;
+      span.flagged = citations[index]?.flagged || false;
+      index++;
+    }
+  }
+}
+
+function blockSpanGroups(block: DocumentBlock): DocumentSpan[][] {
+  switch (block.type) {
+    case 'paragraph': return [block.spans];
+    case 'list': return block.items;
+    case 'table': return [...block.header, ...block.rows.flat()];
+    case 'figure': return [];
+  }
+}
+
+// "## " headings start sections; text before the first heading becomes an overview
+function splitMarkdownSections(markdown: string): { title: string, content: string }[] {
+  const sections: { title: string, content: string }[] = [];
+  let current = { title: 'Overview', content: '' };
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(/^#{1,2}\s+(.+)$/);
+    if (heading) {
+      if (current.content.trim()) sections.push(current);
+      current = { title: heading[1].trim(), content: '' };
+    } else {
+      current.content += `${line}\n`;
+    }
+  }
+  if (current.content.trim()) sections.push(current);
+
+  return sections;
+}
+
+function parseBlocks(markdown: string, sourceCount: number): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean, items: string[] } | null = null;
+  let table: string[][] | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', spans: parseSpans(paragraph.join(' '), sourceCount) });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(item => parseSpans(item, sourceCount)) });
+      list = null;
+    }
+    if (table) {
+      const [header, ...rows] = table;
+      blocks.push({
+        type: 'table',
+        header: header.map(cell => parseSpans(cell, sourceCount)),
+        rows: rows.map(row => row.map(cell => parseSpans(cell, sourceCount)))
+      });
+      table = null;
+    }
+  };
+
+  for (const rawLine of markdown.split('\n')) {
+    const line = rawLine.trim();
+    const bullet = line.match(/^(?:[-*•]|(\d+)[.)])\s+(.+)$/);
+
+    if (!line) {
+      flush();
+    } else if (/^\|.*\|$/.test(line)) {
+      if (!table) flush();
+      // The |---|---| row under the header carries no content
+      if (/^\|[\s:|-]+\|$/.test(line)) continue;
+      table = table || [];
+      table.push(line.slice(1, -1).split('|').map(cell => cell.trim()));
+    } else if (/^#{1,6}\s+/.test(line)) {
+      // Subheadings within a section become a bold line of their own
+      flush();
+      blocks.push({ type: 'paragraph', spans: [{ type: 'text', text: line.replace(/^#+\s+/, ''), bold: true }] });
+    } else if (bullet) {
+      const ordered = bullet[1] !== undefined;
+      if (paragraph.length > 0 || table || (list && list.ordered !== ordered)) flush();
+      list = list || { ordered, items: [] };
+      list.items.push(bullet[2]);
+    } else if (list && /^\s+/.test(rawLine)) {
+      // An indented line continues the previous list item
+      list.items[list.items.length - 1] += ` ${line}`;
+    } else {
+      if (list || table) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+// Inline **bold** and [Source N] markers; other markdown is kept as text
+function parseSpans(text: string, sourceCount: number): DocumentSpan[] {
+  const spans: DocumentSpan[] = [];
+  const pushText = (value: string, bold = false) => {
+    if (!value) return;
+    const last = spans[spans.length - 1];
+    if (last && last.type === 'text' && !!last.bold === bold) {
+      last.text += value;
+    } else {
+      spans.push(bold ? { type: 'text', text: value, bold } : { type: 'text', text: value });
+    }
+  };
+
+  for (const part of text.split(/(\*\*[^*]+\*\*|\[Source \d+\])/)) {
+    const citation = part.match(/^\[Source (\d+)\]$/);
+    const bold = part.match(/^\*\*([^*]+)\*\*$/);
+
+    if (citation) {
+      const sourceNumber = parseInt(citation[1]);
+      spans.push(sourceNumber >= 1 && sourceNumber <= sourceCount
+        ? { type: 'citation', source_number: sourceNumber }
+        : { type: 'citation', source_number: sourceNumber, flagged: true, invalid: true });
+    } else if (bold) {
+      pushText(bold[1], true);
+    } else {
+      pushText(part);
+    }
+  }
+
+  return spans;
+}
+
+// Percentages the section quotes, as a bar chart; null when there are fewer than two
+function percentageFigure(blocks: DocumentBlock[]): FigureBlock | null {
+  const data: FigureBlock['data'] = [];
+  const labels = new Set<string>();
+
+  for (const spans of blocks.flatMap(blockSpanGroups)) {
+    const text = spans.map(span => span.type === 'text' ? span.text : '').join('');
+    const citation = spans.find(span => span.type === 'citation' && !span.invalid);
+
+    for (const fact of factExtractor.extract(text)) {
+      if (fact.unit !== '%') continue;
+
+      const label = [fact.metric, fact.geography, fact.period].filter(Boolean).join(', ');
+      if (labels.has(label)) continue;
+      labels.add(label);
+
+      data.push({
+        label,
+        value: fact.value,
+        ...(citation && citation.type === 'citation' ? { source_number: citation.source_number } : {})
+      });
+    }
+  }
+
+  if (data.length < 2) return null;
+  return { type: 'figure', caption: 'Percentages cited in this section', unit: '%', data: data.slice(0, MAX_FIGURE_BARS) };
+}
+
+function uniqueId(id: string, taken: Set<string>): string {
+  let unique = id;
+  for (let n = 2; taken.has(unique); n++) {
+    unique = `${id}-${n}`;
+  }
+  taken.add(unique);
+  return unique;
+}
@@ -0,0 +1,289 @@
+import { ContentItem } from '../types';
+import { LLMMessage, LLMProvider } from '../llm/llm-provider';
+import { createLLMProvider } from '../llm/provider-factory';
+import { languageName } from '../config/languages';
+import { MAX_SOURCE_TOKENS, TokenBudgeter, estimateTokens } from './token-budget';
+import { ReportTemplateConfig, TemplateSection } from '../config/report-templates';
+
+export type SynthesisStage = 'extracting_evidence' | 'drafting_sections' | 'summarizing';
+
+// Called before each LLM request; throwing from it aborts the synthesis
+export type SynthesisProgress = (stage: SynthesisStage, completed: number, total: number) => Promise<void> | void;
+
+// A finding from one source, cited as [Source N]
+export interface EvidenceNote {
+  source_number: number;
+  text: string;
+}
+
+export interface SynthesisResult {
+  // Markdown, starting with the executive summary, one "## " heading per section
+  content: string;
+  executive_summary: string;
+  // The drafted sections after the summary, in order
+  sections: DraftedSection[];
+  evidence: EvidenceNote[];
+}
+
+export interface DraftedSection {
+  title: string;
+  content: string;
+}
+
+// Reply allowance per source in an evidence batch
+const EVIDENCE_REPLY_TOKENS_PER_SOURCE = 200;
+const MAX_EVIDENCE_REPLY_TOKENS = 1500;
+// Reply allowance per word of a length budget, with room to finish the last sentence
+const REPLY_TOKENS_PER_WORD = 2.5;
+// Length of a redrafted section its template doesn't define
+const DEFAULT_SECTION_WORDS = 300;
+// Smallest reply allowance for picking one batch's notes for a section
+const MIN_SELECTION_REPLY_TOKENS = 200;
+
+const EVIDENCE_PROMPT = `Extract evidence for a research report on the Indian HR market from the numbered sources below.
+
+For each source, list the findings relevant to the topic: statistics with their units and periods, dates, companies and government bodies involved, policy changes and notable quotes. Write one finding per line, exactly in this form:
+- <finding> [Source N]
+
+Skip sources with nothing relevant. Only use what the sources say.`;
+
+// Writes a report in stages so every source's evidence is read: evidence notes are extracted
+// from batches of sources, each section is drafted from the notes relevant to it, and the
+// executive summary is written from every section.
+export class ReportSynthesizer {
+  private evidenceLLM: LLMProvider;
+  private synthesisLLM: LLMProvider;
+  private summaryLLM: LLMProvider;
+  private budgeter: TokenBudgeter;
+
+  constructor(
+    evidenceLLM: LLMProvider = createLLMProvider('evidence_extraction'),
+    synthesisLLM: LLMProvider = createLLMProvider('report_synthesis'),
+    summaryLLM: LLMProvider = createLLMProvider('executive_summary'),
+    budgeter = new TokenBudgeter()
+  ) {
+    this.evidenceLLM = evidenceLLM;
+    this.synthesisLLM = synthesisLLM;
+    this.summaryLLM = summaryLLM;
+    this.budgeter = budgeter;
+
+    if (!this.synthesisLLM.isConfigured()) {
+      console.warn(`⚠️ LLM provider "${this.synthesisLLM.name}" for report synthesis is not configured - report generation will fail`);
+    }
+  }
+
+  async synthesize(topic: string, sources: ContentItem[], template: ReportTemplateConfig, onProgress?: SynthesisProgress): Promise<SynthesisResult> {
+    const progress = async (stage: SynthesisStage, completed: number, total: number) => {
+      if (onProgress) {
+        await onProgress(stage, completed, total);
+      }
+    };
+
+    const evidence = await this.extractEvidence(topic, sources, progress);
+    console.log(`🔎 Extracted ${evidence.length} evidence notes from ${sources.length} sources`);
+
+    console.log(`🤖 Drafting ${template.sections.length} "${template.slug}" sections with ${this.synthesisLLM.name} (${this.synthesisLLM.model})...`);
+    const sections: DraftedSection[] = [];
+    for (const [index, section] of template.sections.entries()) {
+      await progress('drafting_sections', index, template.sections.length);
+      sections.push({ title: section.title, content: await this.draftSection(topic, template, section, evidence, sections.map(s => s.title)) });
+    }
+
+    await progress('summarizing', 0, 1);
+    const executiveSummary = await this.summarize(topic, template, sections, sources.length);
+
+    const content = [
+      `## Executive Summary\n\n${executiveSummary}`,
+      ...sections.map(section => `## ${section.title}\n\n${section.content}`)
+    ].join('\n\n');
+
+    return { content, executive_summary: executiveSummary, sections, evidence };
+  }
+
+  // Rewrites one section of an existing report from fresh evidence. Sections the template
+  // doesn't define (e.g. after it was edited) are drafted to their title alone.
+  async redraftSection(topic: string, template: ReportTemplateConfig, title: string, sources: ContentItem[], otherSections: string[]): Promise<string> {
+    const evidence = await this.extractEvidence(topic, sources, async () => undefined);
+    const section = template.sections.find(candidate => candidate.title.toLowerCase() === title.toLowerCase())
+      || { title, instructions: `The evidence relevant to "${title}".`, max_words: DEFAULT_SECTION_WORDS };
+    return this.draftSection(topic, template, section, evidence, otherSections);
+  }
+
+  private async extractEvidence(topic: string, sources: ContentItem[], progress: SynthesisProgress): Promise<EvidenceNote[]> {
+    const blocks = sources.map((source, index) => ({ number: index + 1, source, text: this.sourceBlock(source, index + 1) }));
+    const budget = this.budgeter.available(EVIDENCE_PROMPT + topic, MAX_EVIDENCE_REPLY_TOKENS);
+    const batches = this.budgeter.pack(blocks, block => block.text, budget);
+
+    const evidence: EvidenceNote[] = [];
+    for (const [index, batch] of batches.entries()) {
+      await progress('extracting_evidence', index, batches.length);
+
+      const messages: LLMMessage[] = [
+        { role: 'system', content: EVIDENCE_PROMPT },
+        { role: 'user', content: `Topic: ${topic}\n\n${batch.map(block => block.text).join('\n---\n')}` }
+      ];
+
+      const numbers = new Set(batch.map(block => block.number));
+      try {
+        const completion = await this.evidenceLLM.complete(messages, {
+          temperature: 0,
+          maxTokens: Math.min(MAX_EVIDENCE_REPLY_TOKENS, EVIDENCE_REPLY_TOKENS_PER_SOURCE * batch.length)
+        });
+        evidence.push(...parseEvidence(completion.content).filter(note => numbers.has(note.source_number)));
+      } catch (error) {
+        // Keep the batch's sources in play with their opening text rather than losing them
+        console.error(`⚠️ Evidence extraction failed for sources ${Array.from(numbers).join(', ')}:`, error instanceof Error ? error.message : error);
+        evidence.push(...batch.map(block => ({
+          source_number: block.number,
+          text: this.budgeter.truncate(sourceText(block.source), 75)
+        })));
+      }
+    }
+
+    return evidence.sort((a, b) => a.source_number - b.source_number);
+  }
+
+  private async draftSection(
+    topic: string,
+    template: ReportTemplateConfig,
+    section: TemplateSection,
+    evidence: EvidenceNote[],
+    previousSections: string[]
+  ): Promise<string> {
+    const replyTokens = replyTokensFor(section.max_words);
+    const system = `Draft one section of a "${template.name}" report on the Indian HR market for HR leaders.
+
+Section: ${section.title}
+${section.instructions}
+
+Write at most ${section.max_words} words in professional business language. Use only the evidence notes provided, and cite every claim with its [Source N] marker exactly as given. Do not repeat the section title, and do not cover what earlier sections (${previousSections.join(', ') || 'none'}) already covered.`;
+
+    // When the notes don't all fit, the section's own notes are picked from every batch of them
+    // first, so sections don't all get the same best-ranked prefix; fit() is the backstop
+    const budget = this.budgeter.available(system + topic, replyTokens);
+    const allNotes = evidence.map(formatNote);
+    const notes = this.budgeter.fit(
+      estimateTokens(allNotes.join('\n')) <= budget ? allNotes : await this.selectNotes(topic, section, evidence, budget),
+      budget
+    );
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: system },
+      { role: 'user', content: `Topic: ${topic}\n\nEvidence notes:\n${notes.join('\n')}` }
+    ];
+
+    try {
+      const completion = await this.synthesisLLM.complete(messages, { temperature: 0.3, maxTokens: replyTokens });
+      console.log(`📝 Drafted "${section.title}" (${completion.usage.completion_tokens} tokens from ${notes.length}/${evidence.length} notes)`);
+      return completion.content.trim();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('LLM synthesis error:', error);
+      throw new Error(`Failed to generate content: ${errorMessage}`);
+    }
+  }
+
+  // Map step over batches of notes: each batch is cut down to the notes this section needs,
+  // with every batch getting an equal share of the section's budget for its reply
+  private async selectNotes(topic: string, section: TemplateSection, evidence: EvidenceNote[], budget: number): Promise<string[]> {
+    const system = `Pick the evidence notes that one section of a research report on the Indian HR market needs.
+
+Section: ${section.title}
+${section.instructions}
+
+Copy the notes relevant to this section, merging notes that repeat a finding, and leave out the rest. Keep every [Source N] marker exactly as given. Write one note per line, exactly in this form:
+- <finding> [Source N]`;
+
+    const lines = evidence.map(note => ({ note, text: formatNote(note) }));
+    const batches = this.budgeter.pack(lines, line => line.text, this.budgeter.available(system + topic, Math.min(budget, MAX_EVIDENCE_REPLY_TOKENS)));
+    const replyTokens = Math.max(MIN_SELECTION_REPLY_TOKENS, Math.floor(budget / batches.length));
+
+    const selected: string[] = [];
+    for (const batch of batches) {
+      const numbers = new Set(batch.map(line => line.note.source_number));
+      try {
+        const completion = await this.evidenceLLM.complete([
+          { role: 'system', content: system },
+          { role: 'user', content: `Topic: ${topic}\n\nEvidence notes:\n${batch.map(line => line.text).join('\n')}` }
+        ], { temperature: 0, maxTokens: replyTokens });
+        selected.push(...parseEvidence(completion.content).filter(note => numbers.has(note.source_number)).map(formatNote));
+      } catch (error) {
+        // Keep the batch as it is; fit() trims whatever doesn't fit
+        console.error(`⚠️ Note selection for "${section.title}" failed:`, error instanceof Error ? error.message : error);
+        selected.push(...batch.map(line => line.text));
+      }
+    }
+    return selected;
+  }
+
+  async summarize(topic: string, template: ReportTemplateConfig, sections: DraftedSection[], sourceCount: number): Promise<string> {
+    console.log('📋 Generating executive summary...');
+
+    const replyTokens = replyTokensFor(template.summary_words);
+    const system = 'You are a senior business analyst. Create a concise executive summary that highlights the most important findings and recommendations.';
+    const instructions = `Based on every section of this "${template.name}" report on "${topic}", write an executive summary of at most ${template.summary_words} words that covers:
+- Key findings
+- Main trends identified
+- Critical implications
+- Primary recommendations
+
+Keep the [Source N] markers of the claims you repeat.
+
+Note: This analysis is based on ${sourceCount} recent sources from the Indian HR market.`;
+
+    // Every section gets an equal share of the prompt
+    const perSection = Math.floor(this.budgeter.available(system + instructions, replyTokens) / sections.length);
+    const report = sections
+      .map(section => `## ${section.title}\n${this.budgeter.truncate(section.content, Math.max(0, perSection - estimateTokens(section.title) - 2))}`)
+      .join('\n\n');
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: system },
+      { role: 'user', content: `${instructions}\n\nReport sections:\n${report}` }
+    ];
+
+    try {
+      const completion = await this.summaryLLM.complete(messages, { temperature: 0.2, maxTokens: replyTokens });
+      return completion.content.trim();
+    } catch (error: unknown) {
+      console.error('Executive summary generation failed:', error);
+      return `This research report analyzes recent developments in the Indian HR market based on ${sourceCount} sources. The analysis covers key trends, statistical insights, and strategic implications for HR professionals and business leaders.`;
+    }
+  }
+
+  private sourceBlock(source: ContentItem, number: number): string {
+    const header = `[Source ${number}] ${source.translated_title || source.title}\n` +
+      (source.translated_title ? `Original ${languageName(source.language)} title: ${source.title}\n` : '') +
+      `Published: ${source.published_at ? new Date(source.published_at).toISOString().split('T')[0] : 'Unknown'}\n`;
+    return `${header}Content: ${this.budgeter.truncate(sourceText(source), MAX_SOURCE_TOKENS)}`;
+  }
+}
+
+function replyTokensFor(maxWords: number): number {
+  return Math.ceil(maxWords * REPLY_TOKENS_PER_WORD);
+}
+
+function sourceText(source: ContentItem): string {
+  return (source.translated_content || source.full_content || source.snippet || '').replace(/\s+/g, ' ').trim();
+}
+
+// "- finding [Source N]" lines; a line citing several sources is kept for each of them
+function formatNote(note: EvidenceNote): string {
+  return `- ${note.text} [Source ${note.source_number}]`;
+}
+
+export function parseEvidence(reply: string): EvidenceNote[] {
+  const notes: EvidenceNote[] = [];
+  for (const line of reply.split('\n')) {
+    const citations = Array.from(line.matchAll(/\[Source (\d+)\]/g));
+    if (citations.length === 0) continue;
+
+    const text = line.replace(/\[Source \d+\]/g, '').replace(/^\s*(?:[-*•]|\d+\.)\s*/, '').trim();
+    if (text.length < 10) continue;
+
+    for (const citation of citations) {
+      notes.push({ source_number: parseInt(citation[1]), text });
+    }
+  }
+  return notes;
+}
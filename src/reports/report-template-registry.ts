@@ -0,0 +1,213 @@
+import db from '../db/connection';
+import {
+  DEFAULT_MAX_SOURCES,
+  DEFAULT_REPORT_TEMPLATE,
+  DEFAULT_TIME_RANGE_DAYS,
+  REPORT_TEMPLATES,
+  ReportTemplateConfig
+} from '../config/report-templates';
+import { ScoringProfileName } from '../config/scoring';
+
+export interface ReportTemplate extends ReportTemplateConfig {
+  id: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class ReportTemplateConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportTemplateConflictError';
+  }
+}
+
+// Source selection for one report, after the template's rules are applied
+export interface SourceSelection {
+  max_sources: number;
+  time_range_days: number;
+  scoring_profile?: ScoringProfileName;
+  topics?: string[];
+}
+
+const TEMPLATE_COLUMNS = 'id, slug, name, description, summary_words, sections, source_rules, created_at, updated_at';
+const UPDATABLE_FIELDS = ['name', 'description', 'summary_words', 'sections', 'source_rules'] as const;
+// Stored as JSONB, so they are serialised before binding
+const JSON_FIELDS: readonly string[] = ['sections', 'source_rules'];
+
+// Runtime-managed report templates. The table is seeded from REPORT_TEMPLATES so new config
+// entries appear automatically, while templates edited or removed via the API stay that way.
+export class ReportTemplateRegistry {
+  private static seeded: Promise<void> | null = null;
+
+  private async ensureReady(): Promise<void> {
+    await db.ensureSchema('report-templates-schema.sql');
+
+    if (!ReportTemplateRegistry.seeded) {
+      ReportTemplateRegistry.seeded = this.seedFromConfig();
+      ReportTemplateRegistry.seeded.catch(() => { ReportTemplateRegistry.seeded = null; });
+    }
+    await ReportTemplateRegistry.seeded;
+  }
+
+  private async seedFromConfig(): Promise<void> {
+    let inserted = 0;
+    for (const template of REPORT_TEMPLATES) {
+      const result = await db.query(`
+        INSERT INTO report_templates (slug, name, description, summary_words, sections, source_rules)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT DO NOTHING
+      `, [
+        template.slug,
+        template.name,
+        template.description,
+        template.summary_words,
+        JSON.stringify(template.sections),
+        JSON.stringify(template.source_rules)
+      ]);
+      inserted += result.rowCount || 0;
+    }
+
+    if (inserted > 0) {
+      console.log(`🌱 Seeded ${inserted} report templates from configuration`);
+    }
+  }
+
+  async list(): Promise<ReportTemplate[]> {
+    await this.ensureReady();
+    const result = await db.query(`SELECT ${TEMPLATE_COLUMNS} FROM report_templates WHERE deleted_at IS NULL ORDER BY name`);
+    return result.rows;
+  }
+
+  async get(slug: string): Promise<ReportTemplate | null> {
+    await this.ensureReady();
+    const result = await db.query(
+      `SELECT ${TEMPLATE_COLUMNS} FROM report_templates WHERE slug = $1 AND deleted_at IS NULL`,
+      [slug]
+    );
+    return result.rows[0] || null;
+  }
+
+  async create(template: ReportTemplateConfig): Promise<ReportTemplate> {
+    await this.ensureReady();
+
+    try {
+      // Re-creating a previously deleted template revives its row
+      const result = await db.query(`
+        INSERT INTO report_templates (slug, name, description, summary_words, sections, source_rules)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (slug) DO UPDATE SET
+          name = EXCLUDED.name,
+          description = EXCLUDED.description,
+          summary_words = EXCLUDED.summary_words,
+          sections = EXCLUDED.sections,
+          source_rules = EXCLUDED.source_rules,
+          deleted_at = NULL,
+          updated_at = now()
+        WHERE report_templates.deleted_at IS NOT NULL
+        RETURNING ${TEMPLATE_COLUMNS}
+      `, [
+        template.slug,
+        template.name,
+        template.description,
+        template.summary_words,
+        JSON.stringify(template.sections),
+        JSON.stringify(template.source_rules)
+      ]);
+
+      if (result.rows.length === 0) {
+        throw new ReportTemplateConflictError(`Report template "${template.slug}" already exists`);
+      }
+
+      console.log(`➕ Registered report template: ${template.slug}`);
+      return result.rows[0];
+    } catch (error) {
+      throw this.translateError(error);
+    }
+  }
+
+  async update(slug: string, changes: Partial<Omit<ReportTemplateConfig, 'slug'>>): Promise<ReportTemplate | null> {
+    await this.ensureReady();
+
+    const assignments: string[] = [];
+    const values: unknown[] = [slug];
+    for (const field of UPDATABLE_FIELDS) {
+      if (changes[field] !== undefined) {
+        values.push(JSON_FIELDS.includes(field) ? JSON.stringify(changes[field]) : changes[field]);
+        assignments.push(`${field} = $${values.length}`);
+      }
+    }
+
+    if (assignments.length === 0) {
+      return this.get(slug);
+    }
+
+    const result = await db.query(`
+      UPDATE report_templates SET ${assignments.join(', ')}, updated_at = now()
+      WHERE slug = $1 AND deleted_at IS NULL
+      RETURNING ${TEMPLATE_COLUMNS}
+    `, values);
+
+    if (result.rows[0]) {
+      console.log(`✏️ Updated report template: ${slug}`);
+    }
+    return result.rows[0] || null;
+  }
+
+  // Requests that name no template use the default, so it can be edited but not deleted
+  async delete(slug: string): Promise<boolean> {
+    if (slug === DEFAULT_REPORT_TEMPLATE) {
+      throw new ReportTemplateConflictError(`"${slug}" is the default template and cannot be deleted`);
+    }
+
+    await this.ensureReady();
+    const result = await db.query(
+      'UPDATE report_templates SET deleted_at = now(), updated_at = now() WHERE slug = $1 AND deleted_at IS NULL',
+      [slug]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  // The template a report is generated with: the named one, else the default. Falls back to the
+  // static config if the database is unavailable.
+  async resolve(slug?: string | null): Promise<ReportTemplateConfig> {
+    const wanted = slug || DEFAULT_REPORT_TEMPLATE;
+    try {
+      const template = await this.get(wanted);
+      if (template) return template;
+      if (wanted !== DEFAULT_REPORT_TEMPLATE) {
+        console.warn(`⚠️ Report template "${wanted}" not found, using "${DEFAULT_REPORT_TEMPLATE}"`);
+        const fallback = await this.get(DEFAULT_REPORT_TEMPLATE);
+        if (fallback) return fallback;
+      }
+    } catch (error) {
+      console.error('⚠️ Could not load report template registry, using configured templates:', error);
+    }
+    return REPORT_TEMPLATES.find(template => template.slug === wanted) || defaultTemplate();
+  }
+
+  private translateError(error: unknown): unknown {
+    if (error && typeof error === 'object' && 'code' in error && (error as { code?: string }).code === '23505') {
+      return new ReportTemplateConflictError('A report template with this slug already exists');
+    }
+    return error;
+  }
+}
+
+// Values given with a request win; the template's rules fill in the rest
+export function applySourceRules(request: Partial<SourceSelection>, template: ReportTemplateConfig): SourceSelection {
+  const rules = template.source_rules;
+  return {
+    max_sources: request.max_sources ?? rules.max_sources ?? DEFAULT_MAX_SOURCES,
+    time_range_days: request.time_range_days ?? rules.time_range_days ?? DEFAULT_TIME_RANGE_DAYS,
+    scoring_profile: request.scoring_profile ?? rules.scoring_profile,
+    topics: request.topics ?? rules.topics
+  };
+}
+
+function defaultTemplate(): ReportTemplateConfig {
+  const template = REPORT_TEMPLATES.find(candidate => candidate.slug === DEFAULT_REPORT_TEMPLATE);
+  if (!template) {
+    throw new Error(`Default report template "${DEFAULT_REPORT_TEMPLATE}" is missing from REPORT_TEMPLATES`);
+  }
+  return template;
+}
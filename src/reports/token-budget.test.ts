@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TokenBudgeter, estimateTokens } from './token-budget';
+
+const ENGLISH = 'Attrition in Indian IT services fell to 12.5% in FY24 as hiring slowed';
+const TAMIL = 'தகவல் தொழில்நுட்ப நிறுவனங்களில் பணியாளர் வெளியேற்றம் குறைந்தது';
+const HINDI = 'आईटी कंपनियों में कर्मचारियों का पलायन घटा';
+
+describe('estimateTokens', () => {
+  it('counts about four Latin characters per token', () => {
+    assert.equal(estimateTokens(ENGLISH), Math.ceil(ENGLISH.length / 4));
+  });
+
+  it('counts Indic characters as a token each', () => {
+    const spaces = (text: string) => text.split(' ').length - 1;
+    assert.equal(estimateTokens(TAMIL), Math.ceil(TAMIL.length - spaces(TAMIL) + spaces(TAMIL) / 4));
+    assert.equal(estimateTokens(HINDI), Math.ceil(HINDI.length - spaces(HINDI) + spaces(HINDI) / 4));
+  });
+});
+
+describe('TokenBudgeter.truncate', () => {
+  const budgeter = new TokenBudgeter(8000);
+
+  it('leaves text within the budget alone', () => {
+    assert.equal(budgeter.truncate(ENGLISH, 100), ENGLISH);
+  });
+
+  it('cuts Indic text to the estimated budget at a word boundary', () => {
+    const text = Array(20).fill(TAMIL).join(' ');
+    const cut = budgeter.truncate(text, 100);
+    assert.ok(cut.endsWith('…'));
+    assert.ok(estimateTokens(cut.slice(0, -1)) <= 100);
+    assert.ok(text.startsWith(cut.slice(0, -1)));
+    assert.equal(cut.slice(0, -1), cut.slice(0, -1).trimEnd());
+  });
+});
@@ -0,0 +1,85 @@
+// Prompt budgeting for report synthesis. Token counts are estimated, not exact: about four
+// characters per token for English and other Latin-script text, and a token per character for
+// Indic scripts (Devanagari, Bengali, Tamil, ...), which common vocabularies split into
+// single characters or less. Both err on the safe side for most models.
+
+export const CHARS_PER_TOKEN = 4;
+const INDIC_TOKENS_PER_CHAR = 1;
+// Devanagari through Malayalam
+const INDIC_CHAR = /[\u0900-\u0D7F]/;
+const INDIC_CHARS = /[\u0900-\u0D7F]/g;
+
+// Longest slice of one source that synthesis reads
+export const MAX_SOURCE_TOKENS = 1500;
+
+export function estimateTokens(text: string): number {
+  const indic = (text.match(INDIC_CHARS) || []).length;
+  return Math.ceil(indic * INDIC_TOKENS_PER_CHAR + (text.length - indic) / CHARS_PER_TOKEN);
+}
+
+// Keeps prompts within a model's context window (SYNTHESIS_CONTEXT_TOKENS, default 8000)
+export class TokenBudgeter {
+  readonly contextTokens: number;
+
+  constructor(contextTokens = parseInt(process.env.SYNTHESIS_CONTEXT_TOKENS || '') || 8000) {
+    this.contextTokens = contextTokens;
+  }
+
+  // Tokens left for variable input once the fixed instructions and the reply are accounted for
+  available(fixedPrompt: string, replyTokens: number): number {
+    return Math.max(0, this.contextTokens - estimateTokens(fixedPrompt) - replyTokens);
+  }
+
+  // Cuts text to roughly maxTokens, at a word boundary
+  truncate(text: string, maxTokens: number): string {
+    if (estimateTokens(text) <= maxTokens) return text;
+
+    // Walk the text until the estimate is used up, since the characters per token vary by script
+    let maxChars = 0;
+    let used = 0;
+    while (maxChars < text.length) {
+      used += INDIC_CHAR.test(text[maxChars]) ? INDIC_TOKENS_PER_CHAR : 1 / CHARS_PER_TOKEN;
+      if (used > maxTokens) break;
+      maxChars++;
+    }
+
+    const cut = text.substring(0, maxChars);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${lastSpace > maxChars / 2 ? cut.substring(0, lastSpace) : cut}…`;
+  }
+
+  // Leading texts that fit in the budget together; callers order them by importance
+  fit(texts: string[], budget: number): string[] {
+    const fitted: string[] = [];
+    let used = 0;
+    for (const text of texts) {
+      const tokens = estimateTokens(text) + 1;
+      if (used + tokens > budget) break;
+      fitted.push(text);
+      used += tokens;
+    }
+    return fitted;
+  }
+
+  // Splits items into consecutive batches of at most budget tokens each. An item larger than
+  // the budget gets a batch of its own; callers truncate items first to avoid that.
+  pack<T>(items: T[], text: (item: T) => string, budget: number): T[][] {
+    const batches: T[][] = [];
+    let batch: T[] = [];
+    let used = 0;
+
+    for (const item of items) {
+      const tokens = estimateTokens(text(item)) + 1;
+      if (batch.length > 0 && used + tokens > budget) {
+        batches.push(batch);
+        batch = [];
+        used = 0;
+      }
+      batch.push(item);
+      used += tokens;
+    }
+
+    if (batch.length > 0) batches.push(batch);
+    return batches;
+  }
+}
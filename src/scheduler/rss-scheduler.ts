@@ -0,0 +1,235 @@
+import { PoolClient } from 'pg';
+import db from '../db/connection';
+import { RSSSource, RSS_UPDATE_FREQUENCIES } from '../config/rss-sources';
+import { RSSSourceRegistry } from '../collectors/rss-source-registry';
+import { RSSCollectionManager } from '../scripts/collect-rss';
+
+type UpdateFrequency = typeof RSS_UPDATE_FREQUENCIES[number];
+
+export interface FeedSchedule {
+  feed_name: string;
+  frequency: UpdateFrequency;
+  enabled: boolean;
+  last_run_at: Date | null;
+  next_run_at: Date | null;
+  last_status: 'success' | 'error' | 'skipped' | null;
+  last_duration_ms: number | null;
+  last_article_count: number | null;
+  last_error: string | null;
+}
+
+export interface SchedulerRunResult {
+  feeds: string[];
+  totalArticles: number;
+  newArticles: number;
+  duplicates: number;
+  duration_ms: number;
+}
+
+export const SCHEDULE_INTERVAL_SECONDS: Record<UpdateFrequency, number> = {
+  hourly: 60 * 60,
+  daily: 24 * 60 * 60,
+  weekly: 7 * 24 * 60 * 60
+};
+
+// Shared by every replica; whoever holds it runs the tick, the rest skip
+const SCHEDULER_LOCK_KEY = 48151623;
+
+// Collects each feed on its own update_frequency. Due times live in rss_feed_schedules,
+// so restarts and deploys don't reset the cadence, and a Postgres advisory lock keeps
+// replicas from collecting the same feeds twice.
+export class RSSScheduler {
+  private manager: RSSCollectionManager;
+  private registry: RSSSourceRegistry;
+  private tickIntervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    manager = new RSSCollectionManager(),
+    registry = new RSSSourceRegistry(),
+    tickIntervalMs = parseInt(process.env.RSS_SCHEDULER_TICK_MS || '') || 60 * 1000
+  ) {
+    this.manager = manager;
+    this.registry = registry;
+    this.tickIntervalMs = tickIntervalMs;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    console.log(`⏰ Starting RSS scheduler (checking for due feeds every ${Math.round(this.tickIntervalMs / 1000)}s)`);
+    this.timer = setInterval(() => this.runTick(), this.tickIntervalMs);
+    this.runTick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runTick(): Promise<void> {
+    try {
+      await this.tick();
+    } catch (error) {
+      console.error('❌ [Scheduler] RSS scheduler tick failed:', error);
+    }
+  }
+
+  // Collect every due feed. Returns null when another tick (here or on another replica) holds the lock.
+  async tick(): Promise<SchedulerRunResult | null> {
+    if (this.ticking) return null;
+    this.ticking = true;
+
+    let client: PoolClient | null = null;
+    let locked = false;
+
+    try {
+      client = await db.getClient();
+      const lock = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [SCHEDULER_LOCK_KEY]);
+      locked = lock.rows[0].locked;
+      if (!locked) {
+        return null;
+      }
+
+      const sources = await this.registry.getEnabledSources();
+      await this.syncSchedules(sources);
+
+      const due = await this.getDueSources(sources);
+      if (due.length === 0) {
+        return null;
+      }
+
+      return await this.collect(due);
+    } finally {
+      if (client) {
+        if (locked) {
+          await client.query('SELECT pg_advisory_unlock($1)', [SCHEDULER_LOCK_KEY]).catch(() => undefined);
+        }
+        client.release();
+      }
+      // Also cleared when no connection could be had, or one failure would stop every later tick
+      this.ticking = false;
+    }
+  }
+
+  // Mark feeds (all enabled feeds when none are named) as due and run a tick straight away
+  async runNow(feedNames?: string[]): Promise<{ queued: string[], run: SchedulerRunResult | null }> {
+    const sources = await this.registry.getEnabledSources();
+    await this.syncSchedules(sources);
+
+    const names = sources
+      .map(source => source.name)
+      .filter(name => !feedNames || feedNames.includes(name));
+
+    if (names.length > 0) {
+      await db.query('UPDATE rss_feed_schedules SET next_run_at = now(), updated_at = now() WHERE feed_name = ANY($1)', [names]);
+      console.log(`▶️ [Scheduler] Manual run requested for ${names.length} feeds`);
+    }
+
+    const run = names.length > 0 ? await this.tick() : null;
+    return { queued: names, run };
+  }
+
+  async getSchedules(): Promise<FeedSchedule[]> {
+    await db.ensureSchema('scheduler-schema.sql');
+
+    const sources = await this.registry.list();
+    const result = await db.query('SELECT * FROM rss_feed_schedules');
+    const rows = new Map((result.rows as Omit<FeedSchedule, 'enabled'>[]).map(row => [row.feed_name, row]));
+
+    return sources.map(source => {
+      const row = rows.get(source.name);
+      return {
+        feed_name: source.name,
+        frequency: source.update_frequency,
+        enabled: source.enabled,
+        last_run_at: row?.last_run_at || null,
+        next_run_at: source.enabled ? row?.next_run_at || null : null,
+        last_status: row?.last_status || null,
+        last_duration_ms: row?.last_duration_ms ?? null,
+        last_article_count: row?.last_article_count ?? null,
+        last_error: row?.last_error || null
+      };
+    });
+  }
+
+  // New feeds become due immediately; a changed frequency re-bases next_run_at on the last run
+  private async syncSchedules(sources: RSSSource[]): Promise<void> {
+    await db.ensureSchema('scheduler-schema.sql');
+    if (sources.length === 0) return;
+
+    await db.query(`
+      WITH feeds AS (
+        SELECT * FROM unnest($1::text[], $2::text[], $3::int[]) AS f(feed_name, frequency, interval_seconds)
+      )
+      INSERT INTO rss_feed_schedules (feed_name, frequency, next_run_at)
+      SELECT feed_name, frequency, now() FROM feeds
+      ON CONFLICT (feed_name) DO UPDATE SET
+        frequency = EXCLUDED.frequency,
+        next_run_at = COALESCE(rss_feed_schedules.last_run_at, now()) + make_interval(secs => (
+          SELECT interval_seconds FROM feeds WHERE feeds.feed_name = EXCLUDED.feed_name
+        )),
+        updated_at = now()
+      WHERE rss_feed_schedules.frequency <> EXCLUDED.frequency
+    `, [
+      sources.map(source => source.name),
+      sources.map(source => source.update_frequency),
+      sources.map(source => SCHEDULE_INTERVAL_SECONDS[source.update_frequency])
+    ]);
+  }
+
+  private async getDueSources(sources: RSSSource[]): Promise<RSSSource[]> {
+    const result = await db.query(
+      'SELECT feed_name FROM rss_feed_schedules WHERE next_run_at <= now() AND feed_name = ANY($1)',
+      [sources.map(source => source.name)]
+    );
+    const dueNames = new Set<string>(result.rows.map((row: { feed_name: string }) => row.feed_name));
+    return sources.filter(source => dueNames.has(source.name));
+  }
+
+  private async collect(due: RSSSource[]): Promise<SchedulerRunResult> {
+    const startTime = Date.now();
+    console.log(`🤖 [Scheduler] Collecting ${due.length} due feeds: ${due.map(source => source.name).join(', ')}`);
+
+    const { totalArticles, newArticles, duplicates, results, quarantined } = await this.manager.runFeedCollection(due);
+    const resultsByFeed = new Map(results.map(result => [result.feed_name, result]));
+
+    for (const source of due) {
+      const result = resultsByFeed.get(source.name);
+      const status = quarantined.includes(source.name) ? 'skipped' : result?.status || 'skipped';
+
+      await db.query(`
+        UPDATE rss_feed_schedules SET
+          last_run_at = now(),
+          next_run_at = now() + make_interval(secs => $2),
+          last_status = $3,
+          last_duration_ms = $4,
+          last_article_count = $5,
+          last_error = $6,
+          updated_at = now()
+        WHERE feed_name = $1
+      `, [
+        source.name,
+        SCHEDULE_INTERVAL_SECONDS[source.update_frequency],
+        status,
+        result?.latency_ms ?? null,
+        result?.articles ?? 0,
+        result?.error || null
+      ]);
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`✅ [Scheduler] Collected ${due.length} feeds in ${duration}ms: ${totalArticles} articles, ${newArticles} new, ${duplicates} duplicates`);
+
+    return {
+      feeds: due.map(source => source.name),
+      totalArticles,
+      newArticles,
+      duplicates,
+      duration_ms: duration
+    };
+  }
+}
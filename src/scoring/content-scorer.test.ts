@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SCORING_PROFILES } from '../config/scoring';
+import { ContentScorer } from './content-scorer';
+import { AuthoritySnapshot } from './domain-authority-registry';
+
+// Pinned, so scoring doesn't read the registry from the database
+const AUTHORITIES: AuthoritySnapshot = {
+  version: 'test',
+  entries: [
+    { pattern: '*.gov.in', tier: 'government', score: 1.0 },
+    { pattern: 'pib.gov.in', tier: 'government', score: 0.98 },
+    { pattern: 'medium.com', tier: 'blog', score: 0.5 }
+  ]
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const scorer = new ContentScorer(2, AUTHORITIES);
+
+describe('ContentScorer', () => {
+  it('scores domains with the most specific registry entry and records the snapshot', () => {
+    const score = (url: string) => scorer.scoreContent({ title: 'Labour code notified', url }, 'test').explanation.domain_authority;
+
+    assert.deepEqual(score('https://pib.gov.in/release'), { host: 'pib.gov.in', pattern: 'pib.gov.in', tier: 'government', score: 0.98, registry_version: 'test' });
+    assert.equal(score('https://labour.gov.in/notice').pattern, '*.gov.in');
+    assert.equal(score('https://www.medium.com/post').score, 0.5);
+    assert.equal(score('https://example.com/post').pattern, null);
+  });
+
+  it('combines the components with the version weights', () => {
+    const { scored_item, explanation } = scorer.scoreContent({
+      title: 'EPFO payroll data shows 12% rise in hiring',
+      url: 'https://labour.gov.in/epfo',
+      content: 'EPFO added 15.2 lakh members in March 2024, according to payroll data.',
+      published_at: new Date()
+    }, 'test');
+
+    const { weights } = explanation;
+    const expected = weights.domain_authority * scored_item.domain_authority
+      + weights.indian_context * scored_item.indian_context_score
+      + weights.freshness * scored_item.freshness_score
+      + weights.extractability * scored_item.extractability_score;
+    assert.ok(Math.abs(scored_item.composite_score - expected) < 1e-9);
+    assert.equal(scored_item.scoring_version, 2);
+  });
+
+  it('scores fresh items above old ones', () => {
+    const score = (publishedAt: Date) => scorer.scoreContent({ title: 'Attrition update', url: 'https://example.com', published_at: publishedAt }, 'test').scored_item.freshness_score;
+    assert.ok(score(new Date()) > score(new Date(Date.now() - 365 * DAY_MS)));
+  });
+
+  it('rejects unknown scoring versions', () => {
+    assert.throws(() => new ContentScorer(99), /Unknown scoring version 99/);
+  });
+
+  it('tags the states an item mentions, directly or via a city', () => {
+    const { scored_item, explanation } = scorer.scoreContent({
+      title: 'Bengaluru tech firms step up hiring',
+      url: 'https://example.com/hiring',
+      content: 'Hiring in Bengaluru and Pune rose this quarter as firms expanded.'
+    }, 'test');
+    assert.deepEqual([...(scored_item.states || [])].sort(), ['Karnataka', 'Maharashtra']);
+    assert.ok(scored_item.indian_context_score > 0);
+    assert.deepEqual(explanation.indian_context.states, scored_item.states);
+  });
+});
+
+describe('ContentScorer.applyProfile', () => {
+  const item = {
+    domain_authority: 1,
+    indian_context_score: 0.5,
+    extractability_score: 0.8,
+    freshness_score: 0.9,
+    composite_score: 0.8,
+    published_at: new Date(Date.now() - 28 * DAY_MS)
+  };
+
+  it('recomputes freshness with the profile half-life', () => {
+    // Four weeks is two temporal half-lives
+    const rescored = scorer.applyProfile(item, SCORING_PROFILES.temporal);
+    assert.ok(Math.abs(rescored.freshness_score - 0.25) < 0.01);
+  });
+
+  it('weights the components with the profile', () => {
+    const rescored = scorer.applyProfile(item, SCORING_PROFILES.factual);
+    const { weights } = SCORING_PROFILES.factual;
+    const expected = weights.domain_authority * 1 + weights.indian_context * 0.5
+      + weights.freshness * rescored.freshness_score + weights.extractability * 0.8;
+    assert.ok(Math.abs(rescored.composite_score - expected) < 1e-9);
+  });
+
+  it('ranks recent coverage higher under the temporal profile', () => {
+    const recent = { ...item, domain_authority: 0.7, published_at: new Date() };
+    const temporal = SCORING_PROFILES.temporal;
+    const factual = SCORING_PROFILES.factual;
+    assert.ok(scorer.applyProfile(recent, temporal).composite_score > scorer.applyProfile(item, temporal).composite_score);
+    assert.ok(scorer.applyProfile(recent, factual).composite_score < scorer.applyProfile(item, factual).composite_score);
+  });
+});
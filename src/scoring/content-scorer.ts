@@ -1,10 +1,27 @@
-import { RawContentItem, ScoringComponents, ContentItem } from '../types';
+import { RawContentItem, ScoringComponents, ScoringExplanation, ContentItem } from '../types';
 import crypto from 'crypto';
+import { CURRENT_SCORING_VERSION, SCORING_VERSIONS, ScoringProfile, ScoringVersion } from '../config/scoring';
+import { AuthoritySnapshot, DomainAuthorityRegistry } from './domain-authority-registry';
+import { IndianContextClassifier } from './indian-context-classifier';
+import { detectLanguage } from '../utils/language-detector';
+
+const indianContextClassifier = new IndianContextClassifier();
 
 export class ContentScorer {
-  private readonly domainScores = {
-    'default': 0.70 // Give all domains a decent baseline score
-  };
+  readonly version: number;
+  private readonly config: ScoringVersion;
+  // Domain authorities to score with; the registry's live snapshot when not given
+  private readonly authorities?: AuthoritySnapshot;
+
+  constructor(version = CURRENT_SCORING_VERSION, authorities?: AuthoritySnapshot) {
+    if (!SCORING_VERSIONS[version]) {
+      throw new Error(`Unknown scoring version ${version} (known: ${Object.keys(SCORING_VERSIONS).join(', ')})`);
+    }
+    this.version = version;
+    this.config = SCORING_VERSIONS[version];
+    this.authorities = authorities;
+  }
+
 
   private readonly indianKeywords = [
     'india', 'indian', 'rupee', 'inr', '₹', 'lakh', 'crore',
@@ -17,23 +34,30 @@ export class ContentScorer {
 
   scoreContent(item: RawContentItem, source: string): {
     scored_item: Omit<ContentItem, 'id' | 'collected_at'>,
-    components: ScoringComponents
+    components: ScoringComponents,
+    explanation: ScoringExplanation
   } {
     const domain = this.extractDomain(item.url);
     const content = `${item.title} ${item.snippet || ''} ${item.content || ''}`.toLowerCase();
+    const { weights } = this.config;
     
     // Calculate individual scores
-    const domain_authority = this.calculateDomainAuthority(domain);
-    const indian_context = this.calculateIndianContext(content);
+    const authority = this.calculateDomainAuthority(domain);
+    const indianContext = this.config.indian_context === 'gazetteer'
+      ? indianContextClassifier.classify(content, domain)
+      : this.calculateKeywordIndianContext(content);
     const freshness = this.calculateFreshness(item.published_at);
     const extractability = this.calculateExtractability(content);
     
+    const domain_authority = authority.score;
+    const indian_context = indianContext.score;
+    
     // Calculate composite score with penalty for web search results
     let composite_score = (
-      0.4 * domain_authority +
-      0.3 * indian_context + 
-      0.2 * freshness +
-      0.1 * extractability
+      weights.domain_authority * domain_authority +
+      weights.indian_context * indian_context + 
+      weights.freshness * freshness +
+      weights.extractability * extractability.score
     );
     
     // No penalties - let content quality determine the score
@@ -42,7 +66,23 @@ export class ContentScorer {
       domain_authority,
       indian_context,
       freshness,
-      extractability
+      extractability: extractability.score
+    };
+
+    const explanation: ScoringExplanation = {
+      version: this.version,
+      weights,
+      domain_authority: { host: domain, ...authority },
+      indian_context: indianContext,
+      freshness: {
+        published_at: item.published_at ? new Date(item.published_at).toISOString() : null,
+        age_days: item.published_at ? Math.round(this.ageInDays(item.published_at) * 10) / 10 : null,
+        half_life_days: this.config.freshness_half_life_days,
+        score: freshness
+      },
+      extractability,
+      composite_score,
+      scored_at: new Date().toISOString()
     };
 
     const scored_item = {
@@ -56,13 +96,13 @@ export class ContentScorer {
       author: item.author,
       published_at: item.published_at || new Date(),
       categories: item.categories || [],
-      language: 'en',
+      language: detectLanguage(`${item.title} ${item.content || item.snippet || ''}`, item.language),
       
       // Scores
       domain_authority,
       indian_context_score: indian_context,
       freshness_score: freshness,
-      extractability_score: extractability,
+      extractability_score: extractability.score,
       composite_score,
       
       // Extracted features
@@ -73,22 +113,30 @@ export class ContentScorer {
       
       // Metadata
       scraper_version: '1.0',
-      processing_notes: `Scored on ${new Date().toISOString()}`
+      processing_notes: `Scored on ${new Date().toISOString()}`,
+      scoring_version: this.version,
+      score_explanation: explanation,
+      states: indianContext.states
     };
 
-    return { scored_item, components };
+    return { scored_item, components, explanation };
   }
 
-  private calculateDomainAuthority(domain: string): number {
-    return (this.domainScores as Record<string, number>)[domain] || this.domainScores.default;
+  // Per-domain and wildcard scores from the domain authority registry
+  private calculateDomainAuthority(domain: string): Omit<ScoringExplanation['domain_authority'], 'host'> {
+    return DomainAuthorityRegistry.lookup(domain, this.authorities);
   }
 
-  private calculateIndianContext(content: string): number {
+  // Scoring version 1's heuristic, kept so version 1 scores can still be reproduced
+  private calculateKeywordIndianContext(content: string): ScoringExplanation['indian_context'] {
     let score = 0;
     const words = content.split(/\s+/);
     const totalWords = words.length;
+    const matched_keywords: Record<string, number> = {};
+    const boosts: string[] = [];
+    const states = indianContextClassifier.tagStates(content);
     
-    if (totalWords === 0) return 0;
+    if (totalWords === 0) return { matched_keywords, keyword_density: 0, boosts, states, score: 0 };
 
     // Count Indian context keywords
     let indianWordCount = 0;
@@ -97,6 +145,7 @@ export class ContentScorer {
       const matches = content.match(regex);
       if (matches) {
         indianWordCount += matches.length;
+        matched_keywords[keyword] = matches.length;
       }
     }
 
@@ -105,29 +154,42 @@ export class ContentScorer {
     score = keywordDensity;
 
     // Boost for specific high-value keywords
-    if (content.includes('india') || content.includes('indian')) score += 0.2;
-    if (content.includes('epfo') || content.includes('esi') || content.includes('pf')) score += 0.3;
-    if (content.includes('labour code') || content.includes('wage code')) score += 0.2;
-    if (content.includes('₹') || content.includes('lakh') || content.includes('crore')) score += 0.15;
+    if (content.includes('india') || content.includes('indian')) {
+      score += 0.2;
+      boosts.push('india');
+    }
+    if (content.includes('epfo') || content.includes('esi') || content.includes('pf')) {
+      score += 0.3;
+      boosts.push('social_security');
+    }
+    if (content.includes('labour code') || content.includes('wage code')) {
+      score += 0.2;
+      boosts.push('labour_codes');
+    }
+    if (content.includes('₹') || content.includes('lakh') || content.includes('crore')) {
+      score += 0.15;
+      boosts.push('indian_currency');
+    }
 
-    return Math.min(1.0, score);
+    return { matched_keywords, keyword_density: keywordDensity, boosts, states, score: Math.min(1.0, score) };
   }
 
-  private calculateFreshness(published_at?: Date): number {
+  private calculateFreshness(published_at?: Date, halfLife = this.config.freshness_half_life_days): number {
     if (!published_at) return 0.5; // Default for unknown dates
     
-    const now = new Date();
-    const ageInDays = (now.getTime() - published_at.getTime()) / (1000 * 60 * 60 * 24);
-    
-    // Exponential decay with half-life of 180 days (6 months)
-    const halfLife = 180;
-    const freshness = Math.pow(0.5, ageInDays / halfLife);
+    // Exponential decay; the version's half-life (180 days in version 1) unless a profile sets its own
+    const freshness = Math.pow(0.5, this.ageInDays(published_at) / halfLife);
     
     return Math.max(0.1, Math.min(1.0, freshness));
   }
 
-  private calculateExtractability(content: string): number {
+  private ageInDays(published_at: Date): number {
+    return (Date.now() - new Date(published_at).getTime()) / (1000 * 60 * 60 * 24);
+  }
+
+  private calculateExtractability(content: string): ScoringExplanation['extractability'] {
     let score = 0.3; // Base score
+    const fired: string[] = [];
     
     // Check for various extractable elements
     const patterns = {
@@ -141,15 +203,23 @@ export class ContentScorer {
     };
 
     // Award points for each type of extractable content
-    if ((content.match(patterns.percentages) || []).length >= 1) score += 0.2;
-    if ((content.match(patterns.currency_inr) || []).length >= 1) score += 0.15;
-    if ((content.match(patterns.currency_words) || []).length >= 1) score += 0.15;
-    if ((content.match(patterns.dates) || []).length >= 2) score += 0.1;
-    if ((content.match(patterns.numbers) || []).length >= 3) score += 0.1;
-    if ((content.match(patterns.quotes) || []).length >= 1) score += 0.05;
-    if ((content.match(patterns.statistics) || []).length >= 1) score += 0.1;
+    const rules: { pattern: keyof typeof patterns, minMatches: number, points: number }[] = [
+      { pattern: 'percentages', minMatches: 1, points: 0.2 },
+      { pattern: 'currency_inr', minMatches: 1, points: 0.15 },
+      { pattern: 'currency_words', minMatches: 1, points: 0.15 },
+      { pattern: 'dates', minMatches: 2, points: 0.1 },
+      { pattern: 'numbers', minMatches: 3, points: 0.1 },
+      { pattern: 'quotes', minMatches: 1, points: 0.05 },
+      { pattern: 'statistics', minMatches: 1, points: 0.1 }
+    ];
+    for (const rule of rules) {
+      if ((content.match(patterns[rule.pattern]) || []).length >= rule.minMatches) {
+        score += rule.points;
+        fired.push(rule.pattern);
+      }
+    }
 
-    return Math.min(1.0, score);
+    return { patterns: fired, score: Math.min(1.0, score) };
   }
 
   private hasStatistics(content: string): boolean {
@@ -205,6 +275,26 @@ export class ContentScorer {
     return 'https://search-based-content.com'; // Generic placeholder since we're search-based now
   }
 
+  // Re-weight an already scored item for a scoring profile: freshness is recomputed with the
+  // profile's half-life and the composite uses the profile's weights
+  applyProfile<T extends Pick<ContentItem, 'domain_authority' | 'indian_context_score' | 'extractability_score' | 'composite_score' | 'freshness_score' | 'published_at'>>(
+    item: T,
+    profile: ScoringProfile
+  ): T {
+    const freshness_score = this.calculateFreshness(item.published_at || undefined, profile.freshness_half_life_days);
+    const { weights } = profile;
+
+    return {
+      ...item,
+      freshness_score,
+      composite_score:
+        weights.domain_authority * Number(item.domain_authority) +
+        weights.indian_context * Number(item.indian_context_score) +
+        weights.freshness * freshness_score +
+        weights.extractability * Number(item.extractability_score)
+    };
+  }
+
   // Utility method to batch score multiple items
   scoreMultipleItems(items: RawContentItem[], source: string): Omit<ContentItem, 'id' | 'collected_at'>[] {
     console.log(`🔢 Scoring ${items.length} items from ${source}...`);
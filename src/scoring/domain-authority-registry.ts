@@ -0,0 +1,365 @@
+import crypto from 'crypto';
+import db from '../db/connection';
+import {
+  DOMAIN_AUTHORITIES,
+  DEFAULT_DOMAIN_AUTHORITY,
+  DomainAuthorityTier,
+  TIER_DEFAULT_SCORES
+} from '../config/domain-authorities';
+import { SourceType } from '../types/sources';
+
+export interface DomainAuthority {
+  id: string;
+  pattern: string;
+  tier: DomainAuthorityTier;
+  score: number;
+  notes: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DomainAuthorityInput {
+  pattern: string;
+  tier: DomainAuthorityTier;
+  score?: number;
+  notes?: string | null;
+}
+
+export interface DomainAuthorityMatch {
+  pattern: string | null;
+  tier: DomainAuthorityTier | null;
+  score: number;
+  // Snapshot the score came from
+  registry_version: string;
+}
+
+// The registry's entries at one point in time. The version is a hash of the entries, so scores
+// recorded with it can be reproduced from domain_authority_snapshots.
+export interface AuthoritySnapshot {
+  version: string;
+  entries: AuthorityEntry[];
+}
+
+export class DomainAuthorityConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DomainAuthorityConflictError';
+  }
+}
+
+export type AuthorityEntry = Pick<DomainAuthority, 'pattern' | 'tier' | 'score'>;
+
+const AUTHORITY_COLUMNS = 'id, pattern, tier, score, notes, created_at, updated_at';
+const UPDATABLE_FIELDS = ['pattern', 'tier', 'score', 'notes'] as const;
+
+// Reload the in-memory snapshot at most this often when scoring
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Tables with per-item domain_authority, and how to read the host from their url column
+const SCORED_TABLES: Record<string, SourceType> = {
+  content_items: 'content_item',
+  rss_articles: 'rss_article'
+};
+const HOST_SQL = "substring(lower(url) from '^https?://(?:www\\.)?([^/:?#]+)')";
+
+// Runtime-managed domain authority scores. Scoring is synchronous, so ContentScorer reads
+// a process-wide snapshot that starts from the configured seeds and is reloaded from
+// domain_authorities in the background. Changing an entry rescores the stored items it covers.
+export class DomainAuthorityRegistry {
+  private static seeded: Promise<void> | null = null;
+  private static snapshot: AuthoritySnapshot = toSnapshot(configuredEntries());
+  private static loadedAt = 0;
+  private static loading: Promise<void> | null = null;
+
+  // The entries lookup() currently scores with
+  static current(): AuthoritySnapshot {
+    return DomainAuthorityRegistry.snapshot;
+  }
+
+  // Most specific entry for a host: an exact pattern beats any wildcard, longer wildcards beat
+  // shorter ones. Uses the live snapshot unless given a pinned one.
+  static lookup(host: string, snapshot?: AuthoritySnapshot): DomainAuthorityMatch {
+    if (!snapshot && Date.now() - DomainAuthorityRegistry.loadedAt > REFRESH_INTERVAL_MS) {
+      new DomainAuthorityRegistry().refresh().catch(() => undefined);
+    }
+    const { version, entries } = snapshot || DomainAuthorityRegistry.snapshot;
+
+    const normalized = host.toLowerCase().replace(/^www\./, '');
+    let best: AuthorityEntry | null = null;
+    let bestSpecificity = -1;
+
+    for (const entry of entries) {
+      const specificity = matchSpecificity(normalized, entry.pattern);
+      if (specificity > bestSpecificity) {
+        best = entry;
+        bestSpecificity = specificity;
+      }
+    }
+
+    return best
+      ? { pattern: best.pattern, tier: best.tier, score: best.score, registry_version: version }
+      : { pattern: null, tier: null, score: DEFAULT_DOMAIN_AUTHORITY, registry_version: version };
+  }
+
+  // Reload the snapshot used by lookup(); concurrent callers share one query
+  async refresh(): Promise<void> {
+    if (!DomainAuthorityRegistry.loading) {
+      DomainAuthorityRegistry.loadedAt = Date.now();
+      DomainAuthorityRegistry.loading = this.list()
+        .then(async entries => {
+          const snapshot = toSnapshot(entries.map(({ pattern, tier, score }) => ({ pattern, tier, score })));
+          await this.record(snapshot);
+          DomainAuthorityRegistry.snapshot = snapshot;
+        })
+        .catch(error => {
+          console.error('⚠️ Could not load domain authorities, keeping previous scores:', error instanceof Error ? error.message : error);
+        })
+        .finally(() => {
+          DomainAuthorityRegistry.loading = null;
+        });
+    }
+    await DomainAuthorityRegistry.loading;
+  }
+
+  // A recorded snapshot, for reproducing scores made with it; null if the version is unknown
+  async snapshot(version: string): Promise<AuthoritySnapshot | null> {
+    await this.ensureReady();
+    const result = await db.query('SELECT version, entries FROM domain_authority_snapshots WHERE version = $1', [version]);
+    return result.rows[0] || null;
+  }
+
+  private async record(snapshot: AuthoritySnapshot): Promise<void> {
+    await db.query(
+      'INSERT INTO domain_authority_snapshots (version, entries) VALUES ($1, $2) ON CONFLICT (version) DO NOTHING',
+      [snapshot.version, JSON.stringify(snapshot.entries)]
+    );
+  }
+
+  private async ensureReady(): Promise<void> {
+    await db.ensureSchema('domain-authority-schema.sql');
+
+    if (!DomainAuthorityRegistry.seeded) {
+      DomainAuthorityRegistry.seeded = this.seedFromConfig();
+      DomainAuthorityRegistry.seeded.catch(() => { DomainAuthorityRegistry.seeded = null; });
+    }
+    await DomainAuthorityRegistry.seeded;
+  }
+
+  private async seedFromConfig(): Promise<void> {
+    // Items scored before the table was first read used the configured entries
+    await this.record(toSnapshot(configuredEntries()));
+
+    const inserted: string[] = [];
+    for (const seed of DOMAIN_AUTHORITIES) {
+      const result = await db.query(`
+        INSERT INTO domain_authorities (pattern, tier, score, notes)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT DO NOTHING
+      `, [seed.pattern, seed.tier, seed.score ?? TIER_DEFAULT_SCORES[seed.tier], seed.notes || null]);
+      if (result.rowCount) {
+        inserted.push(seed.pattern);
+      }
+    }
+
+    if (inserted.length > 0) {
+      console.log(`🌱 Seeded ${inserted.length} domain authorities from configuration`);
+      // Items stored before these entries existed were scored with the default; not awaited
+      // because rescoring can reload the snapshot, which waits for seeding to finish
+      setImmediate(() => {
+        this.rescore(inserted).catch(error => console.error('⚠️ Rescoring seeded domain authorities failed:', error));
+      });
+    }
+  }
+
+  async list(options: { tier?: DomainAuthorityTier } = {}): Promise<DomainAuthority[]> {
+    await this.ensureReady();
+
+    const values: unknown[] = [];
+    let query = `SELECT ${AUTHORITY_COLUMNS} FROM domain_authorities WHERE deleted_at IS NULL`;
+    if (options.tier) {
+      values.push(options.tier);
+      query += ` AND tier = $${values.length}`;
+    }
+    query += ' ORDER BY score DESC, pattern';
+
+    const result = await db.query(query, values);
+    return result.rows;
+  }
+
+  async get(id: string): Promise<DomainAuthority | null> {
+    await this.ensureReady();
+    const result = await db.query(
+      `SELECT ${AUTHORITY_COLUMNS} FROM domain_authorities WHERE id = $1 AND deleted_at IS NULL`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  async create(input: DomainAuthorityInput): Promise<{ authority: DomainAuthority, rescored: number }> {
+    await this.ensureReady();
+    const pattern = normalizePattern(input.pattern);
+
+    try {
+      // Re-creating a previously deleted pattern revives its row
+      const result = await db.query(`
+        INSERT INTO domain_authorities (pattern, tier, score, notes)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (pattern) DO UPDATE SET
+          tier = EXCLUDED.tier,
+          score = EXCLUDED.score,
+          notes = EXCLUDED.notes,
+          deleted_at = NULL,
+          updated_at = now()
+        WHERE domain_authorities.deleted_at IS NOT NULL
+        RETURNING ${AUTHORITY_COLUMNS}
+      `, [pattern, input.tier, input.score ?? TIER_DEFAULT_SCORES[input.tier], input.notes || null]);
+
+      if (result.rows.length === 0) {
+        throw new DomainAuthorityConflictError(`Domain authority for "${pattern}" already exists`);
+      }
+
+      console.log(`➕ Registered domain authority: ${pattern} (${input.tier})`);
+      const rescored = await this.applyChange([pattern]);
+      return { authority: result.rows[0], rescored };
+    } catch (error) {
+      throw this.translateError(error);
+    }
+  }
+
+  async update(id: string, changes: Partial<DomainAuthorityInput>): Promise<{ authority: DomainAuthority, rescored: number } | null> {
+    const existing = await this.get(id);
+    if (!existing) return null;
+
+    const assignments: string[] = [];
+    const values: unknown[] = [id];
+    for (const field of UPDATABLE_FIELDS) {
+      if (changes[field] !== undefined) {
+        values.push(field === 'pattern' && changes.pattern !== undefined ? normalizePattern(changes.pattern) : changes[field]);
+        assignments.push(`${field} = $${values.length}`);
+      }
+    }
+    // A new tier without an explicit score takes the tier's default
+    if (changes.tier !== undefined && changes.score === undefined) {
+      values.push(TIER_DEFAULT_SCORES[changes.tier]);
+      assignments.push(`score = $${values.length}`);
+    }
+
+    if (assignments.length === 0) {
+      return { authority: existing, rescored: 0 };
+    }
+
+    try {
+      const result = await db.query(`
+        UPDATE domain_authorities SET ${assignments.join(', ')}, updated_at = now()
+        WHERE id = $1 AND deleted_at IS NULL
+        RETURNING ${AUTHORITY_COLUMNS}
+      `, values);
+
+      const authority: DomainAuthority | undefined = result.rows[0];
+      if (!authority) return null;
+
+      console.log(`✏️ Updated domain authority: ${authority.pattern}`);
+      const rescored = await this.applyChange([existing.pattern, authority.pattern]);
+      return { authority, rescored };
+    } catch (error) {
+      throw this.translateError(error);
+    }
+  }
+
+  async delete(id: string): Promise<{ deleted: boolean, rescored: number }> {
+    await this.ensureReady();
+    const result = await db.query(
+      'UPDATE domain_authorities SET deleted_at = now(), updated_at = now() WHERE id = $1 AND deleted_at IS NULL RETURNING pattern',
+      [id]
+    );
+    if (result.rows.length === 0) {
+      return { deleted: false, rescored: 0 };
+    }
+
+    const rescored = await this.applyChange([result.rows[0].pattern]);
+    return { deleted: true, rescored };
+  }
+
+  private async applyChange(patterns: string[]): Promise<number> {
+    await this.refresh();
+    return this.rescore(patterns);
+  }
+
+  // Rescore stored items whose host falls under any of the patterns and whose domain authority
+  // changed, regenerating their composite score and explanation
+  async rescore(patterns: string[]): Promise<number> {
+    // Imported here because the scorer it uses reads this registry
+    const { Rescorer } = await import('./rescorer');
+    const rescorer = new Rescorer();
+    let rescored = 0;
+
+    for (const [table, sourceType] of Object.entries(SCORED_TABLES) as [string, SourceType][]) {
+      const exists = await db.query('SELECT to_regclass($1) IS NOT NULL AS exists', [table]);
+      if (!exists.rows[0].exists) continue;
+
+      const exact = patterns.filter(pattern => !pattern.startsWith('*.'));
+      const suffixes = patterns.filter(pattern => pattern.startsWith('*.')).map(pattern => pattern.slice(2));
+
+      const result = await db.query(`
+        SELECT id, ${HOST_SQL} AS host, domain_authority::float8 AS domain_authority
+        FROM ${table}
+        WHERE ${HOST_SQL} = ANY($1)
+          OR EXISTS (SELECT 1 FROM unnest($2::text[]) AS s(suffix) WHERE ${HOST_SQL} = s.suffix OR ${HOST_SQL} LIKE '%.' || s.suffix)
+      `, [exact, suffixes]);
+
+      const rows: { id: string, host: string | null, domain_authority: number | null }[] = result.rows;
+      const changed = rows
+        .filter(row => {
+          const score = DomainAuthorityRegistry.lookup(row.host || '').score;
+          return row.domain_authority === null || Math.abs(row.domain_authority - score) > 0.001;
+        })
+        .map(row => row.id);
+      if (changed.length === 0) continue;
+
+      const count = await rescorer.rescoreItems(sourceType, changed);
+      console.log(`🔁 Rescored domain authority for ${count} ${table} rows (${patterns.join(', ')})`);
+      rescored += count;
+    }
+
+    return rescored;
+  }
+
+  private translateError(error: unknown): unknown {
+    if (error && typeof error === 'object' && 'code' in error && (error as { code?: string }).code === '23505') {
+      return new DomainAuthorityConflictError('A domain authority with this pattern already exists');
+    }
+    return error;
+  }
+}
+
+function configuredEntries(): AuthorityEntry[] {
+  return DOMAIN_AUTHORITIES.map(seed => ({
+    pattern: seed.pattern,
+    tier: seed.tier,
+    score: seed.score ?? TIER_DEFAULT_SCORES[seed.tier]
+  }));
+}
+
+// Entries in pattern order, so the same entries always hash to the same version
+function toSnapshot(entries: AuthorityEntry[]): AuthoritySnapshot {
+  const sorted = [...entries].sort((a, b) => a.pattern.localeCompare(b.pattern));
+  const version = crypto.createHash('md5')
+    .update(JSON.stringify(sorted.map(entry => [entry.pattern, entry.tier, Number(entry.score)])))
+    .digest('hex')
+    .substring(0, 12);
+  return { version, entries: sorted };
+}
+
+export function normalizePattern(pattern: string): string {
+  return pattern.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '');
+}
+
+// -1 when the pattern doesn't cover the host; otherwise higher is more specific
+function matchSpecificity(host: string, pattern: string): number {
+  if (pattern.startsWith('*.')) {
+    const suffix = pattern.slice(2);
+    return host === suffix || host.endsWith(`.${suffix}`) ? suffix.length : -1;
+  }
+  // Exact patterns always beat wildcards
+  return host === pattern ? 1000 + pattern.length : -1;
+}
@@ -0,0 +1,142 @@
+import { ScoringExplanation } from '../types';
+import {
+  GazetteerEntry,
+  GazetteerKind,
+  INDIAN_GAZETTEER,
+  INDIAN_PUBLISHER_DOMAINS,
+  INDIAN_STATES
+} from '../config/indian-gazetteer';
+
+export type IndianContextResult = ScoringExplanation['indian_context'];
+
+interface IndexedPhrase {
+  tokens: string[];
+  entry: GazetteerEntry;
+}
+
+// Added once per kind that matched, on top of the mention density
+const KIND_BOOSTS: Record<GazetteerKind, { boost: string, points: number }> = {
+  country: { boost: 'india', points: 0.2 },
+  state: { boost: 'indian_location', points: 0.1 },
+  city: { boost: 'indian_location', points: 0.1 },
+  regulator: { boost: 'indian_regulator', points: 0.3 },
+  statute: { boost: 'indian_labour_law', points: 0.2 },
+  scheme: { boost: 'government_scheme', points: 0.15 },
+  term: { boost: 'indian_employment_terms', points: 0.15 },
+  currency: { boost: 'indian_currency', points: 0.15 }
+};
+
+const TLD_BOOST = 0.1;
+const PUBLISHER_BOOST = 0.1;
+
+// Lowercased word tokens; "&" reads as "and" so "Shops & Establishments Act" matches its name.
+// Combining marks (\p{M}) belong to the word, or Indic-script words would split at every vowel sign.
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .match(/₹|[\p{L}\p{M}\p{N}]+/gu) || [];
+}
+
+// Canonical state or union territory name for user input ("tamil nadu", "Orissa"), or null
+export function resolveStateName(input: string): string | null {
+  const wanted = tokenize(input).join(' ');
+  const state = INDIAN_STATES.find(entry =>
+    [entry.name, ...(entry.aliases || [])].some(name => tokenize(name).join(' ') === wanted)
+  );
+  return state ? state.name : null;
+}
+
+// Scores how Indian an item is from gazetteer mentions (states, cities, regulators, statutes,
+// schemes, rupee amounts) matched as whole tokens, plus where it was published, and tags the
+// states it mentions.
+export class IndianContextClassifier {
+  private index = new Map<string, IndexedPhrase[]>();
+  private publisherDomains: string[];
+
+  constructor(entries: GazetteerEntry[] = INDIAN_GAZETTEER, publisherDomains: string[] = INDIAN_PUBLISHER_DOMAINS) {
+    for (const entry of entries) {
+      for (const name of [entry.name, ...(entry.aliases || [])]) {
+        const tokens = tokenize(name);
+        if (tokens.length === 0) continue;
+
+        const phrases = this.index.get(tokens[0]) || [];
+        phrases.push({ tokens, entry });
+        // Longest phrase first, so "Navi Mumbai" wins over "Mumbai" at the same position
+        phrases.sort((a, b) => b.tokens.length - a.tokens.length);
+        this.index.set(tokens[0], phrases);
+      }
+    }
+    this.publisherDomains = publisherDomains;
+  }
+
+  classify(text: string, host = ''): IndianContextResult {
+    const tokens = tokenize(text);
+    const matches = this.match(tokens);
+
+    const matched_keywords: Record<string, number> = {};
+    for (const entry of matches) {
+      matched_keywords[entry.name] = (matched_keywords[entry.name] || 0) + 1;
+    }
+
+    // 1 mention per 100 tokens = full density score
+    const keyword_density = tokens.length > 0 ? Math.min(1.0, matches.length / (tokens.length * 0.01)) : 0;
+    let score = keyword_density;
+    const boosts: string[] = [];
+
+    for (const kind of new Set(matches.map(entry => entry.kind))) {
+      const { boost, points } = KIND_BOOSTS[kind];
+      if (!boosts.includes(boost)) {
+        boosts.push(boost);
+        score += points;
+      }
+    }
+
+    const normalizedHost = host.toLowerCase().replace(/^www\./, '');
+    if (normalizedHost.endsWith('.in')) {
+      boosts.push('indian_tld');
+      score += TLD_BOOST;
+    }
+    if (this.publisherDomains.some(domain => normalizedHost === domain || normalizedHost.endsWith(`.${domain}`))) {
+      boosts.push('indian_publisher');
+      score += PUBLISHER_BOOST;
+    }
+
+    return {
+      matched_keywords,
+      keyword_density,
+      boosts,
+      states: this.statesOf(matches),
+      score: Math.min(1.0, score)
+    };
+  }
+
+  // States and union territories mentioned directly or through one of their cities
+  tagStates(text: string): string[] {
+    return this.statesOf(this.match(tokenize(text)));
+  }
+
+  private match(tokens: string[]): GazetteerEntry[] {
+    const matches: GazetteerEntry[] = [];
+
+    for (let i = 0; i < tokens.length;) {
+      const phrase = (this.index.get(tokens[i]) || [])
+        .find(candidate => candidate.tokens.every((token, offset) => tokens[i + offset] === token));
+
+      if (phrase) {
+        matches.push(phrase.entry);
+        i += phrase.tokens.length;
+      } else {
+        i++;
+      }
+    }
+
+    return matches;
+  }
+
+  private statesOf(matches: GazetteerEntry[]): string[] {
+    const states = new Set(matches.map(entry => entry.state).filter((state): state is string => !!state));
+    return Array.from(states).sort();
+  }
+}
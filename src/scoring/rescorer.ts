@@ -0,0 +1,369 @@
+import db from '../db/connection';
+import { CURRENT_SCORING_VERSION, SCORING_VERSIONS } from '../config/scoring';
+import { ScoringWeights } from '../types';
+import { SourceType } from '../types/sources';
+import { ContentScorer } from './content-scorer';
+import { AuthoritySnapshot, DomainAuthorityRegistry } from './domain-authority-registry';
+
+export interface ScoringRun {
+  id: string;
+  version: number;
+  weights: ScoringWeights;
+  // Domain authority snapshot the run scored with
+  authority_version: string | null;
+  status: 'running' | 'completed' | 'failed';
+  triggered_by: 'cli' | 'api';
+  items_rescored: number;
+  summary: RescoreSummary | null;
+  error: string | null;
+  started_at: Date;
+  finished_at: Date | null;
+}
+
+export interface RankMove {
+  source_type: SourceType;
+  id: string;
+  title: string;
+  old_score: number | null;
+  new_score: number;
+  old_rank: number;
+  new_rank: number;
+}
+
+export interface RescoreSummary {
+  items_rescored: number;
+  by_source_type: Record<string, number>;
+  // How many items were last scored by each version ('unversioned' before versioning existed)
+  previous_versions: Record<string, number>;
+  mean_score_change: number;
+  mean_abs_score_change: number;
+  moved_up: number;
+  moved_down: number;
+  rank_unchanged: number;
+  // Of the previous top TOP_N items, how many are still in the top TOP_N
+  top_n: number;
+  top_n_retained: number;
+  biggest_risers: RankMove[];
+  biggest_fallers: RankMove[];
+}
+
+export class UnknownAuthorityVersionError extends Error {
+  constructor(version: string) {
+    super(`Unknown domain authority snapshot "${version}"`);
+    this.name = 'UnknownAuthorityVersionError';
+  }
+}
+
+export class RescoreInProgressError extends Error {
+  constructor() {
+    super('A rescore is already running');
+    this.name = 'RescoreInProgressError';
+  }
+}
+
+interface ScoredRecord {
+  source_type: SourceType;
+  id: string;
+  title: string;
+  previous_version: number | null;
+  old_score: number | null;
+  new_score: number;
+}
+
+// A stored item as selected by SCORED_SOURCES
+interface StoredItem {
+  id: string;
+  title: string;
+  url: string;
+  snippet: string | null;
+  content: string | null;
+  author: string | null;
+  published_at: Date | null;
+  source: string;
+  composite_score: number | null;
+  scoring_version: number | null;
+}
+
+const RUN_COLUMNS = 'id, version, weights, authority_version, status, triggered_by, items_rescored, summary, error, started_at, finished_at';
+const BATCH_SIZE = 500;
+const TOP_N = 20;
+const MOVERS = 5;
+const RESCORE_LOCK_KEY = 48151625;
+
+// What each table is scored from; RSS rows prefer the enriched body, author and date
+const SCORED_SOURCES: Record<SourceType, { table: string, columns: string }> = {
+  content_item: {
+    table: 'content_items',
+    columns: `id::text AS id, title, url, snippet, NULLIF(full_content, '') AS content, author,
+      published_at, source, composite_score::float8 AS composite_score, scoring_version`
+  },
+  rss_article: {
+    table: 'rss_articles',
+    columns: `id::text AS id, title, url, description AS snippet, full_content AS content,
+      COALESCE(enriched_author, author) AS author,
+      COALESCE(enriched_published_at, published_at) AS published_at,
+      feed_group AS source, composite_score::float8 AS composite_score, scoring_version`
+  }
+};
+
+// Recomputes every stored item's scores and explanation with a given scoring version and
+// records the run in scoring_runs, with a summary of how the ranking moved.
+export class Rescorer {
+  // Starts a run and returns it straight away; `done` settles when rescoring finishes. Scores with
+  // the registry's current domain authorities, or with a recorded snapshot to reproduce earlier scores.
+  async begin(version: number, triggeredBy: ScoringRun['triggered_by'], authorityVersion?: string): Promise<{ run: ScoringRun, done: Promise<ScoringRun> }> {
+    await db.ensureSchema('scoring-schema.sql');
+    const authorities = await this.authorities(authorityVersion);
+    const scorer = new ContentScorer(version, authorities);
+
+    const client = await db.getClient();
+    let started = false;
+
+    try {
+      const lock = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [RESCORE_LOCK_KEY]);
+      if (!lock.rows[0].locked) {
+        throw new RescoreInProgressError();
+      }
+
+      const created = await client.query(`
+        INSERT INTO scoring_runs (version, weights, authority_version, triggered_by)
+        VALUES ($1, $2, $3, $4)
+        RETURNING ${RUN_COLUMNS}
+      `, [version, JSON.stringify(SCORING_VERSIONS[version].weights), authorities.version, triggeredBy]);
+      const run: ScoringRun = created.rows[0];
+      console.log(`🔁 Rescoring all stored items with scoring version ${version} and domain authorities ${authorities.version} (run ${run.id})`);
+
+      const done = this.execute(run, scorer).finally(async () => {
+        await client.query('SELECT pg_advisory_unlock($1)', [RESCORE_LOCK_KEY]).catch(() => undefined);
+        client.release();
+      });
+      started = true;
+      return { run, done };
+    } finally {
+      if (!started) {
+        await client.query('SELECT pg_advisory_unlock($1)', [RESCORE_LOCK_KEY]).catch(() => undefined);
+        client.release();
+      }
+    }
+  }
+
+  // The whole run scores with one snapshot, even if the registry reloads meanwhile
+  private async authorities(version?: string): Promise<AuthoritySnapshot> {
+    const registry = new DomainAuthorityRegistry();
+    if (version) {
+      const snapshot = await registry.snapshot(version);
+      if (!snapshot) throw new UnknownAuthorityVersionError(version);
+      return snapshot;
+    }
+    // The registry's current entries, not whatever this process loaded at startup
+    await registry.refresh();
+    return DomainAuthorityRegistry.current();
+  }
+
+  async listRuns(limit = 20): Promise<ScoringRun[]> {
+    await db.ensureSchema('scoring-schema.sql');
+    const result = await db.query(`SELECT ${RUN_COLUMNS} FROM scoring_runs ORDER BY started_at DESC LIMIT $1`, [limit]);
+    return result.rows;
+  }
+
+  async getRun(id: string): Promise<ScoringRun | null> {
+    await db.ensureSchema('scoring-schema.sql');
+    const result = await db.query(`SELECT ${RUN_COLUMNS} FROM scoring_runs WHERE id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  private async execute(run: ScoringRun, scorer: ContentScorer): Promise<ScoringRun> {
+    try {
+      const records: ScoredRecord[] = [];
+      for (const sourceType of Object.keys(SCORED_SOURCES) as SourceType[]) {
+        records.push(...await this.rescoreTable(sourceType, scorer));
+      }
+
+      const summary = summarize(records);
+      const result = await db.query(`
+        UPDATE scoring_runs SET status = 'completed', items_rescored = $2, summary = $3, finished_at = now()
+        WHERE id = $1
+        RETURNING ${RUN_COLUMNS}
+      `, [run.id, records.length, JSON.stringify(summary)]);
+
+      console.log(`✅ Rescored ${records.length} items with version ${run.version}: ${summary.moved_up} moved up, ${summary.moved_down} moved down, ${summary.top_n_retained}/${summary.top_n} of the top ${summary.top_n} kept their place in it`);
+      return result.rows[0];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Rescore run ${run.id} failed:`, message);
+      const result = await db.query(`
+        UPDATE scoring_runs SET status = 'failed', error = $2, finished_at = now()
+        WHERE id = $1
+        RETURNING ${RUN_COLUMNS}
+      `, [run.id, message.substring(0, 1000)]);
+      return result.rows[0];
+    }
+  }
+
+  private async rescoreTable(sourceType: SourceType, scorer: ContentScorer): Promise<ScoredRecord[]> {
+    const { table, columns } = SCORED_SOURCES[sourceType];
+    const exists = await db.query('SELECT to_regclass($1) IS NOT NULL AS exists', [table]);
+    if (!exists.rows[0].exists) return [];
+    if (sourceType === 'rss_article') {
+      await db.ensureSchema('rss-enrichment-schema.sql');
+    }
+
+    const records: ScoredRecord[] = [];
+    let lastId = '00000000-0000-0000-0000-000000000000';
+
+    for (;;) {
+      const batch = await db.query(
+        `SELECT ${columns} FROM ${table} WHERE id > $1 ORDER BY id LIMIT $2`,
+        [lastId, BATCH_SIZE]
+      );
+      const rows: StoredItem[] = batch.rows;
+      if (rows.length === 0) break;
+
+      records.push(...await this.scoreItems(sourceType, rows, scorer));
+      lastId = rows[rows.length - 1].id;
+    }
+
+    console.log(`  🔁 ${table}: ${records.length} items rescored`);
+    return records;
+  }
+
+  // Rescores the given items, each with the scoring version it was last scored with (the current
+  // one if unversioned), so their scores, explanations and versions stay consistent after an input
+  // such as a domain authority changes
+  async rescoreItems(sourceType: SourceType, ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const { table, columns } = SCORED_SOURCES[sourceType];
+    if (sourceType === 'rss_article') {
+      await db.ensureSchema('rss-enrichment-schema.sql');
+    }
+
+    const result = await db.query(`SELECT ${columns} FROM ${table} WHERE id = ANY($1::uuid[])`, [ids]);
+    const byVersion = new Map<number, StoredItem[]>();
+    for (const row of result.rows as StoredItem[]) {
+      const version = row.scoring_version !== null && SCORING_VERSIONS[row.scoring_version] ? row.scoring_version : CURRENT_SCORING_VERSION;
+      byVersion.set(version, [...(byVersion.get(version) || []), row]);
+    }
+
+    const authorities = DomainAuthorityRegistry.current();
+    let rescored = 0;
+    for (const [version, rows] of byVersion) {
+      const scorer = new ContentScorer(version, authorities);
+      for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+        rescored += (await this.scoreItems(sourceType, rows.slice(start, start + BATCH_SIZE), scorer)).length;
+      }
+    }
+    return rescored;
+  }
+
+  private async scoreItems(sourceType: SourceType, rows: StoredItem[], scorer: ContentScorer): Promise<ScoredRecord[]> {
+    const { table } = SCORED_SOURCES[sourceType];
+    const scored = rows.map(row => {
+      const { scored_item, explanation } = scorer.scoreContent({
+        title: row.title,
+        url: row.url,
+        content: row.content || undefined,
+        snippet: row.snippet || undefined,
+        author: row.author || undefined,
+        published_at: row.published_at || undefined
+      }, row.source);
+      return { row, scored_item, explanation };
+    });
+
+    await db.query(`
+      UPDATE ${table} t SET
+        domain_authority = s.domain_authority,
+        indian_context_score = s.indian_context_score,
+        freshness_score = s.freshness_score,
+        extractability_score = s.extractability_score,
+        composite_score = s.composite_score,
+        has_statistics = s.has_statistics,
+        has_dates = s.has_dates,
+        has_numbers = s.has_numbers,
+        scoring_version = $10,
+        score_explanation = s.score_explanation,
+        states = ARRAY(SELECT jsonb_array_elements_text(s.states))
+      FROM unnest(
+        $1::uuid[], $2::float8[], $3::float8[], $4::float8[], $5::float8[], $6::float8[],
+        $7::boolean[], $8::boolean[], $9::boolean[], $11::jsonb[], $12::jsonb[]
+      ) AS s(id, domain_authority, indian_context_score, freshness_score, extractability_score, composite_score,
+             has_statistics, has_dates, has_numbers, score_explanation, states)
+      WHERE t.id = s.id
+    `, [
+      scored.map(({ row }) => row.id),
+      scored.map(({ scored_item }) => scored_item.domain_authority),
+      scored.map(({ scored_item }) => scored_item.indian_context_score),
+      scored.map(({ scored_item }) => scored_item.freshness_score),
+      scored.map(({ scored_item }) => scored_item.extractability_score),
+      scored.map(({ scored_item }) => scored_item.composite_score),
+      scored.map(({ scored_item }) => scored_item.has_statistics),
+      scored.map(({ scored_item }) => scored_item.has_dates),
+      scored.map(({ scored_item }) => scored_item.has_numbers),
+      scorer.version,
+      scored.map(({ explanation }) => JSON.stringify(explanation)),
+      // As JSON, since unnest would flatten a text[][]
+      scored.map(({ explanation }) => JSON.stringify(explanation.indian_context.states))
+    ]);
+
+    return scored.map(({ row, scored_item }) => ({
+      source_type: sourceType,
+      id: row.id,
+      title: row.title,
+      previous_version: row.scoring_version,
+      old_score: row.composite_score,
+      new_score: scored_item.composite_score
+    }));
+  }
+}
+
+function summarize(records: ScoredRecord[]): RescoreSummary {
+  // Each record's 1-based rank, by position in records
+  const rank = (score: (record: ScoredRecord) => number | null) => {
+    const ranks: number[] = new Array(records.length);
+    records
+      .map((record, index) => ({ index, score: score(record) ?? -1 }))
+      .sort((a, b) => b.score - a.score)
+      .forEach(({ index }, position) => { ranks[index] = position + 1; });
+    return ranks;
+  };
+  const oldRanks = rank(record => record.old_score);
+  const newRanks = rank(record => record.new_score);
+
+  const moves: RankMove[] = records.map((record, index) => ({
+    source_type: record.source_type,
+    id: record.id,
+    title: record.title,
+    old_score: record.old_score,
+    new_score: record.new_score,
+    old_rank: oldRanks[index],
+    new_rank: newRanks[index]
+  }));
+
+  const count = <K extends string>(key: (record: ScoredRecord) => K) => records.reduce((counts, record) => {
+    counts[key(record)] = (counts[key(record)] || 0) + 1;
+    return counts;
+  }, {} as Record<string, number>);
+
+  const deltas = records.flatMap(record => record.old_score === null ? [] : [record.new_score - record.old_score]);
+  const mean = (values: number[]) => values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  const byRankChange = [...moves].sort((a, b) => (b.old_rank - b.new_rank) - (a.old_rank - a.new_rank));
+
+  return {
+    items_rescored: records.length,
+    by_source_type: count(record => record.source_type),
+    previous_versions: count(record => record.previous_version === null ? 'unversioned' : String(record.previous_version)),
+    mean_score_change: round(mean(deltas)),
+    mean_abs_score_change: round(mean(deltas.map(Math.abs))),
+    moved_up: moves.filter(move => move.new_rank < move.old_rank).length,
+    moved_down: moves.filter(move => move.new_rank > move.old_rank).length,
+    rank_unchanged: moves.filter(move => move.new_rank === move.old_rank).length,
+    top_n: Math.min(TOP_N, moves.length),
+    top_n_retained: moves.filter(move => move.old_rank <= TOP_N && move.new_rank <= TOP_N).length,
+    biggest_risers: byRankChange.slice(0, MOVERS).filter(move => move.new_rank < move.old_rank),
+    biggest_fallers: byRankChange.reverse().slice(0, MOVERS).filter(move => move.new_rank > move.old_rank)
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -1,6 +1,12 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { RawContentItem } from '../types';
+import { normalizeUrl, getCanonicalUrl } from '../utils/url-normalizer';
+import { HR_TAXONOMY } from '../config/hr-taxonomy';
+import { TopicClassifier } from '../taxonomy/topic-classifier';
+
+// Seeded taxonomy; items are re-tagged against the database copy by the classification worker
+const topicClassifier = new TopicClassifier(HR_TAXONOMY);
 
 interface ScrapingBeeConfig {
   url: string;
@@ -66,7 +72,8 @@ export class ScrapingBeeScraper {
     }
   }
 
-  private async directScrape(url: string): Promise<string> {
+  // Plain HTTP fetch without ScrapingBee; also used when no API key is configured
+  async directScrape(url: string): Promise<string> {
     try {
       const response = await axios.get(url, {
         headers: {
@@ -89,8 +96,12 @@ export class ScrapingBeeScraper {
     }
   }
 
-  async extractContent(html: string, _url: string): Promise<{title: string, content: string, author?: string}> {
+  async extractContent(html: string, url: string): Promise<{title: string, content: string, author?: string, published_at?: Date, canonical_url?: string}> {
     const $ = cheerio.load(html);
+
+    // Read the publish date before scripts (JSON-LD) are stripped
+    const publishedAt = this.extractPublishedDate($);
+    const canonicalUrl = getCanonicalUrl($, url);
     
     // Remove unwanted elements
     $('script, style, nav, footer, .advertisement, .ads, .popup, .modal, .sidebar').remove();
@@ -147,10 +158,38 @@ export class ScrapingBeeScraper {
     return {
       title: this.cleanTitle(title),
       content: this.cleanContent(content),
-      author: this.cleanAuthor(author)
+      author: this.cleanAuthor(author),
+      published_at: publishedAt,
+      canonical_url: canonicalUrl || undefined
     };
   }
 
+  private extractPublishedDate($: cheerio.CheerioAPI): Date | undefined {
+    const candidates: (string | undefined)[] = [
+      $('meta[property="article:published_time"]').attr('content'),
+      $('meta[name="article:published_time"]').attr('content'),
+      $('meta[itemprop="datePublished"]').attr('content'),
+      $('meta[name="publish-date"], meta[name="pubdate"], meta[name="date"]').first().attr('content'),
+      $('time[datetime]').first().attr('datetime')
+    ];
+
+    $('script[type="application/ld+json"]').each((_, el) => {
+      const match = $(el).html()?.match(/"datePublished"\s*:\s*"([^"]+)"/);
+      if (match) {
+        candidates.unshift(match[1]);
+      }
+    });
+
+    for (const candidate of candidates) {
+      const date = candidate ? new Date(candidate.trim()) : null;
+      // Ignore unparseable values and dates in the future
+      if (date && !isNaN(date.getTime()) && date.getTime() <= Date.now() + 24 * 3600 * 1000) {
+        return date;
+      }
+    }
+    return undefined;
+  }
+
   async scrapeArticle(url: string): Promise<RawContentItem | null> {
     try {
       console.log(`📰 Scraping full article: ${url}`);
@@ -168,14 +207,14 @@ export class ScrapingBeeScraper {
         return null;
       }
 
-      // Determine categories based on URL and content
-      const categories = this.categorizeContent(url, extracted.title + ' ' + extracted.content);
+      const categories = this.categorizeContent(extracted.title, extracted.content);
 
       return {
         title: extracted.title || 'Untitled Article',
-        url: url,
+        // The page's own canonical URL, so the same article found via different links is stored once
+        url: extracted.canonical_url || normalizeUrl(url),
         author: extracted.author || 'Unknown',
-        published_at: new Date(), // Will be updated if we can extract date
+        published_at: extracted.published_at || new Date(),
         categories: categories,
         snippet: extracted.content.length > 200 ? 
                 extracted.content.substring(0, 200) + '...' : 
@@ -213,21 +252,9 @@ export class ScrapingBeeScraper {
       .substring(0, 100);
   }
 
-  private categorizeContent(url: string, text: string): string[] {
-    const categories: string[] = [];
-    const lowerText = text.toLowerCase();
-
-    // Content-based categorization
-    if (lowerText.includes('recruitment') || lowerText.includes('hiring')) categories.push('recruitment');
-    if (lowerText.includes('attrition') || lowerText.includes('retention')) categories.push('attrition');
-    if (lowerText.includes('remote work') || lowerText.includes('work from home')) categories.push('remote_work');
-    if (lowerText.includes('ai') || lowerText.includes('artificial intelligence')) categories.push('hrtech');
-    if (lowerText.includes('diversity') || lowerText.includes('inclusion')) categories.push('diversity');
-    if (lowerText.includes('learning') || lowerText.includes('training')) categories.push('learning');
-    if (lowerText.includes('engagement') || lowerText.includes('employee satisfaction')) categories.push('engagement');
-    if (lowerText.includes('wellbeing') || lowerText.includes('mental health')) categories.push('wellbeing');
-    if (lowerText.includes('leadership') || lowerText.includes('management')) categories.push('leadership');
-
+  // Taxonomy node slugs, e.g. ['compensation', 'compensation.variable_pay']
+  private categorizeContent(title: string, text: string): string[] {
+    const categories = topicClassifier.classify(title, text).map(topic => topic.slug);
     return categories.length > 0 ? categories : ['general'];
   }
 
@@ -0,0 +1,244 @@
+#!/usr/bin/env node
+
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import db from '../db/connection';
+import { SourceType } from '../types/sources';
+import { normalizeUrl, decodeGoogleNewsUrl, resolveGoogleNewsUrl } from '../utils/url-normalizer';
+
+interface BackfillOptions {
+  dryRun: boolean;
+  resolveGoogleNews: boolean;
+}
+
+interface BackfillStats {
+  scanned: number;
+  rekeyed: number;
+  merged: number;
+}
+
+interface StoredRow {
+  id: string;
+  url: string;
+  title: string;
+}
+
+const BATCH_SIZE = 500;
+
+// Each table's dedup key: rss_articles hashes the URL, content_items hashes title|url (see ContentScorer)
+const TABLES: Record<SourceType, { table: string, hash: (row: StoredRow, url: string) => string }> = {
+  rss_article: {
+    table: 'rss_articles',
+    hash: (_row, url) => crypto.createHash('md5').update(url).digest('hex')
+  },
+  content_item: {
+    table: 'content_items',
+    hash: (row, url) => crypto.createHash('md5').update(`${row.title}|${url}`).digest('hex')
+  }
+};
+
+// Re-keys stored rows by their normalised URL. When a row normalises onto a URL that is
+// already stored, the stored row wins: citations and story clusters are moved to it and
+// the duplicate (with its embedding, facts, topics and entities) is deleted.
+class UrlBackfill {
+  private options: BackfillOptions;
+  private citationsHaveSourceId = false;
+
+  constructor(options: BackfillOptions) {
+    this.options = options;
+  }
+
+  async run(): Promise<void> {
+    console.log(`🔗 Normalising stored URLs${this.options.dryRun ? ' (dry run)' : ''}...`);
+
+    const columns = await db.query(
+      "SELECT 1 FROM information_schema.columns WHERE table_name = 'citations' AND column_name = 'source_id'"
+    );
+    this.citationsHaveSourceId = columns.rows.length > 0;
+
+    for (const sourceType of Object.keys(TABLES) as SourceType[]) {
+      const { table } = TABLES[sourceType];
+      const exists = await db.query('SELECT to_regclass($1) IS NOT NULL AS exists', [table]);
+      if (!exists.rows[0].exists) {
+        console.log(`  ⏭️ ${table}: table does not exist`);
+        continue;
+      }
+
+      const stats = await this.backfillTable(sourceType);
+      console.log(`  ✅ ${table}: ${stats.scanned} scanned, ${stats.rekeyed} re-keyed, ${stats.merged} duplicates merged`);
+    }
+  }
+
+  private async backfillTable(sourceType: SourceType): Promise<BackfillStats> {
+    const { table } = TABLES[sourceType];
+    const stats: BackfillStats = { scanned: 0, rekeyed: 0, merged: 0 };
+    let lastCollectedAt: Date | null = null;
+    let lastId = '00000000-0000-0000-0000-000000000000';
+
+    // Keyset pagination, so deleted duplicates don't shift the pages
+    for (;;) {
+      const batch: { rows: (StoredRow & { collected_at: Date })[] } = await db.query(`
+        SELECT id::text AS id, url, title, collected_at FROM ${table}
+        WHERE $1::timestamptz IS NULL OR (collected_at, id) > ($1::timestamptz, $2::uuid)
+        ORDER BY collected_at, id
+        LIMIT $3
+      `, [lastCollectedAt, lastId, BATCH_SIZE]);
+      if (batch.rows.length === 0) break;
+
+      for (const row of batch.rows) {
+        stats.scanned++;
+        const url = await this.canonicalUrl(row.url);
+        if (url === row.url) continue;
+
+        const merged = await this.rekey(sourceType, row, url);
+        if (merged) {
+          stats.merged++;
+        } else {
+          stats.rekeyed++;
+        }
+      }
+
+      const last = batch.rows[batch.rows.length - 1];
+      lastCollectedAt = last.collected_at;
+      lastId = last.id;
+    }
+
+    return stats;
+  }
+
+  private async canonicalUrl(url: string): Promise<string> {
+    const unwrapped = this.options.resolveGoogleNews
+      ? await resolveGoogleNewsUrl(url)
+      : decodeGoogleNewsUrl(url) || url;
+    return normalizeUrl(unwrapped);
+  }
+
+  // Returns true when the row was a duplicate and has been merged into an existing one
+  private async rekey(sourceType: SourceType, row: StoredRow, url: string): Promise<boolean> {
+    const { table, hash } = TABLES[sourceType];
+    const contentHash = hash(row, url);
+
+    const existing = await db.query(
+      `SELECT id::text AS id FROM ${table} WHERE (url = $1 OR content_hash = $2) AND id <> $3 LIMIT 1`,
+      [url, contentHash, row.id]
+    );
+    const keepId: string | undefined = existing.rows[0]?.id;
+
+    if (this.options.dryRun) {
+      console.log(`  ${keepId ? '🔀' : '✏️'} ${row.url} -> ${url}`);
+      return !!keepId;
+    }
+
+    const client = await db.getClient();
+    try {
+      await client.query('BEGIN');
+
+      if (keepId) {
+        if (sourceType === 'content_item') {
+          await client.query('UPDATE citations SET content_item_id = $1 WHERE content_item_id = $2', [keepId, row.id]);
+        }
+        if (this.citationsHaveSourceId) {
+          await client.query(
+            'UPDATE citations SET source_id = $1 WHERE source_type = $2 AND source_id = $3',
+            [keepId, sourceType, row.id]
+          );
+        }
+        if (sourceType === 'rss_article') {
+          // Keep the duplicate's image if the surviving row has none
+          await client.query(`
+            UPDATE rss_articles keep SET image_url = COALESCE(keep.image_url, dup.image_url)
+            FROM rss_articles dup
+            WHERE keep.id = $1 AND dup.id = $2
+          `, [keepId, row.id]);
+        }
+        await this.moveDerivedRows(client, sourceType, row.id, keepId);
+        await client.query(`DELETE FROM ${table} WHERE id = $1`, [row.id]);
+      } else {
+        await client.query(`UPDATE ${table} SET url = $2, content_hash = $3 WHERE id = $1`, [row.id, url, contentHash]);
+      }
+
+      await client.query('COMMIT');
+      return !!keepId;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // item_embeddings, story clusters, facts, topics and entities reference items without foreign keys
+  private async moveDerivedRows(
+    client: PoolClient,
+    sourceType: SourceType,
+    duplicateId: string,
+    keepId: string
+  ): Promise<void> {
+    const tables = await client.query(`
+      SELECT to_regclass('item_embeddings') IS NOT NULL AS embeddings,
+        to_regclass('story_clusters') IS NOT NULL AS clusters,
+        to_regclass('facts') IS NOT NULL AS facts,
+        to_regclass('item_topics') IS NOT NULL AS topics,
+        to_regclass('item_entities') IS NOT NULL AS entities
+    `);
+
+    if (tables.rows[0].embeddings) {
+      await client.query('DELETE FROM item_embeddings WHERE source_type = $1 AND item_id = $2', [sourceType, duplicateId]);
+    }
+
+    if (tables.rows[0].facts) {
+      await client.query('DELETE FROM facts WHERE source_type = $1 AND item_id = $2', [sourceType, duplicateId]);
+      await client.query('DELETE FROM fact_extractions WHERE source_type = $1 AND item_id = $2', [sourceType, duplicateId]);
+    }
+
+    if (tables.rows[0].topics) {
+      await client.query('DELETE FROM item_topics WHERE source_type = $1 AND item_id = $2', [sourceType, duplicateId]);
+      await client.query('DELETE FROM topic_classifications WHERE source_type = $1 AND item_id = $2', [sourceType, duplicateId]);
+    }
+
+    if (tables.rows[0].entities) {
+      await client.query('DELETE FROM item_entities WHERE source_type = $1 AND item_id = $2', [sourceType, duplicateId]);
+      await client.query('DELETE FROM entity_extractions WHERE source_type = $1 AND item_id = $2', [sourceType, duplicateId]);
+    }
+
+    if (tables.rows[0].clusters) {
+      await client.query(`
+        WITH removed AS (
+          DELETE FROM story_cluster_members WHERE source_type = $1 AND item_id = $2 RETURNING cluster_id
+        )
+        UPDATE story_clusters SET member_count = member_count - 1
+        WHERE id IN (SELECT cluster_id FROM removed)
+      `, [sourceType, duplicateId]);
+      await client.query(`
+        UPDATE story_clusters SET canonical_item_id = $3
+        WHERE canonical_source_type = $1 AND canonical_item_id = $2
+      `, [sourceType, duplicateId, keepId]);
+      await client.query('DELETE FROM story_clusters WHERE member_count <= 0');
+    }
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const backfill = new UrlBackfill({
+    dryRun: args.includes('--dry-run'),
+    resolveGoogleNews: args.includes('--resolve-google-news')
+  });
+
+  try {
+    await backfill.run();
+    console.log('\n🎯 URL backfill complete');
+  } catch (error) {
+    console.error('💥 URL backfill failed:', error);
+    process.exit(1);
+  } finally {
+    await db.close();
+    process.exit(0);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { UrlBackfill };
@@ -1,18 +1,86 @@
 #!/usr/bin/env node
 
-import { RSSCollector } from '../collectors/rss-collector';
+import { RSSCollector, FeedFetchResult } from '../collectors/rss-collector';
 import { ContentScorer } from '../scoring/content-scorer';
+import { FeedHealthTracker } from '../collectors/feed-health';
+import { RSSSourceRegistry } from '../collectors/rss-source-registry';
+import { FeedFetchStateStore, FeedFetchState } from '../collectors/feed-fetch-state';
 import db from '../db/connection';
-import { getHourlyFeeds } from '../config/rss-sources';
+import { RSSSource } from '../config/rss-sources';
+import { ScoringExplanation } from '../types';
 import crypto from 'crypto';
+import { PoolClient } from 'pg';
+
+interface FeedStorageStats {
+  new: number;
+  // Existing articles that gained an image
+  updated: number;
+  duplicates: number;
+  errors: number;
+}
+
+interface ArticleRow {
+  feed_name: string;
+  feed_group: string;
+  feed_category: string;
+  title: string;
+  url: string;
+  description: string | null;
+  image_url: string | null;
+  content_hash: string;
+  author: string | null;
+  published_at: Date | null;
+  guid: string | null;
+  categories: string[];
+  // Scored from the feed description; the enrichment worker rescores from the full body
+  domain_authority: number;
+  indian_context_score: number;
+  freshness_score: number;
+  extractability_score: number;
+  composite_score: number;
+  has_statistics: boolean;
+  has_dates: boolean;
+  has_numbers: boolean;
+  word_count: number;
+  scoring_version: number;
+  score_explanation: ScoringExplanation;
+  states: string[];
+  language: string;
+}
+
+const STORE_CHUNK_SIZE = 200;
+const ARTICLE_COLUMNS = [
+  'feed_name', 'feed_group', 'feed_category',
+  'title', 'url', 'description', 'image_url', 'content_hash',
+  'author', 'published_at', 'guid', 'categories',
+  'domain_authority', 'indian_context_score', 'freshness_score', 'extractability_score', 'composite_score',
+  'has_statistics', 'has_dates', 'has_numbers', 'word_count', 'scoring_version', 'score_explanation', 'states',
+  'language'
+] as const;
+
+interface StorageStats extends FeedStorageStats {
+  byFeed: { [feedName: string]: FeedStorageStats };
+}
+
+export interface FeedCollectionResult {
+  totalArticles: number;
+  newArticles: number;
+  duplicates: number;
+  results: FeedFetchResult[];
+  quarantined: string[];
+}
 
 class RSSCollectionManager {
-  private collector: RSSCollector;
   private scorer: ContentScorer;
+  private health: FeedHealthTracker;
+  private registry: RSSSourceRegistry;
+  private fetchState: FeedFetchStateStore;
 
   constructor() {
-    this.collector = new RSSCollector();
     this.scorer = new ContentScorer();
+    this.health = new FeedHealthTracker();
+    this.registry = new RSSSourceRegistry();
+    this.fetchState = new FeedFetchStateStore();
   }
 
   async runDailyCollection(): Promise<{ totalArticles: number, newArticles: number, duplicates: number }> {
@@ -24,31 +92,16 @@ class RSSCollectionManager {
     const collectionDate = new Date().toISOString().split('T')[0];
     
     try {
-      // Collect from all RSS feeds
-      const { articles, stats } = await this.collector.collectFromAllFeeds();
-      
-      // Store articles in database
-      const storageStats = await this.storeRSSArticles(articles);
-      
-      // Save collection statistics
-      for (const [feedName, count] of Object.entries(stats)) {
-        await this.saveCollectionStats({
-          collection_date: collectionDate,
-          feed_name: feedName,
-          articles_collected: count,
-          articles_new: storageStats.new,
-          articles_duplicate: storageStats.duplicates,
-          collection_time_ms: Date.now() - startTime
-        });
-      }
+      const sources = await this.registry.getEnabledSources();
+      const { totalArticles, storageStats } = await this.collectFeeds(sources, collectionDate);
       
       const duration = Date.now() - startTime;
       console.log('='.repeat(60));
       console.log(`✅ Daily collection completed in ${duration}ms`);
-      console.log(`📊 Summary: ${articles.length} collected, ${storageStats.new} new, ${storageStats.duplicates} duplicates`);
+      console.log(`📊 Summary: ${totalArticles} collected, ${storageStats.new} new, ${storageStats.updated} updated, ${storageStats.duplicates} duplicates`);
       
       return {
-        totalArticles: articles.length,
+        totalArticles,
         newArticles: storageStats.new,
         duplicates: storageStats.duplicates
       };
@@ -79,89 +132,167 @@ class RSSCollectionManager {
   async runHourlyCollection(): Promise<void> {
     console.log('⏰ Starting hourly RSS collection...');
     
-    const hourlyFeeds = getHourlyFeeds();
-    const collector = new RSSCollector(hourlyFeeds);
-    
-    const { articles } = await collector.collectFromAllFeeds();
-    const storageStats = await this.storeRSSArticles(articles);
+    const hourlyFeeds = (await this.registry.getEnabledSources()).filter(source => source.update_frequency === 'hourly');
+    const collectionDate = new Date().toISOString().split('T')[0];
+    const { storageStats } = await this.collectFeeds(hourlyFeeds, collectionDate);
     
     console.log(`✅ Hourly collection: ${storageStats.new} new articles from ${hourlyFeeds.length} feeds`);
   }
 
-  private async storeRSSArticles(articles: any[]): Promise<{ new: number, duplicates: number, errors: number }> {
-    let newCount = 0;
-    let duplicateCount = 0;
-    let errorCount = 0;
-    
+  // Collect an explicit set of feeds, e.g. the ones the scheduler found due
+  async runFeedCollection(sources: RSSSource[]): Promise<FeedCollectionResult> {
+    const collectionDate = new Date().toISOString().split('T')[0];
+    const { totalArticles, storageStats, results, quarantined } = await this.collectFeeds(sources, collectionDate);
+
+    return {
+      totalArticles,
+      newArticles: storageStats.new,
+      duplicates: storageStats.duplicates,
+      results,
+      quarantined: quarantined.map(source => source.name)
+    };
+  }
+
+  // Fetch, store and record health + per-feed stats for a set of feeds, skipping quarantined ones
+  private async collectFeeds(sources: RSSSource[], collectionDate: string): Promise<{
+    totalArticles: number,
+    storageStats: StorageStats,
+    results: FeedFetchResult[],
+    quarantined: RSSSource[]
+  }> {
+    const { active, quarantined } = await this.health.partitionSources(sources);
+    const collector = new RSSCollector(active);
+
+    const { articles, results } = await collector.collectFromAllFeeds();
+    const storageStats = await this.storeRSSArticles(articles);
+
+    await this.health.recordResults(results);
+
+    // Advance the conditional-fetch state only for feeds whose articles were all stored,
+    // so a failed insert is retried on the next run instead of being skipped as already seen
+    const fetchStates = results
+      .filter(result => result.fetch_state && !storageStats.byFeed[result.feed_name]?.errors)
+      .map(result => result.fetch_state as FeedFetchState);
+    await this.fetchState.saveStates(fetchStates);
+
+    for (const result of results) {
+      const feedStats = storageStats.byFeed[result.feed_name] || { new: 0, updated: 0, duplicates: 0, errors: 0 };
+      await this.saveCollectionStats({
+        collection_date: collectionDate,
+        feed_name: result.feed_name,
+        articles_collected: result.articles,
+        articles_new: feedStats.new,
+        articles_duplicate: feedStats.duplicates,
+        articles_error: feedStats.errors,
+        http_status: result.http_status,
+        collection_time_ms: result.latency_ms,
+        errors: result.error
+      });
+    }
+
+    return { totalArticles: articles.length, storageStats, results, quarantined };
+  }
+
+  // Bulk upsert in one transaction: chunks of multi-row INSERT ... ON CONFLICT (content_hash),
+  // where a conflict only touches the row to backfill a missing image
+  private async storeRSSArticles(articles: any[]): Promise<StorageStats> {
+    const stats: StorageStats = { new: 0, updated: 0, duplicates: 0, errors: 0, byFeed: {} };
+
+    const feedStats = (feedName: string): FeedStorageStats => {
+      if (!stats.byFeed[feedName]) {
+        stats.byFeed[feedName] = { new: 0, updated: 0, duplicates: 0, errors: 0 };
+      }
+      return stats.byFeed[feedName];
+    };
+
+    // Collapse duplicates within the batch (the same story in several feeds), keeping the copy with an image.
+    // Postgres rejects a multi-row upsert that touches the same row twice.
+    const rows = new Map<string, ArticleRow>();
+    const urls = new Set<string>();
+    // Score columns come from the enrichment schema
+    await db.ensureSchema('rss-enrichment-schema.sql');
+
     for (const article of articles) {
-      try {
-        // Generate content hash for deduplication
-        const contentHash = crypto.createHash('md5').update(article.url || article.title).digest('hex');
-        
-        // Check if article already exists
-        const existing = await db.query(
-          'SELECT id, image_url FROM rss_articles WHERE content_hash = $1',
-          [contentHash]
-        );
-        
-        if (existing.rows.length > 0) {
-          // If article exists but doesn't have an image, and we found one, update it
-          const existingArticle = existing.rows[0];
-          const newImageUrl = (article as any).image_url;
-          
-          if (!existingArticle.image_url && newImageUrl) {
+      const row = toArticleRow(article, this.scorer);
+      const existing = rows.get(row.content_hash);
+
+      if (existing) {
+        if (!existing.image_url && row.image_url) {
+          rows.set(row.content_hash, { ...row, feed_name: existing.feed_name });
+        }
+        stats.duplicates++;
+        feedStats(row.feed_name).duplicates++;
+      } else if (urls.has(row.url)) {
+        stats.duplicates++;
+        feedStats(row.feed_name).duplicates++;
+      } else {
+        rows.set(row.content_hash, row);
+        urls.add(row.url);
+      }
+    }
+
+    const pending = Array.from(rows.values());
+    if (pending.length === 0) {
+      return stats;
+    }
+
+    const client = await db.getClient();
+    try {
+      await client.query('BEGIN');
+
+      for (let i = 0; i < pending.length; i += STORE_CHUNK_SIZE) {
+        const chunk = pending.slice(i, i + STORE_CHUNK_SIZE);
+
+        await client.query('SAVEPOINT rss_chunk');
+        try {
+          const outcomes = await upsertArticles(client, chunk);
+          await client.query('RELEASE SAVEPOINT rss_chunk');
+          tallyOutcomes(chunk, outcomes, stats, feedStats);
+        } catch (chunkError) {
+          // A bad row (e.g. a URL clash under a different hash) fails the whole statement;
+          // retry the chunk row by row so only the offending articles are lost
+          await client.query('ROLLBACK TO SAVEPOINT rss_chunk');
+          console.error(`⚠️ Bulk insert of ${chunk.length} articles failed, retrying individually:`, chunkError instanceof Error ? chunkError.message : chunkError);
+
+          for (const row of chunk) {
+            await client.query('SAVEPOINT rss_row');
             try {
-              await db.query(
-                'UPDATE rss_articles SET image_url = $1 WHERE id = $2',
-                [newImageUrl, existingArticle.id]
-              );
-              console.log(`✅ Added image to existing article: ${article.title.substring(0, 50)}...`);
-              newCount++; // Count as updated
-            } catch (updateError) {
-              console.error(`❌ Failed to update image for article: ${article.title}`, updateError);
+              const outcomes = await upsertArticles(client, [row]);
+              await client.query('RELEASE SAVEPOINT rss_row');
+              tallyOutcomes([row], outcomes, stats, feedStats);
+            } catch (rowError) {
+              await client.query('ROLLBACK TO SAVEPOINT rss_row');
+              stats.errors++;
+              feedStats(row.feed_name).errors++;
+              if (rowError instanceof Error && !rowError.message.includes('duplicate')) {
+                console.error(`Failed to store article: ${row.title}`, rowError.message);
+              }
             }
-          } else {
-            duplicateCount++;
           }
-          continue;
-        }
-        
-        // Extract metadata if available
-        const metadata = (article as any).metadata || {};
-        
-        // Insert new article
-        await db.query(`
-          INSERT INTO rss_articles (
-            feed_name, feed_group, feed_category,
-            title, url, description, image_url, content_hash,
-            author, published_at, guid, categories
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-        `, [
-          metadata.source_name || 'Unknown',
-          metadata.source_group || 'unknown',
-          metadata.rss_category || 'general',
-          article.title,
-          article.url,
-          article.snippet || article.full_content?.substring(0, 500),
-          (article as any).image_url,
-          contentHash,
-          article.author,
-          article.published_at,
-          metadata.guid,
-          article.categories || []
-        ]);
-        
-        newCount++;
-        
-      } catch (error) {
-        errorCount++;
-        if (error instanceof Error && !error.message.includes('duplicate')) {
-          console.error(`Failed to store article: ${article.title}`, error.message);
         }
       }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      console.error('❌ Failed to store RSS articles:', error);
+      // Nothing from this batch was kept
+      for (const row of pending) {
+        feedStats(row.feed_name).errors++;
+      }
+      stats.errors += pending.length;
+      stats.new = 0;
+      stats.updated = 0;
+      for (const feed of Object.values(stats.byFeed)) {
+        feed.new = 0;
+        feed.updated = 0;
+      }
+    } finally {
+      client.release();
     }
-    
-    return { new: newCount, duplicates: duplicateCount, errors: errorCount };
+
+    console.log(`💾 Stored RSS articles: ${stats.new} new, ${stats.updated} images added, ${stats.duplicates} duplicates, ${stats.errors} errors`);
+    return stats;
   }
 
   private async saveCollectionStats(stats: any): Promise<void> {
@@ -169,13 +300,16 @@ class RSSCollectionManager {
       await db.query(`
         INSERT INTO rss_collection_stats (
           collection_date, feed_name, articles_collected, 
-          articles_new, articles_duplicate, collection_time_ms, errors
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+          articles_new, articles_duplicate, articles_error, http_status,
+          collection_time_ms, errors
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         ON CONFLICT (collection_date, feed_name) 
         DO UPDATE SET 
-          articles_collected = EXCLUDED.articles_collected,
-          articles_new = EXCLUDED.articles_new,
-          articles_duplicate = EXCLUDED.articles_duplicate,
+          articles_collected = rss_collection_stats.articles_collected + EXCLUDED.articles_collected,
+          articles_new = rss_collection_stats.articles_new + EXCLUDED.articles_new,
+          articles_duplicate = rss_collection_stats.articles_duplicate + EXCLUDED.articles_duplicate,
+          articles_error = COALESCE(rss_collection_stats.articles_error, 0) + EXCLUDED.articles_error,
+          http_status = EXCLUDED.http_status,
           collection_time_ms = EXCLUDED.collection_time_ms,
           errors = EXCLUDED.errors
       `, [
@@ -184,8 +318,10 @@ class RSSCollectionManager {
         stats.articles_collected,
         stats.articles_new,
         stats.articles_duplicate,
+        stats.articles_error || 0,
+        stats.http_status ?? null,
         stats.collection_time_ms,
-        stats.errors
+        stats.errors || null
       ]);
     } catch (error) {
       console.error('Failed to save collection stats:', error);
@@ -206,10 +342,13 @@ class RSSCollectionManager {
   }
 
   async searchRSSArticles(searchTerm: string, limit = 20): Promise<any[]> {
+    // language column and text_search_config()
+    await db.ensureSchema('rss-enrichment-schema.sql');
+
     const query = `
       SELECT * FROM rss_articles 
-      WHERE to_tsvector('english', title || ' ' || COALESCE(description, '')) 
-        @@ plainto_tsquery('english', $1)
+      WHERE to_tsvector(text_search_config(language), title || ' ' || COALESCE(description, '')) 
+        @@ plainto_tsquery(text_search_config(language), $1)
       ORDER BY published_at DESC 
       LIMIT $2
     `;
@@ -219,6 +358,98 @@ class RSSCollectionManager {
   }
 }
 
+function toArticleRow(article: any, scorer: ContentScorer): ArticleRow {
+  const metadata = article.metadata || {};
+  const { scored_item, explanation } = scorer.scoreContent({
+    title: article.title,
+    url: article.url,
+    content: article.full_content,
+    snippet: article.snippet,
+    author: article.author,
+    published_at: article.published_at,
+    language: article.language
+  }, metadata.source_group || 'rss');
+
+  return {
+    feed_name: metadata.source_name || 'Unknown',
+    feed_group: metadata.source_group || 'unknown',
+    feed_category: metadata.rss_category || 'general',
+    title: article.title,
+    url: article.url,
+    description: article.snippet || article.full_content?.substring(0, 500) || null,
+    image_url: article.image_url || null,
+    // Generate content hash for deduplication
+    content_hash: crypto.createHash('md5').update(article.url || article.title).digest('hex'),
+    author: article.author || null,
+    published_at: article.published_at || null,
+    guid: metadata.guid || null,
+    categories: article.categories || [],
+    domain_authority: scored_item.domain_authority,
+    indian_context_score: scored_item.indian_context_score,
+    freshness_score: scored_item.freshness_score,
+    extractability_score: scored_item.extractability_score,
+    composite_score: scored_item.composite_score,
+    has_statistics: scored_item.has_statistics,
+    has_dates: scored_item.has_dates,
+    has_numbers: scored_item.has_numbers,
+    word_count: scored_item.word_count,
+    scoring_version: explanation.version,
+    score_explanation: explanation,
+    states: explanation.indian_context.states,
+    language: scored_item.language
+  };
+}
+
+// xmax = 0 distinguishes freshly inserted rows from conflicting rows that were updated;
+// conflicting rows that already had an image are not returned at all
+async function upsertArticles(client: PoolClient, rows: ArticleRow[]): Promise<Map<string, 'inserted' | 'updated'>> {
+  const values: unknown[] = [];
+  const tuples = rows.map(row => {
+    const placeholders = ARTICLE_COLUMNS.map(column => {
+      values.push(row[column]);
+      return `$${values.length}`;
+    });
+    return `(${placeholders.join(', ')})`;
+  });
+
+  const result = await client.query(`
+    INSERT INTO rss_articles (${ARTICLE_COLUMNS.join(', ')})
+    VALUES ${tuples.join(',\n')}
+    ON CONFLICT (content_hash) DO UPDATE SET image_url = EXCLUDED.image_url
+    WHERE rss_articles.image_url IS NULL AND EXCLUDED.image_url IS NOT NULL
+    RETURNING content_hash, (xmax = 0) AS inserted
+  `, values);
+
+  return new Map(result.rows.map((row: { content_hash: string, inserted: boolean }) => [
+    row.content_hash,
+    row.inserted ? 'inserted' : 'updated'
+  ]));
+}
+
+function tallyOutcomes(
+  rows: ArticleRow[],
+  outcomes: Map<string, 'inserted' | 'updated'>,
+  stats: StorageStats,
+  feedStats: (feedName: string) => FeedStorageStats
+): void {
+  for (const row of rows) {
+    const outcome = outcomes.get(row.content_hash);
+    const feed = feedStats(row.feed_name);
+
+    if (outcome === 'inserted') {
+      stats.new++;
+      feed.new++;
+    } else if (outcome === 'updated') {
+      console.log(`✅ Added image to existing article: ${row.title.substring(0, 50)}...`);
+      stats.updated++;
+      feed.updated++;
+    } else {
+      stats.duplicates++;
+      feed.duplicates++;
+    }
+  }
+}
+
 // CLI Interface
 async function main() {
   const args = process.argv.slice(2);
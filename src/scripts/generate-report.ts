@@ -2,11 +2,21 @@
 
 import { ReportGenerator } from '../reports/generator';
 import db from '../db/connection';
+import { SourceRepository } from '../sources/source-repository';
+import { SCORING_PROFILE_NAMES, ScoringProfileName } from '../config/scoring';
+import { resolveStateName } from '../scoring/indian-context-classifier';
+import { TaxonomyStore } from '../taxonomy/taxonomy-store';
+import { ReportTemplateRegistry, applySourceRules } from '../reports/report-template-registry';
 
 interface GenerateOptions {
   topic: string;
   maxSources?: number;
   timeRangeDays?: number;
+  scoringProfile?: ScoringProfileName;
+  states?: string[];
+  topics?: string[];
+  template?: string;
+  forceRefresh?: boolean;
   interactive?: boolean;
 }
 
@@ -23,8 +33,18 @@ class ReportCLI {
     console.log('🎯 HR Research Platform - Report Generation');
     console.log('='.repeat(50));
     console.log(`📋 Topic: ${options.topic}`);
+    if (options.template) {
+      console.log(`🧩 Template: ${options.template}`);
+    }
     console.log(`📊 Max Sources: ${options.maxSources || 15}`);
     console.log(`📅 Time Range: ${options.timeRangeDays || 30} days`);
+    console.log(`⚖️ Scoring Profile: ${options.scoringProfile || 'balanced'}`);
+    if (options.states) {
+      console.log(`🗺️ States: ${options.states.join(', ')}`);
+    }
+    if (options.topics) {
+      console.log(`🏷️ Topics: ${options.topics.join(', ')}`);
+    }
     console.log('');
 
     try {
@@ -45,7 +65,8 @@ class ReportCLI {
       const result = await this.generator.generateReport(
         options.topic,
         options.maxSources || 15,
-        options.timeRangeDays || 30
+        options.timeRangeDays || 30,
+        { scoringProfile: options.scoringProfile, states: options.states, topics: options.topics, template: options.template, forceRefresh: options.forceRefresh }
       );
 
       if (!result.success) {
@@ -57,7 +78,11 @@ class ReportCLI {
       const duration = Date.now() - startTime;
 
       console.log('');
-      console.log('✅ Report Generated Successfully!');
+      if (result.cached) {
+        console.log(`♻️ Reusing a report from ${result.cached.age_hours.toFixed(1)} hours ago (${result.cached.match_type} topic match); run with --refresh to regenerate`);
+      } else {
+        console.log('✅ Report Generated Successfully!');
+      }
       console.log('='.repeat(50));
       console.log(`📄 Report ID: ${report.id}`);
       console.log(`📰 Title: ${report.title}`);
@@ -153,7 +178,7 @@ class ReportCLI {
     console.log('='.repeat(50));
 
     try {
-      const sources = await db.searchContentItems(topic, maxSources);
+      const sources = await new SourceRepository().search(topic, { limit: maxSources });
       
       if (sources.length === 0) {
         console.log('❌ No relevant sources found.');
@@ -167,7 +192,7 @@ class ReportCLI {
       sources.slice(0, 10).forEach((source, index) => {
         const date = source.published_at?.toISOString().split('T')[0] || 'Unknown';
         console.log(`${index + 1}. ${source.title.substring(0, 80)}...`);
-        console.log(`   Score: ${source.composite_score.toFixed(3)} | ${source.source} | ${date}`);
+        console.log(`   Score: ${source.composite_score.toFixed(3)} | ${source.source} (${source.source_type}) | ${date}`);
         console.log(`   ${source.url.substring(0, 70)}...`);
         console.log('');
       });
@@ -229,12 +254,53 @@ async function main() {
       process.exit(1);
     }
 
+    const profile = args.includes('--profile') ? args[args.indexOf('--profile') + 1] : undefined;
+    if (profile && !SCORING_PROFILE_NAMES.includes(profile as ScoringProfileName)) {
+      console.error(`❌ Unknown scoring profile "${profile}". Available: ${SCORING_PROFILE_NAMES.join(', ')}`);
+      process.exit(1);
+    }
+
+    const stateArg = args.includes('--state') ? args[args.indexOf('--state') + 1] : undefined;
+    const states = stateArg ? stateArg.split(',').map(name => resolveStateName(name)) : undefined;
+    if (states && states.some(name => !name)) {
+      console.error(`❌ Unknown state in "${stateArg}". Use Indian state or union territory names, comma separated`);
+      process.exit(1);
+    }
+
+    const topicArg = args.includes('--topic') ? args[args.indexOf('--topic') + 1] : undefined;
+    const topics = topicArg ? topicArg.split(',') : undefined;
+    const unknownTopics = topics ? await new TaxonomyStore().unknownSlugs(topics) : [];
+    if (unknownTopics.length > 0) {
+      console.error(`❌ Unknown topic: ${unknownTopics.join(', ')}. See GET /api/taxonomy for the node slugs`);
+      process.exit(1);
+    }
+
+    const templateSlug = args.includes('--template') ? args[args.indexOf('--template') + 1] : undefined;
+    const templateRegistry = new ReportTemplateRegistry();
+    const template = templateSlug ? await templateRegistry.get(templateSlug) : await templateRegistry.resolve();
+    if (!template) {
+      const available = (await templateRegistry.list()).map(candidate => candidate.slug);
+      console.error(`❌ Unknown template "${templateSlug}". Available: ${available.join(', ')}`);
+      process.exit(1);
+    }
+
+    // Options left out come from the template's source rules
+    const rules = applySourceRules({
+      max_sources: args.includes('--max-sources') ? parseInt(args[args.indexOf('--max-sources') + 1]) || undefined : undefined,
+      time_range_days: args.includes('--days') ? parseInt(args[args.indexOf('--days') + 1]) || undefined : undefined,
+      scoring_profile: profile as ScoringProfileName | undefined,
+      topics
+    }, template);
+
     const options: GenerateOptions = {
       topic,
-      maxSources: args.includes('--max-sources') ? 
-        parseInt(args[args.indexOf('--max-sources') + 1]) || 15 : 15,
-      timeRangeDays: args.includes('--days') ?
-        parseInt(args[args.indexOf('--days') + 1]) || 30 : 30,
+      scoringProfile: rules.scoring_profile,
+      states: states as string[] | undefined,
+      topics: rules.topics,
+      template: template.slug,
+      forceRefresh: args.includes('--refresh'),
+      maxSources: rules.max_sources,
+      timeRangeDays: rules.time_range_days,
       interactive: args.includes('--preview')
     };
 
@@ -259,13 +325,19 @@ function showHelp() {
   console.log('  npm run generate -- --help                 Show this help');
   console.log('');
   console.log('Options:');
-  console.log('  --max-sources N     Maximum number of sources to use (default: 15)');
-  console.log('  --days N            Time range in days to search (default: 30)');
+  console.log('  --max-sources N     Maximum number of sources to use (default: the template\'s, else 15)');
+  console.log('  --days N            Time range in days to search (default: the template\'s, else 30)');
+  console.log(`  --profile NAME      Scoring profile for ranking sources: ${SCORING_PROFILE_NAMES.join(', ')} (default: balanced)`);
+  console.log('  --state NAMES       Only use sources about these states, comma separated (e.g. "Karnataka,Tamil Nadu")');
+  console.log('  --topic SLUGS       Only use sources in these taxonomy nodes, comma separated (e.g. compensation.variable_pay)');
+  console.log('  --template SLUG     Report template, e.g. policy_brief or board_one_pager (default: market_analysis)');
+  console.log('  --refresh           Generate a new report even if a recent one matches the topic and options');
   console.log('  --limit N           Limit for --list command (default: 10)');
   console.log('');
   console.log('Examples:');
   console.log('  npm run generate "attrition trends in India"');
   console.log('  npm run generate "remote work policies" -- --max-sources 20 --days 60');
+  console.log('  npm run generate "Code on Wages rollout" -- --template policy_brief');
   console.log('  npm run generate -- --preview "hiring trends" --max-sources 10');
   console.log('  npm run generate -- --list --limit 5');
 }
@@ -8,6 +8,29 @@ class DatabaseMigrator {
   private schemaPath = path.join(__dirname, '..', 'db', 'schema.sql');
   private rssSchemaPath = path.join(__dirname, '..', 'db', 'rss-schema.sql');
 
+  // Feature schemas that are idempotent and run as a single script
+  private featureSchemas = [
+    { file: 'jobs-schema.sql', label: 'report job queue' },
+    { file: 'feed-health-schema.sql', label: 'RSS feed health' },
+    { file: 'rss-sources-schema.sql', label: 'RSS source registry' },
+    { file: 'scheduler-schema.sql', label: 'RSS collection schedules' },
+    { file: 'feed-fetch-state-schema.sql', label: 'RSS conditional fetch state' },
+    { file: 'language-schema.sql', label: 'multilingual search and translations' },
+    { file: 'content-version-schema.sql', label: 'content change tracking' },
+    { file: 'rss-enrichment-schema.sql', label: 'RSS article enrichment' },
+    { file: 'embeddings-schema.sql', label: 'item embeddings' },
+    { file: 'story-clusters-schema.sql', label: 'story clusters' },
+    { file: 'domain-authority-schema.sql', label: 'domain authority registry' },
+    { file: 'scoring-schema.sql', label: 'scoring versions and rescore runs' },
+    { file: 'facts-schema.sql', label: 'extracted facts' },
+    { file: 'taxonomy-schema.sql', label: 'topic taxonomy' },
+    { file: 'entities-schema.sql', label: 'named entities' },
+    { file: 'citation-verification-schema.sql', label: 'citation verification' },
+    { file: 'report-document-schema.sql', label: 'structured report documents' },
+    { file: 'report-templates-schema.sql', label: 'report templates' },
+    { file: 'report-cache-schema.sql', label: 'report cache' }
+  ];
+
   async migrate(): Promise<void> {
     console.log('🗄️  Starting database migration...');
     
@@ -58,6 +81,8 @@ class DatabaseMigrator {
       
       // Now run RSS schema migration
       await this.migrateRSSSchema();
+
+      await this.migrateFeatureSchemas();
       
       await this.verifyTables();
       
@@ -122,10 +147,30 @@ class DatabaseMigrator {
     }
   }
 
+  async migrateFeatureSchemas(): Promise<void> {
+    for (const { file, label } of this.featureSchemas) {
+      console.log(`🧩 Running ${label} schema migration (${file})...`);
+      const schemaPath = path.join(__dirname, '..', 'db', file);
+
+      if (!fs.existsSync(schemaPath)) {
+        console.log(`⚠️ ${file} not found, skipping`);
+        continue;
+      }
+
+      try {
+        await db.query(fs.readFileSync(schemaPath, 'utf-8'));
+        console.log(`  ✅ ${label} schema ready`);
+      } catch (error) {
+        console.error(`❌ ${label} schema migration failed:`, error);
+        throw error;
+      }
+    }
+  }
+
   async reset(): Promise<void> {
     console.log('🧹 Resetting database (dropping all tables)...');
     
-    const tables = ['citations', 'reports', 'content_items', 'collection_stats', 'rss_articles', 'rss_collection_stats'];
+    const tables = ['report_jobs', 'report_templates', 'report_cache_events', 'report_topic_embeddings', 'rss_feed_health', 'rss_sources', 'rss_feed_schedules', 'rss_feed_fetch_state', 'item_embeddings', 'story_cluster_members', 'story_clusters', 'domain_authorities', 'scoring_runs', 'facts', 'fact_extractions', 'item_topics', 'topic_classifications', 'taxonomy_nodes', 'report_entities', 'item_entities', 'entity_extractions', 'entities', 'citations', 'reports', 'content_items', 'collection_stats', 'rss_articles', 'rss_collection_stats'];
     
     for (const table of tables) {
       try {
@@ -198,7 +243,7 @@ class DatabaseMigrator {
   private async verifyTables(): Promise<void> {
     console.log('\n🔍 Verifying database structure...');
     
-    const expectedTables = ['content_items', 'reports', 'citations', 'collection_stats', 'rss_articles', 'rss_collection_stats'];
+    const expectedTables = ['content_items', 'reports', 'citations', 'collection_stats', 'rss_articles', 'rss_collection_stats', 'report_jobs', 'rss_feed_health', 'rss_sources', 'rss_feed_schedules', 'rss_feed_fetch_state', 'item_embeddings', 'story_clusters', 'story_cluster_members', 'domain_authorities', 'scoring_runs', 'facts', 'fact_extractions', 'taxonomy_nodes', 'item_topics', 'topic_classifications', 'entities', 'item_entities', 'entity_extractions', 'report_entities', 'report_templates', 'report_cache_events', 'report_topic_embeddings'];
     
     for (const table of expectedTables) {
       try {
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+
+import db from '../db/connection';
+import { CURRENT_SCORING_VERSION, SCORING_VERSIONS } from '../config/scoring';
+import { RankMove, Rescorer } from '../scoring/rescorer';
+
+function parseVersion(args: string[]): number {
+  const index = args.indexOf('--version');
+  if (index === -1) return CURRENT_SCORING_VERSION;
+
+  const version = parseInt(args[index + 1] || '');
+  if (!SCORING_VERSIONS[version]) {
+    throw new Error(`Unknown scoring version "${args[index + 1]}"; available: ${Object.keys(SCORING_VERSIONS).join(', ')}`);
+  }
+  return version;
+}
+
+// A recorded domain authority snapshot to reproduce earlier scores with; the current registry otherwise
+function parseAuthorityVersion(args: string[]): string | undefined {
+  const index = args.indexOf('--authorities');
+  if (index === -1) return undefined;
+  if (!args[index + 1]) {
+    throw new Error('--authorities needs a snapshot version, e.g. --authorities 3f9c2a1b7d40');
+  }
+  return args[index + 1];
+}
+
+function formatMove(move: RankMove): string {
+  const oldScore = move.old_score === null ? 'unscored' : move.old_score.toFixed(2);
+  return `#${move.old_rank} -> #${move.new_rank} (${oldScore} -> ${move.new_score.toFixed(2)}) ${move.title}`;
+}
+
+async function main() {
+  try {
+    const args = process.argv.slice(2);
+    const version = parseVersion(args);
+    const { done } = await new Rescorer().begin(version, 'cli', parseAuthorityVersion(args));
+    const run = await done;
+
+    if (run.status !== 'completed' || !run.summary) {
+      throw new Error(run.error || 'Rescore did not complete');
+    }
+
+    const summary = run.summary;
+    console.log(`\n📊 Rescore summary (version ${run.version}, domain authorities ${run.authority_version})`);
+    console.log(`  Items rescored: ${summary.items_rescored} (${Object.entries(summary.by_source_type).map(([type, count]) => `${type}: ${count}`).join(', ')})`);
+    console.log(`  Previously scored by: ${Object.entries(summary.previous_versions).map(([from, count]) => `${from}: ${count}`).join(', ')}`);
+    console.log(`  Mean score change: ${summary.mean_score_change} (mean absolute ${summary.mean_abs_score_change})`);
+    console.log(`  Rank moves: ${summary.moved_up} up, ${summary.moved_down} down, ${summary.rank_unchanged} unchanged`);
+    console.log(`  Top ${summary.top_n} retained: ${summary.top_n_retained}/${summary.top_n}`);
+
+    if (summary.biggest_risers.length > 0) {
+      console.log('\n⬆️ Biggest risers:');
+      summary.biggest_risers.forEach(move => console.log(`  ${formatMove(move)}`));
+    }
+    if (summary.biggest_fallers.length > 0) {
+      console.log('\n⬇️ Biggest fallers:');
+      summary.biggest_fallers.forEach(move => console.log(`  ${formatMove(move)}`));
+    }
+
+    console.log('\n🎯 Rescore complete');
+  } catch (error) {
+    console.error('💥 Rescore failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await db.close();
+    process.exit(0);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,368 @@
+import db from '../db/connection';
+import { ContentItem } from '../types';
+import { SourceItem, SourceRef, SourceSearchOptions, SourceType, WebSourceItem } from '../types/sources';
+import { ContentScorer } from '../scoring/content-scorer';
+import { EmbeddingStore } from '../embeddings/embedding-store';
+import { Translation } from '../llm/translator';
+import { SCORING_PROFILES, ScoringProfile } from '../config/scoring';
+
+// Both branches project the same ContentItem-shaped columns so they can be UNIONed.
+// Scores are cast to float8 so pg returns numbers rather than NUMERIC strings.
+const WEB_COLUMNS = `
+  'content_item' AS source_type,
+  id::text AS id, source, source_url, title, url, content_hash,
+  snippet, full_content, author, published_at, collected_at, categories, language,
+  domain_authority::float8 AS domain_authority,
+  indian_context_score::float8 AS indian_context_score,
+  freshness_score::float8 AS freshness_score,
+  extractability_score::float8 AS extractability_score,
+  composite_score::float8 AS composite_score,
+  has_statistics, has_dates, has_numbers, word_count, scraper_version, processing_notes, states,
+  translated_title, translated_content,
+  ARRAY(SELECT node_slug FROM item_topics it WHERE it.source_type = 'content_item' AND it.item_id = content_items.id ORDER BY confidence DESC) AS topics,
+  NULL::text AS feed_name, NULL::text AS feed_category, NULL::text AS enrichment_status`;
+
+// RSS rows prefer the enriched body, author and date when the enrichment worker succeeded
+const RSS_COLUMNS = `
+  'rss_article' AS source_type,
+  id::text AS id, feed_group AS source, url AS source_url, title, url, content_hash,
+  description AS snippet,
+  COALESCE(full_content, description) AS full_content,
+  COALESCE(enriched_author, author) AS author,
+  COALESCE(enriched_published_at, published_at) AS published_at,
+  collected_at, categories, language,
+  domain_authority::float8 AS domain_authority,
+  indian_context_score::float8 AS indian_context_score,
+  freshness_score::float8 AS freshness_score,
+  extractability_score::float8 AS extractability_score,
+  composite_score::float8 AS composite_score,
+  has_statistics, has_dates, has_numbers, word_count,
+  'rss' AS scraper_version, NULL::text AS processing_notes, states,
+  translated_title, translated_content,
+  ARRAY(SELECT node_slug FROM item_topics it WHERE it.source_type = 'rss_article' AND it.item_id = rss_articles.id ORDER BY confidence DESC) AS topics,
+  feed_name, feed_category, enrichment_status`;
+
+// English translations of regional items are searched too, so English queries find them;
+// language-schema.sql and rss-enrichment-schema.sql index this exact expression
+const TRANSLATION_TSVECTOR = "to_tsvector('english', COALESCE(translated_title, '') || ' ' || left(COALESCE(translated_content, ''), 1000))";
+
+const SOURCE_TYPES: SourceType[] = ['rss_article', 'content_item'];
+const SCORE_FIELDS = ['domain_authority', 'indian_context_score', 'freshness_score', 'extractability_score', 'composite_score'] as const;
+
+// Reciprocal rank fusion constant; 60 is the value from the original RRF paper
+const RRF_K = 60;
+// How many candidates each ranker contributes before fusion
+const MIN_CANDIDATES = 50;
+// Candidates ranked for paginated search; every page and the total are taken from this one pool
+const PAGED_CANDIDATES = 500;
+
+// An item's composite score under a scoring profile, from its stored components; the SQL
+// counterpart of ContentScorer.applyProfile, for ordering candidates before the LIMIT
+function profileScoreSQL(profile: ScoringProfile): string {
+  const { weights, freshness_half_life_days: halfLife } = profile;
+  const freshness = `CASE WHEN published_at IS NULL THEN 0.5
+    ELSE GREATEST(0.1, LEAST(1.0, power(0.5, EXTRACT(EPOCH FROM (now() - published_at)) / 86400 / ${halfLife}))) END`;
+  return `(${weights.domain_authority} * COALESCE(domain_authority, 0) + ${weights.indian_context} * COALESCE(indian_context_score, 0)
+    + ${weights.freshness} * ${freshness} + ${weights.extractability} * COALESCE(extractability_score, 0))`;
+}
+
+// One read path over rss_articles and content_items. Every item carries an explicit
+// source_type, so callers never have to infer where a source came from.
+export class SourceRepository {
+  private scorer: ContentScorer;
+  private embeddings: EmbeddingStore | null;
+
+  constructor(scorer = new ContentScorer(), embeddings: EmbeddingStore | null = EmbeddingStore.fromEnv()) {
+    this.scorer = scorer;
+    this.embeddings = embeddings;
+  }
+
+  // Hybrid search: full-text (ts_rank) and embedding similarity candidates fused with
+  // reciprocal rank fusion, so "attrition" also finds "great resignation" coverage.
+  // Falls back to full-text only when embeddings are disabled or unavailable. With a scoring
+  // profile, the candidates' order under the profile is fused in as a third ranking.
+  async search(query: string, options: SourceSearchOptions = {}): Promise<SourceItem[]> {
+    const limit = options.limit || 20;
+    const ranked = await this.rank(query, options, Math.max(limit * 3, MIN_CANDIDATES));
+    return ranked.slice(0, limit);
+  }
+
+  // One page of hybrid search results. The total counts the ranked pool the page is cut from
+  // (capped at PAGED_CANDIDATES per ranker), so total and page boundaries always agree.
+  async searchPage(query: string, options: SourceSearchOptions & { offset?: number } = {}): Promise<{ items: SourceItem[], total: number }> {
+    const limit = options.limit || 20;
+    const offset = options.offset || 0;
+    const ranked = await this.rank(query, options, PAGED_CANDIDATES);
+    return { items: ranked.slice(offset, offset + limit), total: ranked.length };
+  }
+
+  private async rank(query: string, options: SourceSearchOptions, candidateLimit: number): Promise<SourceItem[]> {
+    const lexical = await this.lexicalSearch(query, { ...options, limit: candidateLimit });
+    const semantic = await this.semanticSearch(query, options, candidateLimit);
+
+    const fused = new Map<string, SourceItem>();
+    const key = (item: { source_type: SourceType, id: string }) => `${item.source_type}:${item.id}`;
+
+    lexical.forEach((item, rank) => {
+      item.hybrid_score = 1 / (RRF_K + rank + 1);
+      fused.set(key(item), item);
+    });
+    semantic.forEach((item, rank) => {
+      const existing = fused.get(key(item));
+      const contribution = 1 / (RRF_K + rank + 1);
+      if (existing) {
+        existing.semantic_similarity = item.semantic_similarity;
+        existing.hybrid_score = (existing.hybrid_score || 0) + contribution;
+      } else {
+        item.hybrid_score = contribution;
+        fused.set(key(item), item);
+      }
+    });
+
+    let items = Array.from(fused.values());
+    if (options.scoringProfile) {
+      const profile = SCORING_PROFILES[options.scoringProfile];
+      items = items
+        .map(item => this.scorer.applyProfile(item, profile))
+        .sort((a, b) => b.composite_score - a.composite_score);
+      items.forEach((item, rank) => {
+        item.hybrid_score = (item.hybrid_score || 0) + 1 / (RRF_K + rank + 1);
+      });
+    }
+
+    return items.sort((a, b) => (b.hybrid_score || 0) - (a.hybrid_score || 0) || b.composite_score - a.composite_score);
+  }
+
+  private async semanticSearch(query: string, options: SourceSearchOptions, k: number): Promise<SourceItem[]> {
+    if (!this.embeddings) return [];
+
+    try {
+      const types = await this.availableTypes(options.sourceTypes || SOURCE_TYPES);
+      const vector = await this.embeddings.embedQuery(query);
+      const matches = await this.embeddings.nearest(vector, types, k);
+
+      const similarity = new Map(matches.map(match => [`${match.source_type}:${match.id}`, match.similarity]));
+      let items = await this.getByRefs(matches);
+
+      if (options.sinceDays) {
+        const cutoff = Date.now() - options.sinceDays * 24 * 3600 * 1000;
+        items = items.filter(item => new Date(item.published_at || item.collected_at).getTime() >= cutoff);
+      }
+      const { states, topics, minScore } = options;
+      if (states?.length) {
+        items = items.filter(item => item.states?.some(state => states.includes(state)));
+      }
+      if (topics?.length) {
+        items = items.filter(item => item.topics?.some(topic => topics.includes(topic)));
+      }
+      // The stored score, as the full-text search filters on
+      if (minScore !== undefined) {
+        items = items.filter(item => item.composite_score >= minScore);
+      }
+
+      return items.map(item => ({ ...item, semantic_similarity: similarity.get(`${item.source_type}:${item.id}`) }));
+    } catch (error) {
+      console.error('⚠️ Semantic search failed, using full-text results only:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  private async lexicalSearch(query: string, options: SourceSearchOptions = {}): Promise<SourceItem[]> {
+    const types = await this.availableTypes(options.sourceTypes || SOURCE_TYPES);
+    if (types.length === 0) return [];
+
+    const values: unknown[] = [query];
+    const recency = (dateColumn: string) => {
+      if (!options.sinceDays) return '';
+      values.push(options.sinceDays);
+      return ` AND ${dateColumn} >= now() - make_interval(days => $${values.length})`;
+    };
+    const inStates = () => {
+      if (!options.states?.length) return '';
+      values.push(options.states);
+      return ` AND states && $${values.length}::text[]`;
+    };
+    const scored = () => {
+      if (options.minScore === undefined) return '';
+      values.push(options.minScore);
+      return ` AND composite_score >= $${values.length}`;
+    };
+    const inTopics = (sourceType: SourceType, table: string) => {
+      if (!options.topics?.length) return '';
+      values.push(options.topics);
+      return ` AND EXISTS (SELECT 1 FROM item_topics it WHERE it.source_type = '${sourceType}' AND it.item_id = ${table}.id AND it.node_slug = ANY($${values.length}::text[]))`;
+    };
+
+    const branches: string[] = [];
+    if (types.includes('content_item')) {
+      branches.push(`
+        SELECT ${WEB_COLUMNS},
+          GREATEST(
+            ts_rank(to_tsvector(text_search_config(language), title || ' ' || COALESCE(snippet, '')), plainto_tsquery(text_search_config(language), $1)),
+            ts_rank(${TRANSLATION_TSVECTOR}, plainto_tsquery('english', $1))
+          ) AS relevance
+        FROM content_items
+        WHERE (to_tsvector(text_search_config(language), title || ' ' || COALESCE(snippet, '')) @@ plainto_tsquery(text_search_config(language), $1)
+          OR ${TRANSLATION_TSVECTOR} @@ plainto_tsquery('english', $1)
+          OR title ILIKE '%' || $1 || '%'
+          OR snippet ILIKE '%' || $1 || '%')${recency('COALESCE(published_at, collected_at)')}${inStates()}${scored()}${inTopics('content_item', 'content_items')}`);
+    }
+    if (types.includes('rss_article')) {
+      branches.push(`
+        SELECT ${RSS_COLUMNS},
+          GREATEST(
+            ts_rank(to_tsvector(text_search_config(language), title || ' ' || COALESCE(description, '')), plainto_tsquery(text_search_config(language), $1)),
+            ts_rank(${TRANSLATION_TSVECTOR}, plainto_tsquery('english', $1))
+          ) AS relevance
+        FROM rss_articles
+        WHERE (to_tsvector(text_search_config(language), title || ' ' || COALESCE(description, '')) @@ plainto_tsquery(text_search_config(language), $1)
+          OR ${TRANSLATION_TSVECTOR} @@ plainto_tsquery('english', $1)
+          OR title ILIKE '%' || $1 || '%'
+          OR description ILIKE '%' || $1 || '%')${recency('COALESCE(enriched_published_at, published_at, collected_at)')}${inStates()}${scored()}${inTopics('rss_article', 'rss_articles')}`);
+    }
+
+    const score = options.scoringProfile ? profileScoreSQL(SCORING_PROFILES[options.scoringProfile]) : 'composite_score';
+    values.push(options.limit || 20);
+    const result = await db.query(`
+      SELECT * FROM (${branches.join('\nUNION ALL\n')}) AS sources
+      ORDER BY relevance DESC, ${score} DESC NULLS LAST, published_at DESC NULLS LAST
+      LIMIT $${values.length}
+    `, values);
+
+    return result.rows.map((row: Record<string, unknown>) => this.toSourceItem(row));
+  }
+
+  async getByRefs(refs: SourceRef[]): Promise<SourceItem[]> {
+    const types = await this.availableTypes(SOURCE_TYPES);
+    const items: SourceItem[] = [];
+
+    for (const type of types) {
+      const ids = refs.filter(ref => ref.source_type === type).map(ref => ref.id);
+      if (ids.length === 0) continue;
+
+      const result = type === 'content_item'
+        ? await db.query(`SELECT ${WEB_COLUMNS} FROM content_items WHERE id = ANY($1::uuid[])`, [ids])
+        : await db.query(`SELECT ${RSS_COLUMNS} FROM rss_articles WHERE id = ANY($1::uuid[])`, [ids]);
+      items.push(...result.rows.map((row: Record<string, unknown>) => this.toSourceItem(row)));
+    }
+
+    // Preserve the caller's order
+    const position = new Map(refs.map((ref, index) => [`${ref.source_type}:${ref.id}`, index]));
+    return items.sort((a, b) => (position.get(`${a.source_type}:${a.id}`) ?? 0) - (position.get(`${b.source_type}:${b.id}`) ?? 0));
+  }
+
+  // Items by id alone, for callers that didn't keep each id's table (e.g. reports.source_ids)
+  async getByIds(ids: string[]): Promise<SourceItem[]> {
+    return this.getByRefs(ids.flatMap(id => SOURCE_TYPES.map(source_type => ({ source_type, id }))));
+  }
+
+  // Persist scored web results (e.g. live Brave search) so they get stable ids that citations can reference
+  async saveWebItems(items: Omit<ContentItem, 'id' | 'collected_at'>[]): Promise<WebSourceItem[]> {
+    const saved: WebSourceItem[] = [];
+    for (const item of items) {
+      try {
+        const row = await db.insertContentItem(item);
+        saved.push(this.toSourceItem({ ...row, source_type: 'content_item' }) as WebSourceItem);
+      } catch (error) {
+        console.error(`⚠️ Failed to save web source ${item.url}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return saved;
+  }
+
+  // Cache an English translation next to the original text. Null records a failed attempt, so the
+  // translation worker moves on; report generation still tries again.
+  async saveTranslation(ref: SourceRef, translation: Translation | null): Promise<void> {
+    await this.availableTypes([ref.source_type]);
+    const table = ref.source_type === 'content_item' ? 'content_items' : 'rss_articles';
+    await db.query(
+      `UPDATE ${table} SET translated_title = $2, translated_content = $3, translated_at = now() WHERE id = $1`,
+      [ref.id, translation?.title ?? null, translation?.content ?? null]
+    );
+  }
+
+  // Regional-language items that haven't been translated yet, newest first. RSS articles wait for
+  // enrichment (or a day), so the full body is translated rather than the feed description.
+  async untranslated(limit: number): Promise<SourceItem[]> {
+    const types = await this.availableTypes(SOURCE_TYPES);
+    const branches: string[] = [];
+    if (types.includes('content_item')) {
+      branches.push(`SELECT ${WEB_COLUMNS} FROM content_items WHERE language <> 'en' AND translated_at IS NULL`);
+    }
+    if (types.includes('rss_article')) {
+      branches.push(`SELECT ${RSS_COLUMNS} FROM rss_articles WHERE language <> 'en' AND translated_at IS NULL
+        AND (enrichment_status <> 'pending' OR collected_at < now() - interval '1 day')`);
+    }
+    if (branches.length === 0) return [];
+
+    const result = await db.query(`
+      SELECT * FROM (${branches.join('\nUNION ALL\n')}) AS sources
+      ORDER BY collected_at DESC
+      LIMIT $1
+    `, [limit]);
+    return result.rows.map((row: Record<string, unknown>) => this.toSourceItem(row));
+  }
+
+  private async availableTypes(requested: SourceType[]): Promise<SourceType[]> {
+    // content_items.states, translations, text_search_config() and item_topics
+    await db.ensureSchema('scoring-schema.sql');
+    await db.ensureSchema('language-schema.sql');
+    await db.ensureSchema('taxonomy-schema.sql');
+    if (!requested.includes('rss_article')) return requested;
+
+    // rss_articles is created lazily on first collection; enrichment adds the columns selected above
+    const result = await db.query("SELECT to_regclass('rss_articles') IS NOT NULL AS exists");
+    if (!result.rows[0].exists) {
+      return requested.filter(type => type !== 'rss_article');
+    }
+    await db.ensureSchema('rss-enrichment-schema.sql');
+    return requested;
+  }
+
+  // pg returns NUMERIC columns as strings; web rows carry NULL RSS-only columns from the UNION
+  private toSourceItem(row: Record<string, unknown>): SourceItem {
+    const fields: Record<string, unknown> = {
+      ...row,
+      relevance: row.relevance !== undefined && row.relevance !== null ? Number(row.relevance) : undefined
+    };
+    if (fields.source_type === 'content_item') {
+      delete fields.feed_name;
+      delete fields.feed_category;
+      delete fields.enrichment_status;
+    }
+
+    const item = fields as unknown as SourceItem;
+    for (const field of SCORE_FIELDS) {
+      if (item[field] !== null && item[field] !== undefined) {
+        item[field] = Number(item[field]);
+      }
+    }
+
+    // Older RSS rows predate ingestion-time scoring; score them from what we have
+    if (item.composite_score === null || item.composite_score === undefined) {
+      const { scored_item } = this.scorer.scoreContent({
+        title: item.title,
+        url: item.url,
+        content: item.full_content || undefined,
+        snippet: item.snippet || undefined,
+        author: item.author || undefined,
+        published_at: item.published_at || undefined
+      }, item.source);
+
+      Object.assign(item, {
+        domain_authority: scored_item.domain_authority,
+        indian_context_score: scored_item.indian_context_score,
+        freshness_score: scored_item.freshness_score,
+        extractability_score: scored_item.extractability_score,
+        composite_score: scored_item.composite_score,
+        has_statistics: scored_item.has_statistics,
+        has_dates: scored_item.has_dates,
+        has_numbers: scored_item.has_numbers,
+        word_count: item.word_count ?? scored_item.word_count,
+        states: scored_item.states
+      });
+    }
+
+    return item;
+  }
+}
@@ -0,0 +1,187 @@
+import { PoolClient } from 'pg';
+import db from '../db/connection';
+import { HR_TAXONOMY, parentSlug } from '../config/hr-taxonomy';
+import { TaxonomyNode, TaxonomyTreeNode, TopicTag } from '../types/taxonomy';
+import { SourceType } from '../types/sources';
+import { TopicClassifier, TOPIC_CLASSIFIER_VERSION } from './topic-classifier';
+
+interface PendingItem {
+  id: string;
+  title: string;
+  text: string | null;
+  content_updated_at: Date;
+}
+
+// Text items are classified from. Like fact extraction, RSS articles wait for the full body
+// unless enrichment has been pending for a day.
+const CLASSIFIED_TEXT: Record<SourceType, { table: string, text: string, ready: string }> = {
+  rss_article: {
+    table: 'rss_articles',
+    text: 'COALESCE(t.full_content, t.description)',
+    ready: "(t.enrichment_status <> 'pending' OR t.collected_at < now() - interval '1 day')"
+  },
+  content_item: {
+    table: 'content_items',
+    text: "COALESCE(NULLIF(t.full_content, ''), t.snippet)",
+    ready: 'TRUE'
+  }
+};
+
+const NODE_COLUMNS = 'slug, name, parent_slug, keywords, created_at, updated_at';
+
+// Only one replica classifies at a time
+const TOPIC_LOCK_KEY = 48151627;
+
+// The HR taxonomy in taxonomy_nodes (seeded from src/config/hr-taxonomy.ts) and the topics
+// assigned to each collected item
+export class TaxonomyStore {
+  private static seeded: Promise<void> | null = null;
+
+  private async ensureReady(): Promise<void> {
+    await db.ensureSchema('taxonomy-schema.sql');
+
+    if (!TaxonomyStore.seeded) {
+      TaxonomyStore.seeded = this.seedFromConfig();
+      TaxonomyStore.seeded.catch(() => { TaxonomyStore.seeded = null; });
+    }
+    await TaxonomyStore.seeded;
+  }
+
+  // Parents come before their children in HR_TAXONOMY
+  private async seedFromConfig(): Promise<void> {
+    let inserted = 0;
+    for (const seed of HR_TAXONOMY) {
+      const result = await db.query(`
+        INSERT INTO taxonomy_nodes (slug, name, parent_slug, keywords)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT DO NOTHING
+      `, [seed.slug, seed.name, parentSlug(seed.slug), seed.keywords]);
+      inserted += result.rowCount || 0;
+    }
+
+    if (inserted > 0) {
+      console.log(`🌱 Seeded ${inserted} taxonomy nodes from configuration`);
+    }
+  }
+
+  async listNodes(): Promise<TaxonomyNode[]> {
+    await this.ensureReady();
+    const result = await db.query(`SELECT ${NODE_COLUMNS} FROM taxonomy_nodes ORDER BY slug`);
+    return result.rows;
+  }
+
+  // Top-level nodes with their children nested, and how many items each is assigned to
+  async tree(): Promise<TaxonomyTreeNode[]> {
+    await this.ensureReady();
+    const result = await db.query(`
+      SELECT n.slug, n.name, n.parent_slug, n.keywords, n.created_at, n.updated_at, COUNT(t.item_id)::int AS item_count
+      FROM taxonomy_nodes n
+      LEFT JOIN item_topics t ON t.node_slug = n.slug
+      GROUP BY n.slug
+      ORDER BY n.slug
+    `);
+
+    const nodes = new Map<string, TaxonomyTreeNode>(
+      result.rows.map((row: TaxonomyNode & { item_count: number }) => [row.slug, { ...row, children: [] }])
+    );
+    const roots: TaxonomyTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parent_slug ? nodes.get(node.parent_slug) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+    return roots;
+  }
+
+  // Slugs that are not in the taxonomy, for validating filters
+  async unknownSlugs(slugs: string[]): Promise<string[]> {
+    const known = new Set((await this.listNodes()).map(node => node.slug));
+    return slugs.filter(slug => !known.has(slug));
+  }
+
+  // Categorise items not yet classified by the current classifier version, or whose text changed
+  // since. Returns how many items were processed and how many topics they were given.
+  async classifyPending(batchSize: number): Promise<{ items: number, topics: number }> {
+    const classifier = new TopicClassifier(await this.listNodes());
+    const types = await this.availableTypes();
+    await db.ensureSchema('content-version-schema.sql');
+
+    const client = await db.getClient();
+    let locked = false;
+    const totals = { items: 0, topics: 0 };
+
+    try {
+      const lock = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [TOPIC_LOCK_KEY]);
+      locked = lock.rows[0].locked;
+      if (!locked) return totals;
+
+      for (const sourceType of types) {
+        const { table, text, ready } = CLASSIFIED_TEXT[sourceType];
+        const pending = await client.query(`
+          SELECT t.id::text AS id, t.title, ${text} AS text, t.content_updated_at
+          FROM ${table} t
+          LEFT JOIN topic_classifications c ON c.source_type = $1 AND c.item_id = t.id
+          WHERE (c.item_id IS NULL OR c.classifier_version < $2 OR c.content_updated_at <> t.content_updated_at) AND ${ready}
+          ORDER BY t.collected_at DESC
+          LIMIT $3
+        `, [sourceType, TOPIC_CLASSIFIER_VERSION, batchSize]);
+
+        for (const item of pending.rows as PendingItem[]) {
+          const topics = classifier.classify(item.title, item.text || '');
+          await this.replaceTopics(client, sourceType, item, topics);
+          totals.items++;
+          totals.topics += topics.length;
+        }
+      }
+
+      return totals;
+    } finally {
+      if (locked) {
+        await client.query('SELECT pg_advisory_unlock($1)', [TOPIC_LOCK_KEY]).catch(() => undefined);
+      }
+      client.release();
+    }
+  }
+
+  private async replaceTopics(client: PoolClient, sourceType: SourceType, item: PendingItem, topics: TopicTag[]): Promise<void> {
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM item_topics WHERE source_type = $1 AND item_id = $2', [sourceType, item.id]);
+
+      if (topics.length > 0) {
+        await client.query(`
+          INSERT INTO item_topics (source_type, item_id, node_slug, confidence)
+          SELECT $1, $2, t.slug, t.confidence
+          FROM unnest($3::text[], $4::real[]) AS t(slug, confidence)
+        `, [sourceType, item.id, topics.map(topic => topic.slug), topics.map(topic => topic.confidence)]);
+      }
+
+      await client.query(`
+        INSERT INTO topic_classifications (source_type, item_id, classifier_version, topic_count, content_updated_at)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (source_type, item_id) DO UPDATE SET
+          classifier_version = EXCLUDED.classifier_version,
+          topic_count = EXCLUDED.topic_count,
+          content_updated_at = EXCLUDED.content_updated_at,
+          classified_at = now()
+      `, [sourceType, item.id, TOPIC_CLASSIFIER_VERSION, topics.length, item.content_updated_at]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private async availableTypes(): Promise<SourceType[]> {
+    // rss_articles is created lazily on first collection
+    const result = await db.query("SELECT to_regclass('rss_articles') IS NOT NULL AS exists");
+    if (!result.rows[0].exists) return ['content_item'];
+
+    await db.ensureSchema('rss-enrichment-schema.sql');
+    return ['rss_article', 'content_item'];
+  }
+}
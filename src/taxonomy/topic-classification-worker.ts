@@ -0,0 +1,29 @@
+import { TaxonomyStore } from './taxonomy-store';
+import { PeriodicWorker } from '../jobs/periodic-worker';
+
+// Background worker that tags newly collected and enriched items with taxonomy topics
+export class TopicClassificationWorker {
+  private worker: PeriodicWorker;
+
+  constructor(
+    store: TaxonomyStore,
+    batchSize = parseInt(process.env.TOPIC_CLASSIFICATION_BATCH_SIZE || '') || 200,
+    intervalMs = parseInt(process.env.TOPIC_CLASSIFICATION_INTERVAL_MS || '') || 60 * 1000
+  ) {
+    this.worker = new PeriodicWorker('Topics', async size => {
+      const { items, topics } = await store.classifyPending(size);
+      if (items > 0) {
+        console.log(`🏷️ [Topics] Assigned ${topics} topics to ${items} items`);
+      }
+    }, batchSize, intervalMs);
+  }
+
+  start(): void {
+    console.log(`🏷️ Starting topic classification (${this.worker.describe()})`);
+    this.worker.start();
+  }
+
+  stop(): void {
+    this.worker.stop();
+  }
+}
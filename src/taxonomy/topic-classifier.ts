@@ -0,0 +1,86 @@
+import { TaxonomySeed, parentSlug } from '../config/hr-taxonomy';
+import { TopicTag } from '../types/taxonomy';
+import { tokenize } from '../scoring/indian-context-classifier';
+
+// Bump when the matching rules change so stored items are categorised again
+export const TOPIC_CLASSIFIER_VERSION = 1;
+
+// A title mention, or two in the body, is enough to tag a node
+export const MIN_TOPIC_CONFIDENCE = 0.5;
+const TITLE_WEIGHT = 2;
+const MAX_TOPICS = 8;
+
+interface IndexedKeyword {
+  tokens: string[];
+  slug: string;
+}
+
+// Tags text with taxonomy nodes by whole-token keyword matches. Confidence grows with the
+// number of mentions (title mentions count double) as 1 - e^(-hits/2), and a parent is
+// tagged with the highest confidence among itself and its children.
+export class TopicClassifier {
+  private index = new Map<string, IndexedKeyword[]>();
+  private slugs: Set<string>;
+
+  constructor(nodes: Pick<TaxonomySeed, 'slug' | 'keywords'>[]) {
+    this.slugs = new Set(nodes.map(node => node.slug));
+
+    for (const node of nodes) {
+      for (const keyword of node.keywords) {
+        const tokens = tokenize(keyword);
+        if (tokens.length === 0) continue;
+
+        const keywords = this.index.get(tokens[0]) || [];
+        keywords.push({ tokens, slug: node.slug });
+        // Longest keyword first, so "gender pay gap" wins over "pay" at the same position
+        keywords.sort((a, b) => b.tokens.length - a.tokens.length);
+        this.index.set(tokens[0], keywords);
+      }
+    }
+  }
+
+  classify(title: string, body = ''): TopicTag[] {
+    const hits = new Map<string, number>();
+    const count = (text: string, weight: number) => {
+      for (const slug of this.match(tokenize(text))) {
+        hits.set(slug, (hits.get(slug) || 0) + weight);
+      }
+    };
+    count(title, TITLE_WEIGHT);
+    count(body, 1);
+
+    const confidences = new Map<string, number>();
+    for (const [slug, weight] of hits) {
+      const confidence = 1 - Math.exp(-weight / 2);
+      for (let node: string | null = slug; node; node = parentSlug(node)) {
+        if (this.slugs.has(node)) {
+          confidences.set(node, Math.max(confidences.get(node) || 0, confidence));
+        }
+      }
+    }
+
+    return Array.from(confidences.entries())
+      .filter(([, confidence]) => confidence >= MIN_TOPIC_CONFIDENCE)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_TOPICS)
+      .map(([slug, confidence]) => ({ slug, confidence: Math.round(confidence * 1000) / 1000 }));
+  }
+
+  private match(tokens: string[]): string[] {
+    const slugs: string[] = [];
+
+    for (let i = 0; i < tokens.length;) {
+      const keyword = (this.index.get(tokens[i]) || [])
+        .find(candidate => candidate.tokens.every((token, offset) => tokens[i + offset] === token));
+
+      if (keyword) {
+        slugs.push(keyword.slug);
+        i += keyword.tokens.length;
+      } else {
+        i++;
+      }
+    }
+
+    return slugs;
+  }
+}
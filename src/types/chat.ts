@@ -1,5 +1,7 @@
 // Chat System Types
 
+import { ScoringProfileName } from '../config/scoring';
+
 export interface ChatSession {
   id: string;
   title: string;
@@ -30,6 +32,19 @@ export interface ChatEvent {
   report?: any;
 }
 
+// What a chat message asked the generator for, kept in the reply's metadata so "refresh" can repeat it
+export interface ChatReportRequest {
+  topic: string;
+  intent: QueryAnalysis['intent'];
+  max_sources: number;
+  time_range_days: number;
+  scoring_profile?: ScoringProfileName;
+  topics?: string[];
+  // Report template slug
+  template?: string;
+  focus_areas: string[];
+}
+
 export interface QueryAnalysis {
   topic: string;
   intent: 'exploratory' | 'factual' | 'comparative' | 'temporal';
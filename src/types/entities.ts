@@ -0,0 +1,60 @@
+import { SourceType } from './sources';
+
+export const ENTITY_TYPES = ['company', 'government_body', 'person', 'location'] as const;
+export type EntityType = typeof ENTITY_TYPES[number];
+
+// 'gazetteer' entities are seeded from src/config/entity-gazetteer.ts, 'llm' ones were found by the LLM pass
+export type EntityOrigin = 'gazetteer' | 'llm';
+
+export interface Entity {
+  id: string;
+  name: string;
+  type: EntityType;
+  // Other names the entity is matched by, e.g. 'TCS' for Tata Consultancy Services
+  aliases: string[];
+  origin: EntityOrigin;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EntitySummary extends Entity {
+  article_count: number;
+  last_mentioned_at: Date | null;
+}
+
+// An entity found in an item's text
+export interface EntityMention {
+  entity_id: string;
+  mentions: number;
+}
+
+// A name the LLM pass found, before it is resolved to an entity
+export interface NamedEntity {
+  name: string;
+  type: EntityType;
+}
+
+export interface EntityArticle {
+  source_type: SourceType;
+  id: string;
+  title: string;
+  url: string;
+  source: string;
+  published_at: Date | null;
+  mentions: number;
+}
+
+// An entity discussed by a report's sources
+export interface ReportEntity {
+  id: string;
+  name: string;
+  type: EntityType;
+  source_count: number;
+}
+
+export interface EntityQueryOptions {
+  type?: EntityType;
+  // Matches the name or any alias, ignoring case
+  q?: string;
+  limit?: number;
+}
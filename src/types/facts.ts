@@ -0,0 +1,44 @@
+import { SourceType } from './sources';
+
+// '%' for rates, '₹'/'$' for money (value in rupees/dollars), 'count' for people, jobs etc.
+export const FACT_UNITS = ['%', '₹', '$', 'count'] as const;
+export type FactUnit = typeof FACT_UNITS[number];
+
+// A statistic pulled from an item's text; value is normalised (1.5 lakh -> 150000)
+export interface ExtractedFact {
+  metric: string;
+  value: number;
+  unit: FactUnit;
+  // The number as written, e.g. "₹1.5 lakh"
+  raw_value: string;
+  period: string | null;
+  geography: string | null;
+  sector: string | null;
+  sentence: string;
+}
+
+export interface Fact extends ExtractedFact {
+  id: string;
+  source_type: SourceType;
+  item_id: string;
+  published_at: Date | null;
+  extracted_at: Date;
+}
+
+export interface FactSource {
+  title: string;
+  url: string;
+  source: string;
+  feed_name?: string;
+}
+
+export interface FactQueryOptions {
+  metric?: string;
+  sector?: string;
+  geography?: string;
+  period?: string;
+  unit?: FactUnit;
+  // Only facts from items published within this many days
+  days?: number;
+  limit?: number;
+}
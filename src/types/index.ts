@@ -1,5 +1,10 @@
 // Core types for HR Research Platform
 
+import { ScoringProfileName } from '../config/scoring';
+import { LanguageCode } from '../config/languages';
+import { ReportEntity } from './entities';
+import { ReportDocument } from './report-document';
+
 export interface ContentItem {
   id: string;
   source: string;
@@ -31,6 +36,15 @@ export interface ContentItem {
   // Metadata
   scraper_version: string;
   processing_notes?: string;
+  scoring_version?: number;
+  score_explanation?: ScoringExplanation;
+  // Indian states and union territories the item mentions (directly or via a city)
+  states?: string[];
+  // English translation of a non-English item, cached on first use in a report
+  translated_title?: string | null;
+  translated_content?: string | null;
+  // Taxonomy node slugs from item_topics, most confident first (see src/config/hr-taxonomy.ts)
+  topics?: string[];
 }
 
 export interface Report {
@@ -50,6 +64,16 @@ export interface Report {
   created_at: Date;
   generation_time_ms?: number;
   source_ids: string[];
+  // Entities the sources discuss, kept in report_entities
+  entities?: ReportEntity[];
+  // Cited sentences their sources don't support, from flagged citations
+  flagged_claims?: FlaggedClaim[];
+  // Claims citing a source number the report doesn't have; also listed in flagged_claims
+  invalid_citations?: FlaggedClaim[];
+  // Structured form of content; null for reports saved before documents were stored
+  document?: ReportDocument | null;
+  // Slug of the report template it was generated with; null for reports from before templates
+  template?: string | null;
 }
 
 export interface Citation {
@@ -63,6 +87,22 @@ export interface Citation {
   // New fields for flexible source referencing
   source_type?: 'content_item' | 'rss_article';
   source_id?: string;
+  // How well the source supports the citing sentence (0-1), set by CitationVerifier
+  support_score?: number | null;
+  flagged?: boolean;
+  flag_reasons?: string[];
+}
+
+// A report sentence whose cited source doesn't back it up
+export interface FlaggedClaim {
+  // Null when the claim cites a source number the report doesn't have
+  citation_number: number | null;
+  // The N of the claim's [Source N] marker
+  source_number?: number;
+  claim: string;
+  source_title?: string;
+  support_score: number | null;
+  reasons: string[];
 }
 
 export interface CollectionStats {
@@ -86,6 +126,8 @@ export interface RawContentItem {
   author?: string;
   published_at?: Date;
   categories?: string[];
+  // Declared language, e.g. the feed's; the scorer checks it against the text
+  language?: LanguageCode;
 }
 
 // Scoring components
@@ -96,16 +138,62 @@ export interface ScoringComponents {
   extractability: number;
 }
 
+// Weight of each component in the composite score
+export type ScoringWeights = ScoringComponents;
+
+// Why an item got its scores, persisted alongside them
+export interface ScoringExplanation {
+  version: number;
+  weights: ScoringWeights;
+  domain_authority: {
+    host: string;
+    pattern: string | null;
+    tier: string | null;
+    score: number;
+    // Domain authority snapshot the score came from; absent on explanations recorded before snapshots
+    registry_version?: string;
+  };
+  indian_context: {
+    matched_keywords: Record<string, number>;
+    keyword_density: number;
+    boosts: string[];
+    states: string[];
+    score: number;
+  };
+  freshness: {
+    published_at: string | null;
+    age_days: number | null;
+    half_life_days: number;
+    score: number;
+  };
+  extractability: {
+    patterns: string[];
+    score: number;
+  };
+  composite_score: number;
+  scored_at: string;
+}
+
 // API response types
 export interface GenerateReportRequest {
   topic: string;
   max_sources?: number;
   time_range_days?: number;
+  // Named profile from SCORING_PROFILES in src/config/scoring.ts; defaults to 'balanced'
+  scoring_profile?: ScoringProfileName;
+  // Only sources tagged with one of these states or union territories, e.g. ['Karnataka']
+  states?: string[];
+  // Only sources tagged with one of these taxonomy nodes, e.g. ['compensation.variable_pay']
+  topics?: string[];
+  // Report template slug, e.g. 'policy_brief'; its source rules fill in the fields left out
+  template?: string;
 }
 
 export interface GenerateReportResponse {
-  report_id: string;
-  status: 'generating' | 'completed' | 'failed';
+  job_id: string;
+  report_id?: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  status_url: string;
   pdf_url?: string;
   message?: string;
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+// Report Job Queue Types
+
+import { ScoringProfileName } from '../config/scoring';
+
+export type ReportJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type ReportJobType = 'standard' | 'deep_dive' | 'section';
+
+export type ReportJobStage =
+  | 'queued'
+  | 'collecting'
+  | 'searching'
+  // Single-prompt synthesis, before it was split into the two stages below
+  | 'synthesizing'
+  | 'extracting_evidence'
+  | 'drafting_sections'
+  | 'summarizing'
+  | 'saving'
+  | 'rendering_pdf'
+  | 'complete';
+
+export interface ReportJobParams {
+  topic: string;
+  max_sources: number;
+  time_range_days: number;
+  scoring_profile?: ScoringProfileName;
+  states?: string[];
+  topics?: string[];
+  // Report template slug; the template's source rules are already applied to the fields above
+  template?: string;
+  // Generate a new report even if a recent one matches
+  force_refresh?: boolean;
+}
+
+// A 'section' job redrafts one section of a saved report from that report's own sources
+export interface SectionJobParams {
+  // The report's topic, for logs and job status
+  topic: string;
+  report_id: string;
+  section_id: string;
+}
+
+export interface ReportJobStageEntry {
+  stage: ReportJobStage;
+  percentage: number;
+  message?: string;
+  at: string;
+}
+
+export interface ReportJob {
+  id: string;
+  job_type: ReportJobType;
+  status: ReportJobStatus;
+  params: ReportJobParams | SectionJobParams;
+  stage: ReportJobStage;
+  percentage: number;
+  message: string | null;
+  stage_history: ReportJobStageEntry[];
+  report_id: string | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  attempts: number;
+  max_attempts: number;
+  cancel_requested: boolean;
+  worker_id: string | null;
+  heartbeat_at: Date | null;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
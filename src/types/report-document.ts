@@ -0,0 +1,67 @@
+// Structured report model: what generation produces, what reports.document stores, and what the
+// HTML, PDF and chat renderers consume. `content` stays as its markdown rendering.
+
+export const REPORT_DOCUMENT_VERSION = 1;
+
+// The executive summary is the document's first section
+export const EXECUTIVE_SUMMARY_SECTION_ID = 'executive-summary';
+
+export interface TextSpan {
+  type: 'text';
+  text: string;
+  bold?: boolean;
+}
+
+// A [Source N] marker. citation_number is the citation's position in the report (its row in
+// citations); flagged is set when the cited source doesn't support the sentence. invalid marks a
+// marker citing a source number the report doesn't have: it is always flagged and has no
+// citation_number.
+export interface CitationSpan {
+  type: 'citation';
+  source_number: number;
+  citation_number?: number;
+  flagged?: boolean;
+  invalid?: boolean;
+}
+
+export type DocumentSpan = TextSpan | CitationSpan;
+
+export interface ParagraphBlock {
+  type: 'paragraph';
+  spans: DocumentSpan[];
+}
+
+export interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  items: DocumentSpan[][];
+}
+
+export interface TableBlock {
+  type: 'table';
+  header: DocumentSpan[][];
+  rows: DocumentSpan[][][];
+}
+
+// A bar chart of figures quoted in the section, all in one unit
+export interface FigureBlock {
+  type: 'figure';
+  caption: string;
+  unit: string;
+  data: { label: string, value: number, source_number?: number }[];
+}
+
+export type DocumentBlock = ParagraphBlock | ListBlock | TableBlock | FigureBlock;
+
+export interface DocumentSection {
+  // Slug of the title, e.g. 'key-findings'
+  id: string;
+  title: string;
+  blocks: DocumentBlock[];
+}
+
+export interface ReportDocument {
+  version: number;
+  title: string;
+  sections: DocumentSection[];
+}
@@ -0,0 +1,50 @@
+import { ContentItem } from './index';
+import { ScoringProfileName } from '../config/scoring';
+
+// Which table a source lives in; carried through to citations.source_type
+export type SourceType = 'rss_article' | 'content_item';
+
+// Ranking signals attached by SourceRepository.search
+export interface SearchScores {
+  // Full-text ts_rank
+  relevance?: number;
+  // Cosine similarity between query and item embeddings
+  semantic_similarity?: number;
+  // Reciprocal rank fusion of the two rankings
+  hybrid_score?: number;
+}
+
+// An article from an RSS feed (rss_articles)
+export interface RSSSourceItem extends ContentItem, SearchScores {
+  source_type: 'rss_article';
+  feed_name: string;
+  feed_category: string;
+  enrichment_status: 'pending' | 'enriched' | 'failed';
+}
+
+// A scraped web page, e.g. from Brave search (content_items)
+export interface WebSourceItem extends ContentItem, SearchScores {
+  source_type: 'content_item';
+}
+
+export type SourceItem = RSSSourceItem | WebSourceItem;
+
+export interface SourceSearchOptions {
+  limit?: number;
+  // Only items published (or collected, when undated) within this many days
+  sinceDays?: number;
+  sourceTypes?: SourceType[];
+  minScore?: number;
+  // Only items tagged with at least one of these states (canonical names, e.g. 'Karnataka')
+  states?: string[];
+  // Only items tagged with at least one of these taxonomy nodes, e.g. 'compensation.variable_pay'
+  topics?: string[];
+  // Rank with this profile's weights and freshness half-life, e.g. temporal questions favour this
+  // week's coverage; composite_score on the results is the profile's
+  scoringProfile?: ScoringProfileName;
+}
+
+export interface SourceRef {
+  source_type: SourceType;
+  id: string;
+}
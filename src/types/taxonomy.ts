@@ -0,0 +1,21 @@
+export interface TaxonomyNode {
+  // Dotted path, e.g. 'compensation.variable_pay'
+  slug: string;
+  name: string;
+  parent_slug: string | null;
+  keywords: string[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TaxonomyTreeNode extends TaxonomyNode {
+  // Items tagged with this node (children's items are also tagged with their parent)
+  item_count: number;
+  children: TaxonomyTreeNode[];
+}
+
+// A taxonomy node assigned to an item, with the classifier's confidence (0-1)
+export interface TopicTag {
+  slug: string;
+  confidence: number;
+}
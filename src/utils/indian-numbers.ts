@@ -0,0 +1,41 @@
+// Parsing of numbers as Indian sources write them: lakh/crore scales, Indian digit grouping
+// (1,50,000) and ₹/Rs./INR amounts.
+
+export const NUMBER_SCALES: Record<string, number> = {
+  thousand: 1e3,
+  k: 1e3,
+  lakh: 1e5,
+  lakhs: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  crore: 1e7,
+  crores: 1e7,
+  cr: 1e7,
+  million: 1e6,
+  mn: 1e6,
+  billion: 1e9,
+  bn: 1e9,
+  trillion: 1e12
+};
+
+// Scale words as a regex alternation, longest first so "lakhs" wins over "lakh"
+export const SCALE_PATTERN = Object.keys(NUMBER_SCALES)
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+const NUMBER_WITH_SCALE = new RegExp(`^\\s*([\\d,]*\\.?\\d+)\\s*(${SCALE_PATTERN})?\\.?\\s*$`, 'i');
+
+// "1.5 lakh" -> 150000, "2,300 crore" -> 23000000000, "1,50,000" -> 150000, "₹12 lakh" -> 1200000.
+// Returns null for anything that isn't a single number with an optional scale word.
+export function parseIndianNumber(text: string): number | null {
+  const stripped = text.replace(/^\s*(?:₹|rs\.?|inr|\$|usd)\s*/i, '');
+  const match = stripped.match(NUMBER_WITH_SCALE);
+  if (!match) return null;
+
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  if (isNaN(value)) return null;
+
+  const scale = match[2] ? NUMBER_SCALES[match[2].toLowerCase()] : 1;
+  // Avoid float noise such as 1.1 * 1e5 = 110000.00000000001
+  return Math.round(value * scale * 1e6) / 1e6;
+}
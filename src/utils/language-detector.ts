@@ -0,0 +1,44 @@
+import { LANGUAGES, LanguageCode } from '../config/languages';
+
+// Script of each language, as a Unicode script property name
+const SCRIPT_PATTERNS: { script: string, pattern: RegExp }[] = [
+  'Latin', 'Devanagari', 'Bengali', 'Gujarati', 'Gurmukhi', 'Oriya', 'Tamil', 'Telugu', 'Kannada', 'Malayalam'
+].map(script => ({ script, pattern: new RegExp(`\\p{Script=${script}}`, 'gu') }));
+
+// Frequent words that appear in one of the two Devanagari languages but not the other
+const HINDI_MARKERS = ['है', 'हैं', 'और', 'में', 'का', 'की', 'को', 'से', 'लिए', 'था', 'गया', 'करने'];
+const MARATHI_MARKERS = ['आहे', 'आहेत', 'आणि', 'मध्ये', 'च्या', 'साठी', 'होते', 'केले', 'झाले', 'नाही', 'करण्यात'];
+
+// Fewer letters than this and we trust the hint over the text
+const MIN_LETTERS = 12;
+// English words and acronyms are common in regional coverage ("EPFO", "IT"), so an Indic
+// script only has to make up this share of the letters to win
+const INDIC_SHARE = 0.3;
+
+// Language of a piece of text by its dominant script. `hint` (usually the feed's declared
+// language) breaks ties such as Hindi vs Marathi and covers text too short to judge.
+export function detectLanguage(text: string, hint: LanguageCode = 'en'): LanguageCode {
+  const counts = SCRIPT_PATTERNS.map(({ script, pattern }) => ({
+    script,
+    letters: (text.match(pattern) || []).length
+  }));
+  const total = counts.reduce((sum, count) => sum + count.letters, 0);
+  if (total < MIN_LETTERS) return hint;
+
+  const indic = counts
+    .filter(count => count.script !== 'Latin')
+    .sort((a, b) => b.letters - a.letters)[0];
+  if (indic.letters / total < INDIC_SHARE) return 'en';
+
+  if (LANGUAGES[hint].script === indic.script) return hint;
+  if (indic.script === 'Devanagari') return devanagariLanguage(text);
+
+  const match = (Object.keys(LANGUAGES) as LanguageCode[]).find(code => LANGUAGES[code].script === indic.script);
+  return match || hint;
+}
+
+function devanagariLanguage(text: string): LanguageCode {
+  const words = text.split(/[\s\p{P}]+/u);
+  const count = (markers: string[]) => words.filter(word => markers.includes(word)).length;
+  return count(MARATHI_MARKERS) > count(HINDI_MARKERS) ? 'mr' : 'hi';
+}
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as cheerio from 'cheerio';
+import { normalizeUrl, decodeGoogleNewsUrl, getCanonicalUrl } from './url-normalizer';
+
+// Old-style Google News id: a base64url protobuf with the publisher URL inside
+function googleNewsUrl(publisherUrl: string): string {
+  const id = Buffer.from(`\x08\x13"${String.fromCharCode(publisherUrl.length)}${publisherUrl}\xd2\x01\x00`, 'latin1').toString('base64url');
+  return `https://news.google.com/rss/articles/${id}?oc=5`;
+}
+
+describe('normalizeUrl', () => {
+  it('lowercases the host and drops the fragment, default port and trailing slash', () => {
+    assert.equal(normalizeUrl(' HTTPS://HR.EconomicTimes.com:443/news/story/#top '), 'https://hr.economictimes.com/news/story');
+  });
+
+  it('strips utm, click id and publisher campaign parameters', () => {
+    assert.equal(
+      normalizeUrl('https://example.com/a?utm_source=rss&utm_medium=feed&gclid=abc&fbclid=def&cmpid=x&id=7'),
+      'https://example.com/a?id=7'
+    );
+  });
+
+  it('keeps generic parameters that can identify the page', () => {
+    assert.equal(normalizeUrl('https://example.com/a?ref=42&from=2024&oc=3'), 'https://example.com/a?from=2024&oc=3&ref=42');
+  });
+
+  it('sorts the remaining parameters', () => {
+    assert.equal(normalizeUrl('https://example.com/a?page=2&id=7'), normalizeUrl('https://example.com/a?id=7&page=2'));
+  });
+
+  it('returns unparseable and non-http input trimmed', () => {
+    assert.equal(normalizeUrl(' not a url '), 'not a url');
+    assert.equal(normalizeUrl('mailto:hr@example.com'), 'mailto:hr@example.com');
+  });
+});
+
+describe('decodeGoogleNewsUrl', () => {
+  it('reads the publisher URL out of an old-style id', () => {
+    assert.equal(decodeGoogleNewsUrl(googleNewsUrl('https://example.com/news/layoffs-2024')), 'https://example.com/news/layoffs-2024');
+  });
+
+  it('returns null for ids with no URL inside and for other hosts', () => {
+    assert.equal(decodeGoogleNewsUrl('https://news.google.com/rss/articles/CBMiAU_yqLMopaque'), null);
+    assert.equal(decodeGoogleNewsUrl('https://example.com/rss/articles/abc'), null);
+  });
+});
+
+describe('getCanonicalUrl', () => {
+  const page = 'https://www.example.co.in/news/story-1?utm_source=rss';
+  const canonical = (head: string) => getCanonicalUrl(cheerio.load(`<html><head>${head}</head></html>`), page);
+
+  it('resolves and normalises a canonical link on the same site', () => {
+    assert.equal(canonical('<link rel="canonical" href="/news/story-1/">'), 'https://www.example.co.in/news/story-1');
+    assert.equal(canonical('<link rel="canonical" href="https://m.example.co.in/news/story-1">'), 'https://m.example.co.in/news/story-1');
+  });
+
+  it('falls back to og:url', () => {
+    assert.equal(canonical('<meta property="og:url" content="https://www.example.co.in/news/story-1">'), 'https://www.example.co.in/news/story-1');
+  });
+
+  it('ignores canonicals to other sites, the home page or non-http schemes', () => {
+    assert.equal(canonical('<link rel="canonical" href="https://other.co.in/news/story-1">'), null);
+    assert.equal(canonical('<link rel="canonical" href="https://www.example.co.in/">'), null);
+    assert.equal(canonical('<link rel="canonical" href="javascript:alert(1)">'), null);
+    assert.equal(canonical(''), null);
+  });
+});
@@ -0,0 +1,173 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+
+// Click ids, analytics and known publisher campaign parameters, which never identify the article.
+// Generic names like ref, from or oc are left alone: some sites route on them.
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'igshid', 'mc_cid', 'mc_eid',
+  '_ga', '_gl', 'ref_src', 'ref_url', 'cmpid', 'ncid', 'ocid', 'spm', 'sr_share'
+]);
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'hsa_'];
+
+const GOOGLE_NEWS_HOST = 'news.google.com';
+const GOOGLE_NEWS_BATCH_URL = 'https://news.google.com/_/DotsSplashUi/data/batchexecute';
+
+// Resolved Google News article ids, so a story listed by several feeds is looked up once
+const resolvedGoogleNewsIds = new Map<string, string>();
+const MAX_RESOLVED_CACHE = 5000;
+
+// Each lookup is two requests to Google; at most this many run at once in a process
+// (GOOGLE_NEWS_RESOLVE_CONCURRENCY)
+const MAX_CONCURRENT_LOOKUPS = parseInt(process.env.GOOGLE_NEWS_RESOLVE_CONCURRENCY || '') || 2;
+let activeLookups = 0;
+const waitingLookups: (() => void)[] = [];
+
+// Canonical form used for storage and deduplication: lowercase scheme and host, no default
+// port, fragment or tracking parameters, remaining parameters sorted, no trailing slash.
+// Unparseable input is returned trimmed.
+export function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return url.trim();
+  }
+
+  parsed.hash = '';
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !isTrackingParam(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+
+  // URL already lowercases the scheme and host and drops default ports
+  return parsed.toString();
+}
+
+function isTrackingParam(key: string): boolean {
+  const lower = key.toLowerCase();
+  return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix));
+}
+
+export function isGoogleNewsUrl(url: string): boolean {
+  return getGoogleNewsId(url) !== null;
+}
+
+function getGoogleNewsId(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname.toLowerCase() !== GOOGLE_NEWS_HOST) return null;
+    const match = parsed.pathname.match(/^\/(?:rss\/)?articles\/([^/]+)/);
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+// Older Google News ids are base64 protobufs with the publisher URL inside; newer ("AU_yqL...")
+// ids are opaque and need resolveGoogleNewsUrl. Returns null when the id can't be decoded offline.
+export function decodeGoogleNewsUrl(url: string): string | null {
+  const id = getGoogleNewsId(url);
+  if (!id) return null;
+
+  const decoded = Buffer.from(id.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('latin1');
+  const match = decoded.match(/https?:\/\/[\x21-\x7e]+/);
+  return match ? match[0] : null;
+}
+
+// Publisher URL behind a Google News link. Non-Google-News URLs and lookups that fail come back unchanged.
+export async function resolveGoogleNewsUrl(url: string): Promise<string> {
+  const id = getGoogleNewsId(url);
+  if (!id) return url;
+
+  const offline = decodeGoogleNewsUrl(url);
+  if (offline) return offline;
+
+  const cached = resolvedGoogleNewsIds.get(id);
+  if (cached) return cached;
+
+  while (activeLookups >= MAX_CONCURRENT_LOOKUPS) {
+    await new Promise<void>(resolve => waitingLookups.push(resolve));
+  }
+  activeLookups++;
+
+  try {
+    // The article page carries the signature and timestamp the batchexecute endpoint needs
+    const page = await axios.get(`https://${GOOGLE_NEWS_HOST}/articles/${id}`, {
+      timeout: 10000,
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; HRResearchBot/1.0)' }
+    });
+    const $ = cheerio.load(page.data);
+    const signature = $('[data-n-a-sg]').first().attr('data-n-a-sg');
+    const timestamp = $('[data-n-a-ts]').first().attr('data-n-a-ts');
+    if (!signature || !timestamp) {
+      throw new Error('Google News page has no decoding parameters');
+    }
+
+    const request = [
+      'garturlreq',
+      [['X', 'X', ['X', 'X'], null, null, 1, 1, 'US:en', null, 1, null, null, null, null, null, 0, 1], 'X', 'X', 1, [1, 1, 1], 1, 1, null, 0, 0, null, 0],
+      id,
+      Number(timestamp),
+      signature
+    ];
+    const response = await axios.post(
+      GOOGLE_NEWS_BATCH_URL,
+      new URLSearchParams({ 'f.req': JSON.stringify([[['Fbv4je', JSON.stringify(request), null, 'generic']]]) }).toString(),
+      {
+        timeout: 10000,
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded;charset=UTF-8' },
+        responseType: 'text'
+      }
+    );
+
+    const match = String(response.data).match(/garturlres\\",\\"(https?:[^\\"]+)\\"/);
+    if (!match) {
+      throw new Error('Unexpected batchexecute response');
+    }
+
+    if (resolvedGoogleNewsIds.size >= MAX_RESOLVED_CACHE) {
+      resolvedGoogleNewsIds.clear();
+    }
+    resolvedGoogleNewsIds.set(id, match[1]);
+    return match[1];
+  } catch (error) {
+    console.error(`⚠️ Could not resolve Google News link ${url}:`, error instanceof Error ? error.message : error);
+    return url;
+  } finally {
+    activeLookups--;
+    waitingLookups.shift()?.();
+  }
+}
+
+// <link rel="canonical"> (or og:url) of a page, when it points at another page on the same site.
+// Canonicals to other sites or to the home page are usually CMS mistakes and are ignored.
+export function getCanonicalUrl($: cheerio.CheerioAPI, pageUrl: string): string | null {
+  const href = $('link[rel="canonical"]').attr('href') || $('meta[property="og:url"]').attr('content');
+  if (!href) return null;
+
+  try {
+    const page = new URL(pageUrl);
+    const canonical = new URL(href.trim(), page);
+    if (canonical.protocol !== 'http:' && canonical.protocol !== 'https:') return null;
+    if (siteOf(canonical.hostname) !== siteOf(page.hostname)) return null;
+    if (canonical.pathname === '/' && page.pathname !== '/') return null;
+    return normalizeUrl(canonical.toString());
+  } catch {
+    return null;
+  }
+}
+
+// Registrable domain, roughly: the last two labels, or three under second-level suffixes like .co.in
+function siteOf(hostname: string): string {
+  const labels = hostname.toLowerCase().split('.');
+  const secondLevel = ['co', 'com', 'gov', 'nic', 'org', 'net', 'ac', 'edu', 'res'];
+  const size = labels.length > 2 && secondLevel.includes(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-size).join('.');
+}